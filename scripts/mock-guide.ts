@@ -0,0 +1,91 @@
+// Stand-in for the Gemini generateContent endpoint, so the guide panel can be
+// developed and tested offline. Replies are canned and keyed on words in the
+// question; each one carries a suggestion so the apply buttons can be tried.
+//
+//   npm run mock:guide -- --port 8787
+//   GEMINI_BASE_URL=http://localhost:8787 npm run dev
+
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import type { GuideReply } from '../src/lib/guide';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8787' },
+    // Milliseconds to wait before answering, to exercise the loading state
+    delay: { type: 'string', default: '500' },
+  },
+});
+
+const REPLIES: { match: RegExp; reply: GuideReply }[] = [
+  {
+    match: /x-?ray|wavelength|radio|infrared/i,
+    reply: {
+      answer: 'Different bands pick out different gas: X-rays come from the hottest inner disk, radio from cooler, extended material.',
+      suggestions: [{ label: 'Switch to X-ray', changes: { wavelength: 1, viewMode: 'classic' } }],
+    },
+  },
+  {
+    match: /jet/i,
+    reply: {
+      answer: 'Jets are launched along the spin axis and are best seen from the side.',
+      suggestions: [{ label: 'Side view with jets', changes: { showJets: true, cameraAngleX: 0.1, cameraDistance: 40 } }],
+    },
+  },
+  {
+    match: /fall|horizon|dilation/i,
+    reply: {
+      answer: 'A falling observer reaches the horizon in finite proper time, while a distant clock never sees it happen.',
+      suggestions: [{ label: 'Fall in from 20 Rs', changes: { observer: 'infall', cameraDistance: 20 } }],
+    },
+  },
+];
+
+const FALLBACK: GuideReply = {
+  answer: 'This is the mock guide. Ask about wavelengths, jets or falling in to get a suggestion.',
+  suggestions: [{ label: 'Show spacetime curvature', changes: { viewMode: 'gravity' } }],
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Text of the last message, after the scene description
+function questionOf(body: unknown): string {
+  const contents = isObject(body) && Array.isArray(body.contents) ? body.contents as unknown[] : [];
+  const last = contents[contents.length - 1];
+  const parts = isObject(last) && Array.isArray(last.parts) ? last.parts as unknown[] : [];
+  const text = parts.map(p => (isObject(p) && typeof p.text === 'string' ? p.text : '')).join('');
+  return text.split('Question:').pop() ?? '';
+}
+
+const server = createServer((req, res) => {
+  if (req.method !== 'POST' || !/:generateContent$/.test(req.url?.split('?')[0] ?? '')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 404, message: `No mock for ${req.method} ${req.url}`, status: 'NOT_FOUND' } }));
+    return;
+  }
+
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    let body: unknown = null;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      // An unreadable request gets the fallback reply
+    }
+    const question = questionOf(body);
+    const reply = REPLIES.find(r => r.match.test(question))?.reply ?? FALLBACK;
+    console.log(`Q: ${question.trim()}`);
+    setTimeout(() => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(reply) }] }, finishReason: 'STOP' }],
+      }));
+    }, Number(values.delay));
+  });
+});
+
+server.listen(Number(values.port), () => {
+  console.log(`Mock guide on http://localhost:${values.port}`);
+});
@@ -0,0 +1,70 @@
+// Renders a CPU reference image of the simulation, optionally diffing it
+// against a PNG captured from the WebGPU canvas.
+//
+//   npm run render:reference -- --width 320 --height 180 --out reference.png
+//   npm run render:reference -- --state scene.json --compare gpu.png --diff-out diff.png
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { deflateSync, inflateSync } from 'node:zlib';
+import { DEFAULT_STATE, SimulationState } from '../src/lib/renderer';
+import { renderReference, diffImages } from '../src/lib/reference';
+import { encodePNG, decodePNG } from '../src/lib/png';
+import { createSkyImage } from '../src/lib/skybox';
+
+const { values } = parseArgs({
+  options: {
+    width: { type: 'string', default: '320' },
+    height: { type: 'string', default: '180' },
+    // Defaults to the state's simulationTime
+    time: { type: 'string' },
+    state: { type: 'string' },
+    out: { type: 'string', default: 'reference.png' },
+    compare: { type: 'string' },
+    'diff-out': { type: 'string' },
+    tolerance: { type: 'string', default: '8' },
+    // Equirectangular PNG for the 'panorama' background
+    sky: { type: 'string' },
+  },
+});
+
+const state: SimulationState = values.state
+  ? { ...DEFAULT_STATE, ...JSON.parse(readFileSync(values.state, 'utf8')) }
+  : DEFAULT_STATE;
+const time = values.time !== undefined ? Number(values.time) : state.simulationTime;
+const deflate = (data: Uint8Array) => new Uint8Array(deflateSync(data));
+const inflate = (data: Uint8Array) => new Uint8Array(inflateSync(data));
+
+let width = Number(values.width);
+let height = Number(values.height);
+const other = values.compare ? decodePNG(readFileSync(values.compare), inflate) : null;
+if (other) {
+  width = other.width;
+  height = other.height;
+}
+
+let sky = null;
+if (values.sky) {
+  const png = decodePNG(readFileSync(values.sky), inflate);
+  sky = createSkyImage(png.pixels, png.width, png.height, values.sky);
+}
+
+const started = performance.now();
+const image = renderReference(state, width, height, { time, sky });
+console.log(`Rendered ${width}x${height} in ${((performance.now() - started) / 1000).toFixed(1)}s`);
+
+writeFileSync(values.out, encodePNG(image.pixels, width, height, {
+  deflate,
+  text: { 'ton618:state': JSON.stringify(state), 'ton618:time': String(time) },
+}));
+console.log(`Wrote ${values.out}`);
+
+if (other) {
+  const diff = diffImages(image, other, Number(values.tolerance));
+  console.log(`max diff ${diff.maxDiff}, mean diff ${diff.meanDiff.toFixed(3)}, ${diff.mismatched} pixels over tolerance`);
+  if (values['diff-out']) {
+    writeFileSync(values['diff-out'], encodePNG(diff.pixels, width, height, { deflate }));
+    console.log(`Wrote ${values['diff-out']}`);
+  }
+  process.exitCode = diff.mismatched > 0 ? 1 : 0;
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type SceneDatabase = InstanceType<typeof Database>;
+
+// Schema history. Each entry runs once, in order, inside a transaction, and
+// PRAGMA user_version records how many have been applied. Never edit a
+// migration that has shipped; append a new one.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE scenes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    -- Versioned scene JSON from lib/scene; migrated when read
+    state TEXT NOT NULL,
+    thumbnail BLOB,
+    thumbnail_type TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+
+  CREATE TABLE scene_tags (
+    scene_id INTEGER NOT NULL REFERENCES scenes(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (scene_id, tag)
+  );
+  CREATE INDEX scene_tags_tag ON scene_tags(tag);
+
+  CREATE TABLE collections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+
+  CREATE TABLE collection_scenes (
+    collection_id INTEGER NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+    scene_id INTEGER NOT NULL REFERENCES scenes(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (collection_id, scene_id)
+  );
+  CREATE INDEX collection_scenes_scene ON collection_scenes(scene_id);
+  `,
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export function migrate(db: SceneDatabase) {
+  const current: number = db.pragma('user_version', { simple: true });
+  if (current > SCHEMA_VERSION) {
+    throw new Error(`Database schema version ${current} is newer than this server supports (${SCHEMA_VERSION}).`);
+  }
+  for (let version = current; version < SCHEMA_VERSION; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+// Opens (creating if needed) the local database file and brings its schema up
+// to date. ':memory:' gives a throwaway database.
+export function openDatabase(file: string): SceneDatabase {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
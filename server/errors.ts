@@ -0,0 +1,31 @@
+import { NextFunction, Request, Response } from 'express';
+
+// Errors shared by the API routers. Handlers throw HttpError for bad input;
+// apiErrorHandler turns it, and express.json's body errors, into JSON
+// { error } responses. Anything else is logged and answered with a 500.
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function badRequest(message: string): never {
+  throw new HttpError(400, message);
+}
+
+export function apiErrorHandler(err: unknown, _req: Request, res: Response, _next: NextFunction) {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message });
+  } else if ((err as { type?: string })?.type === 'entity.too.large') {
+    res.status(413).json({ error: 'Request body is too large.' });
+  } else if ((err as { type?: string })?.type === 'entity.parse.failed') {
+    res.status(400).json({ error: 'Request body is not valid JSON.' });
+  } else {
+    console.error(err);
+    res.status(500).json({ error: 'Internal server error.' });
+  }
+}
@@ -0,0 +1,186 @@
+import express from 'express';
+import { GoogleGenAI, Type } from '@google/genai';
+import { apiErrorHandler, badRequest, HttpError } from './errors';
+import { GuideField, GuideRequest, MAX_GUIDE_HISTORY, MAX_GUIDE_QUESTION } from '../src/lib/guide';
+import { OBSERVING_BANDS } from '../src/lib/spectrum';
+import { SKY_BACKGROUND_LABELS } from '../src/lib/skybox';
+import { OBSERVER_LABELS } from '../src/lib/observer';
+import { VIEW_MODE_ID } from '../src/lib/viewModes';
+
+// Proxy for the guide's Gemini requests, mounted at /api/guide, so the API
+// key stays on the server. The client sends the conversation and its
+// description of the scene; the reply is the model's JSON text, which the
+// client checks against its state (see src/lib/guide).
+//
+//   GET   /    { available }
+//   POST  /    GuideRequest -> { text }
+//
+//   GEMINI_API_KEY   the key
+//   GEMINI_BASE_URL  another endpoint, e.g. `npm run mock:guide`
+
+export const GUIDE_MODEL = 'gemini-2.5-flash';
+
+interface GuideConfig {
+  apiKey: string;
+  baseUrl: string;
+}
+
+function guideConfig(): GuideConfig {
+  return {
+    apiKey: process.env.GEMINI_API_KEY ?? '',
+    baseUrl: process.env.GEMINI_BASE_URL ?? '',
+  };
+}
+
+// A mock endpoint doesn't check the key, so only the real service needs one.
+function guideAvailable(config: GuideConfig): boolean {
+  return config.apiKey.length > 0 || config.baseUrl.length > 0;
+}
+
+// View modes come from the client, which has the plugins loaded
+const MAX_VIEW_MODES = 32;
+const MAX_TEXT = 4000;
+
+// State fields the guide may change, described for the response schema.
+function guideFields(viewModes: GuideRequest['viewModes']) {
+  return {
+    viewMode: { type: Type.STRING, enum: viewModes.map(m => m.id), description: viewModes.map(m => `${m.id}: ${m.description}`).join('; ') },
+    wavelength: { type: Type.INTEGER, description: `0-${OBSERVING_BANDS.length - 1}: ${OBSERVING_BANDS.map(b => b.label).join(', ')}` },
+    timeSpeed: { type: Type.NUMBER, description: 'Animation speed, 0-5' },
+    showJets: { type: Type.BOOLEAN, description: 'Polar jets' },
+    showMilkyWay: { type: Type.BOOLEAN, description: 'Milky Way hologram for scale; best seen from ~150 Rs' },
+    background: { type: Type.STRING, enum: Object.keys(SKY_BACKGROUND_LABELS), description: 'procedural starfield, or panorama: the Milky Way or an uploaded image, lensed' },
+    showStars: { type: Type.BOOLEAN, description: 'The brightest real stars as point sources' },
+    cameraDistance: { type: Type.NUMBER, description: 'Camera distance in Schwarzschild radii, 3-300' },
+    cameraAngleX: { type: Type.NUMBER, description: 'Camera elevation above the disk plane in radians, about -1.5 to 1.5' },
+    cameraAngleY: { type: Type.NUMBER, description: 'Camera azimuth in radians' },
+    spin: { type: Type.NUMBER, description: 'Dimensionless spin a/M, 0-0.998' },
+    massSolar: { type: Type.NUMBER, description: 'Mass in solar masses, 1 to 3e11' },
+    accretionRate: { type: Type.NUMBER, description: 'Accretion rate as a fraction of Eddington, 0.001-10' },
+    observer: { type: Type.STRING, enum: Object.keys(OBSERVER_LABELS), description: 'static, infall (free fall from the camera position) or orbit' },
+    diskTilt: { type: Type.NUMBER, description: 'Disk tilt from the equatorial plane in radians, 0-1.57' },
+    diskWarp: { type: Type.NUMBER, description: 'Extra tilt at the disk outer edge in radians, -0.79 to 0.79' },
+    jetLorentz: { type: Type.NUMBER, description: 'Bulk Lorentz factor of the jets, 1-20; higher beams them towards a viewer near the axis' },
+    binaryMassRatio: { type: Type.NUMBER, description: 'Mass of a companion black hole over the primary, 0.05-1, or 0 for none' },
+    binarySeparation: { type: Type.NUMBER, description: 'Companion orbital separation in Rs, 5-100' },
+    binaryDecay: { type: Type.BOOLEAN, description: 'Shrink the companion orbit by gravitational-wave emission until merger' },
+    tdeStarMass: { type: Type.NUMBER, description: 'Mass of the tidally disrupted star in solar masses, 0.1-10' },
+    tdeStarRadius: { type: Type.NUMBER, description: 'Radius of the tidally disrupted star in solar radii, 0.1-100' },
+    tdePenetration: { type: Type.NUMBER, description: 'Tidal radius over the star\'s pericenter, 1-5' },
+  } satisfies Record<GuideField, object>;
+}
+
+function replySchema(viewModes: GuideRequest['viewModes']) {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      answer: { type: Type.STRING, description: 'The reply, in plain text' },
+      suggestions: {
+        type: Type.ARRAY,
+        description: 'Up to three views worth trying that illustrate the answer; empty if none',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            label: { type: Type.STRING, description: 'Short button label, e.g. "Show the X-ray view"' },
+            changes: { type: Type.OBJECT, properties: guideFields(viewModes) },
+          },
+          required: ['label', 'changes'],
+        },
+      },
+    },
+    required: ['answer', 'suggestions'],
+  };
+}
+
+const SYSTEM_INSTRUCTION = `You are the guide of an interactive, physically based black hole simulator.
+Answer questions about what the user is looking at, in two or three short paragraphs at a curious
+layperson's level, using the scene description sent with each question. Lengths are in
+Schwarzschild radii (Rs) unless stated. When a different view would illustrate the answer,
+suggest it as a state change; only change the fields that matter.`;
+
+const isText = (value: unknown, max: number): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+
+function guideRequest(body: unknown): GuideRequest {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  if (!isText(input.question, MAX_GUIDE_QUESTION)) badRequest(`question must be 1-${MAX_GUIDE_QUESTION} characters.`);
+  const history = input.history;
+  if (!Array.isArray(history) || history.length > MAX_GUIDE_HISTORY) badRequest(`history must be an array of at most ${MAX_GUIDE_HISTORY} messages.`);
+  for (const m of history) {
+    if ((m?.role !== 'user' && m?.role !== 'guide') || !isText(m.text, MAX_TEXT)) badRequest('history messages need a role and text.');
+  }
+  if (typeof input.scene !== 'object' || input.scene === null) badRequest('scene must be an object.');
+  const viewModes = input.viewModes;
+  if (!Array.isArray(viewModes) || viewModes.length === 0 || viewModes.length > MAX_VIEW_MODES) {
+    badRequest(`viewModes must list 1-${MAX_VIEW_MODES} modes.`);
+  }
+  for (const m of viewModes) {
+    if (typeof m?.id !== 'string' || !VIEW_MODE_ID.test(m.id) || typeof m.description !== 'string') {
+      badRequest('viewModes need an id and a description.');
+    }
+  }
+  return {
+    question: input.question,
+    history: history.map(m => ({ role: m.role, text: m.text })),
+    scene: input.scene as GuideRequest['scene'],
+    viewModes: viewModes.map(m => ({ id: m.id, description: m.description })),
+  };
+}
+
+export function guideRoutes(): express.Router {
+  const router = express.Router();
+  router.use(express.json({ limit: '256kb' }));
+
+  router.get('/', (_req, res) => {
+    res.json({ available: guideAvailable(guideConfig()) });
+  });
+
+  router.post('/', async (req, res, next) => {
+    try {
+      const config = guideConfig();
+      if (!guideAvailable(config)) throw new HttpError(503, 'Set GEMINI_API_KEY (or GEMINI_BASE_URL for a mock) on the server to use the guide.');
+      const request = guideRequest(req.body);
+      // A closed panel drops the question upstream too
+      const abort = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) abort.abort();
+      });
+
+      const ai = new GoogleGenAI({
+        apiKey: config.apiKey || 'mock',
+        httpOptions: config.baseUrl ? { baseUrl: config.baseUrl } : undefined,
+      });
+      let text: string;
+      try {
+        const response = await ai.models.generateContent({
+          model: GUIDE_MODEL,
+          contents: [
+            ...request.history.map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] })),
+            {
+              role: 'user',
+              parts: [{ text: `Scene:\n${JSON.stringify(request.scene, null, 2)}\n\nQuestion: ${request.question}` }],
+            },
+          ],
+          config: {
+            systemInstruction: SYSTEM_INSTRUCTION,
+            responseMimeType: 'application/json',
+            responseSchema: replySchema(request.viewModes),
+            abortSignal: abort.signal,
+          },
+        });
+        text = response.text ?? '';
+      } catch (e) {
+        if (abort.signal.aborted) return;
+        console.error(e);
+        throw new HttpError(502, 'The guide service did not answer.');
+      }
+      res.json({ text });
+    } catch (e) {
+      next(e);
+    }
+  });
+
+  router.use(apiErrorHandler);
+
+  return router;
+}
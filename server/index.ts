@@ -0,0 +1,58 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import express from 'express';
+import dotenv from 'dotenv';
+import { openDatabase } from './db';
+import { galleryRoutes } from './routes';
+import { guideRoutes } from './guide';
+
+// App server: the gallery API under /api, the guide's Gemini proxy under
+// /api/guide, and the client. In development the client comes from Vite in
+// middleware mode (with HMR); with NODE_ENV=production it serves the output
+// of `npm run build`.
+//
+//   PORT           default 3000
+//   DATABASE_PATH  default data/ton618.db
+//   GEMINI_API_KEY, GEMINI_BASE_URL  see guide.ts
+//
+// Settings are read from .env.local and .env as well as the environment.
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+dotenv.config({ path: [path.join(root, '.env.local'), path.join(root, '.env')], quiet: true });
+const port = Number(process.env.PORT ?? 3000);
+const databasePath = path.resolve(root, process.env.DATABASE_PATH ?? 'data/ton618.db');
+const production = process.env.NODE_ENV === 'production';
+
+async function startServer() {
+  const db = openDatabase(databasePath);
+  const app = express();
+  app.use('/api/guide', guideRoutes());
+  app.use('/api', galleryRoutes(db));
+
+  if (production) {
+    const dist = path.join(root, 'dist');
+    app.use(express.static(dist));
+    app.get('*', (_req, res) => res.sendFile(path.join(dist, 'index.html')));
+  } else {
+    const { createServer } = await import('vite');
+    const vite = await createServer({ root, server: { middlewareMode: true }, appType: 'spa' });
+    app.use(vite.middlewares);
+  }
+
+  const server = app.listen(port, '0.0.0.0', () => {
+    console.log(`Serving on http://localhost:${port} (${production ? 'production' : 'development'}), database ${databasePath}`);
+  });
+
+  const shutdown = () => {
+    server.close();
+    db.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+startServer().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
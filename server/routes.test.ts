@@ -0,0 +1,131 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { openDatabase } from './db';
+import { galleryRoutes } from './routes';
+import { DEFAULT_STATE } from '../src/lib/renderer';
+import { MAX_TAGS, MAX_TAG_LENGTH, MAX_THUMBNAIL_BYTES, MAX_TITLE_LENGTH } from '../src/lib/gallery';
+
+type Api = (method: string, path: string, body?: unknown) => Promise<{ status: number; body: any }>;
+
+// Runs the test against the gallery routes on a fresh in-memory database.
+async function withApi(run: (api: Api) => Promise<void>) {
+  const db = openDatabase(':memory:');
+  const app = express();
+  app.use('/api', galleryRoutes(db));
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const root = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  const api: Api = async (method, path, body) => {
+    // Strings go as they are, to test bodies that aren't JSON
+    const json = typeof body === 'string' ? body : body === undefined ? undefined : JSON.stringify(body);
+    const response = await fetch(root + path, {
+      method,
+      headers: json === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: json,
+    });
+    const text = await response.text();
+    return { status: response.status, body: text && response.headers.get('content-type')?.includes('json') ? JSON.parse(text) : text };
+  };
+  try {
+    await run(api);
+  } finally {
+    server.close();
+    db.close();
+  }
+}
+
+const PNG = `data:image/png;base64,${Buffer.from('not really a png').toString('base64')}`;
+
+test('titles and tags are trimmed and limited', () => withApi(async api => {
+  const created = await api('POST', '/scenes', { title: '  Shadow  ', state: DEFAULT_STATE, tags: ['Disk', 'disk ', ' '] });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.title, 'Shadow');
+  assert.deepEqual(created.body.tags, ['disk']);
+
+  const long = await api('POST', '/scenes', { title: 'x'.repeat(MAX_TITLE_LENGTH + 1), state: DEFAULT_STATE });
+  assert.equal(long.status, 400);
+  assert.match(long.body.error, /longer than/);
+  assert.equal((await api('POST', '/scenes', { title: ' ', state: DEFAULT_STATE })).status, 400);
+  assert.equal((await api('POST', '/scenes', { title: 'No state' })).status, 400);
+
+  const many = Array.from({ length: MAX_TAGS + 1 }, (_, i) => `tag${i}`);
+  assert.equal((await api('PATCH', `/scenes/${created.body.id}`, { tags: many })).status, 400);
+  assert.equal((await api('PATCH', `/scenes/${created.body.id}`, { tags: ['y'.repeat(MAX_TAG_LENGTH + 1)] })).status, 400);
+  assert.equal((await api('PATCH', `/scenes/${created.body.id}`, { tags: [1] })).status, 400);
+  const renamed = await api('PATCH', `/scenes/${created.body.id}`, { title: 'Ring', tags: ['Jets'] });
+  assert.equal(renamed.status, 200);
+  assert.deepEqual([renamed.body.title, renamed.body.tags], ['Ring', ['jets']]);
+}));
+
+test('thumbnails must be PNG or JPEG data URLs within the size limit', () => withApi(async api => {
+  const created = await api('POST', '/scenes', { title: 'Thumb', state: DEFAULT_STATE, thumbnail: PNG });
+  assert.equal(created.status, 201);
+  assert.equal(created.body.hasThumbnail, true);
+  const image = await api('GET', `/scenes/${created.body.id}/thumbnail`);
+  assert.equal(image.status, 200);
+  assert.equal(image.body, 'not really a png');
+
+  for (const thumbnail of ['data:image/gif;base64,R0lG', 'data:image/png,raw', 'https://example.com/a.png', 42]) {
+    const bad = await api('POST', '/scenes', { title: 'Bad', state: DEFAULT_STATE, thumbnail });
+    assert.equal(bad.status, 400, String(thumbnail));
+  }
+  const big = `data:image/jpeg;base64,${Buffer.alloc(MAX_THUMBNAIL_BYTES + 1).toString('base64')}`;
+  assert.equal((await api('POST', '/scenes', { title: 'Big', state: DEFAULT_STATE, thumbnail: big })).status, 400);
+
+  const plain = await api('POST', '/scenes', { title: 'Plain', state: DEFAULT_STATE });
+  assert.equal((await api('GET', `/scenes/${plain.body.id}/thumbnail`)).status, 404);
+}));
+
+test('scene states are validated and migrated on the way in', () => withApi(async api => {
+  const created = await api('POST', '/scenes', { title: 'Old', state: { version: 1, state: { ...DEFAULT_STATE, viewMode: 1 } } });
+  assert.equal(created.status, 201);
+  assert.equal((await api('GET', `/scenes/${created.body.id}`)).body.state.viewMode, 'gravity');
+  const bad = await api('POST', '/scenes', { title: 'Bad', state: { ...DEFAULT_STATE, spin: 'fast' } });
+  assert.equal(bad.status, 400);
+  assert.match(bad.body.error, /Invalid scene/);
+}));
+
+test('a duplicate collection name is a 409', () => withApi(async api => {
+  const first = await api('POST', '/collections', { name: 'Favourites' });
+  assert.equal(first.status, 201);
+  const duplicate = await api('POST', '/collections', { name: ' favourites ' });
+  assert.equal(duplicate.status, 409);
+  assert.match(duplicate.body.error, /already exists/);
+
+  const other = await api('POST', '/collections', { name: 'Other' });
+  assert.equal((await api('PATCH', `/collections/${other.body.id}`, { name: 'FAVOURITES' })).status, 409);
+  // Renaming a collection to itself is fine
+  assert.equal((await api('PATCH', `/collections/${first.body.id}`, { name: 'favourites' })).status, 200);
+}));
+
+test('unknown scenes, collections and routes are 404s', () => withApi(async api => {
+  for (const [method, path] of [
+    ['GET', '/scenes/1'],
+    ['GET', '/scenes/abc'],
+    ['GET', '/scenes/-1'],
+    ['DELETE', '/scenes/1'],
+    ['GET', '/scenes/1/thumbnail'],
+    ['DELETE', '/collections/1'],
+    ['GET', '/scenes?collection=x'],
+    ['GET', '/nothing'],
+  ]) {
+    const response = await api(method, path);
+    assert.equal(response.status, 404, `${method} ${path}`);
+    assert.equal(typeof response.body.error, 'string');
+  }
+  assert.equal((await api('PATCH', '/scenes/1', { title: 'T' })).status, 404);
+  assert.equal((await api('PATCH', '/collections/1', { name: 'N' })).status, 404);
+
+  const collection = await api('POST', '/collections', { name: 'C' });
+  const added = await api('POST', `/collections/${collection.body.id}/scenes`, { sceneId: 99 });
+  assert.equal(added.status, 404);
+  assert.equal((await api('POST', `/collections/${collection.body.id}/scenes`, { sceneId: 'one' })).status, 400);
+}));
+
+test('a body that is not JSON is a 400', () => withApi(async api => {
+  const response = await api('POST', '/collections', '{"name": ');
+  assert.equal(response.status, 400);
+  assert.match(response.body.error, /not valid JSON/);
+}));
@@ -0,0 +1,167 @@
+import express from 'express';
+import { SceneDatabase } from './db';
+import { apiErrorHandler, badRequest, HttpError } from './errors';
+import * as store from './store';
+import { parseScene } from '../src/lib/scene';
+import { SimulationState } from '../src/lib/renderer';
+import { MAX_TAGS, MAX_TAG_LENGTH, MAX_THUMBNAIL_BYTES, MAX_TITLE_LENGTH } from '../src/lib/gallery';
+
+// REST routes for saved scenes and collections, mounted under /api.
+//
+//   GET    /scenes?collection=&tag=       list (newest first, or collection order)
+//   POST   /scenes                        { title, state, tags?, thumbnail? }
+//   GET    /scenes/:id                    scene with its state
+//   PATCH  /scenes/:id                    { title?, tags? }
+//   DELETE /scenes/:id
+//   GET    /scenes/:id/thumbnail
+//   GET    /collections
+//   POST   /collections                   { name }
+//   PATCH  /collections/:id               { name }
+//   DELETE /collections/:id
+//   POST   /collections/:id/scenes        { sceneId }
+//   DELETE /collections/:id/scenes/:sceneId
+//
+// Errors are JSON { error } with a 4xx status for bad input (see errors.ts).
+
+function idParam(value: string, what: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) throw new HttpError(404, `No such ${what}.`);
+  return id;
+}
+
+function found<T>(value: T | null, what: string): T {
+  if (value === null) throw new HttpError(404, `No such ${what}.`);
+  return value;
+}
+
+function title(value: unknown, field = 'title'): string {
+  if (typeof value !== 'string' || value.trim().length === 0) badRequest(`${field} must be a non-empty string.`);
+  const trimmed = value.trim();
+  if (trimmed.length > MAX_TITLE_LENGTH) badRequest(`${field} is longer than ${MAX_TITLE_LENGTH} characters.`);
+  return trimmed;
+}
+
+function tags(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some(t => typeof t !== 'string')) badRequest('tags must be an array of strings.');
+  const unique = [...new Set(value.map((t: string) => t.trim().toLowerCase()).filter(Boolean))];
+  if (unique.length > MAX_TAGS) badRequest(`At most ${MAX_TAGS} tags are allowed.`);
+  const long = unique.find(t => t.length > MAX_TAG_LENGTH);
+  if (long) badRequest(`Tag "${long}" is longer than ${MAX_TAG_LENGTH} characters.`);
+  return unique;
+}
+
+function sceneState(value: unknown): SimulationState {
+  if (value === undefined) badRequest('state is required.');
+  try {
+    return parseScene(JSON.stringify(value));
+  } catch (e) {
+    badRequest(e instanceof Error ? e.message : String(e));
+  }
+}
+
+function thumbnail(value: unknown): store.Thumbnail | null {
+  if (value === undefined || value === null) return null;
+  const match = typeof value === 'string' ? /^data:(image\/(?:png|jpeg));base64,([A-Za-z0-9+/]+=*)$/.exec(value) : null;
+  if (!match) badRequest('thumbnail must be a PNG or JPEG data URL.');
+  const data = Buffer.from(match[2], 'base64');
+  if (data.length > MAX_THUMBNAIL_BYTES) badRequest(`thumbnail is larger than ${MAX_THUMBNAIL_BYTES / 1024} KiB.`);
+  return { data, type: match[1] };
+}
+
+function collectionName(db: SceneDatabase, value: unknown, except?: number): string {
+  const name = title(value, 'name');
+  const existing = store.findCollectionByName(db, name);
+  if (existing && existing.id !== except) throw new HttpError(409, `A collection named "${name}" already exists.`);
+  return name;
+}
+
+export function galleryRoutes(db: SceneDatabase): express.Router {
+  const router = express.Router();
+  router.use(express.json({ limit: '2mb' }));
+
+  router.get('/scenes', (req, res) => {
+    const { collection, tag } = req.query;
+    res.json(store.listScenes(db, {
+      collectionId: typeof collection === 'string' ? idParam(collection, 'collection') : undefined,
+      tag: typeof tag === 'string' && tag ? tag.trim().toLowerCase() : undefined,
+    }));
+  });
+
+  router.post('/scenes', (req, res) => {
+    const body = req.body ?? {};
+    const scene = store.createScene(db, {
+      title: title(body.title),
+      state: sceneState(body.state),
+      tags: body.tags === undefined ? [] : tags(body.tags),
+      thumbnail: thumbnail(body.thumbnail),
+    });
+    res.status(201).json(scene);
+  });
+
+  router.get('/scenes/:id', (req, res) => {
+    res.json(found(store.getScene(db, idParam(req.params.id, 'scene')), 'scene'));
+  });
+
+  router.patch('/scenes/:id', (req, res) => {
+    const body = req.body ?? {};
+    const changes = {
+      title: body.title === undefined ? undefined : title(body.title),
+      tags: body.tags === undefined ? undefined : tags(body.tags),
+    };
+    res.json(found(store.updateScene(db, idParam(req.params.id, 'scene'), changes), 'scene'));
+  });
+
+  router.delete('/scenes/:id', (req, res) => {
+    if (!store.deleteScene(db, idParam(req.params.id, 'scene'))) throw new HttpError(404, 'No such scene.');
+    res.status(204).end();
+  });
+
+  router.get('/scenes/:id/thumbnail', (req, res) => {
+    const image = found(store.getThumbnail(db, idParam(req.params.id, 'scene')), 'thumbnail');
+    // The client versions the URL with updatedAt
+    res.set('Cache-Control', 'public, max-age=31536000, immutable');
+    res.type(image.type).send(image.data);
+  });
+
+  router.get('/collections', (_req, res) => {
+    res.json(store.listCollections(db));
+  });
+
+  router.post('/collections', (req, res) => {
+    res.status(201).json(store.createCollection(db, collectionName(db, req.body?.name)));
+  });
+
+  router.patch('/collections/:id', (req, res) => {
+    const id = idParam(req.params.id, 'collection');
+    found(store.getCollection(db, id), 'collection');
+    res.json(store.renameCollection(db, id, collectionName(db, req.body?.name, id)));
+  });
+
+  router.delete('/collections/:id', (req, res) => {
+    if (!store.deleteCollection(db, idParam(req.params.id, 'collection'))) throw new HttpError(404, 'No such collection.');
+    res.status(204).end();
+  });
+
+  router.post('/collections/:id/scenes', (req, res) => {
+    const id = idParam(req.params.id, 'collection');
+    found(store.getCollection(db, id), 'collection');
+    const sceneId = req.body?.sceneId;
+    if (!Number.isInteger(sceneId)) badRequest('sceneId must be an integer.');
+    found(store.getScene(db, sceneId), 'scene');
+    res.json(store.addToCollection(db, id, sceneId));
+  });
+
+  router.delete('/collections/:id/scenes/:sceneId', (req, res) => {
+    const id = idParam(req.params.id, 'collection');
+    found(store.getCollection(db, id), 'collection');
+    res.json(store.removeFromCollection(db, id, idParam(req.params.sceneId, 'scene')));
+  });
+
+  router.use((_req, _res) => {
+    throw new HttpError(404, 'No such API route.');
+  });
+
+  router.use(apiErrorHandler);
+
+  return router;
+}
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { openDatabase } from './db';
+import * as store from './store';
+import { DEFAULT_STATE } from '../src/lib/renderer';
+
+function newScene(title: string, tags: string[] = []): store.SceneInput {
+  return { title, state: DEFAULT_STATE, tags, thumbnail: null };
+}
+
+test('scenes round-trip with their state and sorted tags', () => {
+  const db = openDatabase(':memory:');
+  const created = store.createScene(db, newScene('Photon ring', ['lensing', 'disk']));
+  assert.deepEqual(created.tags, ['disk', 'lensing']);
+  assert.equal(created.hasThumbnail, false);
+  const scene = store.getScene(db, created.id)!;
+  assert.deepEqual(scene.state, DEFAULT_STATE);
+  assert.equal(store.getScene(db, created.id + 1), null);
+  assert.equal(store.getThumbnail(db, created.id), null);
+});
+
+test('getScene migrates scenes saved by older builds', () => {
+  const db = openDatabase(':memory:');
+  // Version 1 saved the view mode's index
+  const old = JSON.stringify({ version: 1, state: { ...DEFAULT_STATE, viewMode: 2 } });
+  const { lastInsertRowid } = db.prepare('INSERT INTO scenes (title, state) VALUES (?, ?)').run('Old', old);
+  assert.equal(store.getScene(db, Number(lastInsertRowid))!.state.viewMode, 'density');
+  // And version 0 was the bare state, missing fields and all
+  const bare = JSON.stringify({ spin: 0.5 });
+  const second = db.prepare('INSERT INTO scenes (title, state) VALUES (?, ?)').run('Bare', bare);
+  const state = store.getScene(db, Number(second.lastInsertRowid))!.state;
+  assert.equal(state.spin, 0.5);
+  assert.equal(state.viewMode, DEFAULT_STATE.viewMode);
+});
+
+test('listScenes filters by tag and keeps collection order', () => {
+  const db = openDatabase(':memory:');
+  const a = store.createScene(db, newScene('A', ['jets']));
+  const b = store.createScene(db, newScene('B'));
+  const c = store.createScene(db, newScene('C', ['jets']));
+  assert.deepEqual(store.listScenes(db, { tag: 'jets' }).map(s => s.id).sort(), [a.id, c.id]);
+
+  const collection = store.createCollection(db, 'Tour');
+  store.addToCollection(db, collection.id, c.id);
+  store.addToCollection(db, collection.id, a.id);
+  store.addToCollection(db, collection.id, b.id);
+  // Adding a scene twice leaves it where it was
+  assert.deepEqual(store.addToCollection(db, collection.id, c.id).sceneIds, [c.id, a.id, b.id]);
+  assert.deepEqual(store.listScenes(db, { collectionId: collection.id }).map(s => s.id), [c.id, a.id, b.id]);
+  assert.deepEqual(store.listScenes(db, { collectionId: collection.id, tag: 'jets' }).map(s => s.id), [c.id, a.id]);
+  assert.deepEqual(store.removeFromCollection(db, collection.id, a.id).sceneIds, [c.id, b.id]);
+
+  // Deleting a scene drops it from its collections
+  assert.equal(store.deleteScene(db, c.id), true);
+  assert.equal(store.deleteScene(db, c.id), false);
+  assert.deepEqual(store.getCollection(db, collection.id)!.sceneIds, [b.id]);
+});
+
+test('collection names are unique regardless of case', () => {
+  const db = openDatabase(':memory:');
+  const collection = store.createCollection(db, 'Favourites');
+  assert.equal(store.findCollectionByName(db, 'FAVOURITES')!.id, collection.id);
+  assert.equal(store.findCollectionByName(db, 'Other'), null);
+  assert.throws(() => store.createCollection(db, 'favourites'), /UNIQUE/);
+});
@@ -0,0 +1,174 @@
+import { SceneDatabase } from './db';
+import { SimulationState } from '../src/lib/renderer';
+import { parseScene, serializeScene } from '../src/lib/scene';
+import { GalleryCollection, GalleryScene, GallerySceneChanges, GallerySceneDetail, SceneQuery } from '../src/lib/gallery';
+
+// Queries behind the REST routes. Inputs are already validated; functions
+// return null (or false) for ids that don't exist.
+
+export interface Thumbnail {
+  data: Buffer;
+  type: string;
+}
+
+export interface SceneInput {
+  title: string;
+  state: SimulationState;
+  tags: string[];
+  thumbnail: Thumbnail | null;
+}
+
+interface SceneRow {
+  id: number;
+  title: string;
+  tags: string;
+  collection_ids: string;
+  has_thumbnail: number;
+  created_at: string;
+  updated_at: string;
+}
+
+const SCENE_COLUMNS = `
+  s.id, s.title, s.created_at, s.updated_at,
+  s.thumbnail IS NOT NULL AS has_thumbnail,
+  (SELECT json_group_array(tag) FROM (SELECT tag FROM scene_tags WHERE scene_id = s.id ORDER BY tag)) AS tags,
+  (SELECT json_group_array(collection_id) FROM collection_scenes WHERE scene_id = s.id) AS collection_ids
+`;
+
+function toScene(row: SceneRow): GalleryScene {
+  return {
+    id: row.id,
+    title: row.title,
+    tags: JSON.parse(row.tags),
+    collectionIds: JSON.parse(row.collection_ids),
+    hasThumbnail: row.has_thumbnail === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function listScenes(db: SceneDatabase, query: SceneQuery): GalleryScene[] {
+  // Collections keep their own order; otherwise the newest scenes come first
+  const rows: SceneRow[] = query.collectionId !== undefined
+    ? db.prepare(`
+        SELECT ${SCENE_COLUMNS} FROM scenes s
+        JOIN collection_scenes cs ON cs.scene_id = s.id AND cs.collection_id = @collectionId
+        WHERE @tag IS NULL OR EXISTS (SELECT 1 FROM scene_tags t WHERE t.scene_id = s.id AND t.tag = @tag)
+        ORDER BY cs.position
+      `).all({ collectionId: query.collectionId, tag: query.tag ?? null })
+    : db.prepare(`
+        SELECT ${SCENE_COLUMNS} FROM scenes s
+        WHERE @tag IS NULL OR EXISTS (SELECT 1 FROM scene_tags t WHERE t.scene_id = s.id AND t.tag = @tag)
+        ORDER BY s.updated_at DESC, s.id DESC
+      `).all({ tag: query.tag ?? null });
+  return rows.map(toScene);
+}
+
+function findScene(db: SceneDatabase, id: number): GalleryScene | null {
+  const row: SceneRow | undefined = db.prepare(`SELECT ${SCENE_COLUMNS} FROM scenes s WHERE s.id = ?`).get(id);
+  return row ? toScene(row) : null;
+}
+
+// Scenes saved by older builds are migrated to the current state shape here.
+export function getScene(db: SceneDatabase, id: number): GallerySceneDetail | null {
+  const scene = findScene(db, id);
+  if (!scene) return null;
+  const { state } = db.prepare('SELECT state FROM scenes WHERE id = ?').get(id);
+  return { ...scene, state: parseScene(state) };
+}
+
+function setTags(db: SceneDatabase, id: number, tags: string[]) {
+  db.prepare('DELETE FROM scene_tags WHERE scene_id = ?').run(id);
+  const insert = db.prepare('INSERT INTO scene_tags (scene_id, tag) VALUES (?, ?)');
+  for (const tag of tags) insert.run(id, tag);
+}
+
+export function createScene(db: SceneDatabase, input: SceneInput): GalleryScene {
+  const id = db.transaction(() => {
+    const { lastInsertRowid } = db.prepare(
+      'INSERT INTO scenes (title, state, thumbnail, thumbnail_type) VALUES (?, ?, ?, ?)',
+    ).run(input.title, serializeScene(input.state), input.thumbnail?.data ?? null, input.thumbnail?.type ?? null);
+    setTags(db, Number(lastInsertRowid), input.tags);
+    return Number(lastInsertRowid);
+  })();
+  return findScene(db, id)!;
+}
+
+export function updateScene(db: SceneDatabase, id: number, changes: GallerySceneChanges): GalleryScene | null {
+  if (!findScene(db, id)) return null;
+  db.transaction(() => {
+    if (changes.title !== undefined) db.prepare('UPDATE scenes SET title = ? WHERE id = ?').run(changes.title, id);
+    if (changes.tags !== undefined) setTags(db, id, changes.tags);
+    db.prepare(`UPDATE scenes SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?`).run(id);
+  })();
+  return findScene(db, id);
+}
+
+export function deleteScene(db: SceneDatabase, id: number): boolean {
+  return db.prepare('DELETE FROM scenes WHERE id = ?').run(id).changes > 0;
+}
+
+export function getThumbnail(db: SceneDatabase, id: number): Thumbnail | null {
+  const row = db.prepare('SELECT thumbnail, thumbnail_type FROM scenes WHERE id = ? AND thumbnail IS NOT NULL').get(id);
+  return row ? { data: row.thumbnail, type: row.thumbnail_type } : null;
+}
+
+interface CollectionRow {
+  id: number;
+  name: string;
+  scene_ids: string;
+  created_at: string;
+}
+
+const COLLECTION_COLUMNS = `
+  c.id, c.name, c.created_at,
+  (SELECT json_group_array(scene_id) FROM (SELECT scene_id FROM collection_scenes WHERE collection_id = c.id ORDER BY position)) AS scene_ids
+`;
+
+function toCollection(row: CollectionRow): GalleryCollection {
+  return { id: row.id, name: row.name, sceneIds: JSON.parse(row.scene_ids), createdAt: row.created_at };
+}
+
+export function listCollections(db: SceneDatabase): GalleryCollection[] {
+  const rows: CollectionRow[] = db.prepare(`SELECT ${COLLECTION_COLUMNS} FROM collections c ORDER BY c.name`).all();
+  return rows.map(toCollection);
+}
+
+export function getCollection(db: SceneDatabase, id: number): GalleryCollection | null {
+  const row: CollectionRow | undefined = db.prepare(`SELECT ${COLLECTION_COLUMNS} FROM collections c WHERE c.id = ?`).get(id);
+  return row ? toCollection(row) : null;
+}
+
+export function findCollectionByName(db: SceneDatabase, name: string): GalleryCollection | null {
+  const row = db.prepare('SELECT id FROM collections WHERE name = ?').get(name);
+  return row ? getCollection(db, row.id) : null;
+}
+
+export function createCollection(db: SceneDatabase, name: string): GalleryCollection {
+  const { lastInsertRowid } = db.prepare('INSERT INTO collections (name) VALUES (?)').run(name);
+  return getCollection(db, Number(lastInsertRowid))!;
+}
+
+export function renameCollection(db: SceneDatabase, id: number, name: string): GalleryCollection | null {
+  db.prepare('UPDATE collections SET name = ? WHERE id = ?').run(name, id);
+  return getCollection(db, id);
+}
+
+export function deleteCollection(db: SceneDatabase, id: number): boolean {
+  return db.prepare('DELETE FROM collections WHERE id = ?').run(id).changes > 0;
+}
+
+// Appends the scene to the end of the collection; adding it twice is a no-op.
+export function addToCollection(db: SceneDatabase, collectionId: number, sceneId: number): GalleryCollection {
+  db.prepare(`
+    INSERT OR IGNORE INTO collection_scenes (collection_id, scene_id, position)
+    VALUES (@collectionId, @sceneId,
+      (SELECT COALESCE(MAX(position), -1) + 1 FROM collection_scenes WHERE collection_id = @collectionId))
+  `).run({ collectionId, sceneId });
+  return getCollection(db, collectionId)!;
+}
+
+export function removeFromCollection(db: SceneDatabase, collectionId: number, sceneId: number): GalleryCollection {
+  db.prepare('DELETE FROM collection_scenes WHERE collection_id = ? AND scene_id = ?').run(collectionId, sceneId);
+  return getCollection(db, collectionId)!;
+}
@@ -1,113 +1,354 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { BlackHoleRenderer, SimulationState } from './lib/renderer';
-import { Settings, Eye, Activity, Clock, Maximize2, Info, GraduationCap } from 'lucide-react';
+import { DEFAULT_STATE, SimulationRenderer, SimulationState, RendererBackend } from './lib/renderer';
+import { createRenderer, loadBackendPreference, saveBackendPreference, BackendPreference, BACKEND_LABELS } from './lib/backends';
+import { Settings, Eye, Activity, Clock, Maximize2, Info, GraduationCap, Orbit, RotateCw, Weight, Flame, Cpu, Camera, Film, Navigation, RotateCcw, Link, Save, FolderOpen, LayoutGrid, MessageCircle, Telescope, Crosshair, Move3d, Gauge, Disc3, RadioTower, Ruler } from 'lucide-react';
 import { Tutorial } from './components/Tutorial';
+import { ExportDialog } from './components/ExportDialog';
+import { TimelinePanel } from './components/TimelinePanel';
+import { GalleryPanel } from './components/GalleryPanel';
+import { GuidePanel } from './components/GuidePanel';
+import { SkyPanel } from './components/SkyPanel';
+import { SourcePanel } from './components/SourcePanel';
+import { ObservePanel } from './components/ObservePanel';
+import { InspectorPanel } from './components/InspectorPanel';
+import { PerfHud } from './components/PerfHud';
+import { ClockControls } from './components/ClockControls';
+import { BinaryTelemetry } from './components/BinaryTelemetry';
+import { TdeTelemetry } from './components/TdeTelemetry';
+import { OverlayCanvas } from './components/OverlayCanvas';
+import { OverlayPanel } from './components/OverlayPanel';
+import { kerrRadii, lapse } from './lib/kerr';
+import { CameraMode, CAMERA_MODE_LABELS, cameraRadius, changeCameraMode } from './lib/camera';
+import { CameraController, COMMIT_INTERVAL_MS, samePose } from './lib/controls';
+import { ObserverMode, OBSERVER_LABELS, OBSERVER_TIME_RATE, observerState } from './lib/observer';
+import { C, deriveScales, formatMass, formatLength, formatDuration, formatRatio, formatScientific, massClass, SOLAR_MASS, YEAR } from './lib/units';
+import { eddingtonAccretionRate, peakDiskTemperature } from './lib/disk';
+import { OBSERVING_BANDS } from './lib/spectrum';
+import { BLACK_HOLE_PRESETS, CUSTOM_PRESET_ID, findPreset } from './lib/presets';
+import { STATE_LIMITS, decodeSceneHash, encodeSceneHash, parseScene, serializeScene, sceneFileName } from './lib/scene';
+import { downloadBlob } from './lib/export';
+import { SkyImage } from './lib/skybox';
+import { inspectRay, RayInspection } from './lib/inspector';
+import { QualityPreset, QUALITY_PRESET_LABELS, loadQualityPreset, saveQualityPreset } from './lib/quality';
+import { viewModes, viewModeSupported } from './lib/viewModes';
+import { TIME_RATE } from './lib/clock';
+import { OverlaySettings, loadOverlaySettings, overlayView, pinPosition, saveOverlaySettings } from './lib/overlay';
+
+// The opening view sits a little further out and higher than the
+// renderer's default camera.
+const INITIAL_STATE: SimulationState = {
+  ...DEFAULT_STATE,
+  cameraDistance: 12.0,
+  cameraAngleX: 0.3,
+  flyPosition: [0, 0, 12],
+};
+
+// The scene in the page's URL hash, if any. A bad link is reported rather
+// than thrown, and the app starts from its defaults.
+function readLinkedScene(): { state: SimulationState | null; error: string | null } {
+  try {
+    return { state: decodeSceneHash(window.location.hash), error: null };
+  } catch (e) {
+    return { state: null, error: e instanceof Error ? e.message : String(e) };
+  }
+}
 
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const rendererRef = useRef<BlackHoleRenderer | null>(null);
+  const rendererRef = useRef<SimulationRenderer | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [showTutorial, setShowTutorial] = useState(true);
+  const [backendPreference, setBackendPreference] = useState<BackendPreference>(loadBackendPreference);
+  const [activeBackend, setActiveBackend] = useState<RendererBackend | null>(null);
+  const [qualityPreset, setQualityPreset] = useState<QualityPreset>(loadQualityPreset);
+  const [showPerf, setShowPerf] = useState(false);
+  const [linkedScene] = useState(readLinkedScene);
+  // Shared links go straight to the view they describe
+  const [showTutorial, setShowTutorial] = useState(linkedScene.state === null);
+  const [showExport, setShowExport] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showGuide, setShowGuide] = useState(false);
+  const [showSky, setShowSky] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+  const [showObserve, setShowObserve] = useState(false);
+  // Uploaded panoramas stay in memory only; scenes and links don't carry them
+  const [skyImage, setSkyImage] = useState<SkyImage | null>(null);
+  const [showInspector, setShowInspector] = useState(false);
+  const [showOverlay, setShowOverlay] = useState(false);
+  const [overlay, setOverlay] = useState<OverlaySettings>(loadOverlaySettings);
+  const [pinning, setPinning] = useState<string | null>(null);
+  // The last traced ray and the view it was traced in
+  const [inspection, setInspection] = useState<{ ray: RayInspection; state: SimulationState } | null>(null);
   
-  const [state, setState] = useState<SimulationState>({
-    viewMode: 0,
-    wavelength: 0,
-    timeSpeed: 1.0,
-    showMilkyWay: false,
-    showJets: true,
-    cameraDistance: 12.0,
-    cameraAngleX: 0.3,
-    cameraAngleY: 0.0,
-  });
+  const [sceneStatus, setSceneStatus] = useState<string | null>(linkedScene.error);
+  const sceneInputRef = useRef<HTMLInputElement>(null);
+
+  const [state, setState] = useState<SimulationState>(() => linkedScene.state ?? INITIAL_STATE);
 
-  const [isDragging, setIsDragging] = useState(false);
-  const lastMousePos = useRef({ x: 0, y: 0 });
+  const controllerRef = useRef<CameraController | null>(null);
 
   useEffect(() => {
     if (!canvasRef.current) return;
+    let renderer: SimulationRenderer | null = null;
+    let cancelled = false;
+    // Camera input goes straight to the renderer; React hears of it when
+    // the controller commits a pose
+    const controller = new CameraController(canvasRef.current, state, pose => {
+      setState(s => ({ ...s, ...pose, observerTime: 0 }));
+    });
+    controllerRef.current = controller;
 
     const initRenderer = async () => {
       try {
-        const renderer = new BlackHoleRenderer(canvasRef.current!);
+        renderer = await createRenderer(canvasRef.current!, backendPreference);
+        if (cancelled) return;
         await renderer.init();
+        if (cancelled) return;
         rendererRef.current = renderer;
-        renderer.state = state;
+        renderer.state = controller.sync(state);
+        renderer.clock.seek(state.simulationTime);
+        renderer.skyImage = skyImage;
+        renderer.quality.preset = qualityPreset;
+        controller.renderer = renderer;
+        setActiveBackend(renderer.backend);
       } catch (err: any) {
-        setError(err.message || 'Failed to initialize WebGPU.');
+        if (!cancelled) setError(err.message || 'Failed to initialize the renderer.');
       }
     };
 
     initRenderer();
 
     return () => {
-      rendererRef.current?.destroy();
+      cancelled = true;
+      controller.destroy();
+      controllerRef.current = null;
+      renderer?.destroy();
+      rendererRef.current = null;
     };
-  }, []);
+  }, [backendPreference]);
+
+  // A canvas keeps whichever context it first handed out, so switching
+  // backends remounts it (see the canvas key below).
+  const switchBackend = (preference: BackendPreference) => {
+    saveBackendPreference(preference);
+    setError(null);
+    setActiveBackend(null);
+    setBackendPreference(preference);
+  };
 
   useEffect(() => {
+    const synced = controllerRef.current?.sync(state) ?? state;
     if (rendererRef.current) {
-      rendererRef.current.state = state;
+      rendererRef.current.state = synced;
     }
   }, [state]);
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    setIsDragging(true);
-    lastMousePos.current = { x: e.clientX, y: e.clientY };
+  useEffect(() => {
+    if (rendererRef.current) {
+      rendererRef.current.skyImage = skyImage;
+    }
+  }, [skyImage]);
+
+  useEffect(() => {
+    saveQualityPreset(qualityPreset);
+    if (rendererRef.current) {
+      rendererRef.current.quality.preset = qualityPreset;
+    }
+  }, [qualityPreset]);
+
+  // Saved and shared scenes carry the clock's time rather than the time the
+  // state was loaded at
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const currentState = (): SimulationState => ({
+    ...stateRef.current,
+    simulationTime: rendererRef.current?.time ?? stateRef.current.simulationTime,
+  });
+  // A loaded scene moves the clock to its time
+  const applyScene = (scene: SimulationState) => {
+    setState(scene);
+    rendererRef.current?.clock.seek(scene.simulationTime);
+  };
+
+  // Keep the URL hash in step with the view, at most twice a second, so a
+  // reload or a copied address bar restores it. Nothing is written until
+  // the scene first changes, so a plain reload isn't taken for a shared link.
+  const hashTimer = useRef<number | null>(null);
+  const [openingState] = useState(state);
+  useEffect(() => {
+    if (state === openingState || hashTimer.current !== null) return;
+    hashTimer.current = window.setTimeout(() => {
+      hashTimer.current = null;
+      history.replaceState(null, '', encodeSceneHash(currentState()));
+    }, 500);
+  }, [state]);
+  useEffect(() => () => {
+    if (hashTimer.current !== null) window.clearTimeout(hashTimer.current);
+  }, []);
+
+  // Links pasted into an open tab only change the hash
+  useEffect(() => {
+    const onHashChange = () => {
+      try {
+        const linked = decodeSceneHash(window.location.hash);
+        if (linked) {
+          applyScene(linked);
+          setShowTutorial(false);
+        }
+      } catch (e) {
+        setSceneStatus(e instanceof Error ? e.message : String(e));
+      }
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  useEffect(() => {
+    if (!sceneStatus) return;
+    const timer = window.setTimeout(() => setSceneStatus(null), 4000);
+    return () => window.clearTimeout(timer);
+  }, [sceneStatus]);
+
+  const copySceneLink = async () => {
+    const url = new URL(window.location.href);
+    url.hash = encodeSceneHash(currentState());
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setSceneStatus('Link copied to clipboard.');
+    } catch {
+      setSceneStatus('Could not access the clipboard; copy the address bar instead.');
+    }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging) return;
-    const dx = e.clientX - lastMousePos.current.x;
-    const dy = e.clientY - lastMousePos.current.y;
-    
-    setState(prev => ({
-      ...prev,
-      cameraAngleY: prev.cameraAngleY - dx * 0.01,
-      cameraAngleX: Math.max(-Math.PI/2.1, Math.min(Math.PI/2.1, prev.cameraAngleX + dy * 0.01))
-    }));
-    
-    lastMousePos.current = { x: e.clientX, y: e.clientY };
+  const saveScene = () => {
+    downloadBlob(new Blob([serializeScene(currentState())], { type: 'application/json' }), sceneFileName(state));
   };
 
-  const handleMouseUp = () => setIsDragging(false);
+  const loadScene = async (file: File) => {
+    try {
+      applyScene(parseScene(await file.text()));
+      setShowTutorial(false);
+      setSceneStatus(`Loaded ${file.name}`);
+    } catch (e) {
+      setSceneStatus(e instanceof Error ? e.message : String(e));
+    }
+  };
 
-  const handleWheel = (e: React.WheelEvent) => {
-    setState(prev => ({
-      ...prev,
-      cameraDistance: Math.max(3.0, Math.min(300.0, prev.cameraDistance + e.deltaY * 0.05))
-    }));
+  // A moving observer's clock runs at OBSERVER_TIME_RATE proper time per
+  // second of the simulation clock, so it pauses and steps with the disk.
+  // Jumps of the clock leave it where it is. The renderer gets the proper
+  // time every frame and React, like camera poses, every COMMIT_INTERVAL_MS.
+  useEffect(() => {
+    if (state.observer === 'static') return;
+    let frame = 0;
+    let last: { time: number; seeks: number } | null = null;
+    // Proper time not yet committed to React
+    let pending = 0;
+    let lastCommit = performance.now();
+    const tick = (now: number) => {
+      const renderer = rendererRef.current;
+      if (renderer) {
+        const clock = renderer.clock;
+        if (last && last.seeks === clock.seeks && last.time !== clock.time) {
+          pending += (clock.time - last.time) / TIME_RATE * OBSERVER_TIME_RATE;
+          const next = { ...stateRef.current, observerTime: Math.max(0, stateRef.current.observerTime + pending) };
+          renderer.state = controllerRef.current?.sync(next) ?? next;
+        }
+        last = { time: clock.time, seeks: clock.seeks };
+      }
+      if (pending !== 0 && now - lastCommit > COMMIT_INTERVAL_MS) {
+        const dt = pending;
+        setState(s => ({ ...s, observerTime: Math.max(0, s.observerTime + dt) }));
+        pending = 0;
+        lastCommit = now;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [state.observer]);
+
+  useEffect(() => {
+    saveOverlaySettings(overlay);
+  }, [overlay]);
+
+  // With the inspector open a click, as opposed to a drag, traces that
+  // pixel, and with a pin waiting it drops the pin there. The renderer's
+  // state has the camera as drawn, which can be a moment ahead of React's.
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (controllerRef.current?.dragged) return;
+    const traced = rendererRef.current?.state ?? state;
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (showOverlay && pinning !== null) {
+      const view = overlayView(traced, rect.width, rect.height);
+      const position = pinPosition(view, traced, rendererRef.current?.time ?? 0, e.clientX - rect.left, e.clientY - rect.top);
+      setOverlay(o => ({ ...o, annotations: [...o.annotations, { id: crypto.randomUUID(), text: pinning, position }] }));
+      setPinning(null);
+      return;
+    }
+    if (!showInspector) return;
+    const ray = inspectRay(traced, e.clientX - rect.left, e.clientY - rect.top, rect.width, rect.height, rendererRef.current?.time ?? 0);
+    setInspection({ ray, state: traced });
   };
 
   if (error) {
     return (
       <div className="flex items-center justify-center h-screen bg-black text-red-500 font-mono p-4 text-center">
         <div>
-          <h1 className="text-2xl mb-2">WebGPU Error</h1>
+          <h1 className="text-2xl mb-2">Renderer Error</h1>
           <p>{error}</p>
-          <p className="mt-4 text-sm text-gray-400">Please ensure you are using a WebGPU-compatible browser (e.g., Chrome 113+).</p>
+          <p className="mt-4 text-sm text-gray-400">
+            WebGPU needs a compatible browser (e.g., Chrome 113+); other browsers can use the WebGL2 renderer.
+          </p>
+          <div className="mt-4 flex justify-center gap-2 text-sm">
+            {(['auto', 'webgl2'] as const).filter(p => p !== backendPreference).map(p => (
+              <button
+                key={p}
+                onClick={() => switchBackend(p)}
+                className="px-3 py-1.5 rounded-lg bg-white/10 text-gray-200 hover:bg-white/20"
+              >
+                {p === 'auto' ? 'Pick automatically' : `Use ${BACKEND_LABELS[p]}`}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
     );
   }
 
-  // Calculate dynamic metrics based on camera distance
-  const currentRadius = state.cameraDistance;
-  const timeDilation = Math.sqrt(Math.max(0, 1 - 1.0 / currentRadius)).toFixed(4);
-  const distanceAU = (currentRadius * 1300).toLocaleString(undefined, { maximumFractionDigits: 0 });
+  // Calculate dynamic metrics based on the observer's position
+  const observer = state.observer === 'static' ? null : observerState(state);
+  const currentRadius = observer?.radius ?? cameraRadius(state);
+  const timeDilation = (observer?.timeDilation ?? lapse(currentRadius, state.spin)).toFixed(4);
+  const radii = kerrRadii(state.spin);
+  const scales = deriveScales(state.massSolar, state.spin);
+  // Geometric time unit Rs/c in seconds
+  const timeUnit = scales.rs / C;
+  const preset = findPreset(state.presetId);
+  const accretionSolarPerYear = state.accretionRate * eddingtonAccretionRate(state.massSolar, state.spin) * YEAR / SOLAR_MASS;
+  const peakTemperature = peakDiskTemperature(state.massSolar, state.accretionRate, state.spin).temperature;
 
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden font-sans text-white selection:bg-indigo-500/30">
-      {/* WebGPU Canvas */}
+      {/* Render Canvas */}
       <canvas
+        key={backendPreference}
         ref={canvasRef}
-        className="absolute inset-0 w-full h-full cursor-move"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        onWheel={handleWheel}
+        className={`absolute inset-0 w-full h-full touch-none ${pinning !== null ? 'cursor-crosshair' : 'cursor-move'}`}
+        onClick={handleClick}
       />
 
+      {showOverlay && <OverlayCanvas renderer={activeBackend ? rendererRef.current : null} settings={overlay} />}
+
+      {showInspector && inspection && samePose(inspection.state, state) && inspection.state.observerTime === state.observerTime && (
+        <div
+          className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-yellow-400 pointer-events-none"
+          style={{ left: inspection.ray.pixel[0], top: inspection.ray.pixel[1] }}
+        />
+      )}
+
+      {showPerf && <PerfHud quality={activeBackend ? rendererRef.current?.quality ?? null : null} />}
+
       {/* UI Overlay */}
       <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-6">
         
@@ -115,15 +356,29 @@ export default function App() {
         <header className="flex justify-between items-start">
           <div className="pointer-events-auto">
             <h1 className="text-3xl font-bold tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-indigo-400">
-              TON 618
+              {preset?.name ?? 'Custom Black Hole'}
             </h1>
             <p className="text-xs font-mono text-gray-400 tracking-widest uppercase mt-1">
-              Ultramassive Black Hole Simulation
+              {massClass(state.massSolar)} Black Hole Simulation
             </p>
+            <select
+              value={state.presetId}
+              onChange={(e) => {
+                const next = findPreset(e.target.value);
+                if (next) setState(s => ({ ...s, presetId: next.id, massSolar: next.massSolar }));
+              }}
+              title={preset?.description}
+              className="mt-3 bg-black/40 backdrop-blur-md border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-indigo-500/50"
+            >
+              {BLACK_HOLE_PRESETS.map(p => (
+                <option key={p.id} value={p.id} className="bg-zinc-900">{p.name}</option>
+              ))}
+              {!preset && <option value={CUSTOM_PRESET_ID} className="bg-zinc-900">Custom</option>}
+            </select>
           </div>
           
           {/* Live Metrics Panel */}
-          <div className="pointer-events-auto bg-black/40 backdrop-blur-md border border-white/10 rounded-xl p-4 w-64 shadow-2xl">
+          <div data-tour="telemetry" className="pointer-events-auto bg-black/40 backdrop-blur-md border border-white/10 rounded-xl p-4 w-72 shadow-2xl">
             <div className="flex items-center gap-2 mb-3 text-sm font-semibold text-gray-300">
               <Activity size={16} className="text-orange-400" />
               Telemetry
@@ -131,16 +386,71 @@ export default function App() {
             <div className="space-y-2 font-mono text-xs">
               <div className="flex justify-between">
                 <span className="text-gray-500">Mass</span>
-                <span>6.6×10¹⁰ M☉</span>
+                <span>{formatMass(state.massSolar)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-500">Schwarzschild (Rs)</span>
-                <span>1,300 AU</span>
+                <span>{formatLength(scales.rs)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Renderer</span>
+                <span>
+                  {activeBackend ? BACKEND_LABELS[activeBackend] : '…'}
+                  {backendPreference === 'auto' && <span className="text-gray-500"> (auto)</span>}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Spin (a/M)</span>
+                <span>{state.spin.toFixed(3)}</span>
+              </div>
+              <div className="h-px bg-white/10 my-2" />
+              <div className="flex justify-between">
+                <span className="text-gray-500">Event Horizon</span>
+                <span>{radii.horizon.toFixed(3)} Rs</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Ergosphere (eq.)</span>
+                <span>{radii.ergosphereEquator.toFixed(3)} Rs</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Photon Orbit</span>
+                <span>{radii.photonOrbit.toFixed(3)} / {radii.photonOrbitRetrograde.toFixed(3)} Rs</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">ISCO</span>
+                <span>{radii.isco.toFixed(3)} / {radii.iscoRetrograde.toFixed(3)} Rs</span>
+              </div>
+              <div className="h-px bg-white/10 my-2" />
+              <div className="flex justify-between">
+                <span className="text-gray-500">Photon Sphere</span>
+                <span>{formatLength(scales.photonSphere)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">ISCO Radius</span>
+                <span>{formatLength(scales.isco)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">ISCO Period</span>
+                <span>{formatDuration(scales.iscoPeriod)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Disk Light-Crossing</span>
+                <span>{formatDuration(scales.diskLightCrossing)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Accretion Rate</span>
+                <span>{formatScientific(accretionSolarPerYear, 2)} M☉/yr</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Peak Disk Temp.</span>
+                <span>{formatScientific(peakTemperature)} K</span>
               </div>
+              <BinaryTelemetry renderer={activeBackend ? rendererRef.current ?? null : null} state={state} timeUnit={timeUnit} />
+              <TdeTelemetry renderer={activeBackend ? rendererRef.current ?? null : null} state={state} timeUnit={timeUnit} />
               <div className="h-px bg-white/10 my-2" />
               <div className="flex justify-between">
                 <span className="text-gray-500">Observer Dist.</span>
-                <span>{distanceAU} AU</span>
+                <span>{formatLength(currentRadius * scales.rs)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-500">Time Dilation</span>
@@ -148,12 +458,36 @@ export default function App() {
                   {timeDilation}x
                 </span>
               </div>
+              {observer && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Speed (local)</span>
+                    <span>{Math.hypot(...observer.velocity).toFixed(3)} c</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Proper Time</span>
+                    <span>{formatDuration(observer.properTime * timeUnit)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Coordinate Time</span>
+                    <span>{formatDuration(observer.coordinateTime * timeUnit)}</span>
+                  </div>
+                  {observer.timeToHorizon !== null && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Time to Horizon</span>
+                      <span className={observer.crossedHorizon ? 'text-red-400' : undefined}>
+                        {observer.crossedHorizon ? 'Crossed' : formatDuration(observer.timeToHorizon * timeUnit)}
+                      </span>
+                    </div>
+                  )}
+                </>
+              )}
               {state.showMilkyWay && (
                 <>
                   <div className="h-px bg-white/10 my-2" />
                   <div className="flex justify-between text-indigo-300">
                     <span>Hologram Scale</span>
-                    <span>1 : 2.4 Million</span>
+                    <span>{formatRatio(scales.hologramScale)}</span>
                   </div>
                 </>
               )}
@@ -168,38 +502,44 @@ export default function App() {
           <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-2xl p-5 shadow-2xl flex gap-8">
             
             {/* View Mode */}
-            <div className="space-y-3">
+            <div data-tour="view-mode" className="space-y-3">
               <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
                 <Eye size={14} /> View Mode
               </label>
               <div className="flex flex-col gap-2">
-                {['Classic (Visible)', 'Gravity / Spacetime', 'Matter Density', 'Time / Energy'].map((mode, idx) => (
-                  <button
-                    key={mode}
-                    onClick={() => setState(s => ({ ...s, viewMode: idx }))}
-                    className={`text-left px-3 py-1.5 rounded-lg text-sm transition-all ${
-                      state.viewMode === idx 
-                        ? 'bg-white/20 text-white font-medium' 
-                        : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
-                    }`}
-                  >
-                    {mode}
-                  </button>
-                ))}
+                {viewModes().map(mode => {
+                  // Modes without GLSL hooks only run on WebGPU
+                  const supported = activeBackend === null || viewModeSupported(mode, activeBackend);
+                  return (
+                    <button
+                      key={mode.id}
+                      onClick={() => setState(s => ({ ...s, viewMode: mode.id }))}
+                      disabled={!supported}
+                      title={supported ? mode.description : `${mode.description} (needs WebGPU)`}
+                      className={`flex items-center gap-2 text-left px-3 py-1.5 rounded-lg text-sm transition-all disabled:opacity-30 ${
+                        state.viewMode === mode.id
+                          ? 'bg-white/20 text-white font-medium'
+                          : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+                      }`}
+                    >
+                      <mode.icon size={14} /> {mode.label}
+                    </button>
+                  );
+                })}
               </div>
             </div>
 
             <div className="w-px bg-white/10" />
 
             {/* Wavelength */}
-            <div className="space-y-3">
+            <div data-tour="wavelength" className="space-y-3">
               <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
                 <Settings size={14} /> Wavelength
               </label>
               <div className="flex flex-col gap-2">
-                {['Visible Light', 'X-Ray', 'Radio', 'Infrared'].map((wave, idx) => (
+                {OBSERVING_BANDS.map((band, idx) => (
                   <button
-                    key={wave}
+                    key={band.id}
                     onClick={() => setState(s => ({ ...s, wavelength: idx }))}
                     className={`text-left px-3 py-1.5 rounded-lg text-sm transition-all ${
                       state.wavelength === idx 
@@ -207,7 +547,7 @@ export default function App() {
                         : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
                     }`}
                   >
-                    {wave}
+                    {band.label}
                   </button>
                 ))}
               </div>
@@ -218,7 +558,7 @@ export default function App() {
             {/* Sliders & Toggles */}
             <div className="space-y-6 min-w-[200px] flex flex-col justify-center">
               
-              <div className="space-y-2">
+              <div data-tour="time-speed" className="space-y-2">
                 <div className="flex justify-between items-center">
                   <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
                     <Clock size={14} /> Time Speed
@@ -227,14 +567,190 @@ export default function App() {
                 </div>
                 <input 
                   type="range" 
-                  min="0" max="5" step="0.1"
+                  min="0" max={STATE_LIMITS.maxTimeSpeed} step="0.1"
                   value={state.timeSpeed}
                   onChange={(e) => setState(s => ({ ...s, timeSpeed: parseFloat(e.target.value) }))}
                   className="w-full accent-indigo-500"
                 />
+                <ClockControls clock={activeBackend ? rendererRef.current?.clock ?? null : null} timeSpeed={state.timeSpeed} />
+              </div>
+
+              <div data-tour="mass" className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                    <Weight size={14} /> Mass
+                  </label>
+                  <span className="text-xs font-mono">{formatMass(state.massSolar)}</span>
+                </div>
+                <input 
+                  type="range" 
+                  min={STATE_LIMITS.minLogMass} max={STATE_LIMITS.maxLogMass} step="0.01"
+                  value={Math.log10(state.massSolar)}
+                  onChange={(e) => setState(s => ({ ...s, presetId: CUSTOM_PRESET_ID, massSolar: Math.pow(10, parseFloat(e.target.value)) }))}
+                  className="w-full accent-indigo-500"
+                />
+              </div>
+
+              <div data-tour="accretion" className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                    <Flame size={14} /> Accretion
+                  </label>
+                  <span className="text-xs font-mono">{formatScientific(state.accretionRate, 2)} Ṁ<sub>Edd</sub></span>
+                </div>
+                <input 
+                  type="range" 
+                  min={STATE_LIMITS.minLogAccretion} max={STATE_LIMITS.maxLogAccretion} step="0.01"
+                  value={Math.log10(state.accretionRate)}
+                  onChange={(e) => setState(s => ({ ...s, accretionRate: Math.pow(10, parseFloat(e.target.value)) }))}
+                  className="w-full accent-indigo-500"
+                />
+              </div>
+
+              <div data-tour="spin" className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                    <RotateCw size={14} /> Spin
+                  </label>
+                  <span className="text-xs font-mono">{state.spin.toFixed(3)}</span>
+                </div>
+                <input 
+                  type="range" 
+                  min="0" max="0.998" step="0.001"
+                  value={state.spin}
+                  onChange={(e) => setState(s => ({ ...s, spin: parseFloat(e.target.value) }))}
+                  className="w-full accent-indigo-500"
+                />
+              </div>
+
+              <div data-tour="geodesics" className="space-y-2">
+                <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                  <Orbit size={14} /> Geodesics
+                </label>
+                <div className="flex gap-1 p-1 bg-white/5 border border-white/10 rounded-lg">
+                  {(['fast', 'accurate'] as const).map(integrator => (
+                    <button
+                      key={integrator}
+                      onClick={() => setState(s => ({ ...s, integrator }))}
+                      className={`flex-1 py-1 rounded-md text-xs capitalize transition-all ${
+                        state.integrator === integrator
+                          ? 'bg-white/20 text-white font-medium'
+                          : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+                      }`}
+                    >
+                      {integrator}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div data-tour="camera" className="space-y-2">
+                <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                  <Move3d size={14} /> Camera
+                </label>
+                <div className="flex gap-1 p-1 bg-white/5 border border-white/10 rounded-lg">
+                  {(Object.keys(CAMERA_MODE_LABELS) as CameraMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      // From the pose on screen, which may still be coasting
+                      onClick={() => setState(s => changeCameraMode(controllerRef.current?.sync(s) ?? s, mode))}
+                      className={`flex-1 py-1 rounded-md text-xs transition-all ${
+                        state.cameraMode === mode
+                          ? 'bg-white/20 text-white font-medium'
+                          : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+                      }`}
+                    >
+                      {CAMERA_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div data-tour="observer" className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                    <Navigation size={14} /> Observer
+                  </label>
+                  {state.observer !== 'static' && (
+                    <button
+                      onClick={() => setState(s => ({ ...s, observerTime: 0 }))}
+                      className="text-gray-400 hover:text-white transition-colors"
+                      title="Release again"
+                    >
+                      <RotateCcw size={12} />
+                    </button>
+                  )}
+                </div>
+                <div className="flex gap-1 p-1 bg-white/5 border border-white/10 rounded-lg">
+                  {(Object.keys(OBSERVER_LABELS) as ObserverMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setState(s => ({ ...changeCameraMode(s, 'orbit'), observer: mode, observerTime: 0 }))}
+                      className={`flex-1 py-1 rounded-md text-xs transition-all ${
+                        state.observer === mode
+                          ? 'bg-white/20 text-white font-medium'
+                          : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+                      }`}
+                    >
+                      {OBSERVER_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                  <Cpu size={14} /> Renderer
+                </label>
+                <div className="flex gap-1 p-1 bg-white/5 border border-white/10 rounded-lg">
+                  {(['auto', 'webgpu', 'webgl2'] as const).map(preference => (
+                    <button
+                      key={preference}
+                      onClick={() => switchBackend(preference)}
+                      className={`flex-1 py-1 rounded-md text-xs transition-all ${
+                        backendPreference === preference
+                          ? 'bg-white/20 text-white font-medium'
+                          : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+                      }`}
+                    >
+                      {preference === 'auto' ? 'Auto' : BACKEND_LABELS[preference]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                    <Gauge size={14} /> Quality
+                  </label>
+                  <button
+                    onClick={() => setShowPerf(v => !v)}
+                    className={`text-[10px] font-mono uppercase tracking-wider transition-colors ${showPerf ? 'text-indigo-300' : 'text-gray-500 hover:text-gray-300'}`}
+                    title="Frame rate, GPU time and render resolution"
+                  >
+                    HUD
+                  </button>
+                </div>
+                <div className="flex gap-1 p-1 bg-white/5 border border-white/10 rounded-lg">
+                  {(Object.keys(QUALITY_PRESET_LABELS) as QualityPreset[]).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setQualityPreset(option)}
+                      className={`flex-1 py-1 rounded-md text-xs transition-all ${
+                        qualityPreset === option
+                          ? 'bg-white/20 text-white font-medium'
+                          : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+                      }`}
+                    >
+                      {QUALITY_PRESET_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
               </div>
 
               <button
+                data-tour="jets"
                 onClick={() => setState(s => ({ ...s, showJets: !s.showJets }))}
                 className={`flex items-center justify-center gap-2 w-full py-2 rounded-lg text-sm font-medium transition-all ${
                   state.showJets 
@@ -247,9 +763,11 @@ export default function App() {
               </button>
 
               <button
+                data-tour="milky-way"
                 onClick={() => setState(s => ({ 
                   ...s, 
                   showMilkyWay: !s.showMilkyWay,
+                  cameraMode: 'orbit',
                   cameraDistance: !s.showMilkyWay ? 150.0 : 12.0,
                   cameraAngleX: !s.showMilkyWay ? 0.8 : 0.3
                 }))}
@@ -271,9 +789,20 @@ export default function App() {
             <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-3 text-gray-400 hover:text-white transition-colors cursor-help group relative">
               <Info size={20} />
               <div className="absolute bottom-full left-0 mb-4 w-64 p-4 bg-zinc-900 border border-white/10 rounded-xl text-xs text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none shadow-2xl">
-                <p className="mb-2"><strong className="text-white">Drag</strong> to rotate camera.</p>
-                <p><strong className="text-white">Scroll</strong> to zoom in/out.</p>
-                <p className="mt-2 text-gray-500 italic">Raymarching uses approximate null geodesics for real-time gravitational lensing.</p>
+                <p className="mb-2"><strong className="text-white">Drag</strong> to rotate camera, or use the arrow keys.</p>
+                <p className="mb-2"><strong className="text-white">Scroll</strong>, pinch or <strong className="text-white">W/S</strong> to zoom in/out; twist two fingers to turn.</p>
+                <p>In <strong className="text-white">free fly</strong>, WASD moves, R/F rises and sinks, Q/E rolls and dragging looks around.</p>
+                <p className="mt-2">Open the <strong className="text-white">ray inspector</strong> and click the view to see how the light reaching a pixel was bent.</p>
+                {state.observer !== 'static' && (
+                  <p className="mt-2">Dragging or scrolling picks a new release point for the {OBSERVER_LABELS[state.observer].toLowerCase()} observer.</p>
+                )}
+                <p className="mt-2 text-gray-500 italic">
+                  {state.spin > 0
+                    ? 'Raymarching integrates Kerr null geodesics (RK4, Boyer-Lindquist) for gravitational lensing around a spinning hole.'
+                    : state.integrator === 'accurate'
+                    ? 'Raymarching integrates exact Schwarzschild null geodesics (RK4) for gravitational lensing.'
+                    : 'Raymarching uses approximate null geodesics for real-time gravitational lensing.'}
+                </p>
               </div>
             </div>
             
@@ -284,12 +813,255 @@ export default function App() {
             >
               <GraduationCap size={20} />
             </button>
+
+            <button
+              onClick={() => setShowExport(true)}
+              className="bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-3 text-gray-400 hover:text-white transition-colors pointer-events-auto"
+              title="Export Image"
+            >
+              <Camera size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowTimeline(v => !v)}
+              className={`backdrop-blur-md border rounded-full p-3 transition-colors pointer-events-auto ${
+                showTimeline
+                  ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300'
+                  : 'bg-black/40 border-white/10 text-gray-400 hover:text-white'
+              }`}
+              title="Camera Timeline"
+            >
+              <Film size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowGallery(true)}
+              className="bg-black/40 backdrop-blur-md border border-white/10 rounded-full p-3 text-gray-400 hover:text-white transition-colors pointer-events-auto"
+              title="Scene Gallery"
+            >
+              <LayoutGrid size={20} />
+            </button>
+
+            <button
+              onClick={() => setShowGuide(v => !v)}
+              className={`backdrop-blur-md border rounded-full p-3 transition-colors pointer-events-auto ${
+                showGuide
+                  ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300'
+                  : 'bg-black/40 border-white/10 text-gray-400 hover:text-white'
+              }`}
+              title="Ask the Guide"
+            >
+              <MessageCircle size={20} />
+            </button>
+
+            <button
+              onClick={() => {
+                setShowSource(v => !v);
+                setShowSky(false);
+                setShowObserve(false);
+              }}
+              className={`backdrop-blur-md border rounded-full p-3 transition-colors pointer-events-auto ${
+                showSource
+                  ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300'
+                  : 'bg-black/40 border-white/10 text-gray-400 hover:text-white'
+              }`}
+              title="Disk and Jets"
+            >
+              <Disc3 size={20} />
+            </button>
+
+            <button
+              onClick={() => {
+                setShowSky(v => !v);
+                setShowSource(false);
+                setShowObserve(false);
+              }}
+              className={`backdrop-blur-md border rounded-full p-3 transition-colors pointer-events-auto ${
+                showSky
+                  ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300'
+                  : 'bg-black/40 border-white/10 text-gray-400 hover:text-white'
+              }`}
+              title="Sky"
+            >
+              <Telescope size={20} />
+            </button>
+
+            <button
+              onClick={() => {
+                setShowObserve(v => !v);
+                setShowSky(false);
+                setShowSource(false);
+              }}
+              className={`backdrop-blur-md border rounded-full p-3 transition-colors pointer-events-auto ${
+                showObserve
+                  ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300'
+                  : 'bg-black/40 border-white/10 text-gray-400 hover:text-white'
+              }`}
+              title="Observe"
+            >
+              <RadioTower size={20} />
+            </button>
+
+            <button
+              onClick={() => {
+                setShowInspector(v => !v);
+                setShowOverlay(false);
+                setPinning(null);
+              }}
+              className={`backdrop-blur-md border rounded-full p-3 transition-colors pointer-events-auto ${
+                showInspector
+                  ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300'
+                  : 'bg-black/40 border-white/10 text-gray-400 hover:text-white'
+              }`}
+              title="Ray Inspector"
+            >
+              <Crosshair size={20} />
+            </button>
+
+            <button
+              onClick={() => {
+                setShowOverlay(v => !v);
+                setShowInspector(false);
+                setPinning(null);
+              }}
+              className={`backdrop-blur-md border rounded-full p-3 transition-colors pointer-events-auto ${
+                showOverlay
+                  ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300'
+                  : 'bg-black/40 border-white/10 text-gray-400 hover:text-white'
+              }`}
+              title="Overlay"
+            >
+              <Ruler size={20} />
+            </button>
+
+            <div className="flex bg-black/40 backdrop-blur-md border border-white/10 rounded-full pointer-events-auto">
+              <button
+                onClick={copySceneLink}
+                className="p-3 text-gray-400 hover:text-white transition-colors"
+                title="Copy Scene Link"
+              >
+                <Link size={20} />
+              </button>
+              <button
+                onClick={saveScene}
+                className="p-3 text-gray-400 hover:text-white transition-colors"
+                title="Save Scene Preset"
+              >
+                <Save size={20} />
+              </button>
+              <button
+                onClick={() => sceneInputRef.current?.click()}
+                className="p-3 text-gray-400 hover:text-white transition-colors"
+                title="Load Scene Preset"
+              >
+                <FolderOpen size={20} />
+              </button>
+              <input
+                ref={sceneInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadScene(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            {sceneStatus && (
+              <div className="self-center bg-black/60 backdrop-blur-md border border-white/10 rounded-lg px-3 py-1.5 text-xs font-mono text-gray-300">
+                {sceneStatus}
+              </div>
+            )}
           </div>
 
         </div>
 
         {/* Tutorial Overlay */}
-        {showTutorial && <Tutorial onClose={() => setShowTutorial(false)} setSimState={setState} />}
+        {showTutorial && <Tutorial onClose={() => setShowTutorial(false)} state={state} setSimState={setState} />}
+
+        {showTimeline && (
+          <TimelinePanel
+            onClose={() => setShowTimeline(false)}
+            renderer={rendererRef.current}
+            state={state}
+            setSimState={setState}
+          />
+        )}
+
+        {showGallery && (
+          <GalleryPanel
+            onClose={() => setShowGallery(false)}
+            renderer={rendererRef.current}
+            state={state}
+            setSimState={setState}
+          />
+        )}
+
+        {showGuide && (
+          <GuidePanel
+            onClose={() => setShowGuide(false)}
+            state={state}
+            setSimState={setState}
+          />
+        )}
+
+        {showSky && (
+          <SkyPanel
+            onClose={() => setShowSky(false)}
+            state={state}
+            setSimState={setState}
+            skyImage={skyImage}
+            setSkyImage={setSkyImage}
+          />
+        )}
+
+        {showSource && (
+          <SourcePanel
+            onClose={() => setShowSource(false)}
+            state={state}
+            setSimState={setState}
+            renderer={activeBackend ? rendererRef.current ?? null : null}
+          />
+        )}
+
+        {showObserve && (
+          <ObservePanel
+            onClose={() => setShowObserve(false)}
+            renderer={rendererRef.current}
+            state={state}
+          />
+        )}
+
+        {showInspector && (
+          <InspectorPanel
+            onClose={() => setShowInspector(false)}
+            inspection={inspection?.ray ?? null}
+            spin={inspection?.state.spin ?? state.spin}
+          />
+        )}
+
+        {showOverlay && (
+          <OverlayPanel
+            onClose={() => {
+              setShowOverlay(false);
+              setPinning(null);
+            }}
+            settings={overlay}
+            setSettings={setOverlay}
+            pinning={pinning}
+            setPinning={setPinning}
+          />
+        )}
+
+        {showExport && (
+          <ExportDialog
+            onClose={() => setShowExport(false)}
+            renderer={rendererRef.current}
+            viewport={{ width: canvasRef.current?.width ?? 1920, height: canvasRef.current?.height ?? 1080 }}
+          />
+        )}
       </div>
     </div>
   );
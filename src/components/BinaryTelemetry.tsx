@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { SimulationRenderer, SimulationState } from '../lib/renderer';
+import { binaryOrbit } from '../lib/binary';
+import { formatDuration } from '../lib/units';
+
+interface BinaryTelemetryProps {
+  renderer: SimulationRenderer | null;
+  state: SimulationState;
+  // Geometric time unit Rs/c in seconds
+  timeUnit: number;
+}
+
+// The orbit moves with the clock rather than the state, so it is polled
+const REFRESH_MS = 250;
+
+// Telemetry rows for the binary companion, if there is one
+export function BinaryTelemetry({ renderer, state, timeUnit }: BinaryTelemetryProps) {
+  const [time, setTime] = useState(state.simulationTime);
+
+  useEffect(() => {
+    if (!renderer) return;
+    const id = window.setInterval(() => setTime(renderer.time), REFRESH_MS);
+    return () => window.clearInterval(id);
+  }, [renderer]);
+
+  if (state.binaryMassRatio <= 0) return null;
+  const orbit = binaryOrbit(state, time);
+
+  return (
+    <>
+      <div className="h-px bg-white/10 my-2" />
+      {orbit ? (
+        <>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Separation</span>
+            <span>{orbit.separation.toFixed(2)} Rs</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Orbital Period</span>
+            <span>{formatDuration(orbit.period * timeUnit)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Time to Merger</span>
+            <span className={state.binaryDecay ? 'text-orange-400' : undefined}>{formatDuration(orbit.mergerTime * timeUnit)}</span>
+          </div>
+        </>
+      ) : (
+        <div className="flex justify-between">
+          <span className="text-gray-500">Companion</span>
+          <span className="text-red-400">Merged</span>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, StepBack, StepForward } from 'lucide-react';
+import { ClockStats, FIXED_STEP_RATES, SimulationClock } from '../lib/clock';
+
+interface ClockControlsProps {
+  clock: SimulationClock | null;
+  timeSpeed: number;
+}
+
+// Refreshing every frame would cost more React work than it reports
+const REFRESH_MS = 100;
+// The scrubber spans whole windows of this much shader time, enough to cover
+// the furthest time reached
+const SCRUB_WINDOW = 60;
+
+export function ClockControls({ clock, timeSpeed }: ClockControlsProps) {
+  const [stats, setStats] = useState<ClockStats | null>(null);
+  const [reached, setReached] = useState(0);
+
+  useEffect(() => {
+    if (!clock) return;
+    const refresh = () => {
+      const next = clock.stats();
+      setStats(next);
+      setReached(r => Math.max(r, next.time));
+    };
+    refresh();
+    const id = window.setInterval(refresh, REFRESH_MS);
+    return () => window.clearInterval(id);
+  }, [clock]);
+
+  if (!clock || !stats) return null;
+
+  const update = (change: (c: SimulationClock) => void) => {
+    change(clock);
+    setStats(clock.stats());
+  };
+  const span = Math.ceil(Math.max(reached, stats.time, 1) / SCRUB_WINDOW) * SCRUB_WINDOW;
+  const button = 'p-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => update(c => c.step(timeSpeed, -1))}
+          disabled={timeSpeed === 0}
+          className={button}
+          title="Step back a frame"
+        >
+          <StepBack size={14} />
+        </button>
+        <button
+          onClick={() => update(c => { c.paused = !c.paused; })}
+          className={button}
+          title={stats.paused ? 'Resume' : 'Pause'}
+        >
+          {stats.paused ? <Play size={14} /> : <Pause size={14} />}
+        </button>
+        <button
+          onClick={() => update(c => c.step(timeSpeed))}
+          disabled={timeSpeed === 0}
+          className={button}
+          title="Step forward a frame"
+        >
+          <StepForward size={14} />
+        </button>
+        <span className="flex-1 text-right text-xs font-mono text-gray-300">t {stats.time.toFixed(2)}</span>
+        <select
+          value={stats.fixedRate ?? ''}
+          onChange={(e) => update(c => { c.fixedRate = e.target.value ? Number(e.target.value) : null; })}
+          className="bg-black/40 border border-white/10 rounded-md px-1 py-0.5 text-[10px] text-gray-300"
+          title="Real time, or a fixed step per frame for reproducible runs"
+        >
+          <option value="">Real time</option>
+          {FIXED_STEP_RATES.map(rate => (
+            <option key={rate} value={rate}>Fixed 1/{rate} s</option>
+          ))}
+        </select>
+      </div>
+      <input
+        type="range"
+        min={0} max={span} step={0.01}
+        value={stats.time}
+        onChange={(e) => update(c => c.seek(parseFloat(e.target.value)))}
+        className="w-full accent-indigo-500"
+        title="Simulation time"
+      />
+    </div>
+  );
+}
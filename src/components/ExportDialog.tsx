@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { Camera, X, Download } from 'lucide-react';
+import { SimulationRenderer } from '../lib/renderer';
+import { EXPORT_RESOLUTIONS, MAX_EXPORT_SIZE, downloadBlob, encodeExportPNG, exportFileName } from '../lib/export';
+
+interface ExportDialogProps {
+  onClose: () => void;
+  renderer: SimulationRenderer | null;
+  // Canvas size in device pixels, offered as the "Current" preset
+  viewport: { width: number; height: number };
+}
+
+const SAMPLE_COUNTS = [1, 4, 16, 64, 256];
+
+export function ExportDialog({ onClose, renderer, viewport }: ExportDialogProps) {
+  const resolutions = [{ id: 'current', label: 'Current', ...viewport }, ...EXPORT_RESOLUTIONS];
+  const [resolutionId, setResolutionId] = useState('4k');
+  const [custom, setCustom] = useState({ width: 3840, height: 2160 });
+  const [samples, setSamples] = useState(64);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const size = resolutionId === 'custom'
+    ? custom
+    : resolutions.find(r => r.id === resolutionId) ?? resolutions[0];
+  const busy = progress !== null;
+
+  const start = async () => {
+    if (!renderer) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus(null);
+    setProgress(0);
+    try {
+      const image = await renderer.exportImage({
+        width: size.width,
+        height: size.height,
+        samples,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(done / total),
+      });
+      setStatus('Encoding PNG…');
+      downloadBlob(await encodeExportPNG(image), exportFileName(image));
+      setStatus(`Saved ${exportFileName(image)}`);
+    } catch (e) {
+      setStatus(controller.signal.aborted ? 'Export cancelled.' : e instanceof Error ? e.message : String(e));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/40 pointer-events-auto">
+      <div className="w-96 bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+        <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+          <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+            <Camera size={18} />
+            Export Image
+          </div>
+          <button onClick={onClose} disabled={busy} className="text-gray-400 hover:text-white disabled:opacity-30 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div>
+            <label className="text-xs text-gray-400 uppercase tracking-wider mb-2 block">Resolution</label>
+            <div className="grid grid-cols-5 gap-1 bg-white/5 p-1 rounded-lg">
+              {[...resolutions, { id: 'custom', label: 'Custom' }].map(r => (
+                <button
+                  key={r.id}
+                  onClick={() => setResolutionId(r.id)}
+                  disabled={busy}
+                  className={`py-1.5 text-xs rounded-md transition-colors ${
+                    resolutionId === r.id ? 'bg-indigo-500/30 text-indigo-200' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+            {resolutionId === 'custom' ? (
+              <div className="flex items-center gap-2 mt-2 font-mono text-xs">
+                {(['width', 'height'] as const).map((axis, i) => (
+                  <React.Fragment key={axis}>
+                    {i > 0 && <span className="text-gray-500">×</span>}
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_EXPORT_SIZE}
+                      value={custom[axis]}
+                      disabled={busy}
+                      onChange={(e) => setCustom(c => ({ ...c, [axis]: Math.round(Number(e.target.value)) }))}
+                      className="w-24 bg-white/5 border border-white/10 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:border-indigo-500/50"
+                    />
+                  </React.Fragment>
+                ))}
+              </div>
+            ) : (
+              <div className="mt-2 font-mono text-xs text-gray-500">{size.width} × {size.height} px</div>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs text-gray-400 uppercase tracking-wider mb-2 block">Samples per Pixel</label>
+            <div className="grid grid-cols-5 gap-1 bg-white/5 p-1 rounded-lg">
+              {SAMPLE_COUNTS.map(n => (
+                <button
+                  key={n}
+                  onClick={() => setSamples(n)}
+                  disabled={busy}
+                  className={`py-1.5 text-xs font-mono rounded-md transition-colors ${
+                    samples === n ? 'bg-indigo-500/30 text-indigo-200' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {n}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 leading-relaxed">
+            Time is frozen at the current frame while the image renders. The simulation state is embedded in the PNG.
+          </p>
+
+          {busy && (
+            <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-400 transition-all" style={{ width: `${progress * 100}%` }} />
+            </div>
+          )}
+          {status && <p className="text-xs font-mono text-gray-400">{status}</p>}
+        </div>
+
+        <div className="px-5 py-4 bg-black/40 border-t border-white/5 flex justify-end gap-2">
+          {busy ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={start}
+              disabled={!renderer}
+              className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              <Download size={16} /> Render PNG
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
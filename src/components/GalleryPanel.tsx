@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutGrid, X, Save, Trash2, Pencil, FolderMinus, Plus, Check } from 'lucide-react';
+import { SimulationRenderer, SimulationState } from '../lib/renderer';
+import {
+  GalleryCollection, GalleryScene, MAX_TITLE_LENGTH,
+  addToCollection, createCollection, createScene, deleteCollection, deleteScene, getScene, listCollections,
+  listScenes, parseTags, removeFromCollection, renameCollection, renderThumbnail, thumbnailUrl, updateScene,
+} from '../lib/gallery';
+import { findPreset } from '../lib/presets';
+
+interface GalleryPanelProps {
+  onClose: () => void;
+  renderer: SimulationRenderer | null;
+  state: SimulationState;
+  setSimState: React.Dispatch<React.SetStateAction<SimulationState>>;
+}
+
+export function GalleryPanel({ onClose, renderer, state, setSimState }: GalleryPanelProps) {
+  const [scenes, setScenes] = useState<GalleryScene[]>([]);
+  const [collections, setCollections] = useState<GalleryCollection[]>([]);
+  // null shows every scene
+  const [collectionId, setCollectionId] = useState<number | null>(null);
+  const [tag, setTag] = useState<string | null>(null);
+  const [title, setTitle] = useState(() => findPreset(state.presetId)?.name ?? 'Custom Black Hole');
+  const [tagText, setTagText] = useState('');
+  const [newCollection, setNewCollection] = useState('');
+  const [editing, setEditing] = useState<{ id: number; title: string; tags: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const collection = collections.find(c => c.id === collectionId) ?? null;
+
+  // Runs a server call with the controls disabled; errors land in the status line.
+  const run = async (action: () => Promise<unknown>, done?: string) => {
+    setBusy(true);
+    try {
+      await action();
+      if (done) setStatus(done);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const refresh = async () => {
+    const [nextScenes, nextCollections] = await Promise.all([
+      listScenes({ collectionId: collectionId ?? undefined, tag: tag ?? undefined }),
+      listCollections(),
+    ]);
+    setScenes(nextScenes);
+    setCollections(nextCollections);
+  };
+
+  useEffect(() => {
+    run(refresh);
+  }, [collectionId, tag]);
+
+  const save = () => run(async () => {
+    const thumbnail = renderer ? await renderThumbnail(renderer, state) : undefined;
+    const saved = { ...state, simulationTime: renderer?.time ?? state.simulationTime };
+    const scene = await createScene({ title, state: saved, tags: parseTags(tagText), thumbnail });
+    if (collectionId !== null) await addToCollection(collectionId, scene.id);
+    setTagText('');
+    await refresh();
+  }, `Saved "${title}".`);
+
+  const load = (scene: GalleryScene) => run(async () => {
+    const detail = await getScene(scene.id);
+    setSimState(detail.state);
+    renderer?.clock.seek(detail.state.simulationTime);
+  }, `Loaded "${scene.title}".`);
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const { id, title, tags } = editing;
+    setEditing(null);
+    run(async () => {
+      await updateScene(id, { title, tags: parseTags(tags) });
+      await refresh();
+    });
+  };
+
+  const inputClass = 'bg-white/5 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-indigo-500/50';
+  const iconButton = 'p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-black/40 pointer-events-auto">
+      <div className="w-[48rem] max-w-[calc(100%-3rem)] max-h-[85vh] bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col">
+        <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+          <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+            <LayoutGrid size={18} />
+            Scene Gallery
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Save the current view */}
+        <div className="p-4 flex items-center gap-2 border-b border-white/5">
+          <input
+            value={title}
+            maxLength={MAX_TITLE_LENGTH}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title"
+            className={`${inputClass} flex-1`}
+          />
+          <input
+            value={tagText}
+            onChange={(e) => setTagText(e.target.value)}
+            placeholder="Tags, comma separated"
+            className={`${inputClass} w-48`}
+          />
+          <button
+            onClick={save}
+            disabled={busy || title.trim().length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            <Save size={16} /> Save View
+          </button>
+        </div>
+
+        {/* Collections and filters */}
+        <div className="px-4 py-2 flex flex-wrap items-center gap-1 border-b border-white/5 text-xs">
+          {[{ id: null, name: 'All Scenes' } as { id: number | null; name: string }, ...collections].map(c => (
+            <button
+              key={c.id ?? 'all'}
+              onClick={() => setCollectionId(c.id)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                collectionId === c.id ? 'bg-indigo-500/30 text-indigo-200' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {c.name}
+            </button>
+          ))}
+          {collection && (
+            <button
+              onClick={() => run(async () => {
+                await deleteCollection(collection.id);
+                setCollectionId(null);
+              }, `Deleted collection "${collection.name}".`)}
+              disabled={busy}
+              className={iconButton}
+              title="Delete Collection (keeps its scenes)"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+          <div className="flex-1" />
+          <input
+            value={newCollection}
+            onChange={(e) => setNewCollection(e.target.value)}
+            placeholder="New collection"
+            className={`${inputClass} w-36`}
+          />
+          <button
+            onClick={() => run(async () => {
+              const created = await createCollection(newCollection);
+              setNewCollection('');
+              setCollectionId(created.id);
+            })}
+            disabled={busy || newCollection.trim().length === 0}
+            className={iconButton}
+            title="Create Collection"
+          >
+            <Plus size={14} />
+          </button>
+          {collection && (
+            <button
+              onClick={() => {
+                const name = newCollection.trim();
+                run(async () => {
+                  await renameCollection(collection.id, name);
+                  setNewCollection('');
+                  await refresh();
+                });
+              }}
+              disabled={busy || newCollection.trim().length === 0}
+              className={iconButton}
+              title="Rename Selected Collection"
+            >
+              <Pencil size={14} />
+            </button>
+          )}
+        </div>
+        {tag && (
+          <div className="px-4 pt-2 text-xs text-gray-400">
+            Tagged <span className="text-indigo-300">#{tag}</span>
+            <button onClick={() => setTag(null)} className="ml-2 text-gray-500 hover:text-white">clear</button>
+          </div>
+        )}
+
+        {/* Scenes */}
+        <div className="p-4 overflow-y-auto grid grid-cols-3 gap-3">
+          {scenes.length === 0 && (
+            <p className="col-span-3 text-xs text-gray-500">
+              {collection ? 'This collection is empty.' : 'No saved scenes yet. Frame a view and press Save View.'}
+            </p>
+          )}
+          {scenes.map(scene => (
+            <div key={scene.id} className="bg-white/5 border border-white/10 rounded-xl overflow-hidden flex flex-col">
+              <button onClick={() => load(scene)} disabled={busy} className="aspect-video bg-black" title="Load Scene">
+                {scene.hasThumbnail && (
+                  <img src={thumbnailUrl(scene)} alt={scene.title} className="w-full h-full object-cover" />
+                )}
+              </button>
+              <div className="p-2 space-y-1">
+                {editing?.id === scene.id ? (
+                  <div className="space-y-1">
+                    <input
+                      value={editing.title}
+                      maxLength={MAX_TITLE_LENGTH}
+                      onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                      className={`${inputClass} w-full`}
+                    />
+                    <input
+                      value={editing.tags}
+                      onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                      placeholder="Tags"
+                      className={`${inputClass} w-full`}
+                    />
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-200 truncate" title={scene.title}>{scene.title}</div>
+                )}
+                <div className="flex flex-wrap gap-1 min-h-[1rem]">
+                  {scene.tags.map(t => (
+                    <button key={t} onClick={() => setTag(t)} className="text-[10px] text-indigo-300 hover:text-white">
+                      #{t}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center justify-end gap-0.5">
+                  {editing?.id === scene.id ? (
+                    <button onClick={commitEdit} disabled={busy} className={iconButton} title="Save Changes">
+                      <Check size={14} />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setEditing({ id: scene.id, title: scene.title, tags: scene.tags.join(', ') })}
+                      disabled={busy}
+                      className={iconButton}
+                      title="Rename / Retag"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                  )}
+                  {collection ? (
+                    <button
+                      onClick={() => run(async () => {
+                        await removeFromCollection(collection.id, scene.id);
+                        await refresh();
+                      })}
+                      disabled={busy}
+                      className={iconButton}
+                      title={`Remove from ${collection.name}`}
+                    >
+                      <FolderMinus size={14} />
+                    </button>
+                  ) : collections.length > 0 && (
+                    <select
+                      value=""
+                      disabled={busy}
+                      onChange={(e) => {
+                        const target = Number(e.target.value);
+                        run(async () => {
+                          await addToCollection(target, scene.id);
+                          await refresh();
+                        }, `Added "${scene.title}" to the collection.`);
+                      }}
+                      className={`${inputClass} w-8 appearance-none text-center`}
+                      title="Add to Collection"
+                    >
+                      <option value="" disabled className="bg-zinc-900">+</option>
+                      {collections.filter(c => !scene.collectionIds.includes(c.id)).map(c => (
+                        <option key={c.id} value={c.id} className="bg-zinc-900">{c.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => run(async () => {
+                      await deleteScene(scene.id);
+                      await refresh();
+                    }, `Deleted "${scene.title}".`)}
+                    disabled={busy}
+                    className={iconButton}
+                    title="Delete Scene"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {status && <p className="px-4 pb-3 text-xs font-mono text-gray-400">{status}</p>}
+      </div>
+    </div>
+  );
+}
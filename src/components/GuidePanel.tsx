@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircle, X, Send, Square, Sparkles } from 'lucide-react';
+import { SimulationState } from '../lib/renderer';
+import { GuideMessage, GuideSuggestion, applySuggestion, askGuide, guideAvailable } from '../lib/guide';
+
+interface GuidePanelProps {
+  onClose: () => void;
+  state: SimulationState;
+  setSimState: React.Dispatch<React.SetStateAction<SimulationState>>;
+}
+
+const STARTERS = [
+  'Why is one side of the disk brighter?',
+  'What would I see falling in from here?',
+  'What does this look like in X-rays?',
+];
+
+export function GuidePanel({ onClose, state, setSimState }: GuidePanelProps) {
+  const [messages, setMessages] = useState<GuideMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [pending, setPending] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Null until the server has answered
+  const [available, setAvailable] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    guideAvailable().then(ok => {
+      if (!cancelled) setAvailable(ok);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, pending]);
+
+  // An answer still in flight is dropped when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pending) return;
+    const history = messages;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessages([...history, { role: 'user', text: trimmed }]);
+    setQuestion('');
+    setStatus(null);
+    setPending(true);
+    try {
+      const reply = await askGuide(history, trimmed, state, controller.signal);
+      setMessages(m => [...m, { role: 'guide', text: reply.answer, suggestions: reply.suggestions }]);
+    } catch (e) {
+      if (!controller.signal.aborted) setStatus(e instanceof Error ? e.message : String(e));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setPending(false);
+    }
+  };
+
+  const apply = (suggestion: GuideSuggestion) => {
+    try {
+      setSimState(s => applySuggestion(s, suggestion));
+      setStatus(`Applied "${suggestion.label}".`);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="absolute top-40 left-6 w-96 max-w-[calc(100%-3rem)] h-[28rem] max-h-[calc(100%-20rem)] bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto">
+      <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+        <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+          <MessageCircle size={18} />
+          Ask the Guide
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+        {available === false && (
+          <p className="text-xs text-gray-400">
+            The guide runs through the app server (<code className="text-indigo-300">npm run dev</code>). Set
+            {' '}<code className="text-indigo-300">GEMINI_API_KEY</code> in .env.local to talk to it, or
+            {' '}<code className="text-indigo-300">GEMINI_BASE_URL</code> to point it at a local mock.
+          </p>
+        )}
+        {available && messages.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-400">Ask about anything on screen. The guide sees the same numbers as the telemetry panel.</p>
+            {STARTERS.map(s => (
+              <button
+                key={s}
+                onClick={() => ask(s)}
+                className="block w-full text-left px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-xs text-gray-300 hover:border-indigo-500/50 hover:text-white transition-colors"
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((m, i) => (
+          <div key={i} className={m.role === 'user' ? 'flex justify-end' : ''}>
+            <div
+              className={`rounded-xl px-3 py-2 whitespace-pre-wrap ${
+                m.role === 'user' ? 'max-w-[85%] bg-indigo-600/60 text-white' : 'bg-white/5 border border-white/10 text-gray-300'
+              }`}
+            >
+              {m.text}
+            </div>
+            {m.suggestions && m.suggestions.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {m.suggestions.map(s => (
+                  <button
+                    key={s.label}
+                    onClick={() => apply(s)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md bg-indigo-500/20 border border-indigo-500/40 text-xs text-indigo-200 hover:bg-indigo-500/40 hover:text-white transition-colors"
+                  >
+                    <Sparkles size={12} /> {s.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+        {pending && <p className="text-xs font-mono text-gray-500 animate-pulse">The guide is thinking…</p>}
+      </div>
+
+      {status && <p className="px-4 pb-2 text-xs font-mono text-gray-400">{status}</p>}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(question);
+        }}
+        className="p-3 flex items-center gap-2 border-t border-white/5"
+      >
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          disabled={!available}
+          placeholder="Ask a question…"
+          className="flex-1 bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-indigo-500/50 disabled:opacity-30"
+        />
+        {pending ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+            title="Stop"
+          >
+            <Square size={14} />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!available || question.trim().length === 0}
+            className="p-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 text-white transition-colors"
+            title="Send"
+          >
+            <Send size={14} />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import React from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { RayInspection, RAY_EMITTER_LABELS, RAY_END_LABELS } from '../lib/inspector';
+
+interface InspectorPanelProps {
+  onClose: () => void;
+  inspection: RayInspection | null;
+  spin: number;
+}
+
+const END_COLORS: Record<RayInspection['end'], string> = {
+  horizon: '#f87171',
+  sky: '#e0e7ff',
+  absorbed: '#fb923c',
+  steps: '#9ca3af',
+};
+
+// Orbital-plane plot, y up, a little wider than the camera's distance
+function RayPlot({ inspection }: { inspection: RayInspection }) {
+  const { path, diskAxis, diskInner, diskOuter, horizon, photonOrbit } = inspection;
+  const extent = Math.min(Math.max(path[0][0] * 1.15, 4), 30);
+  const points = path.map(([x, y]) => `${x.toFixed(3)},${(-y).toFixed(3)}`).join(' ');
+  const ring = (r: number) => `M ${r} 0 A ${r} ${r} 0 1 0 ${-r} 0 A ${r} ${r} 0 1 0 ${r} 0 Z`;
+
+  return (
+    <svg viewBox={`${-extent} ${-extent} ${2 * extent} ${2 * extent}`} className="w-full aspect-square bg-black/40 rounded-lg border border-white/10">
+      {diskAxis ? (
+        [1, -1].map(sign => (
+          <line
+            key={sign}
+            x1={sign * diskAxis[0] * diskInner} y1={-sign * diskAxis[1] * diskInner}
+            x2={sign * diskAxis[0] * diskOuter} y2={-sign * diskAxis[1] * diskOuter}
+            stroke="#f97316" strokeOpacity={0.6} strokeWidth={4} vectorEffect="non-scaling-stroke"
+          />
+        ))
+      ) : (
+        // Seen face-on the disk fills an annulus
+        <path d={`${ring(diskOuter)} ${ring(diskInner)}`} fill="#f97316" fillOpacity={0.2} fillRule="evenodd" />
+      )}
+      <circle r={photonOrbit} fill="none" stroke="#818cf8" strokeDasharray="3 3" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      <circle r={horizon} fill="#000" stroke="#6b7280" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      <polyline points={points} fill="none" stroke={END_COLORS[inspection.end]} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      <circle cx={path[0][0]} cy={-path[0][1]} r={extent * 0.02} fill="#facc15" />
+    </svg>
+  );
+}
+
+export function InspectorPanel({ onClose, inspection, spin }: InspectorPanelProps) {
+  const degrees = (radians: number) => `${(radians * 180 / Math.PI).toFixed(1)}°`;
+
+  return (
+    <div className="absolute top-40 left-6 w-80 max-w-[calc(100%-3rem)] bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto">
+      <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+        <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+          <Crosshair size={18} />
+          Ray Inspector
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3 text-sm">
+        {!inspection ? (
+          <p className="text-xs text-gray-400">
+            Click anywhere on the view to follow the light that lands on that pixel back to where it came from.
+          </p>
+        ) : (
+          <>
+            <RayPlot inspection={inspection} />
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-mono text-gray-400">
+              <span><span className="text-yellow-400">●</span> camera</span>
+              <span><span className="text-indigo-400">- -</span> photon orbit</span>
+              <span><span className="text-orange-500">━</span> disk</span>
+            </div>
+            {spin > 0 && (
+              <p className="text-[10px] text-gray-500">A spinning hole drags rays out of the plane; the path is projected onto it.</p>
+            )}
+            <div className="space-y-1 font-mono text-xs">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Lit by</span>
+                <span>{inspection.emitters.map(e => RAY_EMITTER_LABELS[e]).join(', ') || 'Nothing'}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Ends at</span>
+                <span style={{ color: END_COLORS[inspection.end] }}>{RAY_END_LABELS[inspection.end]}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Impact parameter</span>
+                <span>{inspection.impactParameter.toFixed(3)} Rs</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Closest approach</span>
+                <span>{inspection.closestApproach.toFixed(3)} Rs</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Orbits</span>
+                <span>{inspection.orbits.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Deflection</span>
+                <span>{degrees(inspection.deflection)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Steps</span>
+                <span>{inspection.steps}</span>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
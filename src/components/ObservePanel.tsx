@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RadioTower, X } from 'lucide-react';
+import { SimulationRenderer, SimulationState } from '../lib/renderer';
+import { OBSERVING_BANDS } from '../lib/spectrum';
+import {
+  EHT_STATIONS, MICROARCSECOND, OBSERVE_FREQUENCIES, OBSERVE_LIMITS, OBSERVE_RESOLUTION,
+  Observation, ObserveSettings, beamSize, defaultObserveSettings, observe, shadowSize,
+} from '../lib/observe';
+
+interface ObservePanelProps {
+  onClose: () => void;
+  renderer: SimulationRenderer | null;
+  state: SimulationState;
+}
+
+type ObserveView = 'image' | 'uv' | 'amplitude';
+
+const VIEW_LABELS: Record<ObserveView, string> = {
+  image: 'Image',
+  uv: '(u,v)',
+  amplitude: 'Amplitude',
+};
+
+// Jittered samples per pixel of the observed frame
+const SAMPLES = 4;
+const RADIO_BAND = OBSERVING_BANDS.findIndex(b => b.id === 'radio');
+const STATION_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#22d3ee', '#818cf8', '#e879f9', '#f472b6'];
+
+const microarcseconds = (radians: number) => `${(radians / MICROARCSECOND).toFixed(1)} μas`;
+
+// Blurred image in a black-red-yellow-white ramp, with the shadow's expected
+// size dashed and the beam in the corner
+function ObservedImage({ observation }: { observation: Observation }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { size, pixel, image, beam, shadow } = observation;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const data = ctx.createImageData(size, size);
+    const ramp = (x: number) => Math.round(255 * Math.min(1, Math.max(0, x)));
+    image.forEach((v, i) => {
+      data.data[i * 4] = ramp(2 * v);
+      data.data[i * 4 + 1] = ramp(2 * v - 0.5);
+      data.data[i * 4 + 2] = ramp(2 * v - 1);
+      data.data[i * 4 + 3] = 255;
+    });
+    ctx.putImageData(data, 0, 0);
+  }, [observation]);
+
+  return (
+    <div className="relative w-full aspect-square rounded-lg overflow-hidden border border-white/10">
+      <canvas ref={canvasRef} width={size} height={size} className="absolute inset-0 w-full h-full [image-rendering:pixelated]" />
+      <svg viewBox={`0 0 ${size} ${size}`} className="absolute inset-0 w-full h-full">
+        <circle cx={size / 2} cy={size / 2} r={shadow / pixel / 2} fill="none" stroke="#a5b4fc" strokeDasharray="3 3" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        <circle cx={size * 0.12} cy={size * 0.88} r={Math.min(beam / pixel / 2, size * 0.1)} fill="#ffffff" fillOpacity={0.3} stroke="#ffffff" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <span className="absolute top-1 right-2 text-[10px] font-mono text-gray-300">{microarcseconds(size * pixel)} across</span>
+    </div>
+  );
+}
+
+// Sampled (u,v) points and their conjugates, coloured by the first station
+function UVPlot({ observation }: { observation: Observation }) {
+  const extent = Math.max(...observation.visibilities.map(p => Math.hypot(p.u, p.v)), 1) * 1.1 / 1e9;
+  return (
+    <svg viewBox={`${-extent} ${-extent} ${2 * extent} ${2 * extent}`} className="w-full aspect-square bg-black/40 rounded-lg border border-white/10">
+      <line x1={-extent} y1={0} x2={extent} y2={0} stroke="#374151" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      <line x1={0} y1={-extent} x2={0} y2={extent} stroke="#374151" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      <circle r={observation.firstNull / 1e9} fill="none" stroke="#a5b4fc" strokeDasharray="3 3" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      {observation.visibilities.map((p, i) => [1, -1].map(sign => (
+        // u grows to the left, as on the sky
+        <circle key={`${i}${sign}`} cx={-sign * p.u / 1e9} cy={-sign * p.v / 1e9} r={extent * 0.008} fill={STATION_COLORS[p.a % STATION_COLORS.length]} />
+      )))}
+    </svg>
+  );
+}
+
+// Visibility amplitude against projected baseline length, with the first
+// null expected of a ring the size of the shadow
+function AmplitudePlot({ observation }: { observation: Observation }) {
+  const width = 100;
+  const height = 70;
+  const points = observation.visibilities.map(p => [Math.hypot(p.u, p.v), p.amplitude]);
+  const maxBaseline = Math.max(...points.map(p => p[0]), observation.firstNull) * 1.05;
+  const maxAmplitude = Math.max(...points.map(p => p[1]), 1e-6) * 1.05;
+  const x = (baseline: number) => (baseline / maxBaseline) * width;
+  const y = (amplitude: number) => height - (amplitude / maxAmplitude) * height;
+
+  return (
+    <div className="space-y-1">
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-48 bg-black/40 rounded-lg border border-white/10">
+        <line x1={x(observation.firstNull)} y1={0} x2={x(observation.firstNull)} y2={height} stroke="#a5b4fc" strokeDasharray="3 3" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        {points.map(([b, a], i) => (
+          <rect key={i} x={x(b) - 0.4} y={y(a) - 0.4} width={0.8} height={0.8} fill={STATION_COLORS[observation.visibilities[i].a % STATION_COLORS.length]} />
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-gray-500">
+        <span>0</span>
+        <span>baseline, Gλ</span>
+        <span>{(maxBaseline / 1e9).toFixed(1)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function ObservePanel({ onClose, renderer, state }: ObservePanelProps) {
+  const [settings, setSettings] = useState<ObserveSettings>(() => defaultObserveSettings(state));
+  const [observation, setObservation] = useState<Observation | null>(null);
+  const [view, setView] = useState<ObserveView>('image');
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // A preset brings its own distance and declination
+  useEffect(() => {
+    const { distanceMpc, declinationDeg } = defaultObserveSettings(state);
+    setSettings(s => ({ ...s, distanceMpc, declinationDeg }));
+  }, [state.presetId]);
+
+  const update = (changes: Partial<ObserveSettings>) => setSettings(s => ({ ...s, ...changes }));
+
+  const run = async () => {
+    if (!renderer) return;
+    setBusy(true);
+    setStatus(null);
+    try {
+      // The observing frequencies all fall in the radio band
+      const frame = await renderer.exportImage({
+        width: OBSERVE_RESOLUTION,
+        height: OBSERVE_RESOLUTION,
+        samples: SAMPLES,
+        state: { ...renderer.state, wavelength: RADIO_BAND },
+      });
+      setObservation(observe(frame, frame.state, settings));
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute top-40 right-6 w-80 max-w-[calc(100%-3rem)] max-h-[calc(100%-14rem)] bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto">
+      <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+        <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+          <RadioTower size={18} />
+          Observe
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4 text-sm overflow-y-auto">
+        <div className="space-y-1">
+          <span className="text-xs text-gray-400">Frequency</span>
+          <div className="grid grid-cols-3 gap-1 bg-white/5 p-1 rounded-lg">
+            {OBSERVE_FREQUENCIES.map(f => (
+              <button
+                key={f}
+                onClick={() => update({ frequencyGHz: f })}
+                className={`py-1 rounded-md text-xs transition-colors ${settings.frequencyGHz === f ? 'bg-indigo-500/40 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {f} GHz
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">Longest baseline</span>
+            <span className="font-mono">{Math.round(settings.baselineKm).toLocaleString()} km</span>
+          </div>
+          <input
+            type="range"
+            min={Math.log10(OBSERVE_LIMITS.minBaselineKm)} max={Math.log10(OBSERVE_LIMITS.maxBaselineKm)} step={0.01}
+            value={Math.log10(settings.baselineKm)}
+            onChange={(e) => update({ baselineKm: Math.pow(10, parseFloat(e.target.value)) })}
+            className="w-full accent-indigo-500"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">Signal to noise</span>
+            <span className="font-mono">{settings.snr.toFixed(0)}</span>
+          </div>
+          <input
+            type="range"
+            min={Math.log10(OBSERVE_LIMITS.minSnr)} max={Math.log10(OBSERVE_LIMITS.maxSnr)} step={0.01}
+            value={Math.log10(settings.snr)}
+            onChange={(e) => update({ snr: Math.pow(10, parseFloat(e.target.value)) })}
+            className="w-full accent-indigo-500"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">Distance</span>
+            <span className="font-mono">{settings.distanceMpc.toPrecision(3)} Mpc</span>
+          </div>
+          <input
+            type="range"
+            min={OBSERVE_LIMITS.minLogDistanceMpc} max={OBSERVE_LIMITS.maxLogDistanceMpc} step={0.01}
+            value={Math.log10(settings.distanceMpc)}
+            onChange={(e) => update({ distanceMpc: Math.pow(10, parseFloat(e.target.value)) })}
+            className="w-full accent-indigo-500"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-400">Declination</span>
+            <span className="font-mono">{settings.declinationDeg.toFixed(1)}°</span>
+          </div>
+          <input
+            type="range"
+            min={-90} max={90} step={0.5}
+            value={settings.declinationDeg}
+            onChange={(e) => update({ declinationDeg: parseFloat(e.target.value) })}
+            className="w-full accent-indigo-500"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+          <div className="bg-white/5 rounded-lg px-2 py-1.5">
+            <div className="text-gray-500">Shadow</div>
+            {microarcseconds(shadowSize(state, settings.distanceMpc))}
+          </div>
+          <div className="bg-white/5 rounded-lg px-2 py-1.5">
+            <div className="text-gray-500">Beam</div>
+            {microarcseconds(beamSize(settings))}
+          </div>
+        </div>
+
+        <button
+          onClick={run}
+          disabled={!renderer || busy}
+          className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          {busy ? 'Observing…' : 'Observe'}
+        </button>
+        {status && <p className="text-xs font-mono text-red-400">{status}</p>}
+
+        {observation && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-1 bg-white/5 p-1 rounded-lg">
+              {(Object.keys(VIEW_LABELS) as ObserveView[]).map(v => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`py-1 rounded-md text-xs transition-colors ${view === v ? 'bg-indigo-500/40 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {VIEW_LABELS[v]}
+                </button>
+              ))}
+            </div>
+            {view === 'image' && <ObservedImage observation={observation} />}
+            {view === 'uv' && <UVPlot observation={observation} />}
+            {view === 'amplitude' && <AmplitudePlot observation={observation} />}
+            {view !== 'image' && (
+              <div className="flex flex-wrap gap-x-2 text-[10px] font-mono">
+                {EHT_STATIONS.map((s, i) => (
+                  <span key={s.id} style={{ color: STATION_COLORS[i % STATION_COLORS.length] }}>{s.id}</span>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              {observation.visibilities.length} visibilities at {observation.settings.frequencyGHz} GHz. The dashed ring marks the shadow, and its first visibility null at {(observation.firstNull / 1e9).toFixed(2)} Gλ.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef } from 'react';
+import { SimulationRenderer } from '../lib/renderer';
+import { formatScientific } from '../lib/units';
+import {
+  OVERLAY_COLORS, OverlaySettings, overlayCurves, overlayView, projectPoint, scaleBar,
+} from '../lib/overlay';
+
+interface OverlayCanvasProps {
+  renderer: SimulationRenderer | null;
+  settings: OverlaySettings;
+}
+
+const FONT = '11px ui-monospace, monospace';
+
+// Redrawn every animation frame from the renderer's state, which the camera
+// controller updates between React renders.
+export function OverlayCanvas({ renderer, settings }: OverlayCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    if (!renderer) return;
+    let id = 0;
+    const draw = () => {
+      id = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== Math.round(width * dpr)) canvas.width = Math.round(width * dpr);
+      if (canvas.height !== Math.round(height * dpr)) canvas.height = Math.round(height * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      ctx.font = FONT;
+      ctx.lineWidth = 1.5;
+
+      const { layers, annotations } = settingsRef.current;
+      const state = renderer.state;
+      const view = overlayView(state, width, height);
+
+      for (const curve of overlayCurves(state, renderer.time, view.position)) {
+        if (!layers[curve.layer]) continue;
+        const points = curve.points.map(p => projectPoint(view, p));
+        ctx.strokeStyle = OVERLAY_COLORS[curve.layer];
+        ctx.setLineDash(curve.dashed ? [4, 4] : []);
+        ctx.beginPath();
+        // Segments break where the curve passes behind the camera
+        let pen = false;
+        const order = curve.closed && points.every(p => p) ? [...points, points[0]] : points;
+        for (const p of order) {
+          if (!p) {
+            pen = false;
+            continue;
+          }
+          if (pen) ctx.lineTo(p[0], p[1]);
+          else ctx.moveTo(p[0], p[1]);
+          pen = true;
+        }
+        ctx.stroke();
+
+        // Label at the curve's highest point on screen
+        const top = points.reduce<[number, number] | null>((best, p) => (p && (!best || p[1] < best[1]) ? p : best), null);
+        if (curve.label && top) {
+          ctx.fillStyle = OVERLAY_COLORS[curve.layer];
+          ctx.fillText(curve.label, top[0] + 4, top[1] - 4);
+        }
+      }
+      ctx.setLineDash([]);
+
+      if (layers.scaleBar) {
+        const bar = scaleBar(view, state.massSolar);
+        if (bar) {
+          const x = width / 2 - bar.pixels / 2;
+          const y = 72;
+          ctx.strokeStyle = ctx.fillStyle = OVERLAY_COLORS.scaleBar;
+          ctx.beginPath();
+          ctx.moveTo(x, y - 4);
+          ctx.lineTo(x, y);
+          ctx.lineTo(x + bar.pixels, y);
+          ctx.lineTo(x + bar.pixels, y - 4);
+          ctx.stroke();
+          ctx.textAlign = 'center';
+          ctx.fillText(`${formatScientific(bar.au, 0)} AU · ${formatScientific(bar.lightDays, 2)} light-days`, width / 2, y + 14);
+          ctx.textAlign = 'start';
+        }
+      }
+
+      if (layers.annotations) {
+        ctx.fillStyle = OVERLAY_COLORS.annotations;
+        for (const annotation of annotations) {
+          const p = projectPoint(view, annotation.position);
+          if (!p) continue;
+          ctx.beginPath();
+          ctx.arc(p[0], p[1], 3, 0, 2 * Math.PI);
+          ctx.fill();
+          ctx.fillText(annotation.text, p[0] + 6, p[1] + 4);
+        }
+      }
+    };
+    draw();
+    return () => cancelAnimationFrame(id);
+  }, [renderer]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+}
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Ruler, X, MapPin, Trash2 } from 'lucide-react';
+import { MAX_ANNOTATION_LENGTH, OVERLAY_COLORS, OVERLAY_LAYER_LABELS, OverlayLayer, OverlaySettings } from '../lib/overlay';
+
+interface OverlayPanelProps {
+  onClose: () => void;
+  settings: OverlaySettings;
+  setSettings: React.Dispatch<React.SetStateAction<OverlaySettings>>;
+  // Text of the pin waiting for a click on the view, if any
+  pinning: string | null;
+  setPinning: (text: string | null) => void;
+}
+
+export function OverlayPanel({ onClose, settings, setSettings, pinning, setPinning }: OverlayPanelProps) {
+  const [text, setText] = useState('');
+
+  const toggle = (layer: OverlayLayer) => {
+    setSettings(s => ({ ...s, layers: { ...s.layers, [layer]: !s.layers[layer] } }));
+  };
+  const remove = (id: string) => {
+    setSettings(s => ({ ...s, annotations: s.annotations.filter(a => a.id !== id) }));
+  };
+
+  return (
+    <div className="absolute top-40 left-6 w-72 max-w-[calc(100%-3rem)] max-h-[calc(100%-14rem)] bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto">
+      <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+        <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+          <Ruler size={18} />
+          Overlay
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4 text-sm overflow-y-auto">
+        <div className="space-y-1">
+          {(Object.keys(OVERLAY_LAYER_LABELS) as OverlayLayer[]).map(layer => (
+            <label key={layer} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.layers[layer]}
+                onChange={() => toggle(layer)}
+                className="accent-indigo-500"
+              />
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: OVERLAY_COLORS[layer] }} />
+              {OVERLAY_LAYER_LABELS[layer]}
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Annotations</div>
+          {pinning !== null ? (
+            <div className="flex items-center justify-between gap-2 text-xs text-indigo-300">
+              Click the view to pin "{pinning}"
+              <button onClick={() => setPinning(null)} className="text-gray-400 hover:text-white">Cancel</button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={text}
+                maxLength={MAX_ANNOTATION_LENGTH}
+                placeholder="Label"
+                onChange={(e) => setText(e.target.value)}
+                className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-md px-2 py-1 text-xs text-white"
+              />
+              <button
+                onClick={() => {
+                  setPinning(text.trim());
+                  setText('');
+                }}
+                disabled={!text.trim()}
+                className="flex items-center gap-1 px-2 py-1 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300 hover:border-indigo-500/50 hover:text-white disabled:opacity-30 transition-colors"
+                title="Pin to a point in the view"
+              >
+                <MapPin size={12} /> Pin
+              </button>
+            </div>
+          )}
+          {settings.annotations.map(a => (
+            <div key={a.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate text-gray-300">{a.text}</span>
+              <span className="font-mono text-gray-500 shrink-0">{Math.hypot(...a.position).toFixed(1)} Rs</span>
+              <button onClick={() => remove(a.id)} className="text-gray-500 hover:text-red-400 transition-colors" title="Remove">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { QualityManager, QualityStats, QUALITY_PRESET_LABELS } from '../lib/quality';
+
+interface PerfHudProps {
+  quality: QualityManager | null;
+}
+
+// Refreshing every frame would cost more React work than it reports
+const REFRESH_MS = 250;
+
+export function PerfHud({ quality }: PerfHudProps) {
+  const [stats, setStats] = useState<QualityStats | null>(null);
+
+  useEffect(() => {
+    if (!quality) return;
+    const id = window.setInterval(() => setStats(quality.stats()), REFRESH_MS);
+    return () => window.clearInterval(id);
+  }, [quality]);
+
+  if (!stats) return null;
+
+  return (
+    <div className="absolute top-6 left-1/2 -translate-x-1/2 flex gap-4 px-3 py-1.5 bg-black/60 backdrop-blur-md border border-white/10 rounded-lg font-mono text-[11px] text-gray-300 pointer-events-none">
+      <span><span className={stats.fps >= 50 ? 'text-green-400' : stats.fps >= 28 ? 'text-yellow-400' : 'text-red-400'}>{stats.fps.toFixed(0)}</span> fps</span>
+      <span>{stats.frameMs.toFixed(1)} ms</span>
+      <span title="Scene pass on the GPU">GPU {stats.gpuMs === null ? '—' : `${stats.gpuMs.toFixed(1)} ms`}</span>
+      <span>{stats.width}×{stats.height} ({Math.round(stats.scale * 100)}%)</span>
+      <span>{stats.steps} steps</span>
+      <span className="text-gray-500">{QUALITY_PRESET_LABELS[stats.preset]}</span>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { Telescope, X, Upload, Sparkles } from 'lucide-react';
+import { SimulationState } from '../lib/renderer';
+import { SkyBackground, SkyImage, SKY_BACKGROUND_LABELS, loadSkyImage } from '../lib/skybox';
+
+interface SkyPanelProps {
+  onClose: () => void;
+  state: SimulationState;
+  setSimState: React.Dispatch<React.SetStateAction<SimulationState>>;
+  skyImage: SkyImage | null;
+  setSkyImage: (image: SkyImage | null) => void;
+}
+
+const ORIENTATION: { key: 'skyYaw' | 'skyPitch' | 'skyRoll'; label: string; range: number }[] = [
+  { key: 'skyYaw', label: 'Yaw', range: 180 },
+  { key: 'skyPitch', label: 'Pitch', range: 90 },
+  { key: 'skyRoll', label: 'Roll', range: 180 },
+];
+
+const DEG = Math.PI / 180;
+
+export function SkyPanel({ onClose, state, setSimState, skyImage, setSkyImage }: SkyPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const upload = async (file: File) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const image = await loadSkyImage(file);
+      setSkyImage(image);
+      setSimState(s => ({ ...s, background: 'panorama' }));
+      setStatus(`Loaded ${image.name} (${image.levels[0].width}×${image.levels[0].height}).`);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const useMilkyWay = () => {
+    setSkyImage(null);
+    setSimState(s => ({ ...s, background: 'panorama' }));
+    setStatus(null);
+  };
+
+  return (
+    <div className="absolute top-40 right-6 w-80 max-w-[calc(100%-3rem)] bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto">
+      <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+        <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+          <Telescope size={18} />
+          Sky
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4 text-sm">
+        <div className="flex gap-1 p-1 bg-white/5 border border-white/10 rounded-lg">
+          {(Object.keys(SKY_BACKGROUND_LABELS) as SkyBackground[]).map(background => (
+            <button
+              key={background}
+              onClick={() => setSimState(s => ({ ...s, background }))}
+              className={`flex-1 py-1 rounded-md text-xs transition-all ${
+                state.background === background
+                  ? 'bg-white/20 text-white font-medium'
+                  : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'
+              }`}
+            >
+              {SKY_BACKGROUND_LABELS[background]}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-gray-400">
+            Panorama: <span className="text-gray-200">{skyImage?.name ?? 'Milky Way (generated)'}</span>
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileRef.current?.click()}
+              disabled={busy}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300 hover:border-indigo-500/50 hover:text-white disabled:opacity-30 transition-colors"
+              title="An equirectangular (2:1) image, e.g. an ESO or NASA all-sky panorama"
+            >
+              <Upload size={12} /> {busy ? 'Loading…' : 'Upload'}
+            </button>
+            <button
+              onClick={useMilkyWay}
+              disabled={busy || skyImage === null}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300 hover:border-indigo-500/50 hover:text-white disabled:opacity-30 transition-colors"
+            >
+              <Sparkles size={12} /> Milky Way
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) upload(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between text-xs text-gray-300 cursor-pointer">
+          Bright-star catalog
+          <input
+            type="checkbox"
+            checked={state.showStars}
+            onChange={(e) => setSimState(s => ({ ...s, showStars: e.target.checked }))}
+            className="accent-indigo-500"
+          />
+        </label>
+
+        {ORIENTATION.map(({ key, label, range }) => (
+          <div key={key} className="space-y-1">
+            <div className="flex justify-between items-center text-xs">
+              <span className="text-gray-400">{label}</span>
+              <span className="font-mono">{(state[key] / DEG).toFixed(0)}°</span>
+            </div>
+            <input
+              type="range"
+              min={-range} max={range} step="1"
+              value={state[key] / DEG}
+              onChange={(e) => setSimState(s => ({ ...s, [key]: parseFloat(e.target.value) * DEG }))}
+              className="w-full accent-indigo-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      {status && <p className="px-4 pb-3 text-xs font-mono text-gray-400">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Disc3, X, ChevronDown, ChevronRight, RotateCcw, Sparkles } from 'lucide-react';
+import { DEFAULT_STATE, SimulationRenderer, SimulationState } from '../lib/renderer';
+import { STATE_LIMITS } from '../lib/scene';
+import { diskEdges } from '../lib/disk';
+import { binaryOrbit } from '../lib/binary';
+import { launchLead, swallowedWhole, tdeStar, tidalRadius } from '../lib/tde';
+
+interface SourcePanelProps {
+  onClose: () => void;
+  state: SimulationState;
+  setSimState: React.Dispatch<React.SetStateAction<SimulationState>>;
+  // For the shader time a star is launched at
+  renderer: SimulationRenderer | null;
+}
+
+type SourceField =
+  | 'diskInnerIsco' | 'diskOuter' | 'diskThickness' | 'diskTilt' | 'diskWarp' | 'diskPrecession'
+  | 'jetLength' | 'jetAngle' | 'jetLorentz' | 'jetPower'
+  | 'binaryMassRatio' | 'binarySeparation' | 'binaryPhase'
+  | 'tdeStarMass' | 'tdeStarRadius' | 'tdePenetration' | 'tdeInclination';
+
+interface SliderSpec {
+  key: SourceField;
+  label: string;
+  // Slider range and step, in slider units (see toSlider)
+  min: number;
+  max: number;
+  step: number;
+  toSlider?: (value: number) => number;
+  fromSlider?: (position: number) => number;
+  format: (value: number) => string;
+}
+
+const DEG = Math.PI / 180;
+const degrees = { toSlider: (v: number) => v / DEG, fromSlider: (x: number) => x * DEG, format: (v: number) => `${(v / DEG).toFixed(1)}°` };
+
+const DISK_SLIDERS: SliderSpec[] = [
+  { key: 'diskInnerIsco', label: 'Inner edge', min: 1, max: STATE_LIMITS.maxDiskInnerIsco, step: 0.1, format: v => `${v.toFixed(1)} × ISCO` },
+  { key: 'diskOuter', label: 'Outer edge', min: STATE_LIMITS.minDiskOuter, max: STATE_LIMITS.maxDiskOuter, step: 1, format: v => `${v.toFixed(0)} Rs` },
+  { key: 'diskThickness', label: 'Thickness', min: STATE_LIMITS.minDiskThickness, max: STATE_LIMITS.maxDiskThickness, step: 0.05, format: v => `${v.toFixed(2)} Rs` },
+  { key: 'diskTilt', label: 'Tilt', min: 0, max: STATE_LIMITS.maxDiskTilt / DEG, step: 1, ...degrees },
+  { key: 'diskWarp', label: 'Warp', min: -STATE_LIMITS.maxDiskWarp / DEG, max: STATE_LIMITS.maxDiskWarp / DEG, step: 1, ...degrees },
+  { key: 'diskPrecession', label: 'Precession', min: -STATE_LIMITS.maxDiskPrecession, max: STATE_LIMITS.maxDiskPrecession, step: 0.05, format: v => `${v.toFixed(2)} rad/t` },
+];
+
+const JET_SLIDERS: SliderSpec[] = [
+  { key: 'jetLength', label: 'Length', min: STATE_LIMITS.minJetLength, max: STATE_LIMITS.maxJetLength, step: 1, format: v => `${v.toFixed(0)} Rs` },
+  { key: 'jetAngle', label: 'Opening angle', min: STATE_LIMITS.minJetAngle / DEG, max: STATE_LIMITS.maxJetAngle / DEG, step: 0.1, ...degrees },
+  { key: 'jetLorentz', label: 'Lorentz factor', min: 1, max: STATE_LIMITS.maxJetLorentz, step: 0.1, format: v => `Γ ${v.toFixed(1)}` },
+  {
+    key: 'jetPower', label: 'Power', min: STATE_LIMITS.minLogJetPower, max: STATE_LIMITS.maxLogJetPower, step: 0.05,
+    toSlider: Math.log10, fromSlider: x => Math.pow(10, x), format: v => `${v.toFixed(2)}×`,
+  },
+];
+
+const COMPANION_SLIDERS: SliderSpec[] = [
+  {
+    key: 'binaryMassRatio', label: 'Mass ratio', min: 0, max: STATE_LIMITS.maxBinaryMassRatio, step: STATE_LIMITS.minBinaryMassRatio,
+    format: v => (v > 0 ? `q ${v.toFixed(2)}` : 'off'),
+  },
+  { key: 'binarySeparation', label: 'Separation', min: STATE_LIMITS.minBinarySeparation, max: STATE_LIMITS.maxBinarySeparation, step: 1, format: v => `${v.toFixed(0)} Rs` },
+  { key: 'binaryPhase', label: 'Phase', min: -180, max: 180, step: 1, ...degrees },
+];
+
+const TDE_SLIDERS: SliderSpec[] = [
+  {
+    key: 'tdeStarMass', label: 'Star mass', min: STATE_LIMITS.minLogStarMass, max: STATE_LIMITS.maxLogStarMass, step: 0.05,
+    toSlider: Math.log10, fromSlider: x => Math.pow(10, x), format: v => `${v.toFixed(2)} M☉`,
+  },
+  {
+    key: 'tdeStarRadius', label: 'Star radius', min: STATE_LIMITS.minLogStarRadius, max: STATE_LIMITS.maxLogStarRadius, step: 0.05,
+    toSlider: Math.log10, fromSlider: x => Math.pow(10, x), format: v => `${v.toPrecision(2)} R☉`,
+  },
+  { key: 'tdePenetration', label: 'Penetration', min: 1, max: STATE_LIMITS.maxTdePenetration, step: 0.1, format: v => `β ${v.toFixed(1)}` },
+  { key: 'tdeInclination', label: 'Inclination', min: 0, max: 180, step: 1, ...degrees },
+];
+
+type SectionProps = Pick<SourcePanelProps, 'state' | 'setSimState'>;
+
+function Slider({ spec, state, setSimState }: { spec: SliderSpec } & SectionProps) {
+  const value = state[spec.key];
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between items-center text-xs">
+        <span className="text-gray-400">{spec.label}</span>
+        <span className="font-mono">{spec.format(value)}</span>
+      </div>
+      <input
+        type="range"
+        min={spec.min} max={spec.max} step={spec.step}
+        value={spec.toSlider ? spec.toSlider(value) : value}
+        onChange={(e) => {
+          const x = parseFloat(e.target.value);
+          setSimState(s => ({ ...s, [spec.key]: spec.fromSlider ? spec.fromSlider(x) : x }));
+        }}
+        className="w-full accent-indigo-500"
+      />
+    </div>
+  );
+}
+
+function Section({ title, note, sliders, children, ...props }: {
+  title: string;
+  note: string;
+  sliders: SliderSpec[];
+  // Shown under the sliders while open
+  children?: React.ReactNode;
+} & SectionProps) {
+  const [open, setOpen] = useState(true);
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between text-xs font-semibold text-gray-400 uppercase tracking-wider hover:text-gray-200"
+      >
+        <span className="flex items-center gap-1">
+          {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />} {title}
+        </span>
+        <span className="font-mono normal-case tracking-normal text-gray-500">{note}</span>
+      </button>
+      {open && sliders.map(spec => (
+        <div key={spec.key}>
+          <Slider spec={spec} {...props} />
+        </div>
+      ))}
+      {open && children}
+    </div>
+  );
+}
+
+export function SourcePanel({ onClose, state, setSimState, renderer }: SourcePanelProps) {
+  const { inner, outer } = diskEdges(state);
+  const beta = Math.sqrt(1 - 1 / (state.jetLorentz * state.jetLorentz));
+  // Truncation at the start of the orbit; the live values are in the telemetry
+  const orbit = binaryOrbit(state, 0);
+  const star = tdeStar(state);
+
+  // Sends the star in from afar, to reach pericenter a little later
+  const launch = () => {
+    const now = renderer?.time ?? state.simulationTime;
+    setSimState(s => ({ ...s, showTde: true, tdePericenterTime: now + launchLead(s) }));
+  };
+
+  const reset = () => {
+    setSimState(s => ({
+      ...s,
+      ...Object.fromEntries([...DISK_SLIDERS, ...JET_SLIDERS, ...COMPANION_SLIDERS, ...TDE_SLIDERS].map(({ key }) => [key, DEFAULT_STATE[key]])),
+      binaryDecay: DEFAULT_STATE.binaryDecay,
+      showTde: DEFAULT_STATE.showTde,
+    }));
+  };
+
+  return (
+    <div className="absolute top-40 right-6 w-80 max-w-[calc(100%-3rem)] max-h-[calc(100%-14rem)] bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto">
+      <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+        <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+          <Disc3 size={18} />
+          Source
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={reset} className="text-gray-400 hover:text-white transition-colors" title="Reset disk, jets, companion and tidal disruption">
+            <RotateCcw size={16} />
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-5 text-sm overflow-y-auto">
+        <Section
+          title="Disk"
+          note={inner < outer ? `${inner.toFixed(1)}–${outer.toFixed(0)} Rs` : 'no disk'}
+          sliders={DISK_SLIDERS}
+          state={state}
+          setSimState={setSimState}
+        />
+        <Section
+          title="Jets"
+          note={state.showJets ? `β ${beta.toFixed(3)} c` : 'hidden'}
+          sliders={JET_SLIDERS}
+          state={state}
+          setSimState={setSimState}
+        />
+        <Section
+          title="Companion"
+          note={orbit ? `disks to ${orbit.primaryDiskEdge.toFixed(1)} / ${orbit.companionDiskEdge.toFixed(1)} Rs` : 'none'}
+          sliders={COMPANION_SLIDERS}
+          state={state}
+          setSimState={setSimState}
+        >
+          <label className="flex items-center justify-between text-xs text-gray-300 cursor-pointer">
+            Gravitational-wave decay
+            <input
+              type="checkbox"
+              checked={state.binaryDecay}
+              onChange={(e) => setSimState(s => ({ ...s, binaryDecay: e.target.checked }))}
+              className="accent-indigo-500"
+            />
+          </label>
+        </Section>
+        <Section
+          title="Tidal disruption"
+          note={swallowedWhole(state.massSolar, star) ? 'swallowed whole' : `r_t ${tidalRadius(state.massSolar, star).toFixed(1)} Rs`}
+          sliders={TDE_SLIDERS}
+          state={state}
+          setSimState={setSimState}
+        >
+          <div className="flex gap-2">
+            <button
+              onClick={launch}
+              className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300 hover:border-indigo-500/50 hover:text-white transition-colors"
+              title="Send a star towards the hole"
+            >
+              <Sparkles size={12} /> Launch star
+            </button>
+            <button
+              onClick={() => setSimState(s => ({ ...s, showTde: false }))}
+              disabled={!state.showTde}
+              className="px-2 py-1 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300 hover:border-indigo-500/50 hover:text-white disabled:opacity-30 transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+        </Section>
+      </div>
+    </div>
+  );
+}
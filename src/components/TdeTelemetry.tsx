@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { SimulationRenderer, SimulationState } from '../lib/renderer';
+import { fallbackRate, fallbackTime, tidalDisruption } from '../lib/tde';
+import { formatDuration, formatScientific } from '../lib/units';
+
+interface TdeTelemetryProps {
+  renderer: SimulationRenderer | null;
+  state: SimulationState;
+  // Geometric time unit Rs/c in seconds
+  timeUnit: number;
+}
+
+// The star moves with the clock rather than the state, so it is polled
+const REFRESH_MS = 250;
+
+// Telemetry rows for a tidal disruption, while one is shown
+export function TdeTelemetry({ renderer, state, timeUnit }: TdeTelemetryProps) {
+  const [time, setTime] = useState(state.simulationTime);
+
+  useEffect(() => {
+    if (!renderer) return;
+    const id = window.setInterval(() => setTime(renderer.time), REFRESH_MS);
+    return () => window.clearInterval(id);
+  }, [renderer]);
+
+  const tde = tidalDisruption(state, time);
+  if (!tde) return null;
+  const since = tde.sincePericenter * timeUnit;
+  const tMin = fallbackTime(state.massSolar, tde.star);
+
+  return (
+    <>
+      <div className="h-px bg-white/10 my-2" />
+      <div className="flex justify-between">
+        <span className="text-gray-500">Tidal Radius</span>
+        <span>{tde.tidalRadius.toFixed(2)} Rs</span>
+      </div>
+      {tde.swallowed ? (
+        <div className="flex justify-between">
+          <span className="text-gray-500">Star</span>
+          <span className="text-red-400">Swallowed Whole</span>
+        </div>
+      ) : (
+        <>
+          <div className="flex justify-between">
+            <span className="text-gray-500">{since < 0 ? 'To Pericenter' : 'Since Pericenter'}</span>
+            <span>{formatDuration(Math.abs(since))}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Fallback Rate</span>
+            <span className={since >= tMin ? 'text-orange-400' : undefined}>
+              {since < tMin ? `in ${formatDuration(tMin - Math.max(since, 0))}` : `${formatScientific(fallbackRate(since, state.massSolar, tde.star), 2)} M☉/yr`}
+            </span>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
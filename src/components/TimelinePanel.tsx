@@ -0,0 +1,328 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Film, X, Play, Pause, SkipBack, Plus, Trash2, Save, FolderOpen, Download } from 'lucide-react';
+import { SimulationRenderer, SimulationState } from '../lib/renderer';
+import { EXPORT_RESOLUTIONS, downloadBlob } from '../lib/export';
+import {
+  createTimeline, setKeyframe, keyframeState, timelineFrames, frameCount, parseTimeline, serializeTimeline,
+  Easing, EASING_LABELS, Timeline, TimelineFrame, MAX_TIMELINE_FPS, MAX_TIMELINE_DURATION,
+} from '../lib/timeline';
+import { exportSequence, SequenceFormat, SEQUENCE_FORMAT_LABELS } from '../lib/sequence';
+
+interface TimelinePanelProps {
+  onClose: () => void;
+  renderer: SimulationRenderer | null;
+  state: SimulationState;
+  setSimState: React.Dispatch<React.SetStateAction<SimulationState>>;
+}
+
+const SAMPLE_COUNTS = [1, 4, 16, 64];
+
+export function TimelinePanel({ onClose, renderer, state, setSimState }: TimelinePanelProps) {
+  const [timeline, setTimeline] = useState<Timeline>(createTimeline);
+  const [playhead, setPlayhead] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [format, setFormat] = useState<SequenceFormat>('webm');
+  const [resolutionId, setResolutionId] = useState('1080p');
+  const [samples, setSamples] = useState(4);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Frames only depend on the keyframes; the live state fills in when the
+  // track is empty.
+  const frames = useMemo(() => timelineFrames(timeline, keyframeState(state)), [timeline]);
+  const lastFrame = frameCount(timeline) - 1;
+  const busy = progress !== null;
+  const hasKeyframes = timeline.keyframes.length > 0;
+
+  const showFrame = (frame: TimelineFrame, pinTime: boolean) => {
+    setSimState(s => ({ ...s, ...frame.state, cameraMode: 'orbit' }));
+    if (renderer && pinTime) renderer.frameTime = frame.simulationTime;
+  };
+
+  const seek = (index: number) => {
+    const clamped = Math.max(0, Math.min(lastFrame, index));
+    setPlayhead(clamped);
+    if (hasKeyframes) showFrame(frames[clamped], false);
+  };
+
+  // Fixed-timestep playback: wall-clock time is only used to decide how many
+  // whole frames to advance, so every displayed state is exactly frame n.
+  useEffect(() => {
+    if (!playing) return;
+    const step = 1 / timeline.fps;
+    let index = playhead >= lastFrame ? 0 : playhead;
+    let last = performance.now();
+    let pending = 0;
+    let id = 0;
+
+    const tick = (now: number) => {
+      pending += (now - last) / 1000;
+      last = now;
+      while (pending >= step) {
+        pending -= step;
+        index++;
+      }
+      if (index > lastFrame) {
+        setPlaying(false);
+        return;
+      }
+      setPlayhead(index);
+      showFrame(frames[index], true);
+      id = requestAnimationFrame(tick);
+    };
+    showFrame(frames[index], true);
+    id = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(id);
+      if (renderer) renderer.frameTime = null;
+    };
+  }, [playing, frames]);
+
+  const addKeyframe = () => {
+    const easing = timeline.keyframes.find(k => Math.abs(k.time - playhead / timeline.fps) < 0.5 / timeline.fps)?.easing;
+    setTimeline(t => setKeyframe(t, { time: playhead / t.fps, state: keyframeState(state), easing: easing ?? 'easeInOut' }));
+  };
+
+  const updateTimeline = (changes: Partial<Pick<Timeline, 'fps' | 'duration'>>) => {
+    setTimeline(t => ({ ...t, ...changes }));
+    setPlayhead(0);
+  };
+
+  const save = () => {
+    downloadBlob(new Blob([serializeTimeline(timeline)], { type: 'application/json' }), 'timeline.json');
+  };
+
+  const load = async (file: File) => {
+    try {
+      const loaded = parseTimeline(await file.text());
+      setPlaying(false);
+      setTimeline(loaded);
+      setPlayhead(0);
+      setStatus(`Loaded ${loaded.keyframes.length} keyframes.`);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const render = async () => {
+    if (!renderer) return;
+    const size = EXPORT_RESOLUTIONS.find(r => r.id === resolutionId)!;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPlaying(false);
+    setStatus(null);
+    setProgress(0);
+    try {
+      const { blob, fileName } = await exportSequence(renderer, timeline, state, {
+        format,
+        width: size.width,
+        height: size.height,
+        samples,
+        signal: controller.signal,
+        onProgress: (fraction, frame, total) => {
+          setProgress(fraction);
+          setStatus(`Frame ${frame + 1} / ${total}`);
+        },
+      });
+      downloadBlob(blob, fileName);
+      setStatus(`Saved ${fileName}`);
+    } catch (e) {
+      setStatus(controller.signal.aborted ? 'Export cancelled.' : e instanceof Error ? e.message : String(e));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const selectClass = 'bg-white/5 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-indigo-500/50';
+  const iconButton = 'p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="absolute bottom-24 left-1/2 -translate-x-1/2 w-[40rem] max-w-[calc(100%-3rem)] bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto">
+      <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+        <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
+          <Film size={18} />
+          Camera Timeline
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={save} disabled={!hasKeyframes} className={iconButton} title="Save Timeline (JSON)">
+            <Save size={16} />
+          </button>
+          <button onClick={() => fileRef.current?.click()} disabled={busy} className={iconButton} title="Load Timeline">
+            <FolderOpen size={16} />
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) load(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={onClose} disabled={busy} className={iconButton}>
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {/* Transport and scrubber */}
+        <div className="flex items-center gap-2">
+          <button onClick={() => seek(0)} disabled={playing || busy} className={iconButton} title="Rewind">
+            <SkipBack size={16} />
+          </button>
+          <button
+            onClick={() => setPlaying(p => !p)}
+            disabled={!hasKeyframes || busy}
+            className={iconButton}
+            title={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <div className="relative flex-1">
+            <input
+              type="range"
+              min={0}
+              max={lastFrame}
+              value={playhead}
+              disabled={playing || busy}
+              onChange={(e) => seek(Number(e.target.value))}
+              className="w-full accent-indigo-500"
+            />
+            {timeline.keyframes.map((k, i) => (
+              <div
+                key={i}
+                className="absolute -top-1 w-1.5 h-1.5 -ml-[3px] rotate-45 bg-orange-400 pointer-events-none"
+                style={{ left: `${Math.min(1, k.time / timeline.duration) * 100}%` }}
+              />
+            ))}
+          </div>
+          <span className="font-mono text-xs text-gray-400 w-24 text-right">
+            {(playhead / timeline.fps).toFixed(2)}s · {playhead}
+          </span>
+          <button onClick={addKeyframe} disabled={playing || busy} className={iconButton} title="Set Keyframe at Playhead">
+            <Plus size={16} />
+          </button>
+        </div>
+
+        {/* Keyframes */}
+        <div className="max-h-32 overflow-y-auto space-y-1">
+          {!hasKeyframes && (
+            <p className="text-xs text-gray-500">Frame the shot, then press + to keyframe the camera, view mode, time speed and toggles.</p>
+          )}
+          {timeline.keyframes.map((k, i) => (
+            <div key={i} className="flex items-center gap-2 text-xs font-mono">
+              <button
+                onClick={() => seek(Math.round(k.time * timeline.fps))}
+                disabled={playing || busy}
+                className="w-16 text-left text-orange-300 hover:text-white"
+              >
+                {k.time.toFixed(2)}s
+              </button>
+              <span className="flex-1 text-gray-400 truncate">
+                r {k.state.cameraDistance.toFixed(1)} · pitch {k.state.cameraAngleX.toFixed(2)} · yaw {k.state.cameraAngleY.toFixed(2)}
+              </span>
+              <select
+                value={k.easing}
+                disabled={busy}
+                onChange={(e) => setTimeline(t => ({
+                  ...t,
+                  keyframes: t.keyframes.map((other, j) => (j === i ? { ...other, easing: e.target.value as Easing } : other)),
+                }))}
+                className={selectClass}
+              >
+                {(Object.keys(EASING_LABELS) as Easing[]).map(easing => (
+                  <option key={easing} value={easing} className="bg-zinc-900">{EASING_LABELS[easing]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setTimeline(t => ({ ...t, keyframes: t.keyframes.filter((_, j) => j !== i) }))}
+                disabled={busy}
+                className={iconButton}
+                title="Delete Keyframe"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Track settings and export */}
+        <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-white/5 text-xs text-gray-400">
+          <label className="flex items-center gap-1">
+            Duration
+            <input
+              type="number"
+              min={0.1}
+              max={MAX_TIMELINE_DURATION}
+              step={0.5}
+              value={timeline.duration}
+              disabled={playing || busy}
+              onChange={(e) => {
+                const duration = Number(e.target.value);
+                if (duration > 0 && duration <= MAX_TIMELINE_DURATION) updateTimeline({ duration });
+              }}
+              className={`${selectClass} w-16 font-mono`}
+            />
+            s
+          </label>
+          <select
+            value={timeline.fps}
+            disabled={playing || busy}
+            onChange={(e) => updateTimeline({ fps: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {[24, 25, 30, 50, 60, MAX_TIMELINE_FPS].map(fps => (
+              <option key={fps} value={fps} className="bg-zinc-900">{fps} fps</option>
+            ))}
+          </select>
+          <select value={format} disabled={busy} onChange={(e) => setFormat(e.target.value as SequenceFormat)} className={selectClass}>
+            {(Object.keys(SEQUENCE_FORMAT_LABELS) as SequenceFormat[]).map(f => (
+              <option key={f} value={f} className="bg-zinc-900">{SEQUENCE_FORMAT_LABELS[f]}</option>
+            ))}
+          </select>
+          <select value={resolutionId} disabled={busy} onChange={(e) => setResolutionId(e.target.value)} className={selectClass}>
+            {EXPORT_RESOLUTIONS.map(r => (
+              <option key={r.id} value={r.id} className="bg-zinc-900">{r.label}</option>
+            ))}
+          </select>
+          <select value={samples} disabled={busy} onChange={(e) => setSamples(Number(e.target.value))} className={selectClass}>
+            {SAMPLE_COUNTS.map(n => (
+              <option key={n} value={n} className="bg-zinc-900">{n} spp</option>
+            ))}
+          </select>
+          <div className="flex-1" />
+          {busy ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={render}
+              disabled={!renderer || !hasKeyframes}
+              className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              <Download size={16} /> Render
+            </button>
+          )}
+        </div>
+
+        {busy && (
+          <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-400 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+        {status && <p className="text-xs font-mono text-gray-400">{status}</p>}
+      </div>
+    </div>
+  );
+}
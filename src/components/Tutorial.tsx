@@ -1,116 +1,320 @@
-import React, { useState, useEffect } from 'react';
-import { ChevronRight, ChevronLeft, X, GraduationCap } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronRight, ChevronLeft, X, GraduationCap, FolderOpen, Check, RotateCcw } from 'lucide-react';
 import { SimulationState } from '../lib/renderer';
+import {
+  BUILT_IN_TOURS, Tour, TourProgress, TourTarget,
+  conditionProgress, easeTween, findStep, loadTourProgress, nextStepId, parseTour, resumeTour,
+  sampleTween, saveTourProgress, startTween, updateRotation, watchRotation,
+} from '../lib/tour';
 
 interface TutorialProps {
   onClose: () => void;
+  state: SimulationState;
   setSimState: React.Dispatch<React.SetStateAction<SimulationState>>;
 }
 
-const TUTORIAL_STEPS = [
-  {
-    title: "Welcome to TON 618",
-    content: "You are looking at one of the most massive black holes ever discovered, weighing 66 billion times the mass of our Sun. This interactive simulation renders relativistic physics in real-time.",
-    action: (set: any) => set((s: any) => ({ ...s, viewMode: 0, wavelength: 0, showMilkyWay: false }))
-  },
-  {
-    title: "Camera Controls",
-    content: "Click and drag anywhere on the screen to rotate your view around the black hole. Scroll your mouse wheel to zoom in and out. Try looking at it from the top down!",
-  },
-  {
-    title: "The Accretion Disk",
-    content: "The glowing ring is the accretion disk—superheated gas swirling at relativistic speeds. Notice how one side is brighter? That's Doppler beaming: gas moving toward you appears brighter and bluer.",
-  },
-  {
-    title: "Gravitational Lensing",
-    content: "The immense gravity bends light itself. The ring you see over the top and bottom is actually the back of the accretion disk, visually warped by curved spacetime.",
-  },
-  {
-    title: "Visualization Modes",
-    content: "Let's look at the underlying physics. We've switched your view to 'Gravity / Spacetime' to visualize the topological distortion of the gravitational well.",
-    action: (set: any) => set((s: any) => ({ ...s, viewMode: 1 }))
-  },
-  {
-    title: "Multi-Wavelength",
-    content: "Astrophysicists use different wavelengths to study black holes. Here is the X-Ray view, highlighting the most energetic particles in the accretion disk and polar jets.",
-    action: (set: any) => set((s: any) => ({ ...s, viewMode: 0, wavelength: 1 }))
-  },
-  {
-    title: "Galactic Scale",
-    content: "To truly understand its size, let's zoom out. A holographic projection of the Milky Way galaxy is shown below TON 618. Notice that even at this massive scale, the black hole is still visible!",
-    action: (set: any) => set((s: any) => ({ ...s, wavelength: 0, showMilkyWay: true, cameraDistance: 150.0, cameraAngleX: 0.8 }))
-  },
-  {
-    title: "Explore",
-    content: "You're now ready to explore TON 618. Use the telemetry panel and controls to experiment with the simulation. Enjoy your journey through spacetime!",
-    action: (set: any) => set((s: any) => ({ ...s, showMilkyWay: false, cameraDistance: 12.0 }))
-  }
-];
+// Outlines the control marked data-tour={target}, following it as the
+// layout moves.
+function Highlight({ target }: { target: TourTarget }) {
+  const [rect, setRect] = useState<DOMRect | null>(null);
+
+  useEffect(() => {
+    const measure = () => {
+      const next = document.querySelector(`[data-tour="${target}"]`)?.getBoundingClientRect() ?? null;
+      setRect(r => (r && next && r.x === next.x && r.y === next.y && r.width === next.width && r.height === next.height ? r : next));
+    };
+    measure();
+    const id = window.setInterval(measure, 250);
+    return () => window.clearInterval(id);
+  }, [target]);
+
+  if (!rect) return null;
+  return (
+    <div
+      className="fixed rounded-xl border-2 border-indigo-400 shadow-[0_0_24px_rgba(129,140,248,0.6)] animate-pulse pointer-events-none z-50"
+      style={{ left: rect.x - 6, top: rect.y - 6, width: rect.width + 12, height: rect.height + 12 }}
+    />
+  );
+}
 
-export function Tutorial({ onClose, setSimState }: TutorialProps) {
-  const [step, setStep] = useState(0);
+interface TourPlayerProps extends TutorialProps {
+  tour: Tour;
+  start: TourProgress;
+  onFinish: () => void;
+}
+
+function TourPlayer({ tour, start, onFinish, onClose, state, setSimState }: TourPlayerProps) {
+  const [position, setPosition] = useState(start);
+  const [moving, setMoving] = useState(false);
+  const [rotation, setRotation] = useState(() => watchRotation(state));
+  const [met, setMet] = useState(false);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const step = findStep(tour, position.step) ?? tour.steps[0];
+  const index = tour.steps.indexOf(step);
 
   useEffect(() => {
-    const currentStep = TUTORIAL_STEPS[step];
-    if (currentStep.action) {
-      currentStep.action(setSimState);
+    saveTourProgress(tour.id, position);
+  }, [tour.id, position]);
+
+  // Animates the step's changes. Dragging the camera or moving a slider that
+  // is being animated hands control back to the user.
+  useEffect(() => {
+    setMet(false);
+    const changes = step.set;
+    if (!changes) {
+      setRotation(watchRotation(stateRef.current));
+      return;
+    }
+    const tween = startTween(stateRef.current, changes);
+    let written: Record<string, unknown> | null = null;
+    let stopped = false;
+    let id = 0;
+    const begin = performance.now();
+
+    const finish = () => {
+      stopped = true;
+      setMoving(false);
+      setRotation(watchRotation(stateRef.current));
+    };
+    const tick = (now: number) => {
+      if (stopped) return finish();
+      const s = easeTween(step, (now - begin) / 1000);
+      const values = sampleTween(tween, s) as Record<string, unknown>;
+      const first = written === null;
+      const previous = written;
+      setSimState(current => {
+        if (previous && tween.fields.some(f => current[f] !== previous[f])) {
+          stopped = true;
+          return current;
+        }
+        return first ? { ...current, ...tween.start, ...values } : { ...current, ...values };
+      });
+      written = values;
+      if (stopped || s >= 1) {
+        finish();
+      } else {
+        id = requestAnimationFrame(tick);
+      }
+    };
+    setMoving(true);
+    tick(begin);
+
+    return () => {
+      cancelAnimationFrame(id);
+      stopped = true;
+      setMoving(false);
+    };
+  }, [step]);
+
+  useEffect(() => {
+    if (!moving) setRotation(r => updateRotation(r, state));
+  }, [state]);
+
+  const progress = step.waitFor && !moving ? conditionProgress(step.waitFor, state, rotation) : 1;
+  useEffect(() => {
+    if (progress >= 1 && !moving) setMet(true);
+  }, [progress, moving]);
+  const ready = !step.waitFor || met;
+
+  const go = (next: string | null) => {
+    if (next === null) {
+      saveTourProgress(tour.id, { step: tour.steps[0].id, history: [], completed: true });
+      onFinish();
+      return;
+    }
+    setPosition(p => ({ step: next, history: [...p.history, p.step], completed: false }));
+  };
+  const back = () => {
+    setPosition(p => ({ step: p.history[p.history.length - 1] ?? p.step, history: p.history.slice(0, -1), completed: false }));
+  };
+  const isLast = !step.choices && nextStepId(tour, step) === null;
+
+  return (
+    <>
+      {step.highlight && <Highlight target={step.highlight} />}
+      <div className="absolute top-24 right-6 w-80 bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto animate-in fade-in slide-in-from-right-8 duration-500">
+        <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
+          <button onClick={onFinish} className="flex items-center gap-2 text-indigo-300 font-semibold text-sm hover:text-indigo-200" title="All tours">
+            <GraduationCap size={18} />
+            {tour.title}
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5">
+          <h3 className="text-lg font-bold text-white mb-2">{step.title}</h3>
+          <p className="text-sm text-gray-300 leading-relaxed min-h-[80px]">
+            {step.content}
+          </p>
+          {step.waitFor && (
+            <div className="mt-3 h-1 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-400 transition-all" style={{ width: `${(met ? 1 : progress) * 100}%` }} />
+            </div>
+          )}
+          {step.choices && (
+            <div className="mt-4 flex flex-col gap-2">
+              {step.choices.map(choice => (
+                <button
+                  key={choice.next}
+                  onClick={() => go(choice.next)}
+                  disabled={!ready}
+                  className="flex items-center justify-between px-3 py-1.5 bg-white/5 border border-white/10 hover:border-indigo-500/50 rounded-lg text-sm text-gray-200 disabled:opacity-30 transition-colors"
+                >
+                  {choice.label} <ChevronRight size={16} />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-4 bg-black/40 border-t border-white/5 flex justify-between items-center">
+          <div className="flex gap-1">
+            {tour.steps.map((s, i) => (
+              <div key={s.id} className={`w-1.5 h-1.5 rounded-full ${i === index ? 'bg-indigo-400' : position.history.includes(s.id) ? 'bg-indigo-400/40' : 'bg-gray-600'}`} />
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={back}
+              disabled={position.history.length === 0}
+              className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            >
+              <ChevronLeft size={18} />
+            </button>
+
+            {step.choices ? null : isLast ? (
+              <button
+                onClick={() => go(null)}
+                disabled={!ready}
+                className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-30 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                Finish
+              </button>
+            ) : (
+              <button
+                onClick={() => go(nextStepId(tour, step))}
+                disabled={!ready}
+                className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                Next <ChevronRight size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export function Tutorial({ onClose, state, setSimState }: TutorialProps) {
+  const [tours, setTours] = useState<Tour[]>(BUILT_IN_TOURS);
+  const [progress, setProgress] = useState(loadTourProgress);
+  // Straight into the introduction until it has been finished once
+  const [playing, setPlaying] = useState<{ tour: Tour; start: TourProgress } | null>(() => {
+    const intro = BUILT_IN_TOURS[0];
+    const start = resumeTour(intro, progress[intro.id]);
+    return start.completed ? null : { tour: intro, start };
+  });
+  const [status, setStatus] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const play = (tour: Tour, restart = false) => {
+    const start = resumeTour(tour, restart ? undefined : progress[tour.id]);
+    setPlaying({ tour, start: { ...start, completed: false } });
+  };
+
+  const openFile = async (file: File) => {
+    try {
+      const tour = parseTour(await file.text());
+      setTours(list => [...list.filter(t => t.id !== tour.id), tour]);
+      setStatus(null);
+      play(tour, true);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : String(e));
     }
-  }, [step, setSimState]);
+  };
 
-  const next = () => setStep(s => Math.min(TUTORIAL_STEPS.length - 1, s + 1));
-  const prev = () => setStep(s => Math.max(0, s - 1));
+  if (playing) {
+    return (
+      <TourPlayer
+        tour={playing.tour}
+        start={playing.start}
+        onFinish={() => {
+          setProgress(loadTourProgress());
+          setPlaying(null);
+        }}
+        onClose={onClose}
+        state={state}
+        setSimState={setSimState}
+      />
+    );
+  }
 
   return (
     <div className="absolute top-24 right-6 w-80 bg-black/60 backdrop-blur-xl border border-indigo-500/30 rounded-2xl shadow-2xl overflow-hidden flex flex-col pointer-events-auto animate-in fade-in slide-in-from-right-8 duration-500">
       <div className="bg-indigo-500/20 px-4 py-3 flex justify-between items-center border-b border-indigo-500/30">
         <div className="flex items-center gap-2 text-indigo-300 font-semibold text-sm">
           <GraduationCap size={18} />
-          Interactive Guide
+          Guided Tours
         </div>
         <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
           <X size={18} />
         </button>
       </div>
-      
-      <div className="p-5">
-        <h3 className="text-lg font-bold text-white mb-2">{TUTORIAL_STEPS[step].title}</h3>
-        <p className="text-sm text-gray-300 leading-relaxed min-h-[80px]">
-          {TUTORIAL_STEPS[step].content}
-        </p>
-      </div>
 
-      <div className="px-5 py-4 bg-black/40 border-t border-white/5 flex justify-between items-center">
-        <div className="flex gap-1">
-          {TUTORIAL_STEPS.map((_, i) => (
-            <div key={i} className={`w-1.5 h-1.5 rounded-full ${i === step ? 'bg-indigo-400' : 'bg-gray-600'}`} />
-          ))}
-        </div>
-        
-        <div className="flex gap-2">
-          <button 
-            onClick={prev} 
-            disabled={step === 0}
-            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
-          >
-            <ChevronLeft size={18} />
-          </button>
-          
-          {step < TUTORIAL_STEPS.length - 1 ? (
-            <button 
-              onClick={next}
-              className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded-lg transition-colors"
-            >
-              Next <ChevronRight size={16} />
-            </button>
-          ) : (
-            <button 
-              onClick={onClose}
-              className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-medium rounded-lg transition-colors"
-            >
-              Finish
-            </button>
-          )}
-        </div>
+      <div className="p-4 space-y-2">
+        {tours.map(tour => {
+          const saved = progress[tour.id];
+          const started = saved && !saved.completed && saved.step !== tour.steps[0].id;
+          return (
+            <div key={tour.id} className="flex items-start gap-2">
+              <button
+                onClick={() => play(tour)}
+                className="flex-1 text-left px-3 py-2 bg-white/5 border border-white/10 hover:border-indigo-500/50 rounded-lg transition-colors"
+              >
+                <div className="flex items-center justify-between text-sm font-medium text-white">
+                  {tour.title}
+                  {saved?.completed && <Check size={14} className="text-emerald-400" />}
+                  {started && <span className="text-[10px] font-mono uppercase text-indigo-300">Resume</span>}
+                </div>
+                <p className="text-xs text-gray-400 mt-0.5">{tour.description}</p>
+              </button>
+              {started && (
+                <button
+                  onClick={() => play(tour, true)}
+                  className="p-1.5 mt-1 rounded-lg text-gray-500 hover:text-white hover:bg-white/10 transition-colors"
+                  title="Start over"
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="w-full flex items-center justify-center gap-1 px-2 py-1.5 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300 hover:border-indigo-500/50 hover:text-white transition-colors"
+        >
+          <FolderOpen size={12} /> Open a tour file
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) openFile(file);
+            e.target.value = '';
+          }}
+        />
+        {status && <p className="text-xs font-mono text-red-400">{status}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,47 @@
+import { BlackHoleRenderer, RendererBackend, SimulationRenderer } from './renderer';
+import { WebGLBlackHoleRenderer } from './webgl';
+
+export type BackendPreference = RendererBackend | 'auto';
+
+export const BACKEND_LABELS: Record<RendererBackend, string> = {
+  webgpu: 'WebGPU',
+  webgl2: 'WebGL2',
+};
+
+const STORAGE_KEY = 'ton618:backend';
+
+// `?backend=webgl2` in the URL wins over the saved choice.
+export function loadBackendPreference(): BackendPreference {
+  const fromUrl = new URLSearchParams(window.location.search).get('backend');
+  const value = fromUrl ?? window.localStorage.getItem(STORAGE_KEY);
+  return value === 'webgpu' || value === 'webgl2' ? value : 'auto';
+}
+
+export function saveBackendPreference(preference: BackendPreference) {
+  if (preference === 'auto') {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } else {
+    window.localStorage.setItem(STORAGE_KEY, preference);
+  }
+}
+
+// A canvas can only ever hold one kind of context, so WebGPU support is
+// probed through the adapter, before anything touches the canvas.
+export async function detectBackend(): Promise<RendererBackend> {
+  if (navigator.gpu) {
+    try {
+      if (await navigator.gpu.requestAdapter()) return 'webgpu';
+    } catch {
+      // Fall through to WebGL2
+    }
+  }
+  return 'webgl2';
+}
+
+export async function createRenderer(
+  canvas: HTMLCanvasElement,
+  preference: BackendPreference,
+): Promise<SimulationRenderer> {
+  const backend = preference === 'auto' ? await detectBackend() : preference;
+  return backend === 'webgpu' ? new BlackHoleRenderer(canvas) : new WebGLBlackHoleRenderer(canvas);
+}
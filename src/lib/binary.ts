@@ -0,0 +1,83 @@
+import type { SimulationState } from './renderer';
+import type { Vec3 } from './camera';
+
+// Binary black hole: a lighter companion on a circular orbit in the
+// primary's equatorial plane. The primary stays at the origin, which is fair
+// for small mass ratios. Kepler's law sets the orbital frequency. With decay
+// on, the separation shrinks through gravitational-wave emission at the
+// leading post-Newtonian rate (Peters 1964) until the holes merge. Lengths
+// are in the primary's Rs, so its mass is 0.5 and time is in Rs/c.
+
+// Rs/c of orbital motion per unit of shader time. A real orbit would be far
+// too slow to watch, so it is sped up, as the disk's swirl is.
+export const BINARY_TIME_SCALE = 50;
+
+// Fraction of its Roche lobe a disk fills before tides truncate it
+const TIDAL_TRUNCATION = 0.8;
+const PRIMARY_MASS = 0.5;
+
+export interface BinaryOrbit {
+  // Companion position, Rs
+  position: Vec3;
+  separation: number;
+  // Orbital angular velocity, radians per Rs/c
+  omega: number;
+  // Rs/c
+  period: number;
+  // Time left until merger at the present separation, Rs/c
+  mergerTime: number;
+  // Radii the tides truncate each hole's disk at, Rs
+  primaryDiskEdge: number;
+  companionDiskEdge: number;
+}
+
+// Eggleton's (1983) Roche lobe radius over the separation, for a body with
+// q times the mass of the other.
+export function rocheLobe(q: number): number {
+  const q23 = Math.pow(q, 2 / 3);
+  return (0.49 * q23) / (0.6 * q23 + Math.log(1 + Math.pow(q, 1 / 3)));
+}
+
+// Peters' inspiral time for a circular orbit, a⁴ / (4 β) with
+// β = 64/5 m1 m2 (m1 + m2), Rs/c.
+export function mergerTime(separation: number, massRatio: number): number {
+  const m2 = PRIMARY_MASS * massRatio;
+  const beta = (64 / 5) * PRIMARY_MASS * m2 * (PRIMARY_MASS + m2);
+  return Math.pow(separation, 4) / (4 * beta);
+}
+
+// The companion at shader time `time`; null without one, or once it has
+// merged.
+export function binaryOrbit(state: SimulationState, time: number): BinaryOrbit | null {
+  const q = state.binaryMassRatio;
+  if (q <= 0) return null;
+  const mass = PRIMARY_MASS * (1 + q);
+  const a0 = state.binarySeparation;
+  const tau = time * BINARY_TIME_SCALE;
+
+  let separation = a0;
+  let phase: number;
+  if (state.binaryDecay) {
+    // a = a0 (1 - τ/τm)^(1/4), and the phase is the closed-form integral
+    // of Ω = sqrt(M / a³)
+    const total = mergerTime(a0, q);
+    if (tau >= total) return null;
+    const left = 1 - tau / total;
+    separation = a0 * Math.pow(left, 0.25);
+    phase = state.binaryPhase - Math.sqrt(mass) * Math.pow(a0, -1.5) * total * 1.6 * (1 - Math.pow(left, 0.625));
+  } else {
+    phase = state.binaryPhase - Math.sqrt(mass / (a0 * a0 * a0)) * tau;
+  }
+
+  // Prograde with the disk, whose gas turns towards decreasing atan2(z, x)
+  const omega = Math.sqrt(mass / (separation * separation * separation));
+  return {
+    position: [separation * Math.cos(phase), 0, separation * Math.sin(phase)],
+    separation,
+    omega,
+    period: (2 * Math.PI) / omega,
+    mergerTime: mergerTime(separation, q),
+    primaryDiskEdge: TIDAL_TRUNCATION * rocheLobe(1 / q) * separation,
+    companionDiskEdge: TIDAL_TRUNCATION * rocheLobe(q) * separation,
+  };
+}
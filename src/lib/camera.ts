@@ -0,0 +1,168 @@
+import { SimulationState } from './renderer';
+import { observerState, orbitCameraPosition } from './observer';
+
+export type Vec3 = [number, number, number];
+// Rotation quaternion (x, y, z, w)
+export type Quat = [number, number, number, number];
+
+// The orbit camera circles the hole at cameraDistance and always looks at
+// it, up being +y. The free-fly camera sits at flyPosition and looks along
+// -z of flyOrientation, with +y of it up, so it can roll and look anywhere.
+export type CameraMode = 'orbit' | 'fly';
+
+export const CAMERA_MODE_LABELS: Record<CameraMode, string> = {
+  orbit: 'Orbit',
+  fly: 'Free Fly',
+};
+
+// Orbit bounds enforced by the camera controls and the keyframe timeline;
+// the distances also bound where the free-fly camera can go.
+export const CAMERA_LIMITS = {
+  minDistance: 3.0,
+  maxDistance: 300.0,
+  maxPitch: Math.PI / 2.1,
+};
+
+export interface CameraFrame {
+  position: Vec3;
+  direction: Vec3;
+  up: Vec3;
+  // Observer 3-velocity relative to the static (ZAMO) frame, in units of c
+  velocity: Vec3;
+}
+
+export function rotateVector(q: Quat, v: Vec3): Vec3 {
+  const [x, y, z, w] = q;
+  // v + 2w (q × v) + 2 q × (q × v)
+  const tx = 2 * (y * v[2] - z * v[1]);
+  const ty = 2 * (z * v[0] - x * v[2]);
+  const tz = 2 * (x * v[1] - y * v[0]);
+  return [
+    v[0] + w * tx + (y * tz - z * ty),
+    v[1] + w * ty + (z * tx - x * tz),
+    v[2] + w * tz + (x * ty - y * tx),
+  ];
+}
+
+// a then b applied in a's frame, i.e. a·b
+export function multiplyQuat(a: Quat, b: Quat): Quat {
+  const [ax, ay, az, aw] = a;
+  const [bx, by, bz, bw] = b;
+  return [
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+    aw * bw - ax * bx - ay * by - az * bz,
+  ];
+}
+
+export function normalizeQuat(q: Quat): Quat {
+  const l = Math.hypot(...q);
+  return l > 0 ? [q[0] / l, q[1] / l, q[2] / l, q[3] / l] : [0, 0, 0, 1];
+}
+
+// Rotation by `angle` about a unit axis
+export function axisAngleQuat(axis: Vec3, angle: number): Quat {
+  const s = Math.sin(angle / 2);
+  return [axis[0] * s, axis[1] * s, axis[2] * s, Math.cos(angle / 2)];
+}
+
+// Orientation looking along `direction` with `up` as close to up as it gets.
+export function lookOrientation(direction: Vec3, up: Vec3): Quat {
+  const f = normalize(direction);
+  let r = cross(f, up);
+  if (Math.hypot(...r) < 1e-6) r = cross(f, Math.abs(f[0]) < 0.9 ? [1, 0, 0] : [0, 0, 1]);
+  r = normalize(r);
+  const u = cross(r, f);
+  // Columns of the rotation: right, up, back
+  const [m00, m10, m20] = r;
+  const [m01, m11, m21] = u;
+  const [m02, m12, m22] = [-f[0], -f[1], -f[2]];
+  const trace = m00 + m11 + m22;
+  let q: Quat;
+  if (trace > 0) {
+    const s = 2 * Math.sqrt(trace + 1);
+    q = [(m21 - m12) / s, (m02 - m20) / s, (m10 - m01) / s, s / 4];
+  } else if (m00 > m11 && m00 > m22) {
+    const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+    q = [s / 4, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s];
+  } else if (m11 > m22) {
+    const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+    q = [(m01 + m10) / s, s / 4, (m12 + m21) / s, (m02 - m20) / s];
+  } else {
+    const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+    q = [(m02 + m20) / s, (m12 + m21) / s, s / 4, (m10 - m01) / s];
+  }
+  return normalizeQuat(q);
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const l = Math.hypot(...v);
+  return [v[0] / l, v[1] / l, v[2] / l];
+}
+
+// Distance of the static camera from the hole, in either mode
+export function cameraRadius(state: SimulationState): number {
+  return state.cameraMode === 'fly' ? Math.hypot(...state.flyPosition) : state.cameraDistance;
+}
+
+// Switches camera mode keeping the view. The fly camera starts where the
+// orbit camera (or the moving observer) is, looking at the hole; going back
+// to orbit keeps the direction and distance. Observers only ride the orbit
+// camera, so free flight starts from a static one.
+export function changeCameraMode(state: SimulationState, mode: CameraMode): SimulationState {
+  if (mode === state.cameraMode) return state;
+  if (mode === 'fly') {
+    const frame = computeCameraFrame(state);
+    return {
+      ...state,
+      cameraMode: 'fly',
+      observer: 'static',
+      observerTime: 0,
+      flyPosition: frame.position,
+      flyOrientation: lookOrientation(frame.direction, frame.up),
+    };
+  }
+  const [x, y, z] = state.flyPosition;
+  const distance = Math.hypot(x, y, z);
+  return {
+    ...state,
+    cameraMode: 'orbit',
+    cameraDistance: Math.min(Math.max(distance, CAMERA_LIMITS.minDistance), CAMERA_LIMITS.maxDistance),
+    cameraAngleX: Math.min(Math.max(Math.asin(y / distance), -CAMERA_LIMITS.maxPitch), CAMERA_LIMITS.maxPitch),
+    cameraAngleY: Math.atan2(z, x),
+  };
+}
+
+// Camera shared by the GPU uniforms and the CPU reference tracer. Moving
+// observers (see lib/observer) look at the hole from wherever their geodesic
+// has taken them; the free-fly camera is always static.
+export function computeCameraFrame(state: SimulationState): CameraFrame {
+  if (state.cameraMode === 'fly') {
+    return {
+      position: state.flyPosition,
+      direction: rotateVector(state.flyOrientation, [0, 0, -1]),
+      up: rotateVector(state.flyOrientation, [0, 1, 0]),
+      velocity: [0, 0, 0],
+    };
+  }
+
+  let position = orbitCameraPosition(state);
+  let velocity: Vec3 = [0, 0, 0];
+  if (state.observer !== 'static') {
+    ({ position, velocity } = observerState(state));
+  }
+  const [cx, cy, cz] = position;
+  const len = Math.sqrt(cx*cx + cy*cy + cz*cz);
+
+  return {
+    position,
+    direction: [-cx/len, -cy/len, -cz/len],
+    up: [0, 1, 0],
+    velocity,
+  };
+}
@@ -0,0 +1,73 @@
+// Simulation clock behind the shader's `u.time`. In real time it advances by
+// the wall-clock time between animation frames times the time speed, so the
+// disk turns at the same rate whatever the display's refresh rate. A fixed
+// step advances it by the same amount every frame instead, so a run of
+// frames is reproducible however long each one took to draw. The clock can be
+// paused, stepped a frame at a time and moved to any time.
+
+// Shader time per second of wall-clock time at timeSpeed 1
+export const TIME_RATE = 0.6;
+
+// Frame rates offered for fixed-step mode
+export const FIXED_STEP_RATES = [24, 30, 60] as const;
+
+// Frame length for single steps while running in real time, s
+const STEP_SECONDS = 1 / 60;
+// Longer gaps mean the tab was hidden; the clock carries on from where it was
+const MAX_INTERVAL_S = 0.25;
+
+export interface ClockStats {
+  time: number;
+  paused: boolean;
+  // Frames per second in fixed-step mode; null in real time
+  fixedRate: number | null;
+}
+
+export class SimulationClock {
+  private _time = 0;
+  private lastFrame: number | null = null;
+  // Bumped whenever the time jumps rather than runs or steps, see `seeks`
+  private _seeks = 0;
+  public paused = false;
+  // Frames per second in fixed-step mode; null runs in real time
+  public fixedRate: number | null = null;
+
+  get time(): number {
+    return this._time;
+  }
+
+  // Number of jumps so far. Anything integrating alongside the clock, like a
+  // moving observer, starts over from the new time when this changes.
+  get seeks(): number {
+    return this._seeks;
+  }
+
+  // Called once per live frame with the scene's time speed; returns the time
+  // to draw.
+  tick(timeSpeed: number, now = performance.now()): number {
+    const interval = this.lastFrame === null ? 0 : (now - this.lastFrame) / 1000;
+    this.lastFrame = now;
+    if (this.paused) return this._time;
+    const seconds = this.fixedRate !== null ? 1 / this.fixedRate : Math.min(interval, MAX_INTERVAL_S);
+    this._time += seconds * timeSpeed * TIME_RATE;
+    return this._time;
+  }
+
+  // Advances by whole frames, backwards for negative counts, at the fixed
+  // step's frame length or 1/60 s.
+  step(timeSpeed: number, frames = 1) {
+    const seconds = this.fixedRate !== null ? 1 / this.fixedRate : STEP_SECONDS;
+    this._time = Math.max(0, this._time + frames * seconds * timeSpeed * TIME_RATE);
+  }
+
+  seek(time: number) {
+    const next = Math.max(0, time);
+    if (next === this._time) return;
+    this._time = next;
+    this._seeks++;
+  }
+
+  stats(): ClockStats {
+    return { time: this._time, paused: this.paused, fixedRate: this.fixedRate };
+  }
+}
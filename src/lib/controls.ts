@@ -0,0 +1,298 @@
+import { SimulationRenderer, SimulationState } from './renderer';
+import { axisAngleQuat, CAMERA_LIMITS, multiplyQuat, normalizeQuat, rotateVector, Vec3 } from './camera';
+
+// Camera input. Pointer Events cover mouse, pen and touch: one pointer
+// drags the view, two pinch to zoom and twist to turn (orbit) or roll (fly).
+// The wheel zooms and WASD/arrow keys (plus R/F and Q/E when flying) steer.
+// Every input feeds velocities that decay, so motion coasts to a stop.
+//
+// The controller owns the camera pose while it moves: it writes the pose
+// into the renderer's state each animation frame and hands it to React via
+// `onCommit` a few times a second and once it comes to rest, so dragging
+// doesn't re-render the app per pointer event. Poses that arrive from React
+// and differ from the last one committed (presets, links, the timeline)
+// replace the live pose and stop any coasting.
+//
+// fs_main puts the camera's +y at the bottom of the screen (its uv.y grows
+// downwards), so free-fly input that means "up on screen" turns or moves
+// the camera towards its -y.
+
+export type CameraPose = Pick<SimulationState, 'cameraMode' | 'cameraDistance' | 'cameraAngleX' | 'cameraAngleY' | 'flyPosition' | 'flyOrientation'>;
+
+// Velocities fall by e every 1/DAMPING seconds
+const DAMPING = 4.0;
+// Radians per CSS pixel of drag
+const DRAG_ROTATE = 0.01;
+// Log-distance per wheel delta unit, as an impulse
+const WHEEL_ZOOM = 0.002;
+// Steady speeds with a key held: rad/s, log-distance/s and, flying,
+// distances from the hole per second
+const KEY_TURN = 1.2;
+const KEY_ZOOM = 1.0;
+const KEY_FLY = 0.8;
+// A release this long after the last move doesn't coast
+const COAST_WINDOW_MS = 80;
+// Commit to React at most this often while moving
+export const COMMIT_INTERVAL_MS = 250;
+// Pointer travel beyond which a press is a drag, not a click
+const CLICK_SLOP = 4;
+
+const KEY_ACTIONS: Record<string, string> = {
+  KeyW: 'forward', ArrowUp: 'lookUp',
+  KeyS: 'back', ArrowDown: 'lookDown',
+  KeyA: 'left', ArrowLeft: 'lookLeft',
+  KeyD: 'right', ArrowRight: 'lookRight',
+  KeyR: 'up', KeyF: 'down',
+  KeyQ: 'rollLeft', KeyE: 'rollRight',
+};
+
+interface Motion {
+  // Orbit: yaw, pitch and log-distance rates. Fly: pitch, yaw and roll
+  // rates about the camera's own axes, and velocity along them.
+  turn: Vec3;
+  zoom: number;
+  move: Vec3;
+}
+
+function pose(state: SimulationState): CameraPose {
+  const { cameraMode, cameraDistance, cameraAngleX, cameraAngleY, flyPosition, flyOrientation } = state;
+  return { cameraMode, cameraDistance, cameraAngleX, cameraAngleY, flyPosition, flyOrientation };
+}
+
+export function samePose(a: CameraPose, b: CameraPose): boolean {
+  return a.cameraMode === b.cameraMode &&
+    a.cameraDistance === b.cameraDistance &&
+    a.cameraAngleX === b.cameraAngleX &&
+    a.cameraAngleY === b.cameraAngleY &&
+    a.flyPosition.every((x, i) => x === b.flyPosition[i]) &&
+    a.flyOrientation.every((x, i) => x === b.flyOrientation[i]);
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+export class CameraController {
+  public renderer: SimulationRenderer | null = null;
+
+  private element: HTMLElement;
+  private onCommit: (pose: CameraPose) => void;
+  private live: CameraPose;
+  // The pose React last had, from sync() or a commit
+  private known: CameraPose;
+  private motion: Motion = { turn: [0, 0, 0], zoom: 0, move: [0, 0, 0] };
+  private pointers = new Map<number, { x: number; y: number }>();
+  private lastMove = 0;
+  private travel = 0;
+  private keys = new Set<string>();
+  private frameId = 0;
+  private lastFrame = 0;
+  private lastCommit = 0;
+
+  constructor(element: HTMLElement, state: SimulationState, onCommit: (pose: CameraPose) => void) {
+    this.element = element;
+    this.onCommit = onCommit;
+    this.live = this.known = pose(state);
+
+    element.addEventListener('pointerdown', this.handlePointerDown);
+    element.addEventListener('pointermove', this.handlePointerMove);
+    element.addEventListener('pointerup', this.handlePointerUp);
+    element.addEventListener('pointercancel', this.handlePointerUp);
+    element.addEventListener('wheel', this.handleWheel, { passive: false });
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.handleBlur);
+  }
+
+  // Whether the last press moved far enough to count as a drag
+  get dragged(): boolean {
+    return this.travel > CLICK_SLOP;
+  }
+
+  // Takes React's state and returns it with the live pose, for the renderer.
+  sync(state: SimulationState): SimulationState {
+    const incoming = pose(state);
+    if (!samePose(incoming, this.known)) {
+      this.live = this.known = incoming;
+      this.motion = { turn: [0, 0, 0], zoom: 0, move: [0, 0, 0] };
+    }
+    return this.apply(state);
+  }
+
+  destroy() {
+    cancelAnimationFrame(this.frameId);
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    this.element.removeEventListener('pointermove', this.handlePointerMove);
+    this.element.removeEventListener('pointerup', this.handlePointerUp);
+    this.element.removeEventListener('pointercancel', this.handlePointerUp);
+    this.element.removeEventListener('wheel', this.handleWheel);
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.handleBlur);
+  }
+
+  // Moving the orbit camera releases a moving observer again from there
+  private apply(state: SimulationState): SimulationState {
+    const moved = !samePose(this.live, this.known);
+    return { ...state, ...this.live, ...(moved ? { observerTime: 0 } : {}) };
+  }
+
+  private handlePointerDown = (e: PointerEvent) => {
+    this.element.setPointerCapture(e.pointerId);
+    this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (this.pointers.size === 1) this.travel = 0;
+    // A new touch stops the coasting, like catching a spinning globe
+    this.motion.turn = [0, 0, 0];
+    this.motion.zoom = 0;
+    this.motion.move = [0, 0, 0];
+  };
+
+  private handlePointerMove = (e: PointerEvent) => {
+    const previous = this.pointers.get(e.pointerId);
+    if (!previous) return;
+    const now = performance.now();
+    const dt = Math.max((now - this.lastMove) / 1000, 1 / 240);
+    this.lastMove = now;
+
+    const current = { x: e.clientX, y: e.clientY };
+    const others = [...this.pointers].filter(([id]) => id !== e.pointerId).map(([, p]) => p);
+    this.pointers.set(e.pointerId, current);
+    this.travel += Math.hypot(current.x - previous.x, current.y - previous.y);
+
+    let turn: Vec3 = [0, 0, 0];
+    let zoom = 0;
+    if (others.length === 0) {
+      const dx = (current.x - previous.x) * DRAG_ROTATE;
+      const dy = (current.y - previous.y) * DRAG_ROTATE;
+      // Orbit: the hole turns with the pointer. Fly: the sky does.
+      turn = this.live.cameraMode === 'orbit' ? [-dx, dy, 0] : [-dy, dx, 0];
+    } else if (others.length === 1) {
+      const anchor = others[0];
+      const before = Math.hypot(previous.x - anchor.x, previous.y - anchor.y);
+      const after = Math.hypot(current.x - anchor.x, current.y - anchor.y);
+      const twist = Math.atan2(current.y - anchor.y, current.x - anchor.x) - Math.atan2(previous.y - anchor.y, previous.x - anchor.x);
+      const angle = Math.atan2(Math.sin(twist), Math.cos(twist));
+      zoom = before > 0 && after > 0 ? Math.log(before / after) : 0;
+      // The scene turns with the fingers
+      turn = this.live.cameraMode === 'orbit' ? [-angle, 0, 0] : [0, 0, -angle];
+    }
+
+    this.step(turn, zoom, [0, 0, 0]);
+    // Smoothed velocities for the coast after release
+    const k = Math.min(1, dt * 20);
+    for (let i = 0; i < 3; i++) this.motion.turn[i] += (turn[i] / dt - this.motion.turn[i]) * k;
+    this.motion.zoom += (zoom / dt - this.motion.zoom) * k;
+    this.schedule();
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    if (!this.pointers.delete(e.pointerId)) return;
+    if (this.pointers.size > 0 || performance.now() - this.lastMove > COAST_WINDOW_MS) {
+      this.motion.turn = [0, 0, 0];
+      this.motion.zoom = 0;
+    }
+    this.schedule();
+  };
+
+  private handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    this.motion.zoom += e.deltaY * WHEEL_ZOOM * DAMPING;
+    this.schedule();
+  };
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (!(e.code in KEY_ACTIONS) || isTyping(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+    e.preventDefault();
+    this.keys.add(KEY_ACTIONS[e.code]);
+    this.schedule();
+  };
+
+  private handleKeyUp = (e: KeyboardEvent) => {
+    if (e.code in KEY_ACTIONS) this.keys.delete(KEY_ACTIONS[e.code]);
+  };
+
+  private handleBlur = () => this.keys.clear();
+
+  private schedule() {
+    if (this.frameId) return;
+    this.lastFrame = performance.now();
+    this.frameId = requestAnimationFrame(this.frame);
+  }
+
+  private frame = (now: number) => {
+    this.frameId = 0;
+    const dt = Math.min((now - this.lastFrame) / 1000, 0.1);
+    this.lastFrame = now;
+    const m = this.motion;
+
+    // Held keys accelerate towards their steady speed
+    const held = (a: string, b: string) => (this.keys.has(a) ? 1 : 0) - (this.keys.has(b) ? 1 : 0);
+    const a = DAMPING * dt;
+    if (this.live.cameraMode === 'orbit') {
+      // Keys act like dragging the way they point
+      m.turn[0] += (held('lookLeft', 'lookRight') + held('left', 'right')) * KEY_TURN * a;
+      m.turn[1] += held('lookDown', 'lookUp') * KEY_TURN * a;
+      m.zoom += held('back', 'forward') * KEY_ZOOM * a;
+    } else {
+      const speed = KEY_FLY * Math.hypot(...this.live.flyPosition);
+      // Keys look and move the way they point, as seen on screen
+      m.turn[0] += held('lookDown', 'lookUp') * KEY_TURN * a;
+      m.turn[1] += held('lookLeft', 'lookRight') * KEY_TURN * a;
+      m.turn[2] += held('rollRight', 'rollLeft') * KEY_TURN * a;
+      m.move[0] += held('right', 'left') * speed * a;
+      m.move[1] += held('down', 'up') * speed * a;
+      m.move[2] += held('forward', 'back') * speed * a;
+    }
+
+    const dragging = this.pointers.size > 0;
+    if (!dragging) {
+      this.step(m.turn.map(v => v * dt) as Vec3, m.zoom * dt, m.move.map(v => v * dt) as Vec3);
+    }
+    const decay = Math.exp(-DAMPING * dt);
+    m.turn = m.turn.map(v => v * decay) as Vec3;
+    m.zoom *= decay;
+    m.move = m.move.map(v => v * decay) as Vec3;
+
+    const resting = !dragging && this.keys.size === 0 &&
+      Math.max(...m.turn.map(Math.abs), Math.abs(m.zoom)) < 1e-3 &&
+      Math.hypot(...m.move) < 1e-3 * Math.hypot(...this.live.flyPosition);
+    if (resting || now - this.lastCommit > COMMIT_INTERVAL_MS) this.commit(now);
+    if (!resting) this.schedule();
+  };
+
+  // Moves the live pose by one increment and shows it
+  private step(turn: Vec3, zoom: number, move: Vec3) {
+    const p = this.live;
+    if (p.cameraMode === 'orbit') {
+      this.live = {
+        ...p,
+        cameraAngleY: p.cameraAngleY + turn[0],
+        cameraAngleX: Math.min(Math.max(p.cameraAngleX + turn[1], -CAMERA_LIMITS.maxPitch), CAMERA_LIMITS.maxPitch),
+        cameraDistance: Math.min(Math.max(p.cameraDistance * Math.exp(zoom), CAMERA_LIMITS.minDistance), CAMERA_LIMITS.maxDistance),
+      };
+    } else {
+      let q = p.flyOrientation;
+      q = multiplyQuat(q, axisAngleQuat([1, 0, 0], turn[0]));
+      q = multiplyQuat(q, axisAngleQuat([0, 1, 0], turn[1]));
+      q = normalizeQuat(multiplyQuat(q, axisAngleQuat([0, 0, 1], turn[2])));
+      // Zooming flies along the view; moves are in camera axes, -z forward
+      const r = Math.hypot(...p.flyPosition);
+      const local: Vec3 = [move[0], move[1], -move[2] + zoom * r];
+      const world = rotateVector(q, local);
+      let position = p.flyPosition.map((x, i) => x + world[i]) as Vec3;
+      const d = Math.hypot(...position);
+      const clamped = Math.min(Math.max(d, CAMERA_LIMITS.minDistance), CAMERA_LIMITS.maxDistance);
+      if (d > 0 && clamped !== d) position = position.map(x => x * clamped / d) as Vec3;
+      this.live = { ...p, flyOrientation: q, flyPosition: position };
+    }
+    if (this.renderer) this.renderer.state = this.apply(this.renderer.state);
+  }
+
+  private commit(now: number) {
+    this.lastCommit = now;
+    if (samePose(this.live, this.known)) return;
+    this.known = this.live;
+    this.onCommit(this.live);
+  }
+}
@@ -0,0 +1,166 @@
+import { iscoRadius, MASS, MAX_SPIN } from './kerr';
+import { C, G, SOLAR_MASS, DISK_OUTER_RS } from './units';
+import { sampleSpectrumLUT, spectrumLUT } from './spectrum';
+import { SimulationState } from './renderer';
+import { Vec3 } from './camera';
+
+// Thin-disk (Novikov–Thorne) emission in the shader's units, Rs = 1. The
+// shader evaluates the same expressions per sample; everything that depends
+// only on mass and accretion rate is folded into one temperature scale here.
+
+const STEFAN_BOLTZMANN = 5.670374419e-8;
+// Eddington luminosity per solar mass for ionised hydrogen, W.
+const EDDINGTON_LUMINOSITY_PER_SOLAR_MASS = 1.2572e31;
+
+function clampSpin(spin: number): number {
+  return Math.min(Math.max(spin, 0), MAX_SPIN);
+}
+
+// Radiative efficiency 1 - E_isco of a thin disk.
+export function radiativeEfficiency(spin: number): number {
+  return 1 - Math.sqrt(1 - (2 * MASS) / (3 * iscoRadius(spin)));
+}
+
+// Accretion rate (kg/s) that radiates at the Eddington luminosity.
+export function eddingtonAccretionRate(massSolar: number, spin: number): number {
+  return (EDDINGTON_LUMINOSITY_PER_SOLAR_MASS * massSolar) / (radiativeEfficiency(spin) * C * C);
+}
+
+// T₀ = (3 Ṁ c⁶ / (8π σ G² M²))^¼; the local effective temperature is
+// T₀ · novikovThorneProfile(r). `accretionRate` is in Eddington units.
+export function diskTemperatureScale(massSolar: number, accretionRate: number, spin: number): number {
+  const mdot = accretionRate * eddingtonAccretionRate(massSolar, spin);
+  const m = massSolar * SOLAR_MASS;
+  return Math.pow((3 * mdot * Math.pow(C, 6)) / (8 * Math.PI * STEFAN_BOLTZMANN * G * G * m * m), 0.25);
+}
+
+// Dimensionless Page & Thorne (1974) flux F(r) ∝ P(x)/(M²) with x = √(r/M),
+// returned as P(x)^¼ so it multiplies the temperature scale directly. Zero at
+// and inside the ISCO (zero-torque inner boundary).
+export function novikovThorneProfile(r: number, spin: number): number {
+  const chi = Math.max(clampSpin(spin), 1e-4);
+  const x = Math.sqrt(r / MASS);
+  const x0 = Math.sqrt(iscoRadius(spin) / MASS);
+  if (x <= x0) return 0;
+
+  const t = Math.acos(chi);
+  const x1 = 2 * Math.cos((t - Math.PI) / 3);
+  const x2 = 2 * Math.cos((t + Math.PI) / 3);
+  const x3 = -2 * Math.cos(t / 3);
+  const term = (xi: number, xj: number, xk: number) =>
+    ((3 * (xi - chi) * (xi - chi)) / (xi * (xi - xj) * (xi - xk))) * Math.log((x - xi) / (x0 - xi));
+
+  const bracket = x - x0 - 1.5 * chi * Math.log(x / x0)
+    - term(x1, x2, x3) - term(x2, x1, x3) - term(x3, x1, x2);
+  const p = bracket / (x * x * x * x * (x * x * x - 3 * x + 2 * chi));
+  return Math.pow(Math.max(p, 0), 0.25);
+}
+
+// Effective temperature (K) at radius r of the disk.
+export function diskTemperature(r: number, massSolar: number, accretionRate: number, spin: number): number {
+  return diskTemperatureScale(massSolar, accretionRate, spin) * novikovThorneProfile(r, spin);
+}
+
+// Peak of the temperature profile between the ISCO and the disk's outer edge.
+export function peakDiskTemperature(massSolar: number, accretionRate: number, spin: number): { radius: number; temperature: number } {
+  const inner = iscoRadius(spin);
+  let best = { radius: inner, temperature: 0 };
+  for (let i = 1; i <= 400; i++) {
+    const r = inner * Math.pow(DISK_OUTER_RS / inner, i / 400);
+    const temperature = diskTemperature(r, massSolar, accretionRate, spin);
+    if (temperature > best.temperature) best = { radius: r, temperature };
+  }
+  return best;
+}
+
+// Ratio of observed to emitted frequency for gas on a prograde circular orbit
+// at radius r, seen by a static observer at infinity along a photon with
+// angular momentum per unit energy `lambda` about the spin axis:
+// g = 1 / (u^t (1 - Ω λ)). Combines the Doppler and gravitational shifts.
+export function diskRedshift(r: number, spin: number, lambda: number): number {
+  const a = clampSpin(spin) * MASS;
+  const sqrtM = Math.sqrt(MASS);
+  const r32 = Math.pow(r, 1.5);
+  const omega = sqrtM / (r32 + a * sqrtM);
+  const denom = r32 - 3 * MASS * Math.sqrt(r) + 2 * a * sqrtM;
+  if (denom <= 0) return 0;
+  const ut = (r32 + a * sqrtM) / (Math.pow(r, 0.75) * Math.sqrt(denom));
+  return 1 / (ut * (1 - omega * lambda));
+}
+
+// Blueshift of light arriving at a static observer at radius r, relative to
+// infinity (equatorial approximation).
+export function observerBlueshift(r: number): number {
+  return 1 / Math.sqrt(Math.max(1 - (2 * MASS) / r, 0.01));
+}
+
+export interface DiskEmission {
+  // Novikov–Thorne temperature scale T₀, K.
+  temperatureScale: number;
+  peakTemperature: number;
+  peakRadius: number;
+  // -log10 of the band radiance at the peak temperature. Added to the LUT's
+  // log scale so the hottest unshifted gas renders near unit intensity.
+  exposure: number;
+}
+
+export function diskEmission(
+  massSolar: number,
+  accretionRate: number,
+  spin: number,
+  band: number,
+  lut: Float32Array = spectrumLUT(),
+): DiskEmission {
+  const peak = peakDiskTemperature(massSolar, accretionRate, spin);
+  return {
+    temperatureScale: diskTemperatureScale(massSolar, accretionRate, spin),
+    peakTemperature: peak.temperature,
+    peakRadius: peak.radius,
+    exposure: -sampleSpectrumLUT(lut, band, peak.temperature).logScale,
+  };
+}
+
+export interface EmissionInputs {
+  massSolar: number;
+  accretionRate: number;
+  spin: number;
+  wavelength: number;
+}
+
+// diskEmission needs a search over the disk; renderers call this every frame
+// (and the reference tracer every ray), so recompute only on input changes.
+export function memoizedDiskEmission(): (inputs: EmissionInputs) => DiskEmission {
+  let key = '';
+  let emission: DiskEmission;
+  return ({ massSolar, accretionRate, spin, wavelength }) => {
+    const next = `${massSolar}:${accretionRate}:${spin}:${wavelength}`;
+    if (next !== key) {
+      emission = diskEmission(massSolar, accretionRate, spin, wavelength);
+      key = next;
+    }
+    return emission;
+  };
+}
+
+// Inner and outer edge of the disk, Rs.
+export function diskEdges(state: SimulationState): { inner: number; outer: number } {
+  return { inner: state.diskInnerIsco * iscoRadius(state.spin), outer: state.diskOuter };
+}
+
+// Orientation of the disk at radius r and shader time `time` (see diskFrame
+// in the shader): its in-plane x axis, its normal and its in-plane z axis.
+// The disk leans by diskTilt, plus up to diskWarp more at the outer edge,
+// about a line of nodes that turns at diskPrecession.
+export function diskFrame(state: SimulationState, r: number, time: number): [Vec3, Vec3, Vec3] {
+  const { inner, outer } = diskEdges(state);
+  const across = Math.min(Math.max((r - inner) / Math.max(outer - inner, 1e-3), 0), 1);
+  const tilt = state.diskTilt + state.diskWarp * across;
+  const node = state.diskPrecession * time;
+  const mx = Math.cos(node), mz = Math.sin(node);
+  const c = Math.cos(tilt), s = Math.sin(tilt);
+  return [
+    [c + mx * mx * (1 - c), mz * s, mx * mz * (1 - c)],
+    [-mz * s, c, mx * s],
+    [mx * mz * (1 - c), -mx * s, c + mz * mz * (1 - c)],
+  ];
+}
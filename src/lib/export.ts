@@ -0,0 +1,161 @@
+import { encodePNGAsync, streamDeflate } from './png';
+import { tonemap } from './reference';
+import type { SimulationState } from './renderer';
+
+// Still image export. Time is frozen and each pixel averages `samples`
+// sub-pixel jittered rays, accumulated in linear HDR on the GPU and
+// tonemapped once at the end. Images larger than one render target are drawn
+// tile by tile; the backends only implement TileAccumulator.
+
+export interface ExportOptions {
+  width: number;
+  height: number;
+  // Jittered samples per pixel
+  samples: number;
+  // Frame to render; the live state and shader time by default
+  state?: SimulationState;
+  time?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ExportTile {
+  // Top-left corner in image pixels
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ExportedImage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+  state: SimulationState;
+  time: number;
+}
+
+export interface TileAccumulator {
+  // Largest tile edge the backend can render in one pass, in pixels
+  readonly maxTileSize: number;
+  // Clears the accumulation target for a new tile.
+  begin(tile: ExportTile): void;
+  // Renders one sample with the given packed uniforms and adds it to the sum.
+  addSample(uniformData: ArrayBuffer): Promise<void>;
+  // Per-pixel RGBA sums for the current tile, rows top-down.
+  read(): Promise<Float32Array>;
+  destroy(): void;
+}
+
+export const MAX_EXPORT_SIZE = 16384;
+export const MAX_EXPORT_SAMPLES = 1024;
+
+export const EXPORT_RESOLUTIONS = [
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+  { id: '8k', label: '8K', width: 7680, height: 4320 },
+];
+
+export function validateExportOptions(options: ExportOptions) {
+  for (const [name, value] of [['width', options.width], ['height', options.height]] as const) {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_EXPORT_SIZE) {
+      throw new Error(`Export ${name} must be a whole number from 1 to ${MAX_EXPORT_SIZE}, got ${value}.`);
+    }
+  }
+  if (!Number.isInteger(options.samples) || options.samples < 1 || options.samples > MAX_EXPORT_SAMPLES) {
+    throw new Error(`Samples per pixel must be from 1 to ${MAX_EXPORT_SAMPLES}, got ${options.samples}.`);
+  }
+}
+
+export function planTiles(width: number, height: number, tileSize: number): ExportTile[] {
+  const tiles: ExportTile[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      tiles.push({ x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) });
+    }
+  }
+  return tiles;
+}
+
+function halton(index: number, base: number): number {
+  let result = 0;
+  let f = 1 / base;
+  for (let i = index; i > 0; i = Math.floor(i / base)) {
+    result += f * (i % base);
+    f /= base;
+  }
+  return result;
+}
+
+// Sub-pixel offset of sample `index` in [-0.5, 0.5). The first sample is the
+// pixel centre, so a single-sample export matches the live view.
+export function sampleJitter(index: number): [number, number] {
+  if (index === 0) return [0, 0];
+  return [halton(index, 2) - 0.5, halton(index, 3) - 0.5];
+}
+
+// Drives the accumulator over every tile and sample, then averages and
+// tonemaps like the live view. `uniformsFor` packs the scene uniforms for a
+// tile and jitter.
+export async function accumulateImage(
+  accumulator: TileAccumulator,
+  options: ExportOptions,
+  uniformsFor: (tile: ExportTile, jitter: [number, number]) => ArrayBuffer,
+): Promise<Uint8ClampedArray> {
+  validateExportOptions(options);
+  const { width, height, samples, signal, onProgress } = options;
+  const tiles = planTiles(width, height, accumulator.maxTileSize);
+  const total = tiles.length * samples;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  let done = 0;
+
+  onProgress?.(0, total);
+  for (const tile of tiles) {
+    accumulator.begin(tile);
+    for (let s = 0; s < samples; s++) {
+      signal?.throwIfAborted();
+      await accumulator.addSample(uniformsFor(tile, sampleJitter(s)));
+      onProgress?.(++done, total);
+    }
+
+    const sums = await accumulator.read();
+    for (let y = 0; y < tile.height; y++) {
+      for (let x = 0; x < tile.width; x++) {
+        const i = (y * tile.width + x) * 4;
+        const o = ((tile.y + y) * width + tile.x + x) * 4;
+        pixels[o] = Math.round(tonemap(sums[i] / samples) * 255);
+        pixels[o + 1] = Math.round(tonemap(sums[i + 1] / samples) * 255);
+        pixels[o + 2] = Math.round(tonemap(sums[i + 2] / samples) * 255);
+        pixels[o + 3] = 255;
+      }
+    }
+  }
+  return pixels;
+}
+
+// PNG with the same metadata keys as scripts/render-reference.ts, so an
+// exported still can be re-rendered or diffed against the CPU reference.
+export async function encodeExportPNG(image: ExportedImage): Promise<Blob> {
+  const png = await encodePNGAsync(image.pixels, image.width, image.height, {
+    deflate: streamDeflate,
+    text: {
+      'ton618:state': JSON.stringify(image.state),
+      'ton618:time': String(image.time),
+    },
+  });
+  return new Blob([png], { type: 'image/png' });
+}
+
+export function exportFileName(image: ExportedImage): string {
+  return `${image.state.presetId}-${image.width}x${image.height}.png`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,138 @@
+import { SimulationRenderer, SimulationState } from './renderer';
+import { encodePNGAsync, streamDeflate } from './png';
+
+// Client for the saved-scene gallery served by server/. The types here are
+// the wire format and are shared with the server routes.
+
+export interface GalleryScene {
+  id: number;
+  title: string;
+  tags: string[];
+  collectionIds: number[];
+  hasThumbnail: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GallerySceneDetail extends GalleryScene {
+  state: SimulationState;
+}
+
+export interface GalleryCollection {
+  id: number;
+  name: string;
+  // In display order
+  sceneIds: number[];
+  createdAt: string;
+}
+
+export interface NewGalleryScene {
+  title: string;
+  state: SimulationState;
+  tags?: string[];
+  // PNG or JPEG data URL
+  thumbnail?: string;
+}
+
+export interface GallerySceneChanges {
+  title?: string;
+  tags?: string[];
+}
+
+export interface SceneQuery {
+  collectionId?: number;
+  tag?: string;
+}
+
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_TAGS = 16;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_THUMBNAIL_BYTES = 512 * 1024;
+export const THUMBNAIL_SIZE = { width: 320, height: 180 };
+
+const API_ROOT = '/api';
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_ROOT}${path}`, {
+      ...init,
+      headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+    });
+  } catch {
+    throw new Error('The gallery server is not reachable.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Gallery request failed (${response.status}).`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+// Splits "a, b ,c" into trimmed, lower-case, unique tags.
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function listScenes(query: SceneQuery = {}): Promise<GalleryScene[]> {
+  const params = new URLSearchParams();
+  if (query.collectionId !== undefined) params.set('collection', String(query.collectionId));
+  if (query.tag) params.set('tag', query.tag);
+  const search = params.toString();
+  return request(`/scenes${search ? `?${search}` : ''}`);
+}
+
+export function getScene(id: number): Promise<GallerySceneDetail> {
+  return request(`/scenes/${id}`);
+}
+
+export function createScene(scene: NewGalleryScene): Promise<GalleryScene> {
+  return request('/scenes', { method: 'POST', body: JSON.stringify(scene) });
+}
+
+export function updateScene(id: number, changes: GallerySceneChanges): Promise<GalleryScene> {
+  return request(`/scenes/${id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+}
+
+export function deleteScene(id: number): Promise<void> {
+  return request(`/scenes/${id}`, { method: 'DELETE' });
+}
+
+// `updatedAt` busts the browser cache when a scene is saved over.
+export function thumbnailUrl(scene: GalleryScene): string {
+  return `${API_ROOT}/scenes/${scene.id}/thumbnail?v=${encodeURIComponent(scene.updatedAt)}`;
+}
+
+export function listCollections(): Promise<GalleryCollection[]> {
+  return request('/collections');
+}
+
+export function createCollection(name: string): Promise<GalleryCollection> {
+  return request('/collections', { method: 'POST', body: JSON.stringify({ name }) });
+}
+
+export function renameCollection(id: number, name: string): Promise<GalleryCollection> {
+  return request(`/collections/${id}`, { method: 'PATCH', body: JSON.stringify({ name }) });
+}
+
+export function deleteCollection(id: number): Promise<void> {
+  return request(`/collections/${id}`, { method: 'DELETE' });
+}
+
+export function addToCollection(collectionId: number, sceneId: number): Promise<GalleryCollection> {
+  return request(`/collections/${collectionId}/scenes`, { method: 'POST', body: JSON.stringify({ sceneId }) });
+}
+
+export function removeFromCollection(collectionId: number, sceneId: number): Promise<GalleryCollection> {
+  return request(`/collections/${collectionId}/scenes/${sceneId}`, { method: 'DELETE' });
+}
+
+// Renders a small single-sample still of the state as a PNG data URL.
+export async function renderThumbnail(renderer: SimulationRenderer, state: SimulationState): Promise<string> {
+  const { width, height } = THUMBNAIL_SIZE;
+  const image = await renderer.exportImage({ width, height, samples: 1, state });
+  const png = await encodePNGAsync(image.pixels, width, height, { deflate: streamDeflate });
+  let binary = '';
+  png.forEach(b => (binary += String.fromCharCode(b)));
+  return `data:image/png;base64,${btoa(binary)}`;
+}
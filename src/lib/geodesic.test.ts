@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CRITICAL_IMPACT_PARAMETER, exactDeflection, Integrator, traceDeflection, weakFieldDeflection } from './geodesic';
+
+const INTEGRATORS: Integrator[] = ['fast', 'accurate'];
+
+function assertClose(actual: number, expected: number, relative: number, message: string) {
+  assert.ok(Math.abs(actual - expected) <= relative * Math.abs(expected), `${message}: ${actual} vs ${expected}`);
+}
+
+// Impact parameter below which rays are captured, by bisection
+function captureThreshold(integrator: Integrator): number {
+  let lo = 0.9 * CRITICAL_IMPACT_PARAMETER;
+  let hi = 1.1 * CRITICAL_IMPACT_PARAMETER;
+  for (let i = 0; i < 14; i++) {
+    const mid = (lo + hi) / 2;
+    if (traceDeflection(mid, integrator).captured) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+test('exact deflection tends to the weak-field 2Rs/b', () => {
+  // The next order is 15π/16 (Rs/b)², 0.15% at b = 1000 Rs
+  assertClose(exactDeflection(1000), weakFieldDeflection(1000), 2e-3, 'b = 1000');
+});
+
+for (const integrator of INTEGRATORS) {
+  test(`${integrator}: far rays are deflected by 2Rs/b to within 2%`, () => {
+    for (const b of [100, 200, 500]) {
+      const result = traceDeflection(b, integrator);
+      assert.equal(result.captured, false);
+      assertClose(result.deflection, weakFieldDeflection(b), 0.02, `b = ${b}`);
+      // Against the full integral, less the bending beyond the start distance
+      assertClose(result.deflection, exactDeflection(b), 1e-4, `b = ${b} exact`);
+    }
+  });
+
+  test(`${integrator}: rays are captured below b = 3√3/2 Rs to within 0.5%`, () => {
+    assertClose(captureThreshold(integrator), CRITICAL_IMPACT_PARAMETER, 5e-3, 'threshold');
+    assert.equal(traceDeflection(0.99 * CRITICAL_IMPACT_PARAMETER, integrator).captured, true);
+    assert.equal(traceDeflection(1.01 * CRITICAL_IMPACT_PARAMETER, integrator).captured, false);
+  });
+}
+
+test('accurate: strong-field deflection near the photon sphere matches the integral to 0.01%', () => {
+  for (const factor of [1.001, 1.01, 1.05]) {
+    const b = factor * CRITICAL_IMPACT_PARAMETER;
+    assertClose(traceDeflection(b, 'accurate').deflection, exactDeflection(b), 1e-4, `b = ${factor} b_crit`);
+  }
+});
+
+test('fast: strong-field deflection at 1.01 b_crit is within 2% of the integral', () => {
+  const b = 1.01 * CRITICAL_IMPACT_PARAMETER;
+  assertClose(traceDeflection(b, 'fast').deflection, exactDeflection(b), 0.02, 'b = 1.01 b_crit');
+});
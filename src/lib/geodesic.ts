@@ -0,0 +1,235 @@
+// Null geodesics around a Schwarzschild black hole, in the units used by the
+// shader (Rs = 1). Photon orbits obey
+//
+//   d²p/dλ² = -3/2 h² p / r⁵,   h = p × dp/dλ (conserved)
+//
+// which is the Binet equation d²u/dφ² + u = 3/2 Rs u² written in Cartesian
+// form. `advanceRay` mirrors the stepping in the shader's ray loop: `fast` is
+// the original renormalised Euler march and `accurate` integrates the
+// equation above with RK4. A binary companion (see lib/binary) adds its own
+// pull, with h taken about it, on top of the primary's: the superposed
+// potential approximation, fair while the two are far apart.
+
+export type Integrator = 'fast' | 'accurate';
+
+export const RS = 1.0;
+export const PHOTON_SPHERE_RADIUS = 1.5 * RS;
+export const CRITICAL_IMPACT_PARAMETER = (3 * Math.sqrt(3) / 2) * RS;
+
+export interface RayState {
+  x: number; y: number; z: number;
+  vx: number; vy: number; vz: number;
+  // |p × v|², recomputed every step by the fast integrator and held
+  // constant by the accurate one.
+  h2: number;
+}
+
+// A second hole, held still while the ray crosses the scene
+export interface Companion {
+  position: [number, number, number];
+  // Schwarzschild radius, Rs
+  rs: number;
+}
+
+export function createRay(
+  position: [number, number, number],
+  direction: [number, number, number],
+): RayState {
+  const [x, y, z] = position;
+  const [dx, dy, dz] = direction;
+  const l = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  const vx = dx / l, vy = dy / l, vz = dz / l;
+  const hx = y * vz - z * vy, hy = z * vx - x * vz, hz = x * vy - y * vx;
+  return { x, y, z, vx, vy, vz, h2: hx * hx + hy * hy + hz * hz };
+}
+
+// Base march step, larger far from the hole, and no larger than `limit`.
+export function stepSize(r: number, limit = Infinity): number {
+  const base_dt = 0.05;
+  return Math.min(Math.min(2.0, base_dt * (1.0 + Math.max(0.0, r - RS) * 0.3)), limit);
+}
+
+// Extra refinement for the accurate integrator around the photon sphere,
+// where secondary images are most sensitive to integration error.
+export function accurateStepSize(r: number, limit = Infinity): number {
+  return stepSize(r, limit) * Math.min(1.0, Math.max(0.2, Math.abs(r - PHOTON_SPHERE_RADIUS) * 2.0));
+}
+
+// The base step scaled down to a companion at distance r
+export function companionStepSize(r: number, rs: number): number {
+  return 0.05 * (rs + Math.max(0.0, r - rs) * 0.3);
+}
+
+export function companionDistance(ray: RayState, companion: Companion): number {
+  const [cx, cy, cz] = companion.position;
+  return Math.sqrt((ray.x - cx) ** 2 + (ray.y - cy) ** 2 + (ray.z - cz) ** 2);
+}
+
+function accel(x: number, y: number, z: number, h2: number, out: number[]) {
+  const r2 = x * x + y * y + z * z;
+  const k = (-1.5 * h2) / (r2 * r2 * Math.sqrt(r2));
+  out[0] = k * x;
+  out[1] = k * y;
+  out[2] = k * z;
+}
+
+// Adds the companion's -3/2 rs h'² p' / r'⁵, with p' and h' about it
+function addCompanionAccel(
+  c: Companion,
+  x: number, y: number, z: number,
+  vx: number, vy: number, vz: number,
+  out: number[],
+) {
+  const px = x - c.position[0], py = y - c.position[1], pz = z - c.position[2];
+  const hx = py * vz - pz * vy, hy = pz * vx - px * vz, hz = px * vy - py * vx;
+  const r2 = px * px + py * py + pz * pz;
+  const k = (-1.5 * c.rs * (hx * hx + hy * hy + hz * hz)) / (r2 * r2 * Math.sqrt(r2));
+  out[0] += k * px;
+  out[1] += k * py;
+  out[2] += k * pz;
+}
+
+const k1 = [0, 0, 0], k2 = [0, 0, 0], k3 = [0, 0, 0], k4 = [0, 0, 0];
+
+// Advances the ray in place and returns the distance travelled, which the
+// ray marcher uses as the integration length for volumetric emission.
+export function advanceRay(ray: RayState, integrator: Integrator, companion?: Companion): number {
+  const r = Math.sqrt(ray.x * ray.x + ray.y * ray.y + ray.z * ray.z);
+  const limit = companion ? companionStepSize(companionDistance(ray, companion), companion.rs) : Infinity;
+
+  if (integrator === 'accurate') {
+    const dt = accurateStepSize(r, limit);
+    const { x, y, z, vx, vy, vz } = ray;
+    // The companion's pull stops h² being conserved, so it is taken afresh
+    let h2 = ray.h2;
+    if (companion) {
+      const hx = y * vz - z * vy, hy = z * vx - x * vz, hz = x * vy - y * vx;
+      h2 = hx * hx + hy * hy + hz * hz;
+    }
+
+    accel(x, y, z, h2, k1);
+    if (companion) addCompanionAccel(companion, x, y, z, vx, vy, vz, k1);
+    const v2x = vx + k1[0] * dt * 0.5, v2y = vy + k1[1] * dt * 0.5, v2z = vz + k1[2] * dt * 0.5;
+    accel(x + vx * dt * 0.5, y + vy * dt * 0.5, z + vz * dt * 0.5, h2, k2);
+    if (companion) addCompanionAccel(companion, x + vx * dt * 0.5, y + vy * dt * 0.5, z + vz * dt * 0.5, v2x, v2y, v2z, k2);
+    const v3x = vx + k2[0] * dt * 0.5, v3y = vy + k2[1] * dt * 0.5, v3z = vz + k2[2] * dt * 0.5;
+    accel(x + v2x * dt * 0.5, y + v2y * dt * 0.5, z + v2z * dt * 0.5, h2, k3);
+    if (companion) addCompanionAccel(companion, x + v2x * dt * 0.5, y + v2y * dt * 0.5, z + v2z * dt * 0.5, v3x, v3y, v3z, k3);
+    const v4x = vx + k3[0] * dt, v4y = vy + k3[1] * dt, v4z = vz + k3[2] * dt;
+    accel(x + v3x * dt, y + v3y * dt, z + v3z * dt, h2, k4);
+    if (companion) addCompanionAccel(companion, x + v3x * dt, y + v3y * dt, z + v3z * dt, v4x, v4y, v4z, k4);
+
+    ray.x += (dt / 6) * (vx + 2 * v2x + 2 * v3x + v4x);
+    ray.y += (dt / 6) * (vy + 2 * v2y + 2 * v3y + v4y);
+    ray.z += (dt / 6) * (vz + 2 * v2z + 2 * v3z + v4z);
+    ray.vx += (dt / 6) * (k1[0] + 2 * k2[0] + 2 * k3[0] + k4[0]);
+    ray.vy += (dt / 6) * (k1[1] + 2 * k2[1] + 2 * k3[1] + k4[1]);
+    ray.vz += (dt / 6) * (k1[2] + 2 * k2[2] + 2 * k3[2] + k4[2]);
+
+    return dt * Math.sqrt(ray.vx * ray.vx + ray.vy * ray.vy + ray.vz * ray.vz);
+  }
+
+  const dt = stepSize(r, limit);
+  const hx = ray.y * ray.vz - ray.z * ray.vy;
+  const hy = ray.z * ray.vx - ray.x * ray.vz;
+  const hz = ray.x * ray.vy - ray.y * ray.vx;
+  ray.h2 = hx * hx + hy * hy + hz * hz;
+
+  accel(ray.x, ray.y, ray.z, ray.h2, k1);
+  if (companion) addCompanionAccel(companion, ray.x, ray.y, ray.z, ray.vx, ray.vy, ray.vz, k1);
+  ray.vx += k1[0] * dt;
+  ray.vy += k1[1] * dt;
+  ray.vz += k1[2] * dt;
+  const l = Math.sqrt(ray.vx * ray.vx + ray.vy * ray.vy + ray.vz * ray.vz);
+  ray.vx /= l;
+  ray.vy /= l;
+  ray.vz /= l;
+  ray.x += ray.vx * dt;
+  ray.y += ray.vy * dt;
+  ray.z += ray.vz * dt;
+
+  return dt;
+}
+
+// Weak-field (first order) light deflection, 4GM/(c²b) = 2Rs/b.
+export function weakFieldDeflection(b: number): number {
+  return (2 * RS) / b;
+}
+
+// Distance of closest approach for a photon with impact parameter b > b_crit:
+// the largest root of r³ - b²r + b²Rs = 0.
+export function closestApproach(b: number): number {
+  if (b <= CRITICAL_IMPACT_PARAMETER) return NaN;
+  return (2 * b / Math.sqrt(3)) * Math.cos(Math.acos((-3 * Math.sqrt(3) * RS) / (2 * b)) / 3);
+}
+
+// Exact Schwarzschild deflection angle from the orbit integral
+// α = 2 ∫ du / sqrt(1/b² - u² + Rs u³) - π. Using 1/b² = u0² - Rs u0³ the
+// radicand factors as (u0 - u)(u0 + u - Rs(u0² + u0 u + u²)), and the
+// substitution u = u0(1 - t²) leaves a smooth integrand on [0, 1].
+export function exactDeflection(b: number, samples: number = 2000): number {
+  const r0 = closestApproach(b);
+  if (!Number.isFinite(r0)) return Infinity;
+
+  const u0 = 1 / r0;
+  const f = (t: number) => {
+    const u = u0 * (1 - t * t);
+    const q = u0 + u - RS * (u0 * u0 + u0 * u + u * u);
+    return (2 * Math.sqrt(u0)) / Math.sqrt(q);
+  };
+
+  // Simpson's rule.
+  const n = samples + (samples % 2);
+  const h = 1 / n;
+  let sum = f(0) + f(1);
+  for (let i = 1; i < n; i++) {
+    sum += (i % 2 ? 4 : 2) * f(i * h);
+  }
+  return 2 * (sum * h) / 3 - Math.PI;
+}
+
+export interface DeflectionResult {
+  captured: boolean;
+  // Angle between the incoming and outgoing directions, radians.
+  deflection: number;
+  steps: number;
+}
+
+// Fires a ray with impact parameter b from `distance` and integrates it until
+// it escapes back past that distance or falls through the horizon.
+export function traceDeflection(
+  b: number,
+  integrator: Integrator,
+  options: { distance?: number; maxSteps?: number } = {},
+): DeflectionResult {
+  const distance = options.distance ?? 1e4;
+  const maxSteps = options.maxSteps ?? 1e6;
+  const x0 = -Math.sqrt(distance * distance - b * b);
+  const ray = createRay([x0, b, 0], [1, 0, 0]);
+
+  // Accumulate the turning of the direction vector so that rays winding
+  // around the photon sphere report deflections beyond π.
+  let heading = Math.atan2(ray.vy, ray.vx);
+  let turned = 0;
+
+  for (let steps = 1; steps <= maxSteps; steps++) {
+    advanceRay(ray, integrator);
+
+    const next = Math.atan2(ray.vy, ray.vx);
+    let delta = next - heading;
+    if (delta > Math.PI) delta -= 2 * Math.PI;
+    if (delta < -Math.PI) delta += 2 * Math.PI;
+    turned += delta;
+    heading = next;
+
+    const r = Math.sqrt(ray.x * ray.x + ray.y * ray.y + ray.z * ray.z);
+    if (r < RS) {
+      return { captured: true, deflection: NaN, steps };
+    }
+    if (r > distance && ray.x * ray.vx + ray.y * ray.vy + ray.z * ray.vz > 0) {
+      return { captured: false, deflection: -turned, steps };
+    }
+  }
+
+  return { captured: false, deflection: NaN, steps: maxSteps };
+}
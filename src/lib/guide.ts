@@ -0,0 +1,244 @@
+import { SimulationState } from './renderer';
+import { validateState } from './scene';
+import { OBSERVING_BANDS } from './spectrum';
+import { SKY_BACKGROUND_LABELS } from './skybox';
+import { findPreset } from './presets';
+import { findViewMode, viewModes } from './viewModes';
+import { kerrRadii, lapse } from './kerr';
+import { observerState, OBSERVER_LABELS } from './observer';
+import { cameraRadius, changeCameraMode } from './camera';
+import { C, SOLAR_MASS, YEAR, deriveScales, formatDuration, formatLength, formatMass, formatScientific } from './units';
+import { diskEdges, eddingtonAccretionRate, peakDiskTemperature } from './disk';
+import { binaryOrbit } from './binary';
+import { fallbackTime, peakFallbackRate, tidalDisruption } from './tde';
+
+// "Ask the guide": questions go to Gemini together with a structured
+// description of what is on screen, and the reply comes back as JSON with an
+// answer and optional one-click state changes, which are validated like a
+// loaded scene before they can be applied. Requests go through the app
+// server (server/guide.ts), which holds the API key.
+
+export interface GuideSuggestion {
+  label: string;
+  changes: Partial<SimulationState>;
+}
+
+export interface GuideReply {
+  answer: string;
+  suggestions: GuideSuggestion[];
+}
+
+export interface GuideMessage {
+  role: 'user' | 'guide';
+  text: string;
+  suggestions?: GuideSuggestion[];
+}
+
+// State fields the guide may change; server/guide.ts describes each one in
+// the response schema.
+export const GUIDE_FIELDS = [
+  'viewMode',
+  'wavelength',
+  'timeSpeed',
+  'showJets',
+  'showMilkyWay',
+  'background',
+  'showStars',
+  'cameraDistance',
+  'cameraAngleX',
+  'cameraAngleY',
+  'spin',
+  'massSolar',
+  'accretionRate',
+  'observer',
+  'diskTilt',
+  'diskWarp',
+  'jetLorentz',
+  'binaryMassRatio',
+  'binarySeparation',
+  'binaryDecay',
+  'tdeStarMass',
+  'tdeStarRadius',
+  'tdePenetration',
+] as const satisfies readonly (keyof SimulationState)[];
+
+export type GuideField = typeof GUIDE_FIELDS[number];
+
+export const MAX_GUIDE_QUESTION = 1000;
+export const MAX_GUIDE_HISTORY = 40;
+
+// Body of POST /api/guide. View modes are listed by the client, which has
+// the plugins loaded.
+export interface GuideRequest {
+  history: GuideMessage[];
+  question: string;
+  scene: GuideScene;
+  viewModes: { id: string; description: string }[];
+}
+
+export type GuideScene = ReturnType<typeof describeScene>;
+
+// What is on screen, with the same derived numbers as the telemetry panel.
+export function describeScene(state: SimulationState) {
+  const scales = deriveScales(state.massSolar, state.spin);
+  const radii = kerrRadii(state.spin);
+  const observer = state.observer === 'static' ? null : observerState(state);
+  const radius = observer?.radius ?? cameraRadius(state);
+  const timeUnit = scales.rs / C;
+  const orbit = binaryOrbit(state, state.simulationTime);
+  const tde = tidalDisruption(state, state.simulationTime);
+  return {
+    blackHole: {
+      name: findPreset(state.presetId)?.name ?? 'Custom black hole',
+      mass: formatMass(state.massSolar),
+      spin: state.spin,
+      schwarzschildRadius: formatLength(scales.rs),
+      eventHorizonRs: radii.horizon,
+      photonOrbitRs: radii.photonOrbit,
+      iscoRs: radii.isco,
+    },
+    disk: {
+      accretionRate: `${formatScientific(state.accretionRate, 2)} Eddington`,
+      accretionSolarMassesPerYear: eddingtonAccretionRate(state.massSolar, state.spin) * state.accretionRate * YEAR / SOLAR_MASS,
+      peakTemperatureK: peakDiskTemperature(state.massSolar, state.accretionRate, state.spin).temperature,
+      innerEdgeRs: diskEdges(state).inner,
+      outerEdgeRs: state.diskOuter,
+      tiltRad: state.diskTilt,
+      warpRad: state.diskWarp,
+      precessionRadPerTime: state.diskPrecession,
+    },
+    jets: {
+      lengthRs: state.jetLength,
+      openingHalfAngleRad: state.jetAngle,
+      lorentzFactor: state.jetLorentz,
+      power: state.jetPower,
+    },
+    companion: state.binaryMassRatio > 0 ? {
+      massRatio: state.binaryMassRatio,
+      merged: !orbit,
+      separationRs: orbit?.separation,
+      orbitalPeriod: orbit && formatDuration(orbit.period * timeUnit),
+      timeToMerger: orbit && formatDuration(orbit.mergerTime * timeUnit),
+      decaying: state.binaryDecay,
+    } : null,
+    tidalDisruption: tde ? {
+      starSolarMasses: tde.star.mass,
+      starSolarRadii: tde.star.radius,
+      tidalRadiusRs: tde.tidalRadius,
+      pericenterRs: tde.pericenter,
+      swallowedWhole: tde.swallowed,
+      // Negative on the way in
+      sincePericenterRsOverC: tde.sincePericenter,
+      fallbackTime: tde.swallowed ? null : formatDuration(fallbackTime(state.massSolar, tde.star)),
+      peakFallbackSolarMassesPerYear: tde.swallowed ? null : peakFallbackRate(state.massSolar, tde.star),
+    } : null,
+    view: {
+      mode: findViewMode(state.viewMode)?.label ?? state.viewMode,
+      wavelength: OBSERVING_BANDS[state.wavelength]?.label,
+      jets: state.showJets,
+      milkyWayHologram: state.showMilkyWay,
+      background: SKY_BACKGROUND_LABELS[state.background],
+      catalogStars: state.showStars,
+      timeSpeed: state.timeSpeed,
+    },
+    observer: {
+      mode: OBSERVER_LABELS[state.observer],
+      distanceRs: radius,
+      distance: formatLength(radius * scales.rs),
+      elevationRad: state.cameraAngleX,
+      // dτ/dt relative to a distant clock
+      timeDilation: observer?.timeDilation ?? lapse(radius, state.spin),
+      ...(observer && {
+        speedC: Math.hypot(...observer.velocity),
+        properTime: formatDuration(observer.properTime * timeUnit),
+        timeToHorizon: observer.timeToHorizon === null ? null : formatDuration(observer.timeToHorizon * timeUnit),
+      }),
+    },
+  };
+}
+
+// The state a suggestion leads to, clamped like a loaded scene (a new mass
+// also drops the preset). Throws if the suggestion doesn't type-check.
+export function applySuggestion(state: SimulationState, suggestion: GuideSuggestion): SimulationState {
+  const { changes } = suggestion;
+  // A new observer or release point starts the observer's clock over, on
+  // the orbit camera that observers ride
+  const released = ['observer', 'cameraDistance', 'cameraAngleX', 'cameraAngleY'].some(f => f in changes);
+  const base = released ? changeCameraMode(state, 'orbit') : state;
+  return validateState({ ...base, ...changes, observerTime: released ? 0 : state.observerTime });
+}
+
+// Keeps the known fields of each suggestion and drops suggestions that would
+// not validate against the current state.
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function parseGuideReply(text: string, state: SimulationState): GuideReply {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The guide replied with something other than JSON.');
+  }
+  if (!isObject(data) || typeof data.answer !== 'string') throw new Error('The guide reply has no answer.');
+  const suggestions: GuideSuggestion[] = [];
+  for (const s of Array.isArray(data.suggestions) ? data.suggestions as unknown[] : []) {
+    if (!isObject(s) || typeof s.label !== 'string' || !isObject(s.changes)) continue;
+    const changes: Record<string, unknown> = {};
+    for (const field of GUIDE_FIELDS) {
+      const value = s.changes[field];
+      if (value !== undefined && value !== null) changes[field] = value;
+    }
+    const suggestion = { label: s.label, changes: changes as Partial<SimulationState> };
+    try {
+      applySuggestion(state, suggestion);
+    } catch {
+      continue;
+    }
+    if (Object.keys(changes).length > 0) suggestions.push(suggestion);
+  }
+  return { answer: data.answer, suggestions };
+}
+
+const API_ROOT = '/api/guide';
+
+// Whether the server can reach Gemini; false without the app server too.
+export async function guideAvailable(): Promise<boolean> {
+  try {
+    const response = await fetch(API_ROOT);
+    return response.ok && (await response.json()).available === true;
+  } catch {
+    return false;
+  }
+}
+
+export async function askGuide(
+  history: GuideMessage[],
+  question: string,
+  state: SimulationState,
+  signal?: AbortSignal,
+): Promise<GuideReply> {
+  const body: GuideRequest = {
+    history: history.map(m => ({ role: m.role, text: m.text })),
+    question,
+    scene: describeScene(state),
+    viewModes: viewModes().map(m => ({ id: m.id, description: m.description })),
+  };
+  let response: Response;
+  try {
+    response = await fetch(API_ROOT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    throw new Error('The guide server is not reachable.');
+  }
+  const data: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(isObject(data) && typeof data.error === 'string' ? data.error : `Guide request failed (${response.status}).`);
+  }
+  return parseGuideReply(isObject(data) && typeof data.text === 'string' ? data.text : '', state);
+}
@@ -0,0 +1,104 @@
+import { SimulationState } from './renderer';
+import { kerrRadii } from './kerr';
+import { createRayProbe, traceSceneRay, RayEmitter, RayEnd } from './reference';
+import { diskEdges, diskFrame } from './disk';
+
+// Ray inspector: traces the camera ray through one screen pixel on the CPU,
+// with the same stepping as fs_main, and lays its path out in the plane it
+// starts in for plotting.
+
+export const RAY_END_LABELS: Record<RayEnd, string> = {
+  horizon: 'Event horizon',
+  sky: 'Sky',
+  absorbed: 'Absorbed',
+  steps: 'Out of steps',
+};
+
+export const RAY_EMITTER_LABELS: Record<RayEmitter, string> = {
+  disk: 'Disk',
+  jet: 'Jet',
+  hologram: 'Milky Way hologram',
+  star: 'Disrupting star',
+};
+
+export interface RayInspection {
+  // The pixel, in canvas CSS pixels
+  pixel: [number, number];
+  emitters: RayEmitter[];
+  end: RayEnd;
+  // |r × n| at the camera, Rs; the usual b for a distant camera
+  impactParameter: number;
+  closestApproach: number;
+  // Turns about the hole, from the sweep of the in-plane azimuth
+  orbits: number;
+  // Total turning of the ray's direction, radians
+  deflection: number;
+  steps: number;
+  // Path in the starting plane, the hole at the origin and the camera on +x.
+  // Spinning holes bend rays out of that plane; the path is then projected.
+  path: [number, number][];
+  // Where the disk plane (at its inner edge, for a warped disk) cuts the
+  // plot: a unit direction, or null when the plot is the disk plane itself
+  diskAxis: [number, number] | null;
+  horizon: number;
+  photonOrbit: number;
+  diskInner: number;
+  diskOuter: number;
+}
+
+type Vec3 = [number, number, number];
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+const scale = (a: Vec3, k: number): Vec3 => [a[0] * k, a[1] * k, a[2] * k];
+
+// Traces the ray through (x, y) of a width x height view at shader `time`.
+export function inspectRay(state: SimulationState, x: number, y: number, width: number, height: number, time: number): RayInspection {
+  // Pixel centres, as in renderReference
+  const uvx = ((x + 0.5) / width - 0.5) * 2.0 * (width / height);
+  const uvy = ((y + 0.5) / height - 0.5) * 2.0;
+  const probe = createRayProbe();
+  traceSceneRay(state, uvx, uvy, time, probe);
+
+  const camera = probe.path[0];
+  const e1 = scale(camera, 1 / length(camera));
+  let normal = cross(camera, probe.direction);
+  const impactParameter = length(normal);
+  if (impactParameter < 1e-9) {
+    // Straight at the hole: any plane through the ray will do
+    normal = cross(e1, Math.abs(e1[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]);
+  }
+  normal = scale(normal, 1 / length(normal));
+  const e2 = cross(normal, e1);
+
+  const path = probe.path.map(p => [dot(p, e1), dot(p, e2)] as [number, number]);
+  let orbits = 0;
+  for (let i = 1; i < path.length; i++) {
+    const [ax, ay] = path[i - 1];
+    const [bx, by] = path[i];
+    orbits += Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+  }
+
+  const disk = diskEdges(state);
+  const axis = cross(normal, diskFrame(state, disk.inner, time)[1]);
+  const axisLength = length(axis);
+  const radii = kerrRadii(state.spin);
+
+  return {
+    pixel: [x, y],
+    emitters: probe.emitters,
+    end: probe.end,
+    impactParameter,
+    closestApproach: Math.min(...probe.path.map(length)),
+    orbits: Math.abs(orbits) / (2 * Math.PI),
+    deflection: probe.turned,
+    steps: probe.path.length - 1,
+    path,
+    diskAxis: axisLength < 1e-3 ? null : [dot(axis, e1) / axisLength, dot(axis, e2) / axisLength],
+    horizon: radii.horizon,
+    photonOrbit: radii.photonOrbit,
+    diskInner: disk.inner,
+    diskOuter: disk.outer,
+  };
+}
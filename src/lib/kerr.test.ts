@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { criticalImpactParameter, kerrRadii, MASS, MAX_SPIN } from './kerr';
+import { CRITICAL_IMPACT_PARAMETER } from './geodesic';
+
+function assertClose(actual: number, expected: number, tolerance: number, message: string) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${message}: ${actual} vs ${expected}`);
+}
+
+test('spin 0 gives the Schwarzschild radii', () => {
+  const r = kerrRadii(0);
+  assertClose(r.horizon, 1, 1e-12, 'horizon');
+  assertClose(r.innerHorizon, 0, 1e-12, 'inner horizon');
+  assertClose(r.ergosphereEquator, 1, 1e-12, 'ergosphere');
+  for (const [name, value] of [['isco', r.isco], ['iscoRetrograde', r.iscoRetrograde]] as const) {
+    assertClose(value, 3, 1e-12, name);
+  }
+  for (const [name, value] of [['photonOrbit', r.photonOrbit], ['photonOrbitRetrograde', r.photonOrbitRetrograde]] as const) {
+    assertClose(value, 1.5, 1e-12, name);
+  }
+  assertClose(criticalImpactParameter(0), CRITICAL_IMPACT_PARAMETER, 1e-12, 'critical b');
+});
+
+// Values at χ = 0.998 from the Bardeen, Press & Teukolsky formulas, in Rs
+test('near MAX_SPIN the prograde radii close in on the horizon', () => {
+  const r = kerrRadii(MAX_SPIN);
+  assertClose(r.horizon, 0.531607, 1e-6, 'horizon');
+  assertClose(r.innerHorizon, 0.468393, 1e-6, 'inner horizon');
+  assertClose(r.ergosphereEquator, 2 * MASS, 1e-12, 'ergosphere');
+  assertClose(r.isco, 0.618485, 1e-6, 'prograde ISCO');
+  assertClose(r.photonOrbit, 0.536955, 1e-6, 'prograde photon orbit');
+  assert.ok(r.horizon < r.photonOrbit && r.photonOrbit < r.isco);
+});
+
+test('near MAX_SPIN the retrograde radii move out towards 9M and 4M', () => {
+  const r = kerrRadii(MAX_SPIN);
+  assertClose(r.iscoRetrograde, 4.497187, 1e-6, 'retrograde ISCO');
+  assertClose(r.photonOrbitRetrograde, 1.999111, 1e-6, 'retrograde photon orbit');
+});
+
+test('spin is clamped to [0, MAX_SPIN]', () => {
+  assert.deepEqual(kerrRadii(1), kerrRadii(MAX_SPIN));
+  assert.deepEqual(kerrRadii(-0.5), kerrRadii(0));
+});
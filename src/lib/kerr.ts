@@ -0,0 +1,243 @@
+// Kerr (rotating) black hole helpers in the shader's units: Rs = 2M = 1, so
+// M = 0.5. `spin` is the dimensionless parameter χ = a/M in [0, 1); the spin
+// axis is +y, matching the accretion disk's angular momentum.
+
+export const MASS = 0.5;
+export const MAX_SPIN = 0.998; // Thorne limit
+
+// Rays are treated as captured this far outside r₊; BL coordinates are
+// singular at the horizon itself.
+export const HORIZON_MARGIN = 0.005;
+
+function spinLength(spin: number): number {
+  return Math.min(Math.max(spin, 0), MAX_SPIN) * MASS;
+}
+
+// Outer event horizon r₊ = M + sqrt(M² - a²).
+export function horizonRadius(spin: number): number {
+  const a = spinLength(spin);
+  return MASS + Math.sqrt(MASS * MASS - a * a);
+}
+
+// Inner (Cauchy) horizon r₋ = M - sqrt(M² - a²).
+export function innerHorizonRadius(spin: number): number {
+  const a = spinLength(spin);
+  return MASS - Math.sqrt(MASS * MASS - a * a);
+}
+
+// Outer boundary of the ergosphere at polar angle θ (π/2 is the equator).
+export function ergosphereRadius(spin: number, theta: number = Math.PI / 2): number {
+  const a = spinLength(spin);
+  const c = Math.cos(theta);
+  return MASS + Math.sqrt(MASS * MASS - a * a * c * c);
+}
+
+// Innermost stable circular orbit (Bardeen, Press & Teukolsky 1972).
+export function iscoRadius(spin: number, prograde: boolean = true): number {
+  const chi = Math.min(Math.max(spin, 0), MAX_SPIN);
+  const z1 = 1 + Math.cbrt(1 - chi * chi) * (Math.cbrt(1 + chi) + Math.cbrt(1 - chi));
+  const z2 = Math.sqrt(3 * chi * chi + z1 * z1);
+  const root = Math.sqrt((3 - z1) * (3 + z1 + 2 * z2));
+  return MASS * (3 + z2 + (prograde ? -root : root));
+}
+
+// Circular photon orbit in the equatorial plane.
+export function photonOrbitRadius(spin: number, prograde: boolean = true): number {
+  const chi = Math.min(Math.max(spin, 0), MAX_SPIN);
+  return 2 * MASS * (1 + Math.cos((2 / 3) * Math.acos(prograde ? -chi : chi)));
+}
+
+// Critical impact parameter for equatorial photons, b = 3 sqrt(M r_ph) ∓ a;
+// rays with smaller |b| are captured. 3√3/2 Rs at spin 0.
+export function criticalImpactParameter(spin: number, prograde: boolean = true): number {
+  const a = spinLength(spin);
+  return 3 * Math.sqrt(MASS * photonOrbitRadius(spin, prograde)) + (prograde ? -a : a);
+}
+
+// Coordinate angular velocity of a prograde circular (Keplerian) orbit.
+export function keplerianAngularVelocity(r: number, spin: number): number {
+  const a = spinLength(spin);
+  return Math.sqrt(MASS) / (Math.pow(r, 1.5) + a * Math.sqrt(MASS));
+}
+
+// Angular velocity of zero-angular-momentum observers in the equatorial
+// plane: the rate at which spacetime itself is dragged around the hole.
+export function frameDraggingAngularVelocity(r: number, spin: number): number {
+  const a = spinLength(spin);
+  const delta = r * r - 2 * MASS * r + a * a;
+  const r2a2 = r * r + a * a;
+  return (2 * MASS * a * r) / (r2a2 * r2a2 - a * a * delta);
+}
+
+// Orbital speed of a prograde circular orbit measured by a local ZAMO.
+export function orbitalSpeed(r: number, spin: number): number {
+  const a = spinLength(spin);
+  const delta = r * r - 2 * MASS * r + a * a;
+  const sqrtM = Math.sqrt(MASS);
+  return ((r * r - 2 * a * Math.sqrt(MASS * r) + a * a) * sqrtM) /
+    (Math.sqrt(Math.max(delta, 1e-6)) * (Math.pow(r, 1.5) + a * sqrtM));
+}
+
+// Lapse (ZAMO time dilation) in the equatorial plane; sqrt(1 - Rs/r) at spin 0.
+export function lapse(r: number, spin: number): number {
+  const a = spinLength(spin);
+  const delta = r * r - 2 * MASS * r + a * a;
+  const r2a2 = r * r + a * a;
+  return Math.sqrt(Math.max(0, (delta * r * r) / (r2a2 * r2a2 - a * a * delta)));
+}
+
+export interface KerrRadii {
+  horizon: number;
+  innerHorizon: number;
+  ergosphereEquator: number;
+  isco: number;
+  iscoRetrograde: number;
+  photonOrbit: number;
+  photonOrbitRetrograde: number;
+}
+
+export function kerrRadii(spin: number): KerrRadii {
+  return {
+    horizon: horizonRadius(spin),
+    innerHorizon: innerHorizonRadius(spin),
+    ergosphereEquator: ergosphereRadius(spin),
+    isco: iscoRadius(spin, true),
+    iscoRetrograde: iscoRadius(spin, false),
+    photonOrbit: photonOrbitRadius(spin, true),
+    photonOrbitRetrograde: photonOrbitRadius(spin, false),
+  };
+}
+
+// Photon in Boyer–Lindquist coordinates, normalised to E = 1, with the polar
+// axis along +y. Because (x, z, y) is left-handed, φ increases clockwise seen
+// from +y and a hole spinning about +y has a = -χM in these coordinates. The
+// ray is traced backwards from the camera, i.e. the time reverse of the
+// physical photon, and Kerr with t → -t is Kerr with a → -a; the two sign
+// flips cancel, so `a` = +χM. Cartesian position/direction are kept up to
+// date for shading.
+export interface KerrRayState {
+  r: number; theta: number; phi: number;
+  pr: number; ptheta: number;
+  // Conserved p_φ
+  L: number;
+  a: number;
+  x: number; y: number; z: number;
+  vx: number; vy: number; vz: number;
+}
+
+export function kerrToCartesian(r: number, theta: number, phi: number, a: number): [number, number, number] {
+  const R = Math.sqrt(r * r + a * a);
+  const s = Math.sin(theta);
+  return [R * s * Math.cos(phi), r * Math.cos(theta), R * s * Math.sin(phi)];
+}
+
+export function createKerrRay(
+  position: [number, number, number],
+  direction: [number, number, number],
+  spin: number,
+): KerrRayState {
+  const a = spinLength(spin);
+  const [x, y, z] = position;
+  const [dx, dy, dz] = direction;
+
+  const w = x * x + y * y + z * z - a * a;
+  const r = Math.sqrt(0.5 * (w + Math.sqrt(w * w + 4 * a * a * y * y)));
+  const theta = Math.acos(Math.min(1, Math.max(-1, y / r)));
+  const phi = Math.atan2(z, x);
+
+  const R = Math.sqrt(r * r + a * a);
+  const s = Math.max(Math.sin(theta), 1e-4);
+  const c = Math.cos(theta);
+  const sig = r * r + a * a * c * c;
+  const delta = r * r - 2 * MASS * r + a * a;
+
+  // Invert the Jacobian of kerrToCartesian for the coordinate velocities.
+  const dRho = dx * Math.cos(phi) + dz * Math.sin(phi);
+  const dPhi = -dx * Math.sin(phi) + dz * Math.cos(phi);
+  const rdot = (R * (r * s * dRho + R * c * dy)) / sig;
+  const thdot = (R * c * dRho - r * s * dy) / sig;
+  const phdot = dPhi / (R * s);
+
+  const gtt = -(1 - (2 * MASS * r) / sig);
+  const gtph = (-2 * MASS * a * r * s * s) / sig;
+  const gphph = (r * r + a * a + (2 * MASS * a * a * r * s * s) / sig) * s * s;
+  const grr = sig / delta;
+
+  // Pick ṫ so the tangent is null and future directed.
+  const S = grr * rdot * rdot + sig * thdot * thdot + gphph * phdot * phdot;
+  const B = 2 * gtph * phdot;
+  const tdot = (-B - Math.sqrt(Math.max(B * B - 4 * gtt * S, 0))) / (2 * gtt);
+  const E = -(gtt * tdot + gtph * phdot);
+
+  return {
+    r, theta, phi,
+    pr: (grr * rdot) / E,
+    ptheta: (sig * thdot) / E,
+    L: (gtph * tdot + gphph * phdot) / E,
+    a,
+    x, y, z,
+    vx: dx, vy: dy, vz: dz,
+  };
+}
+
+// Hamilton's equations for H = ½ g^μν p_μ p_ν with E = 1, using the
+// on-shell (H = 0) simplification for the momentum derivatives.
+function kerrDerivs(
+  r: number, theta: number, pr: number, ptheta: number, L: number, a: number, out: number[],
+) {
+  const s = Math.sin(theta);
+  const c = Math.cos(theta);
+  const s2 = Math.max(s * s, 1e-8);
+  const sig = r * r + a * a * c * c;
+  const delta = r * r - 2 * MASS * r + a * a;
+  const P = r * r + a * a - a * L;
+  const dDelta = 2 * r - 2 * MASS;
+
+  out[0] = (delta * pr) / sig;
+  out[1] = ptheta / sig;
+  out[2] = (2 * MASS * a * r + ((sig - 2 * MASS * r) * L) / s2) / (sig * delta);
+  out[3] = -(dDelta * pr * pr - (4 * r * P) / delta + (P * P * dDelta) / (delta * delta)) / (2 * sig);
+  out[4] = (s * c * ((L * L) / (s2 * s2) - a * a)) / sig;
+}
+
+const d1 = [0, 0, 0, 0, 0], d2 = [0, 0, 0, 0, 0], d3 = [0, 0, 0, 0, 0], d4 = [0, 0, 0, 0, 0];
+
+// Affine step. Near the horizon p_r grows like 1/Δ, so the step is also
+// limited to a fraction of the remaining radial distance; near the poles the
+// L²/sin⁴θ term is stiff and the step shrinks with sinθ.
+export function kerrStepSize(r: number, theta: number, horizon: number, rdot: number): number {
+  const base_dt = 0.05;
+  let dt = Math.min(2.0, base_dt * (1.0 + Math.max(0.0, r - 1.0) * 0.3));
+  dt *= Math.min(1.0, Math.max(0.02, Math.abs(Math.sin(theta)) * 10.0));
+  return Math.min(dt, (0.1 * (r - horizon)) / Math.max(Math.abs(rdot), 1e-6));
+}
+
+// RK4 step in place; returns the Cartesian distance travelled.
+export function advanceKerrRay(ray: KerrRayState, horizon: number): number {
+  const { r, theta, pr, ptheta, L, a } = ray;
+
+  kerrDerivs(r, theta, pr, ptheta, L, a, d1);
+  const h = kerrStepSize(r, theta, horizon, d1[0]);
+  kerrDerivs(r + d1[0] * h * 0.5, theta + d1[1] * h * 0.5, pr + d1[3] * h * 0.5, ptheta + d1[4] * h * 0.5, L, a, d2);
+  kerrDerivs(r + d2[0] * h * 0.5, theta + d2[1] * h * 0.5, pr + d2[3] * h * 0.5, ptheta + d2[4] * h * 0.5, L, a, d3);
+  kerrDerivs(r + d3[0] * h, theta + d3[1] * h, pr + d3[3] * h, ptheta + d3[4] * h, L, a, d4);
+
+  ray.r += (h / 6) * (d1[0] + 2 * d2[0] + 2 * d3[0] + d4[0]);
+  ray.theta += (h / 6) * (d1[1] + 2 * d2[1] + 2 * d3[1] + d4[1]);
+  ray.phi += (h / 6) * (d1[2] + 2 * d2[2] + 2 * d3[2] + d4[2]);
+  ray.pr += (h / 6) * (d1[3] + 2 * d2[3] + 2 * d3[3] + d4[3]);
+  ray.ptheta += (h / 6) * (d1[4] + 2 * d2[4] + 2 * d3[4] + d4[4]);
+
+  const [x, y, z] = kerrToCartesian(ray.r, ray.theta, ray.phi, a);
+  const dx = x - ray.x, dy = y - ray.y, dz = z - ray.z;
+  const ds = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (ds > 0) {
+    ray.vx = dx / ds;
+    ray.vy = dy / ds;
+    ray.vz = dz / ds;
+  }
+  ray.x = x;
+  ray.y = y;
+  ray.z = z;
+  return ds;
+}
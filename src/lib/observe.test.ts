@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  beamSize,
+  convolveBeam,
+  defaultObserveSettings,
+  EHT_STATIONS,
+  MICROARCSECOND,
+  observe,
+  observingWavelength,
+  shadowSize,
+  SkyMap,
+  uvCoverage,
+  visibilities,
+} from './observe';
+import { DEFAULT_STATE } from './renderer';
+import { findPreset } from './presets';
+
+function assertClose(actual: number, expected: number, relative: number, message: string) {
+  assert.ok(Math.abs(actual - expected) <= relative * Math.abs(expected), `${message}: ${actual} vs ${expected}`);
+}
+
+function presetState(id: string) {
+  const preset = findPreset(id)!;
+  return { ...DEFAULT_STATE, presetId: id, massSolar: preset.massSolar };
+}
+
+test('the beam is λ/B', () => {
+  const settings = { ...defaultObserveSettings(DEFAULT_STATE), frequencyGHz: 230, baselineKm: 10700 };
+  assertClose(observingWavelength(settings), 299792458 / 230e9, 1e-12, 'λ');
+  assertClose(beamSize(settings), (299792458 / 230e9) / 10.7e6, 1e-12, 'beam');
+  // About 25 µas for the EHT at 1.3 mm
+  assertClose(beamSize(settings) / MICROARCSECOND, 25.1, 0.01, 'beam in µas');
+});
+
+test("M87*'s shadow is about 40 µas across", () => {
+  const state = presetState('m87');
+  const shadow = shadowSize(state, findPreset('m87')!.distanceMpc) / MICROARCSECOND;
+  assert.ok(shadow > 37 && shadow < 43, `shadow ${shadow} µas`);
+});
+
+test('a centred point source has unit visibility amplitude on every baseline', () => {
+  const size = 9;
+  const intensity = new Float32Array(size * size);
+  intensity[(size * size - 1) / 2] = 1;
+  const map: SkyMap = { size, pixel: 5 * MICROARCSECOND, intensity };
+  const points = uvCoverage({ ...defaultObserveSettings(DEFAULT_STATE), declinationDeg: 12 });
+  assert.ok(points.length > 0);
+  for (const v of visibilities(map, points, 0)) {
+    assertClose(v.amplitude, 1, 1e-6, `baseline ${v.a}-${v.b}`);
+  }
+});
+
+test('uvCoverage keeps only samples where both stations see the source', () => {
+  const south = EHT_STATIONS.findIndex(s => s.id === 'SPT');
+  const alma = EHT_STATIONS.findIndex(s => s.id === 'ALMA');
+  // The South Pole never sees a source at +45°, and always sees one at -45°
+  const north = uvCoverage({ ...defaultObserveSettings(DEFAULT_STATE), declinationDeg: 45 });
+  assert.ok(north.length > 0);
+  assert.ok(north.every(p => p.a !== south && p.b !== south));
+  const southern = uvCoverage({ ...defaultObserveSettings(DEFAULT_STATE), declinationDeg: -45 });
+  assert.ok(southern.some(p => p.a === alma && p.b === south));
+
+  // A source on the equator never rises 10° above either pole
+  const poles = [
+    { id: 'N', lat: 89.99, lon: 0 },
+    { id: 'S', lat: -89.99, lon: 0 },
+  ];
+  assert.equal(uvCoverage({ ...defaultObserveSettings(DEFAULT_STATE), declinationDeg: 0 }, poles).length, 0);
+  // Only one of each conjugate pair
+  assert.ok(north.every(p => p.a < p.b));
+});
+
+test('a beam much wider than the frame gives a flat image quickly', () => {
+  const size = 32;
+  const map = new Float32Array(size * size);
+  map[16 * size + 16] = 1;
+  const started = performance.now();
+  const blurred = convolveBeam(map, size, 1e6);
+  assert.ok(performance.now() - started < 1000);
+  const max = Math.max(...blurred);
+  const min = Math.min(...blurred);
+  assert.ok(max > 0 && min / max > 0.999, `min ${min}, max ${max}`);
+});
+
+test('a narrow beam blurs a point into a Gaussian of that FWHM', () => {
+  const size = 33;
+  const map = new Float32Array(size * size);
+  map[16 * size + 16] = 1;
+  const blurred = convolveBeam(map, size, 4);
+  const centre = blurred[16 * size + 16];
+  // Half maximum at half the FWHM from the centre
+  assertClose(blurred[16 * size + 18] / centre, 0.5, 0.01, 'half maximum');
+  assertClose(blurred.reduce((a, b) => a + b, 0), 1, 1e-5, 'flux');
+});
+
+test('observing Cygnus X-1 with the default array does not hang', () => {
+  const state = presetState('cygx1');
+  const settings = defaultObserveSettings(state);
+  const size = 128;
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(0);
+  for (let i = 0; i < size * size; i++) pixels[i * 4 + 3] = 255;
+  pixels[(64 * size + 64) * 4] = 255;
+  const started = performance.now();
+  const result = observe({ width: size, height: size, pixels }, state, settings);
+  assert.ok(performance.now() - started < 10000);
+  assert.ok(result.image.every(Number.isFinite));
+});
@@ -0,0 +1,320 @@
+import type { SimulationState } from './renderer';
+import { cameraRadius } from './camera';
+import { criticalImpactParameter } from './kerr';
+import { findPreset } from './presets';
+import { C, PARSEC, schwarzschildRadius } from './units';
+
+// What an Event Horizon Telescope style array makes of a rendered frame. The
+// frame is taken as the sky brightness, scaled to angles on the sky by the
+// mass and distance. The array's resolution is a Gaussian beam of FWHM λ/B
+// for its longest baseline B, so the image it recovers is the frame blurred
+// by that beam, plus thermal noise. What it actually measures are complex
+// visibilities, samples of the sky's Fourier transform at the (u,v) points
+// its baselines trace out as the Earth turns. Brightness comes from the
+// tonemapped frame, so it is only relative.
+
+export interface ObserveSettings {
+  frequencyGHz: number;
+  // Longest baseline; the array is scaled to match
+  baselineKm: number;
+  // Peak of the blurred image, and the total flux of a visibility, over the
+  // thermal noise
+  snr: number;
+  distanceMpc: number;
+  declinationDeg: number;
+}
+
+// Frequencies EHT and ngEHT observe at, GHz
+export const OBSERVE_FREQUENCIES = [86, 230, 345] as const;
+
+export const OBSERVE_LIMITS = {
+  minBaselineKm: 500,
+  maxBaselineKm: 100000,
+  minSnr: 1,
+  maxSnr: 1000,
+  minLogDistanceMpc: -4,
+  maxLogDistanceMpc: 4,
+};
+
+// Frames are rendered at this size, square, for observation
+export const OBSERVE_RESOLUTION = 128;
+
+export const MICROARCSECOND = Math.PI / (180 * 3600 * 1e6);
+
+interface Station {
+  id: string;
+  // Geodetic latitude and east longitude, degrees
+  lat: number;
+  lon: number;
+}
+
+// The 2017 EHT array
+export const EHT_STATIONS: Station[] = [
+  { id: 'ALMA', lat: -23.0293, lon: -67.7549 },
+  { id: 'APEX', lat: -23.0058, lon: -67.7592 },
+  { id: 'SMT', lat: 32.7016, lon: -109.8912 },
+  { id: 'LMT', lat: 18.9858, lon: -97.3148 },
+  { id: 'JCMT', lat: 19.8228, lon: -155.477 },
+  { id: 'SMA', lat: 19.8243, lon: -155.4782 },
+  { id: 'PV', lat: 37.0662, lon: -3.3928 },
+  { id: 'SPT', lat: -89.99, lon: -45 },
+];
+
+const EARTH_RADIUS = 6.371e6;
+// Stations only observe above this elevation
+const MIN_ELEVATION = 10 * Math.PI / 180;
+// Sampling of the Earth's rotation over a day
+const TRACK_SAMPLES = 144;
+// Custom black holes are placed at M87*'s distance
+const DEFAULT_DISTANCE_MPC = 16.8;
+const NOISE_SEED = 2017;
+
+export function defaultObserveSettings(state: SimulationState): ObserveSettings {
+  const preset = findPreset(state.presetId);
+  return {
+    frequencyGHz: 230,
+    baselineKm: 10700,
+    snr: 20,
+    distanceMpc: preset?.distanceMpc ?? DEFAULT_DISTANCE_MPC,
+    declinationDeg: preset?.declinationDeg ?? 0,
+  };
+}
+
+export function observingWavelength(settings: ObserveSettings): number {
+  return C / (settings.frequencyGHz * 1e9);
+}
+
+// FWHM of the synthesised beam, radians
+export function beamSize(settings: ObserveSettings): number {
+  return observingWavelength(settings) / (settings.baselineKm * 1e3);
+}
+
+// Angle one Rs subtends from Earth, radians
+export function angularScale(state: SimulationState, distanceMpc: number): number {
+  return schwarzschildRadius(state.massSolar) / (distanceMpc * 1e6 * PARSEC);
+}
+
+// Shadow diameter as seen from far away, radians: twice the critical impact
+// parameter, averaged over the prograde and retrograde sides.
+export function shadowSize(state: SimulationState, distanceMpc: number): number {
+  const diameter = criticalImpactParameter(state.spin, true) + criticalImpactParameter(state.spin, false);
+  return diameter * angularScale(state, distanceMpc);
+}
+
+export interface UVPoint {
+  // Baseline projected on the sky, wavelengths
+  u: number;
+  v: number;
+  // Stations, as indices into EHT_STATIONS
+  a: number;
+  b: number;
+}
+
+// Earth-rotation tracks of every baseline over a day, one point per sample
+// where both stations see the source. Only one of each conjugate pair
+// (-u, -v) is returned.
+export function uvCoverage(settings: ObserveSettings, stations: Station[] = EHT_STATIONS): UVPoint[] {
+  const rad = Math.PI / 180;
+  const dec = settings.declinationDeg * rad;
+  const positions = stations.map(({ lat, lon }) => [
+    Math.cos(lat * rad) * Math.cos(lon * rad),
+    Math.cos(lat * rad) * Math.sin(lon * rad),
+    Math.sin(lat * rad),
+  ].map(x => x * EARTH_RADIUS));
+  let longest = 0;
+  positions.forEach(p => positions.forEach(q => {
+    longest = Math.max(longest, Math.hypot(p[0] - q[0], p[1] - q[1], p[2] - q[2]));
+  }));
+  const scale = settings.baselineKm * 1e3 / longest / observingWavelength(settings);
+
+  const points: UVPoint[] = [];
+  for (let i = 0; i < TRACK_SAMPLES; i++) {
+    // Hour angle of the source at Greenwich
+    const hour = (2 * Math.PI * i) / TRACK_SAMPLES;
+    const visible = stations.map(({ lat, lon }) => {
+      const local = hour + lon * rad;
+      const elevation = Math.asin(Math.sin(lat * rad) * Math.sin(dec) + Math.cos(lat * rad) * Math.cos(dec) * Math.cos(local));
+      return elevation > MIN_ELEVATION;
+    });
+    for (let a = 0; a < stations.length; a++) {
+      for (let b = a + 1; b < stations.length; b++) {
+        if (!visible[a] || !visible[b]) continue;
+        const [x, y, z] = positions[b].map((p, k) => (p - positions[a][k]) * scale);
+        points.push({
+          u: Math.sin(hour) * x + Math.cos(hour) * y,
+          v: -Math.sin(dec) * Math.cos(hour) * x + Math.sin(dec) * Math.sin(hour) * y + Math.cos(dec) * z,
+          a,
+          b,
+        });
+      }
+    }
+  }
+  return points;
+}
+
+export interface SkyMap {
+  // Square, size x size, rows top-down
+  size: number;
+  // Angle a pixel subtends, radians
+  pixel: number;
+  // Sums to 1
+  intensity: Float32Array;
+}
+
+// Relative sky brightness of a square rendered frame. The image plane is
+// taken through the hole, where a pixel spans 2 d / size Rs for a camera d
+// Rs away (the shader's field of view is 90°).
+export function skyMap(
+  image: { width: number; height: number; pixels: Uint8ClampedArray },
+  state: SimulationState,
+  distanceMpc: number,
+): SkyMap {
+  if (image.width !== image.height) throw new Error('Observation needs a square frame.');
+  const size = image.width;
+  const intensity = new Float32Array(size * size);
+  const linear = (c: number) => {
+    const x = c / 255;
+    return x <= 0.04045 ? x / 12.92 : Math.pow((x + 0.055) / 1.055, 2.4);
+  };
+  let total = 0;
+  for (let i = 0; i < intensity.length; i++) {
+    const p = image.pixels.subarray(i * 4, i * 4 + 3);
+    intensity[i] = 0.2126 * linear(p[0]) + 0.7152 * linear(p[1]) + 0.0722 * linear(p[2]);
+    total += intensity[i];
+  }
+  if (total > 0) intensity.forEach((v, i) => { intensity[i] = v / total; });
+  const pixelRs = (2 * cameraRadius(state)) / size;
+  return { size, pixel: pixelRs * angularScale(state, distanceMpc), intensity };
+}
+
+// Convolves with a circular Gaussian of the given FWHM in pixels, as two
+// 1D passes. The frame is taken to be dark outside, so no offset between
+// two pixels exceeds size - 1 and the kernel never needs to be wider: a
+// beam far larger than the frame (a stellar-mass hole seen from the Galaxy)
+// costs no more than one the frame's size, and gives a nearly flat image.
+export function convolveBeam(map: Float32Array, size: number, fwhm: number): Float32Array {
+  const sigma = fwhm / (2 * Math.sqrt(2 * Math.LN2));
+  const full = Math.max(1, Math.ceil(3 * sigma));
+  const radius = Math.min(full, Math.max(1, size - 1));
+  const kernel = Array.from({ length: 2 * radius + 1 }, (_, i) => Math.exp(-0.5 * ((i - radius) / sigma) ** 2));
+  // A cut kernel is scaled by the whole Gaussian's area, as the full one would be
+  const sum = radius < full ? sigma * Math.sqrt(2 * Math.PI) : kernel.reduce((a, b) => a + b, 0);
+  kernel.forEach((k, i) => { kernel[i] = k / sum; });
+
+  const pass = (input: Float32Array, dx: number, dy: number) => {
+    const output = new Float32Array(input.length);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        let acc = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = x + k * dx;
+          const sy = y + k * dy;
+          if (sx < 0 || sy < 0 || sx >= size || sy >= size) continue;
+          acc += input[sy * size + sx] * kernel[k + radius];
+        }
+        output[y * size + x] = acc;
+      }
+    }
+    return output;
+  };
+  return pass(pass(map, 1, 0), 0, 1);
+}
+
+// Seeded normal deviates (mulberry32 and Box-Muller), so the same settings
+// always give the same noise.
+function gaussianNoise(seed: number): () => number {
+  let state = seed >>> 0;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+export interface Visibility extends UVPoint {
+  amplitude: number;
+  // Radians
+  phase: number;
+}
+
+// Complex visibilities V(u,v) = Σ I(l,m) exp(-2πi (ul + vm)) of the sky map,
+// with Gaussian noise of standard deviation `noise` on each part. The
+// exponential factors into a row and a column term, so each point costs
+// O(size²) multiplies but only O(size) sines and cosines.
+export function visibilities(map: SkyMap, points: UVPoint[], noise: number, random = gaussianNoise(NOISE_SEED)): Visibility[] {
+  const { size, pixel, intensity } = map;
+  const centre = (size - 1) / 2;
+  const colRe = new Float64Array(size);
+  const colIm = new Float64Array(size);
+  return points.map(point => {
+    for (let x = 0; x < size; x++) {
+      const angle = -2 * Math.PI * point.u * (x - centre) * pixel;
+      colRe[x] = Math.cos(angle);
+      colIm[x] = Math.sin(angle);
+    }
+    let re = 0;
+    let im = 0;
+    for (let y = 0; y < size; y++) {
+      let rowRe = 0;
+      let rowIm = 0;
+      const row = y * size;
+      for (let x = 0; x < size; x++) {
+        rowRe += intensity[row + x] * colRe[x];
+        rowIm += intensity[row + x] * colIm[x];
+      }
+      const angle = -2 * Math.PI * point.v * (centre - y) * pixel;
+      const c = Math.cos(angle);
+      const s = Math.sin(angle);
+      re += rowRe * c - rowIm * s;
+      im += rowRe * s + rowIm * c;
+    }
+    re += noise * random();
+    im += noise * random();
+    return { ...point, amplitude: Math.hypot(re, im), phase: Math.atan2(im, re) };
+  });
+}
+
+export interface Observation {
+  settings: ObserveSettings;
+  size: number;
+  // Angle a pixel subtends, radians
+  pixel: number;
+  // The frame blurred by the beam, with noise, scaled to a peak of 1
+  image: Float32Array;
+  // Radians
+  beam: number;
+  shadow: number;
+  visibilities: Visibility[];
+  // First null of a thin ring the size of the shadow, wavelengths
+  firstNull: number;
+}
+
+// First zero of J0; a thin ring of diameter d has V ∝ J0(π d ρ)
+const J0_ZERO = 2.404825557695773;
+
+export function observe(
+  image: { width: number; height: number; pixels: Uint8ClampedArray },
+  state: SimulationState,
+  settings: ObserveSettings,
+): Observation {
+  const map = skyMap(image, state, settings.distanceMpc);
+  const beam = beamSize(settings);
+  const blurred = convolveBeam(map.intensity, map.size, beam / map.pixel);
+  const peak = blurred.reduce((a, b) => Math.max(a, b), 0);
+  const random = gaussianNoise(NOISE_SEED);
+  const noisy = blurred.map(v => (peak > 0 ? v / peak : 0) + random() / settings.snr);
+  const shadow = shadowSize(state, settings.distanceMpc);
+  return {
+    settings,
+    size: map.size,
+    pixel: map.pixel,
+    image: noisy,
+    beam,
+    shadow,
+    visibilities: visibilities(map, uvCoverage(settings), 1 / settings.snr, random),
+    firstNull: J0_ZERO / (Math.PI * shadow),
+  };
+}
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { observerState } from './observer';
+import { DEFAULT_STATE } from './renderer';
+
+const ORBIT = { ...DEFAULT_STATE, observer: 'orbit' as const, cameraDistance: 20, cameraAngleY: 0.3, observerTime: 0 };
+
+const distance = (a: number[], b: number[]) => Math.hypot(...a.map((x, i) => x - b[i]));
+
+test('closed orbits replay smoothly across revolutions', () => {
+  for (const [spin, angle] of [[0, 0], [0, 0.6], [0.9, 0]]) {
+    const state = { ...ORBIT, spin, cameraAngleX: angle };
+    let previous = observerState(state);
+    // A revolution at 20 Rs is about 760 Rs/c of proper time
+    for (let time = 1; time < 2000; time++) {
+      const now = observerState({ ...state, observerTime: time });
+      assert.ok(distance(now.position, previous.position) < 0.2, `spin ${spin}, angle ${angle}, jump at ${time}`);
+      assert.ok(Math.abs(now.coordinateTime - previous.coordinateTime - 1.04) < 0.01, `coordinate time at ${time}`);
+      previous = now;
+    }
+  }
+});
+
+test('observers keep moving long after release', () => {
+  const closed = observerState({ ...ORBIT, observerTime: 1e7 });
+  const later = observerState({ ...ORBIT, observerTime: 1e7 + 1 });
+  assert.equal(closed.properTime, 1e7);
+  assert.ok(distance(closed.position, later.position) > 0.1);
+  assert.ok(Math.abs(closed.radius - 20) < 1e-3);
+
+  // A tilted orbit around a spinning hole precesses and is integrated on
+  const precessing = { ...ORBIT, spin: 0.9, cameraAngleX: 0.6 };
+  const release = observerState(precessing).position;
+  const a = observerState({ ...precessing, observerTime: 2e5 });
+  const b = observerState({ ...precessing, observerTime: 2e5 + 1 });
+  assert.ok(distance(a.position, b.position) > 0.1);
+  // Going back before the kept steps starts over from the release point
+  assert.deepEqual(observerState({ ...precessing, observerTime: 0 }).position, release);
+});
@@ -0,0 +1,307 @@
+import type { SimulationState } from './renderer';
+import type { Vec3 } from './camera';
+import { MASS, MAX_SPIN, HORIZON_MARGIN, horizonRadius, iscoRadius, orbitalSpeed } from './kerr';
+
+// Moving observers. Besides the static camera, the observer can be dropped
+// from rest (zero angular momentum) at the camera position, or launched on a
+// prograde circular orbit through it, and then follows a timelike Kerr
+// geodesic. `observerTime` in the state is the proper time since release.
+//
+// The geodesic is integrated in Boyer–Lindquist coordinates with the polar
+// axis along +y. Unlike the photon tracer (see KerrRayState) this maps
+// φ → (x, -z) so that the coordinates are right-handed, a = +χM and prograde
+// motion has dφ/dτ > 0. Velocities are reported relative to the local
+// zero-angular-momentum observer (ZAMO), which at spin 0 is the static
+// observer the ray tracer assumes.
+
+export type ObserverMode = 'static' | 'infall' | 'orbit';
+
+export const OBSERVER_LABELS: Record<ObserverMode, string> = {
+  static: 'Static',
+  infall: 'Free Fall',
+  orbit: 'Orbit',
+};
+
+// Proper time (in Rs/c) that passes per wall-clock second at timeSpeed 1.
+export const OBSERVER_TIME_RATE = 5.0;
+
+// Speeds relative to the ZAMO are capped here; they tend to c at the horizon.
+const MAX_SPEED = 0.999;
+
+export interface ObserverState {
+  position: Vec3;
+  // 3-velocity relative to the local ZAMO, as a Cartesian vector in units of c
+  velocity: Vec3;
+  radius: number;
+  // Rs/c, on the observer's clock and on the clock at infinity
+  properTime: number;
+  coordinateTime: number;
+  // dτ/dt
+  timeDilation: number;
+  // Proper time left until the horizon; null on orbits that don't plunge
+  timeToHorizon: number | null;
+  crossedHorizon: boolean;
+}
+
+// Static orbit-camera position for the state's angles and distance.
+export function orbitCameraPosition(state: SimulationState): Vec3 {
+  const dist = state.cameraDistance;
+  return [
+    Math.cos(state.cameraAngleY) * Math.cos(state.cameraAngleX) * dist,
+    Math.sin(state.cameraAngleX) * dist,
+    Math.sin(state.cameraAngleY) * Math.cos(state.cameraAngleX) * dist,
+  ];
+}
+
+interface Metric {
+  sig: number;
+  delta: number;
+  A: number;
+  s: number;
+  c: number;
+}
+
+function metric(r: number, theta: number, a: number): Metric {
+  const s = Math.sin(theta);
+  const c = Math.cos(theta);
+  const sig = r * r + a * a * c * c;
+  const delta = r * r - 2 * MASS * r + a * a;
+  const A = (r * r + a * a) ** 2 - a * a * delta * s * s;
+  return { sig, delta, A, s, c };
+}
+
+// Contravariant components g^tt, g^tφ, g^φφ, g^rr, g^θθ.
+function inverseMetric(r: number, theta: number, a: number) {
+  const { sig, delta, A, s } = metric(r, theta, a);
+  const s2 = Math.max(s * s, 1e-8);
+  return {
+    tt: -A / (sig * delta),
+    tph: (-2 * MASS * a * r) / (sig * delta),
+    phph: (delta - a * a * s2) / (sig * delta * s2),
+    rr: delta / sig,
+    thth: 1 / sig,
+  };
+}
+
+// Geodesic state y = [t, r, θ, φ, p_r, p_θ]; E = -p_t and L = p_φ are conserved.
+interface Geodesic {
+  y: number[];
+  tau: number;
+  E: number;
+  L: number;
+  a: number;
+}
+
+function hamiltonian(r: number, theta: number, pr: number, pth: number, g: Geodesic): number {
+  const inv = inverseMetric(r, theta, g.a);
+  return 0.5 * (inv.tt * g.E * g.E - 2 * inv.tph * g.E * g.L + inv.phph * g.L * g.L + inv.rr * pr * pr + inv.thth * pth * pth);
+}
+
+// Hamilton's equations in proper time. The force terms are central
+// differences of H, which is plenty for one particle per frame.
+function derivs(y: number[], g: Geodesic): number[] {
+  const [, r, theta, , pr, pth] = y;
+  const inv = inverseMetric(r, theta, g.a);
+  const er = 1e-6 * r;
+  const eth = 1e-6;
+  return [
+    -inv.tt * g.E + inv.tph * g.L,
+    inv.rr * pr,
+    inv.thth * pth,
+    -inv.tph * g.E + inv.phph * g.L,
+    -(hamiltonian(r + er, theta, pr, pth, g) - hamiltonian(r - er, theta, pr, pth, g)) / (2 * er),
+    -(hamiltonian(r, theta + eth, pr, pth, g) - hamiltonian(r, theta - eth, pr, pth, g)) / (2 * eth),
+  ];
+}
+
+function rk4(g: Geodesic, h: number): Geodesic {
+  const add = (y: number[], k: number[], f: number) => y.map((v, i) => v + k[i] * f);
+  const k1 = derivs(g.y, g);
+  const k2 = derivs(add(g.y, k1, h / 2), g);
+  const k3 = derivs(add(g.y, k2, h / 2), g);
+  const k4 = derivs(add(g.y, k3, h), g);
+  return {
+    ...g,
+    y: g.y.map((v, i) => v + (h / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])),
+    tau: g.tau + h,
+  };
+}
+
+// Adaptive step: a fiftieth of the local dynamical time, and small steps in r
+// and φ close to the horizon, where frame dragging winds φ up. Returns null
+// once the observer reaches the horizon, where BL coordinates give out.
+function step(g: Geodesic, rh: number): Geodesic | null {
+  const r = g.y[1];
+  if (r < rh + HORIZON_MARGIN) return null;
+  const d = derivs(g.y, g);
+  let h = 0.02 * Math.pow(r, 1.5);
+  h = Math.min(h, (0.1 * (r - rh)) / Math.max(Math.abs(d[1]), 1e-9));
+  h = Math.min(h, 0.1 / Math.max(Math.abs(d[3]), 1e-9));
+  return rk4(g, h);
+}
+
+function launch(state: SimulationState): Geodesic {
+  const spin = Math.min(Math.max(state.spin, 0), MAX_SPIN);
+  const a = spin * MASS;
+  let [x, y, z] = orbitCameraPosition(state);
+  if (state.observer === 'orbit') {
+    // Circular orbits inside the ISCO are unstable
+    const scale = Math.max(1, iscoRadius(spin) / state.cameraDistance);
+    x *= scale; y *= scale; z *= scale;
+  }
+
+  const w = x * x + y * y + z * z - a * a;
+  const r = Math.sqrt(0.5 * (w + Math.sqrt(w * w + 4 * a * a * y * y)));
+  const theta = Math.acos(Math.min(1, Math.max(-1, y / r)));
+  const phi = Math.atan2(-z, x);
+
+  // ZAMO frame: lapse, frame-dragging rate and cylindrical radius
+  const { sig, delta, A, s } = metric(r, theta, a);
+  const alpha = Math.sqrt((sig * delta) / A);
+  const omega = (2 * MASS * a * r) / A;
+  const varpi = Math.sqrt(A / sig) * s;
+
+  // Orbiters move along +φ at the circular speed; fallers start at rest
+  const v = state.observer === 'orbit' ? Math.min(orbitalSpeed(r, spin), MAX_SPEED) : 0;
+  const gamma = 1 / Math.sqrt(1 - v * v);
+  const ut = gamma / alpha;
+  const uph = omega * ut + (gamma * v) / varpi;
+
+  const gtt = -(1 - (2 * MASS * r) / sig);
+  const gtph = (-2 * MASS * a * r * s * s) / sig;
+  const gphph = (A * s * s) / sig;
+  return {
+    y: [0, r, theta, phi, 0, 0],
+    tau: 0,
+    E: -(gtt * ut + gtph * uph),
+    L: gtph * ut + gphph * uph,
+    a,
+  };
+}
+
+function describe(g: Geodesic, horizonTau: number | null, crossed: boolean): ObserverState {
+  const [t, r, theta, phi, pr, pth] = g.y;
+  const inv = inverseMetric(r, theta, g.a);
+  const ut = -inv.tt * g.E + inv.tph * g.L;
+  const uph = -inv.tph * g.E + inv.phph * g.L;
+
+  const { sig, delta, A, s, c } = metric(r, theta, g.a);
+  const alpha = Math.sqrt(Math.max((sig * delta) / A, 0));
+  const omega = (2 * MASS * g.a * r) / A;
+  const varpi = Math.sqrt(A / sig) * s;
+  const gamma = alpha * ut;
+  const vr = (Math.sqrt(sig / Math.max(delta, 1e-9)) * inv.rr * pr) / gamma;
+  const vth = (Math.sqrt(sig) * inv.thth * pth) / gamma;
+  const vph = (varpi * (uph - omega * ut)) / gamma;
+
+  // Orthonormal directions of increasing r, θ and φ
+  const cp = Math.cos(phi);
+  const sp = Math.sin(phi);
+  const rhat: Vec3 = [s * cp, c, -s * sp];
+  const thhat: Vec3 = [c * cp, -s, -c * sp];
+  const phhat: Vec3 = [-sp, 0, -cp];
+  const velocity = [0, 1, 2].map(i => vr * rhat[i] + vth * thhat[i] + vph * phhat[i]) as Vec3;
+  const speed = Math.hypot(...velocity);
+  if (speed > MAX_SPEED) velocity.forEach((_, i) => (velocity[i] *= MAX_SPEED / speed));
+
+  const R = Math.sqrt(r * r + g.a * g.a);
+  return {
+    position: [R * s * cp, r * c, -R * s * sp],
+    velocity,
+    radius: r,
+    properTime: g.tau,
+    coordinateTime: t,
+    timeDilation: 1 / ut,
+    timeToHorizon: horizonTau === null ? null : Math.max(0, horizonTau - g.tau),
+    crossedHorizon: crossed,
+  };
+}
+
+// Proper time per revolution for orbits that close on themselves: every
+// circular orbit at spin 0, which stays in its tilted plane, and equatorial
+// ones with spin. Off the equator a spinning hole makes the orbit precess,
+// and the result is null.
+function orbitPeriod(g: Geodesic): number | null {
+  const [, r, theta] = g.y;
+  if (g.a !== 0 && Math.abs(theta - Math.PI / 2) > 1e-9) return null;
+  const inv = inverseMetric(r, theta, g.a);
+  // dφ/dτ is constant, and the motion is all along φ̂ at launch
+  const uph = -inv.tph * g.E + inv.phph * g.L;
+  return (2 * Math.PI) / (uph * Math.sin(theta));
+}
+
+// The last trajectory is kept as a list of integration steps and extended as
+// the clock runs, so the UI and the render loop can ask for slightly
+// different times without integrating from scratch. Anything that changes the
+// release point starts over. Closed orbits are integrated for one revolution
+// and replayed; other trajectories keep only their latest steps, and going
+// back before the oldest one starts over too.
+interface Trajectory {
+  key: string;
+  steps: Geodesic[];
+  rh: number;
+  // Set once the observer has reached the horizon
+  horizonTau: number | null;
+  period: number | null;
+}
+
+let cached: Trajectory | null = null;
+
+const MAX_STEPS = 100000;
+
+function start(state: SimulationState, key: string): Trajectory {
+  const release = launch(state);
+  return {
+    key,
+    steps: [release],
+    rh: horizonRadius(state.spin),
+    horizonTau: null,
+    period: state.observer === 'orbit' ? orbitPeriod(release) : null,
+  };
+}
+
+function extend(trajectory: Trajectory, target: number) {
+  const { steps } = trajectory;
+  while (trajectory.horizonTau === null && steps[steps.length - 1].tau <= target) {
+    if (steps.length >= MAX_STEPS) steps.splice(0, MAX_STEPS / 2);
+    const last = steps[steps.length - 1];
+    const next = step(last, trajectory.rh);
+    if (next) steps.push(next);
+    else trajectory.horizonTau = last.tau;
+  }
+}
+
+export function observerState(state: SimulationState): ObserverState {
+  const key = [state.observer, state.cameraDistance, state.cameraAngleX, state.cameraAngleY, state.spin].join(':');
+  const time = Math.max(0, state.observerTime);
+  if (!cached || cached.key !== key || time < cached.steps[0].tau) {
+    cached = start(state, key);
+    // Free falls are integrated to the horizon up front for the countdown
+    if (state.observer === 'infall') extend(cached, Infinity);
+  }
+  const { period } = cached;
+  const revolutions = period === null ? 0 : Math.floor(time / period);
+  const target = period === null ? time : time - revolutions * period;
+  extend(cached, target);
+
+  // Last step at or before the target, then a partial step up to it
+  const { steps, horizonTau } = cached;
+  let lo = 0;
+  let hi = steps.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (steps[mid].tau <= target) lo = mid;
+    else hi = mid - 1;
+  }
+  const crossed = horizonTau !== null && target >= horizonTau;
+  const base = steps[lo];
+  const g = crossed || lo === steps.length - 1 ? base : rk4(base, target - base.tau);
+  const observer = describe(g, state.observer === 'infall' ? horizonTau : null, crossed);
+  if (period === null || revolutions === 0) return observer;
+  // Clocks keep counting over the replayed revolutions; dτ/dt is constant
+  return {
+    ...observer,
+    properTime: time,
+    coordinateTime: observer.coordinateTime + (revolutions * period) / observer.timeDilation,
+  };
+}
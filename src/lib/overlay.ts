@@ -0,0 +1,233 @@
+import type { SimulationState } from './renderer';
+import { CAMERA_LIMITS, computeCameraFrame, Vec3 } from './camera';
+import { horizonRadius, iscoRadius, photonOrbitRadius } from './kerr';
+import { diskEdges, diskFrame } from './disk';
+import { AU, LIGHT_DAY, schwarzschildRadius } from './units';
+
+// Screen-space overlay of reference features. Points are projected with the
+// shader's pinhole camera (see traceSceneRay) along straight lines, so they
+// show where a feature is, not where its lensed image appears. A moving
+// observer's aberration is applied, as it is to the rays.
+
+export type OverlayLayer = 'horizon' | 'photonSphere' | 'isco' | 'diskEdge' | 'jetAxis' | 'scaleBar' | 'annotations';
+
+export const OVERLAY_LAYER_LABELS: Record<OverlayLayer, string> = {
+  horizon: 'Event horizon',
+  photonSphere: 'Photon sphere',
+  isco: 'ISCO',
+  diskEdge: 'Disk outer edge',
+  jetAxis: 'Jet axis',
+  scaleBar: 'Scale bar',
+  annotations: 'Annotations',
+};
+
+export const OVERLAY_COLORS: Record<OverlayLayer, string> = {
+  horizon: '#9ca3af',
+  photonSphere: '#818cf8',
+  isco: '#facc15',
+  diskEdge: '#f97316',
+  jetAxis: '#22d3ee',
+  scaleBar: '#e5e7eb',
+  annotations: '#e0e7ff',
+};
+
+export interface Annotation {
+  id: string;
+  text: string;
+  // Rs, in the hole's frame
+  position: Vec3;
+}
+
+export interface OverlaySettings {
+  layers: Record<OverlayLayer, boolean>;
+  annotations: Annotation[];
+}
+
+export const MAX_ANNOTATION_LENGTH = 80;
+
+const STORAGE_KEY = 'ton618:overlay';
+
+export function defaultOverlaySettings(): OverlaySettings {
+  const layers = {} as Record<OverlayLayer, boolean>;
+  for (const layer of Object.keys(OVERLAY_LAYER_LABELS) as OverlayLayer[]) layers[layer] = true;
+  return { layers, annotations: [] };
+}
+
+// Whatever is stored that still makes sense; the rest takes its default.
+export function loadOverlaySettings(): OverlaySettings {
+  const settings = defaultOverlaySettings();
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    for (const layer of Object.keys(settings.layers) as OverlayLayer[]) {
+      if (typeof stored?.layers?.[layer] === 'boolean') settings.layers[layer] = stored.layers[layer];
+    }
+    if (Array.isArray(stored?.annotations)) {
+      settings.annotations = stored.annotations.filter((a: Annotation) =>
+        typeof a?.id === 'string' && typeof a.text === 'string' &&
+        Array.isArray(a.position) && a.position.length === 3 && a.position.every(Number.isFinite));
+    }
+  } catch {
+    // Unreadable settings start over
+  }
+  return settings;
+}
+
+export function saveOverlaySettings(settings: OverlaySettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage is full or disabled; the overlays apply until reload
+  }
+}
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const normalize = (a: Vec3): Vec3 => {
+  const l = Math.hypot(...a);
+  return [a[0] / l, a[1] / l, a[2] / l];
+};
+
+// Lorentz aberration of a ray direction by velocity beta, as in the shader;
+// -beta undoes it.
+function aberrate(d: Vec3, beta: Vec3): Vec3 {
+  const b2 = dot(beta, beta);
+  if (b2 === 0) return d;
+  const gamma = 1 / Math.sqrt(1 - b2);
+  const k = (gamma - 1) * dot(beta, d) / b2 - gamma;
+  return normalize([d[0] + k * beta[0], d[1] + k * beta[1], d[2] + k * beta[2]]);
+}
+
+export interface OverlayView {
+  position: Vec3;
+  // Camera basis: uu, vv and ww in the shader
+  right: Vec3;
+  up: Vec3;
+  forward: Vec3;
+  velocity: Vec3;
+  // CSS pixels
+  width: number;
+  height: number;
+}
+
+export function overlayView(state: SimulationState, width: number, height: number): OverlayView {
+  const camera = computeCameraFrame(state);
+  const forward = normalize(camera.direction);
+  const right = normalize(cross(forward, camera.up));
+  return { position: camera.position, right, up: normalize(cross(right, forward)), forward, velocity: camera.velocity, width, height };
+}
+
+// Screen position of a point in CSS pixels, or null behind the camera
+export function projectPoint(view: OverlayView, p: Vec3): [number, number] | null {
+  const toPoint = normalize([p[0] - view.position[0], p[1] - view.position[1], p[2] - view.position[2]]);
+  const d = aberrate(toPoint, [-view.velocity[0], -view.velocity[1], -view.velocity[2]]);
+  const z = dot(d, view.forward);
+  if (z <= 1e-3) return null;
+  const uvx = dot(d, view.right) / z;
+  const uvy = dot(d, view.up) / z;
+  return [(uvx * view.height) / 2 + view.width / 2, ((uvy + 1) * view.height) / 2];
+}
+
+// Ray through a CSS pixel, in the static frame
+function pixelRay(view: OverlayView, x: number, y: number): Vec3 {
+  const uvx = ((x - view.width / 2) * 2) / view.height;
+  const uvy = (y / view.height - 0.5) * 2;
+  const d = normalize([0, 1, 2].map(i => uvx * view.right[i] + uvy * view.up[i] + view.forward[i]) as Vec3);
+  return aberrate(d, view.velocity);
+}
+
+// Where a pin dropped on a pixel goes: on the disk's plane if the pixel
+// looks at it within reach, otherwise on the plane through the hole facing
+// the camera, or as far out as the camera is.
+export function pinPosition(view: OverlayView, state: SimulationState, time: number, x: number, y: number): Vec3 {
+  const d = pixelRay(view, x, y);
+  const o = view.position;
+  const along = (t: number): Vec3 => [o[0] + t * d[0], o[1] + t * d[1], o[2] + t * d[2]];
+  const normal = diskFrame(state, diskEdges(state).inner, time)[1];
+  const onDisk = -dot(o, normal) / dot(d, normal);
+  if (onDisk > 0 && Math.hypot(...along(onDisk)) <= CAMERA_LIMITS.maxDistance) return along(onDisk);
+  const facing = -dot(o, view.forward) / dot(d, view.forward);
+  return along(facing > 0 ? facing : Math.hypot(...o));
+}
+
+export interface OverlayCurve {
+  layer: OverlayLayer;
+  label: string;
+  points: Vec3[];
+  closed: boolean;
+  dashed: boolean;
+}
+
+const RING_SEGMENTS = 96;
+
+// Outline of a sphere of radius r around the hole as seen from `eye`: the
+// circle where lines from the eye graze it.
+function sphereOutline(eye: Vec3, r: number): Vec3[] {
+  const distance = Math.hypot(...eye);
+  if (distance <= r) return [];
+  const axis = normalize(eye);
+  const centre = axis.map(x => (x * r * r) / distance) as Vec3;
+  const radius = r * Math.sqrt(1 - (r * r) / (distance * distance));
+  const helper: Vec3 = Math.abs(axis[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0];
+  const a = normalize(cross(axis, helper));
+  const b = cross(axis, a);
+  return Array.from({ length: RING_SEGMENTS }, (_, i) => {
+    const phi = (2 * Math.PI * i) / RING_SEGMENTS;
+    return [0, 1, 2].map(k => centre[k] + radius * (Math.cos(phi) * a[k] + Math.sin(phi) * b[k])) as Vec3;
+  });
+}
+
+// Circle of radius r in the (possibly tilted) disk plane
+function diskRing(state: SimulationState, r: number, time: number): Vec3[] {
+  const [x, , z] = diskFrame(state, r, time);
+  return Array.from({ length: RING_SEGMENTS }, (_, i) => {
+    const phi = (2 * Math.PI * i) / RING_SEGMENTS;
+    return [0, 1, 2].map(k => r * (Math.cos(phi) * x[k] + Math.sin(phi) * z[k])) as Vec3;
+  });
+}
+
+// The reference features of the scene at shader time `time`, in Rs
+export function overlayCurves(state: SimulationState, time: number, eye: Vec3): OverlayCurve[] {
+  const curves: OverlayCurve[] = [
+    { layer: 'horizon', label: 'Horizon', points: sphereOutline(eye, horizonRadius(state.spin)), closed: true, dashed: false },
+    { layer: 'photonSphere', label: 'Photon sphere', points: sphereOutline(eye, photonOrbitRadius(state.spin)), closed: true, dashed: true },
+    { layer: 'isco', label: 'ISCO', points: diskRing(state, iscoRadius(state.spin), time), closed: true, dashed: true },
+    { layer: 'diskEdge', label: 'Disk edge', points: diskRing(state, state.diskOuter, time), closed: true, dashed: false },
+  ];
+  if (state.spin > 0) {
+    curves.push({ layer: 'photonSphere', label: 'Retrograde', points: sphereOutline(eye, photonOrbitRadius(state.spin, false)), closed: true, dashed: true });
+  }
+  // The jets run along the spin axis from the horizon out
+  const start = horizonRadius(state.spin);
+  for (const sign of [1, -1]) {
+    curves.push({
+      layer: 'jetAxis',
+      label: sign > 0 ? 'Jet' : '',
+      points: Array.from({ length: 33 }, (_, i) => [0, sign * (start + ((state.jetLength - start) * i) / 32), 0] as Vec3),
+      closed: false,
+      dashed: true,
+    });
+  }
+  return curves;
+}
+
+export interface ScaleBar {
+  pixels: number;
+  au: number;
+  lightDays: number;
+}
+
+// Longest bar this wide or less
+const SCALE_BAR_PIXELS = 140;
+
+// A round length in AU, drawn to scale at the hole's depth; null when the
+// hole is behind the camera.
+export function scaleBar(view: OverlayView, massSolar: number): ScaleBar | null {
+  const depth = -dot(view.position, view.forward);
+  if (depth <= 0) return null;
+  const pixelsPerRs = view.height / (2 * depth);
+  const rs = schwarzschildRadius(massSolar);
+  const fit = (SCALE_BAR_PIXELS / pixelsPerRs) * rs / AU;
+  const power = Math.pow(10, Math.floor(Math.log10(fit)));
+  const au = [5, 2, 1].map(m => m * power).find(v => v <= fit) ?? power;
+  return { pixels: (au * AU / rs) * pixelsPerRs, au, lightDays: (au * AU) / LIGHT_DAY };
+}
@@ -0,0 +1,275 @@
+// Minimal PNG encoder/decoder for 8-bit RGBA images.
+// Compression is pluggable so the same code runs in the browser (stored
+// blocks, no dependencies) and in Node (zlib.deflateSync / inflateSync).
+
+export type DeflateFn = (data: Uint8Array) => Uint8Array;
+export type InflateFn = (data: Uint8Array) => Uint8Array;
+export type AsyncDeflateFn = (data: Uint8Array) => Promise<Uint8Array>;
+
+export interface DecodedPNG {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+  text: Record<string, string>;
+}
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array, crc: number = 0xffffffff): number {
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// zlib stream made of uncompressed (stored) deflate blocks.
+export const storeDeflate: DeflateFn = (data) => {
+  const maxBlock = 0xffff;
+  const blocks = Math.max(1, Math.ceil(data.length / maxBlock));
+  const out = new Uint8Array(2 + blocks * 5 + data.length + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let o = 2;
+  for (let b = 0; b < blocks; b++) {
+    const start = b * maxBlock;
+    const len = Math.min(maxBlock, data.length - start);
+    out[o++] = b === blocks - 1 ? 1 : 0;
+    out[o++] = len & 0xff;
+    out[o++] = len >>> 8;
+    out[o++] = ~len & 0xff;
+    out[o++] = (~len >>> 8) & 0xff;
+    out.set(data.subarray(start, start + len), o);
+    o += len;
+  }
+  const adler = adler32(data);
+  out[o++] = adler >>> 24;
+  out[o++] = (adler >>> 16) & 0xff;
+  out[o++] = (adler >>> 8) & 0xff;
+  out[o++] = adler & 0xff;
+  return out;
+};
+
+function writeUint32(out: Uint8Array, offset: number, value: number) {
+  out[offset] = value >>> 24;
+  out[offset + 1] = (value >>> 16) & 0xff;
+  out[offset + 2] = (value >>> 8) & 0xff;
+  out[offset + 3] = value & 0xff;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  writeUint32(out, 0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  const crc = crc32(out.subarray(4, 8 + data.length)) ^ 0xffffffff;
+  writeUint32(out, 8 + data.length, crc >>> 0);
+  return out;
+}
+
+// tEXt keywords are Latin-1; values are written as UTF-8 in an iTXt chunk
+// so that JSON with arbitrary characters survives the round trip.
+function textChunk(keyword: string, value: string): Uint8Array {
+  const key = new TextEncoder().encode(keyword);
+  const text = new TextEncoder().encode(value);
+  const data = new Uint8Array(key.length + 5 + text.length);
+  data.set(key, 0);
+  // null separator, compression flag, compression method, empty language tag, empty translated keyword
+  data.set(text, key.length + 5);
+  return chunk('iTXt', data);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let o = 0;
+  for (const p of parts) {
+    out.set(p, o);
+    o += p.length;
+  }
+  return out;
+}
+
+// IHDR payload and filtered (type 0) scanlines, ready for IDAT compression.
+function prepareImage(pixels: Uint8Array | Uint8ClampedArray, width: number, height: number) {
+  if (pixels.length !== width * height * 4) {
+    throw new Error(`Expected ${width * height * 4} RGBA bytes, got ${pixels.length}.`);
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type RGBA
+
+  // Filter type 0 (none) for every scanline.
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return { header, raw };
+}
+
+function assemblePNG(header: Uint8Array, idat: Uint8Array, text: Record<string, string> = {}): Uint8Array {
+  return concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    ...Object.entries(text).map(([k, v]) => textChunk(k, v)),
+    chunk('IDAT', idat),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+export function encodePNG(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: { text?: Record<string, string>; deflate?: DeflateFn } = {},
+): Uint8Array {
+  const { header, raw } = prepareImage(pixels, width, height);
+  const deflate = options.deflate ?? storeDeflate;
+  return assemblePNG(header, deflate(raw), options.text);
+}
+
+// Same as encodePNG with an asynchronous compressor, e.g. streamDeflate for
+// poster-sized images in the browser.
+export async function encodePNGAsync(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: { text?: Record<string, string>; deflate: AsyncDeflateFn },
+): Promise<Uint8Array> {
+  const { header, raw } = prepareImage(pixels, width, height);
+  return assemblePNG(header, await options.deflate(raw), options.text);
+}
+
+// zlib stream via the Compression Streams API (browsers, Node 18+).
+export const streamDeflate: AsyncDeflateFn = async (data) => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export function withPNGText(png: Uint8Array, text: Record<string, string>): Uint8Array {
+  const iendOffset = png.length - 12;
+  if (String.fromCharCode(...png.subarray(iendOffset + 4, iendOffset + 8)) !== 'IEND') {
+    throw new Error('PNG does not end with an IEND chunk.');
+  }
+  const chunks = Object.entries(text).map(([k, v]) => textChunk(k, v));
+  return concat([png.subarray(0, iendOffset), ...chunks, png.subarray(iendOffset)]);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+// Decodes non-interlaced 8-bit RGB/RGBA PNGs, which covers what we write and
+// what browsers produce from canvas readbacks.
+export function decodePNG(png: Uint8Array, inflate: InflateFn): DecodedPNG {
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (png[i] !== PNG_SIGNATURE[i]) throw new Error('Not a PNG file.');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  const idat: Uint8Array[] = [];
+  const text: Record<string, string> = {};
+  const decoder = new TextDecoder();
+
+  let o = 8;
+  while (o < png.length) {
+    const length = readUint32(png, o);
+    const type = String.fromCharCode(...png.subarray(o + 4, o + 8));
+    const data = png.subarray(o + 8, o + 8 + length);
+    o += 12 + length;
+
+    if (type === 'IHDR') {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      colorType = data[9];
+      if (data[8] !== 8 || (colorType !== 2 && colorType !== 6) || data[12] !== 0) {
+        throw new Error('Only 8-bit non-interlaced RGB/RGBA PNGs are supported.');
+      }
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'tEXt' || type === 'iTXt') {
+      const sep = data.indexOf(0);
+      const key = decoder.decode(data.subarray(0, sep));
+      if (type === 'tEXt') {
+        text[key] = decoder.decode(data.subarray(sep + 1));
+      } else if (data[sep + 1] === 0) {
+        // Skip compression flag/method, language tag and translated keyword.
+        let p = sep + 3;
+        p = data.indexOf(0, p) + 1;
+        p = data.indexOf(0, p) + 1;
+        text[key] = decoder.decode(data.subarray(p));
+      }
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = colorType === 6 ? 4 : 3;
+  const stride = width * channels;
+  const raw = inflate(concat(idat));
+  const unfiltered = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= channels ? unfiltered[out + x - channels] : 0;
+      const b = y > 0 ? unfiltered[out - stride + x] : 0;
+      const c = x >= channels && y > 0 ? unfiltered[out - stride + x - channels] : 0;
+      let value = line[x];
+      if (filter === 1) value += a;
+      else if (filter === 2) value += b;
+      else if (filter === 3) value += (a + b) >> 1;
+      else if (filter === 4) value += paeth(a, b, c);
+      unfiltered[out + x] = value & 0xff;
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, j = 0; i < width * height; i++, j += channels) {
+    pixels[i * 4] = unfiltered[j];
+    pixels[i * 4 + 1] = unfiltered[j + 1];
+    pixels[i * 4 + 2] = unfiltered[j + 2];
+    pixels[i * 4 + 3] = channels === 4 ? unfiltered[j + 3] : 255;
+  }
+
+  return { width, height, pixels, text };
+}
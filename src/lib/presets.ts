@@ -0,0 +1,59 @@
+export interface BlackHolePreset {
+  id: string;
+  name: string;
+  massSolar: number;
+  // Angular-diameter distance from Earth, in megaparsecs.
+  distanceMpc: number;
+  // Declination, degrees; sets the (u,v) tracks when observing
+  declinationDeg: number;
+  description: string;
+}
+
+export const CUSTOM_PRESET_ID = 'custom';
+
+export const BLACK_HOLE_PRESETS: BlackHolePreset[] = [
+  {
+    id: 'ton618',
+    name: 'TON 618',
+    massSolar: 6.6e10,
+    distanceMpc: 1710,
+    declinationDeg: 31.47,
+    description: 'Hyperluminous quasar in Canes Venatici, one of the most massive black holes known.',
+  },
+  {
+    id: 'sgra',
+    name: 'Sgr A*',
+    massSolar: 4.3e6,
+    distanceMpc: 0.00828,
+    declinationDeg: -29.01,
+    description: 'The supermassive black hole at the centre of the Milky Way.',
+  },
+  {
+    id: 'm87',
+    name: 'M87*',
+    massSolar: 6.5e9,
+    distanceMpc: 16.8,
+    declinationDeg: 12.39,
+    description: 'Core of the giant elliptical galaxy M87, first black hole imaged by the EHT.',
+  },
+  {
+    id: 'phoenixa',
+    name: 'Phoenix A',
+    massSolar: 1.0e11,
+    distanceMpc: 1380,
+    declinationDeg: -42.72,
+    description: 'Central black hole of the Phoenix Cluster; mass estimates reach 100 billion M☉.',
+  },
+  {
+    id: 'cygx1',
+    name: 'Cygnus X-1',
+    massSolar: 21.2,
+    distanceMpc: 0.00222,
+    declinationDeg: 35.2,
+    description: 'Stellar-mass black hole in an X-ray binary with a blue supergiant companion.',
+  },
+];
+
+export function findPreset(id: string): BlackHolePreset | undefined {
+  return BLACK_HOLE_PRESETS.find(p => p.id === id);
+}
@@ -0,0 +1,163 @@
+// Adaptive quality for the live view. The renderers report how long each
+// frame took, from GPU timer queries where the backend has them and from the
+// interval between animation frames otherwise, and the manager trades render
+// resolution and ray-march steps for frame rate within the bounds of a
+// preset. The canvas is drawn at the reduced size and the browser scales it
+// up to its CSS box. Exports always trace at full steps (see MAX_STEPS).
+
+export type QualityPreset = 'battery' | 'balanced' | 'ultra';
+
+export const QUALITY_PRESET_LABELS: Record<QualityPreset, string> = {
+  battery: 'Battery',
+  balanced: 'Balanced',
+  ultra: 'Ultra',
+};
+
+// Ray-march step budget at full quality, as in exports and the CPU reference.
+export const MAX_STEPS = 500;
+
+interface QualityBounds {
+  // Frame time the manager steers towards, ms
+  targetMs: number;
+  // Cap on the device pixel ratio
+  maxDpr: number;
+  // Render scale (of the capped device pixels) and step budget, from the
+  // lowest quality level to the highest
+  scale: [number, number];
+  steps: [number, number];
+}
+
+export const QUALITY_PRESETS: Record<QualityPreset, QualityBounds> = {
+  battery: { targetMs: 1000 / 30, maxDpr: 1, scale: [0.5, 0.75], steps: [200, 300] },
+  balanced: { targetMs: 1000 / 60, maxDpr: 2, scale: [0.5, 1], steps: [250, MAX_STEPS] },
+  ultra: { targetMs: 1000 / 60, maxDpr: Infinity, scale: [1, 1], steps: [MAX_STEPS, MAX_STEPS] },
+};
+
+export interface QualityStats {
+  preset: QualityPreset;
+  fps: number;
+  frameMs: number;
+  // Time the scene pass took on the GPU; null without timer queries
+  gpuMs: number | null;
+  width: number;
+  height: number;
+  scale: number;
+  steps: number;
+}
+
+const STORAGE_KEY = 'ton618:quality';
+
+export function loadQualityPreset(): QualityPreset {
+  try {
+    const value = window.localStorage.getItem(STORAGE_KEY);
+    if (value === 'battery' || value === 'ultra') return value;
+  } catch {
+    // Storage is disabled; use the default
+  }
+  return 'balanced';
+}
+
+export function saveQualityPreset(preset: QualityPreset) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, preset);
+  } catch {
+    // Storage is full or disabled; the preset applies until reload
+  }
+}
+
+// Weight of the newest frame in the smoothed timings
+const SMOOTHING = 0.1;
+// Longer gaps mean the tab was hidden or the loop paused for an export
+const MAX_INTERVAL_MS = 250;
+// Time between adjustments, and before raising quality again after a drop
+const SETTLE_MS = 500;
+const RECOVER_MS = 3000;
+const LEVEL_DOWN = 0.15;
+const LEVEL_UP = 0.05;
+
+const lerp = ([low, high]: [number, number], t: number) => low + (high - low) * t;
+
+export class QualityManager {
+  private _preset: QualityPreset = 'balanced';
+  // 0 is the preset's lowest quality, 1 its highest
+  private level = 1;
+  private frameMs = 0;
+  private gpuMs: number | null = null;
+  private lastFrame: number | null = null;
+  private lastChange = 0;
+  private lastDrop = -Infinity;
+  private size: [number, number] = [0, 0];
+
+  get preset(): QualityPreset {
+    return this._preset;
+  }
+
+  // Starts the new preset at its highest quality
+  set preset(preset: QualityPreset) {
+    if (preset === this._preset) return;
+    this._preset = preset;
+    this.level = 1;
+    this.lastDrop = -Infinity;
+  }
+
+  get scale(): number {
+    return lerp(QUALITY_PRESETS[this._preset].scale, this.level);
+  }
+
+  get steps(): number {
+    return Math.round(lerp(QUALITY_PRESETS[this._preset].steps, this.level));
+  }
+
+  // Canvas size in device pixels for a CSS box of width x height.
+  renderSize(width: number, height: number): [number, number] {
+    const dpr = Math.min(window.devicePixelRatio || 1, QUALITY_PRESETS[this._preset].maxDpr);
+    const scale = dpr * this.scale;
+    this.size = [Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale))];
+    return this.size;
+  }
+
+  // Called once per live frame, before it is drawn.
+  frame(now = performance.now()) {
+    const interval = this.lastFrame === null ? null : now - this.lastFrame;
+    this.lastFrame = now;
+    if (interval === null || interval > MAX_INTERVAL_MS) {
+      this.lastChange = now;
+      return;
+    }
+    this.frameMs = this.frameMs === 0 ? interval : this.frameMs + (interval - this.frameMs) * SMOOTHING;
+    if (now - this.lastChange < SETTLE_MS) return;
+
+    // GPU time shows the headroom under a vsync-capped frame rate; without
+    // it the only sign of headroom is holding the target.
+    const { targetMs } = QUALITY_PRESETS[this._preset];
+    const measured = this.gpuMs ?? this.frameMs;
+    const headroom = this.gpuMs === null ? 1.05 : 0.6;
+    if (measured > targetMs * 1.1 && this.level > 0) {
+      this.level = Math.max(0, this.level - LEVEL_DOWN);
+      this.lastDrop = now;
+    } else if (measured < targetMs * headroom && this.level < 1 && now - this.lastDrop > RECOVER_MS) {
+      this.level = Math.min(1, this.level + LEVEL_UP);
+    } else {
+      return;
+    }
+    this.lastChange = now;
+  }
+
+  // GPU time of a finished frame, ms, as timer queries resolve.
+  gpuTime(ms: number) {
+    this.gpuMs = this.gpuMs === null ? ms : this.gpuMs + (ms - this.gpuMs) * SMOOTHING;
+  }
+
+  stats(): QualityStats {
+    return {
+      preset: this._preset,
+      fps: this.frameMs > 0 ? 1000 / this.frameMs : 0,
+      frameMs: this.frameMs,
+      gpuMs: this.gpuMs,
+      width: this.size[0],
+      height: this.size[1],
+      scale: this.scale,
+      steps: this.steps,
+    };
+  }
+}
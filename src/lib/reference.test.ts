@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { deflateSync, inflateSync } from 'node:zlib';
+import { DEFAULT_STATE, SimulationState } from './renderer';
+import { diffImages, renderReference } from './reference';
+import { decodePNG, encodePNG } from './png';
+
+// Small renders of a few scenes, checked against the PNGs in golden/. A
+// change to the ray tracer that moves pixels fails here; if it was meant
+// to, regenerate them with `UPDATE_GOLDEN=1 npm test` and look at the diff.
+
+const WIDTH = 64;
+const HEIGHT = 36;
+// Per-channel difference allowed for floating point drift between Node
+// versions, and the share of pixels that may exceed it.
+const TOLERANCE = 2;
+const MAX_MISMATCHED = 0.005;
+
+const SCENES: { name: string; time: number; state: Partial<SimulationState> }[] = [
+  { name: 'classic', time: 1, state: {} },
+  { name: 'gravity-milky-way', time: 2, state: { viewMode: 'gravity', showMilkyWay: true, cameraAngleX: 0.1 } },
+  { name: 'kerr-accurate', time: 0, state: { spin: 0.9, integrator: 'accurate', cameraDistance: 15, cameraAngleY: 0.8 } },
+];
+
+const golden = (name: string) => new URL(`./golden/${name}.png`, import.meta.url);
+
+for (const scene of SCENES) {
+  test(`reference render matches golden/${scene.name}.png`, () => {
+    const image = renderReference({ ...DEFAULT_STATE, ...scene.state }, WIDTH, HEIGHT, { time: scene.time });
+    const path = golden(scene.name);
+    if (process.env.UPDATE_GOLDEN) {
+      writeFileSync(path, encodePNG(image.pixels, WIDTH, HEIGHT, { deflate: data => new Uint8Array(deflateSync(data)) }));
+      return;
+    }
+    assert.ok(existsSync(path), `golden/${scene.name}.png is missing; run UPDATE_GOLDEN=1 npm test`);
+    const expected = decodePNG(readFileSync(path), data => new Uint8Array(inflateSync(data)));
+    const diff = diffImages(image, expected, TOLERANCE);
+    assert.ok(
+      diff.mismatched <= MAX_MISMATCHED * WIDTH * HEIGHT,
+      `${diff.mismatched} pixels over tolerance (max diff ${diff.maxDiff}, mean ${diff.meanDiff.toFixed(3)})`,
+    );
+  });
+}
@@ -0,0 +1,611 @@
+import { SimulationState } from './renderer';
+import { computeCameraFrame } from './camera';
+import { encodePNG, DeflateFn } from './png';
+import { createRay, advanceRay, Companion, companionDistance } from './geodesic';
+import { binaryOrbit } from './binary';
+import { starMarkerRadius, tidalDisruption } from './tde';
+import {
+  createKerrRay,
+  advanceKerrRay,
+  horizonRadius,
+  frameDraggingAngularVelocity,
+  HORIZON_MARGIN,
+} from './kerr';
+import { diskEdges, diskFrame, diskRedshift, memoizedDiskEmission, novikovThorneProfile, observerBlueshift } from './disk';
+import { sampleSpectrumLUT, spectrumLUT } from './spectrum';
+import { activeSky, sampleSky, skyMatrix, SkyImage, SKY_EXPOSURE } from './skybox';
+import { starCatalogData, STAR_PSF } from './stars';
+import { MAX_STEPS } from './quality';
+import { ShadeContext, viewModeCPU } from './viewModes';
+
+// CPU port of fs_main in shaders/blackhole.wgsl.ts. It follows the shader
+// line by line so that it can be run headless (Node, workers) to produce
+// reference images and to diff GPU output against. Keep the two in sync:
+// any change to the ray loop must be mirrored here.
+
+export interface ReferenceOptions {
+  // Simulation time fed to the shader's `u.time`.
+  time?: number;
+  // Panorama for the 'panorama' background; the generated Milky Way if unset.
+  sky?: SkyImage | null;
+}
+
+type Vec3 = [number, number, number];
+
+// A camera ray up to the point it escapes: the colour gathered on the way,
+// and where and how strongly it sees the sky. The sky itself is added in a
+// second pass because, like the shader, it needs screen derivatives.
+export interface TracedRay {
+  color: Vec3;
+  // Scene-frame direction of the escaping light (the camera ray if none did)
+  skyDir: Vec3;
+  skyWeight: number;
+  starTint: Vec3;
+}
+
+export interface ReferenceImage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+export interface ImageDiff {
+  maxDiff: number;
+  meanDiff: number;
+  // Pixels where any channel differs by more than the tolerance.
+  mismatched: number;
+  // Per-pixel absolute difference, amplified for inspection.
+  pixels: Uint8ClampedArray;
+}
+
+const f32 = Math.fround;
+
+function fract(x: number): number {
+  return x - Math.floor(x);
+}
+
+function clamp(x: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, x));
+}
+
+function smoothstep(e0: number, e1: number, x: number): number {
+  const t = clamp((x - e0) / (e1 - e0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+function mix(a: number, b: number, t: number): number {
+  return a * (1 - t) + b * t;
+}
+
+// x component of hash33; the hash relies on f32 rounding, so it is emulated.
+function hash33x(x: number, y: number, z: number): number {
+  let px = fract(f32(x * f32(0.1031)));
+  let py = fract(f32(y * f32(0.1030)));
+  let pz = fract(f32(z * f32(0.0973)));
+  const d = f32(px * f32(py + f32(33.33)) + py * f32(px + f32(33.33)) + pz * f32(pz + f32(33.33)));
+  px = f32(px + d);
+  py = f32(py + d);
+  pz = f32(pz + d);
+  return fract(f32(f32(px + py) * pz));
+}
+
+export function noise(x: number, y: number, z: number): number {
+  const ix = Math.floor(x), iy = Math.floor(y), iz = Math.floor(z);
+  let fx = x - ix, fy = y - iy, fz = z - iz;
+  fx = fx * fx * (3 - 2 * fx);
+  fy = fy * fy * (3 - 2 * fy);
+  fz = fz * fz * (3 - 2 * fz);
+  return mix(
+    mix(mix(hash33x(ix, iy, iz), hash33x(ix + 1, iy, iz), fx),
+        mix(hash33x(ix, iy + 1, iz), hash33x(ix + 1, iy + 1, iz), fx), fy),
+    mix(mix(hash33x(ix, iy, iz + 1), hash33x(ix + 1, iy, iz + 1), fx),
+        mix(hash33x(ix, iy + 1, iz + 1), hash33x(ix + 1, iy + 1, iz + 1), fx), fy), fz,
+  );
+}
+
+export function fbm(x: number, y: number, z: number): number {
+  let f = 0;
+  let scale = 1;
+  for (let i = 0; i < 4; i++) {
+    f += noise(x, y, z) * scale;
+    x *= 2; y *= 2; z *= 2;
+    scale *= 0.5;
+  }
+  return f;
+}
+
+// ACES-like curve used at the end of fs_main.
+export function tonemap(c: number): number {
+  return clamp((c * (2.51 * c + 0.03)) / (c * (2.43 * c + 0.59) + 0.14), 0, 1);
+}
+
+// Tint of 6000 K starlight seen with Doppler factor D (see starDoppler).
+function starDoppler(band: number, D: number): [number, number, number] {
+  const lut = spectrumLUT();
+  const rest = sampleSpectrumLUT(lut, band, 6000);
+  const seen = sampleSpectrumLUT(lut, band, 6000 * D);
+  const scale = Math.pow(10, clamp(seen.logScale - rest.logScale, -6, 3));
+  return [0, 1, 2].map(k => seen.color[k] / Math.max(rest.color[k], 0.05) * scale) as [number, number, number];
+}
+
+const JET_COLORS: [number, number, number][] = [
+  [0.2, 0.5, 1.0],
+  [0.8, 0.9, 1.0],
+  [0.1, 0.1, 0.8],
+  [0.3, 0.1, 0.1],
+];
+
+const referenceEmission = memoizedDiskEmission();
+
+// Traces one camera ray and returns the linear (pre-tonemap) colour. The
+// panorama, if any, is sampled at full resolution since a lone ray has no
+// footprint; renderReference filters it like the GPU does.
+export function traceReferenceRay(
+  state: SimulationState,
+  uvx: number,
+  uvy: number,
+  time: number,
+  sky: SkyImage | null = null,
+  resolutionY: number = 1080,
+): Vec3 {
+  const ray = traceSceneRay(state, uvx, uvy, time);
+  if (ray.skyWeight > 0) {
+    const image = activeSky(state.background, sky);
+    const d = rotateToSky(state, ray.skyDir);
+    addSky(ray, shadeSky(state, time, d, skyRadiance(state, image, d, [0, 0, 0], [0, 0, 0], resolutionY)));
+  }
+  return ray.color;
+}
+
+// What emitted along a ray, and how it ended: through the horizon, out to
+// the sky, absorbed (opaque) or out of steps.
+export type RayEmitter = 'disk' | 'jet' | 'hologram' | 'star';
+export type RayEnd = 'horizon' | 'sky' | 'absorbed' | 'steps';
+
+// Filled in by traceSceneRay for the ray inspector.
+export interface RayProbe {
+  // Positions after each step, the camera first
+  path: Vec3[];
+  // Direction the ray leaves the camera in, after aberration
+  direction: Vec3;
+  // Emitters in the order the ray first picked up light from them
+  emitters: RayEmitter[];
+  end: RayEnd;
+  // Total turning of the direction, radians
+  turned: number;
+}
+
+export function createRayProbe(): RayProbe {
+  return { path: [], direction: [0, 0, 1], emitters: [], end: 'steps', turned: 0 };
+}
+
+function recordEmitter(probe: RayProbe | undefined, emitter: RayEmitter, alpha: number) {
+  if (probe && alpha > 1e-3 && !probe.emitters.includes(emitter)) probe.emitters.push(emitter);
+}
+
+// Traces one camera ray through everything but the sky. `uvx`/`uvy` are the
+// shader's centred screen coordinates, aspect corrected.
+export function traceSceneRay(
+  state: SimulationState,
+  uvx: number,
+  uvy: number,
+  time: number,
+  probe?: RayProbe,
+): TracedRay {
+  const camera = computeCameraFrame(state);
+
+  // ww = normalize(cameraDir), uu = normalize(cross(ww, up)), vv = normalize(cross(uu, ww))
+  let [wx, wy, wz] = camera.direction;
+  let l = Math.sqrt(wx * wx + wy * wy + wz * wz);
+  wx /= l; wy /= l; wz /= l;
+  const [upx, upy, upz] = camera.up;
+  let ux = wy * upz - wz * upy, uy = wz * upx - wx * upz, uz = wx * upy - wy * upx;
+  l = Math.sqrt(ux * ux + uy * uy + uz * uz);
+  ux /= l; uy /= l; uz /= l;
+  let vx = uy * wz - uz * wy, vy = uz * wx - ux * wz, vz = ux * wy - uy * wx;
+  l = Math.sqrt(vx * vx + vy * vy + vz * vz);
+  vx /= l; vy /= l; vz /= l;
+
+  let dx = uvx * ux + uvy * vx + wx;
+  let dy = uvx * uy + uvy * vy + wy;
+  let dz = uvx * uz + uvy * vz + wz;
+  l = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  dx /= l; dy /= l; dz /= l;
+
+  // Aberration and Doppler factor for a moving observer
+  let doppler = 1.0;
+  let starTint: [number, number, number] = [1, 1, 1];
+  const [bx, by, bz] = camera.velocity;
+  const b2 = bx * bx + by * by + bz * bz;
+  if (b2 > 0) {
+    const gamma = 1 / Math.sqrt(1 - b2);
+    const bd = bx * dx + by * dy + bz * dz;
+    doppler = 1 / (gamma * (1 - bd));
+    const k = (gamma - 1) * bd / b2 - gamma;
+    dx += k * bx; dy += k * by; dz += k * bz;
+    l = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    dx /= l; dy /= l; dz /= l;
+    starTint = starDoppler(state.wavelength, doppler);
+  }
+
+  // A binary companion, held still while the ray crosses (see fs_main)
+  const orbit = binaryOrbit(state, time);
+  const companion: Companion | undefined = orbit ? { position: orbit.position, rs: state.binaryMassRatio } : undefined;
+  // The star of a tidal disruption, until it comes apart; its debris is
+  // left to the GPU
+  const tde = tidalDisruption(state, time);
+  const starPos = tde?.starPosition ?? null;
+  const starRadius = tde && starPos ? starMarkerRadius(state.massSolar, tde.star) : 0;
+
+  // Spinning holes are traced in the Kerr metric, unless there is a companion
+  const isKerr = state.spin > 0 && !companion;
+  const rh = horizonRadius(state.spin);
+  const horizon = isKerr ? rh + HORIZON_MARGIN : 1.0;
+  const edges = diskEdges(state);
+  const diskInner = edges.inner;
+  const diskOuter = Math.min(edges.outer, orbit?.primaryDiskEdge ?? edges.outer);
+  const kerrRay = isKerr ? createKerrRay(camera.position, [dx, dy, dz], state.spin) : null;
+  const flatRay = isKerr ? null : createRay(camera.position, [dx, dy, dz]);
+  const ray = (kerrRay ?? flatRay)!;
+  const integrator = state.integrator;
+
+  // Camera blueshift and the photon's L/E about the spin axis (see fs_main)
+  const [ox, oy, oz] = camera.position;
+  const gCam = observerBlueshift(Math.sqrt(ox * ox + oy * oy + oz * oz));
+  const lambda = kerrRay ? kerrRay.L : -(oz * dx - ox * dz) * gCam;
+  // L/E about a tilted disk's normal (see fs_main)
+  const camL: Vec3 = [-(oy * dz - oz * dy) * gCam, -(oz * dx - ox * dz) * gCam, -(ox * dy - oy * dx) * gCam];
+  const tilted = state.diskTilt !== 0 || state.diskWarp !== 0;
+  const jetBeta = Math.sqrt(1.0 - 1.0 / (state.jetLorentz * state.jetLorentz));
+  // L/E about the companion's axis, in its units
+  const companionLambda = companion
+    ? -((oz - companion.position[2]) * dx - (ox - companion.position[0]) * dz) * gCam / companion.rs
+    : 0;
+  const { temperatureScale, exposure } = referenceEmission(state);
+  const lut = spectrumLUT();
+
+  const max_dist = 600.0;
+  const max_steps = MAX_STEPS;
+  const noiseFreq = 2.0;
+  const RS = 1.0;
+
+  let cr = 0, cg = 0, cb = 0;
+  let transmit = 1.0;
+  // Where escaping light came from, and how much of it gets through
+  let skyDir: Vec3 = [dx, dy, dz];
+  let skyWeight = 0.0;
+
+  const wavelength = state.wavelength;
+  const shadeDisk = viewModeCPU(state.viewMode, 'disk');
+  const shadeJet = viewModeCPU(state.viewMode, 'jet');
+  const ctx: ShadeContext = { state, time, lut, exposure };
+  if (probe) {
+    probe.path.push([ray.x, ray.y, ray.z]);
+    probe.direction = [dx, dy, dz];
+  }
+
+  for (let i = 0; i < max_steps; i++) {
+    const r = kerrRay ? kerrRay.r : Math.sqrt(ray.x * ray.x + ray.y * ray.y + ray.z * ray.z);
+
+    if (r < horizon) {
+      if (probe) probe.end = 'horizon';
+      break;
+    }
+
+    const hit_bg = r > max_dist || (i === max_steps - 1 && r > 3.0);
+
+    if (hit_bg) {
+      l = Math.sqrt(ray.vx * ray.vx + ray.vy * ray.vy + ray.vz * ray.vz);
+      skyDir = [ray.vx / l, ray.vy / l, ray.vz / l];
+      skyWeight = transmit;
+      if (probe) probe.end = 'sky';
+      break;
+    }
+
+    if (companion && companionDistance(flatRay!, companion) < companion.rs) {
+      if (probe) probe.end = 'horizon';
+      break;
+    }
+
+    // Gravity bending; `dt` is the distance marched this step.
+    const vx0 = ray.vx, vy0 = ray.vy, vz0 = ray.vz;
+    const sx = ray.x, sy = ray.y, sz = ray.z;
+    const dt = kerrRay ? advanceKerrRay(kerrRay, rh) : advanceRay(flatRay!, integrator, companion);
+    const px = ray.x, py = ray.y, pz = ray.z;
+    if (probe) {
+      probe.path.push([px, py, pz]);
+      const cx = vy0 * ray.vz - vz0 * ray.vy, cy = vz0 * ray.vx - vx0 * ray.vz, cz = vx0 * ray.vy - vy0 * ray.vx;
+      probe.turned += Math.atan2(Math.sqrt(cx * cx + cy * cy + cz * cz), vx0 * ray.vx + vy0 * ray.vy + vz0 * ray.vz);
+    }
+
+    // The star, as an opaque sphere, hit if this step passes through it
+    if (starPos) {
+      const gx = px - sx, gy = py - sy, gz = pz - sz;
+      const tx = starPos[0] - sx, ty = starPos[1] - sy, tz = starPos[2] - sz;
+      const along = clamp((tx * gx + ty * gy + tz * gz) / Math.max(gx * gx + gy * gy + gz * gz, 1e-12), 0, 1);
+      const ex = tx - gx * along, ey = ty - gy * along, ez = tz - gz * along;
+      if (Math.sqrt(ex * ex + ey * ey + ez * ez) < starRadius) {
+        recordEmitter(probe, 'star', 1);
+        cr += transmit * 1.0 * 1.5;
+        cg += transmit * 0.85 * 1.5;
+        cb += transmit * 0.6 * 1.5;
+        transmit = 0;
+        if (probe) probe.end = 'absorbed';
+        break;
+      }
+    }
+
+    // Accretion disk, at q in the disk's frame
+    const [fx, fn, fz] = diskFrame(state, r, time);
+    const qx = px * fx[0] + py * fx[1] + pz * fx[2];
+    const qy = px * fn[0] + py * fn[1] + pz * fn[2];
+    const qz = px * fz[0] + py * fz[1] + pz * fz[2];
+    const distToDisk = Math.abs(qy);
+    const diskThickness = state.diskThickness * Math.max(1.0, r * 0.1);
+
+    if (distToDisk < diskThickness && r > diskInner && r < diskOuter) {
+      let dens = smoothstep(diskThickness, 0.0, distToDisk);
+
+      const angle = Math.atan2(qz, qx) - time * (1.5 / Math.sqrt(r) + 4.0 * frameDraggingAngularVelocity(r, state.spin));
+      const r_anim = r + time * 2.0;
+      dens *= fbm(
+        Math.cos(angle) * r_anim * noiseFreq,
+        qy * noiseFreq,
+        Math.sin(angle) * r_anim * noiseFreq,
+      );
+
+      if (dens > 0.01) {
+        // Novikov–Thorne blackbody at g·T for the view mode to shade with
+        const T = temperatureScale * novikovThorneProfile(r, state.spin);
+        const diskLambda = tilted ? camL[0] * fn[0] + camL[1] * fn[1] + camL[2] * fn[2] : lambda;
+        const g = diskRedshift(r, state.spin, diskLambda) * gCam * doppler;
+        const shade = shadeDisk({ p: [qx, qy, qz], r, dens, temp: 1.0 / (r - rh + 0.1), g, T, a: state.spin }, ctx);
+
+        const alpha = 1.0 - Math.exp(-shade.dens * dt * 2.0);
+        recordEmitter(probe, 'disk', alpha);
+
+        cr += transmit * shade.emit[0] * alpha;
+        cg += transmit * shade.emit[1] * alpha;
+        cb += transmit * shade.emit[2] * alpha;
+        transmit *= 1.0 - alpha;
+      }
+    }
+
+    // The companion's mini disk, in its units (see fs_main)
+    if (companion) {
+      const q = companion.rs;
+      const cx = (px - companion.position[0]) / q, cy = (py - companion.position[1]) / q, cz = (pz - companion.position[2]) / q;
+      const rc = Math.sqrt(cx * cx + cy * cy + cz * cz);
+      const cThickness = state.diskThickness * Math.max(1.0, rc * 0.1);
+
+      if (Math.abs(cy) < cThickness && rc > 3.0 && rc < orbit!.companionDiskEdge / q) {
+        let dens = smoothstep(cThickness, 0.0, Math.abs(cy));
+        const angle = Math.atan2(cz, cx) - time * 1.5 / Math.sqrt(rc);
+        const r_anim = rc + time * 2.0;
+        dens *= fbm(Math.cos(angle) * r_anim * noiseFreq, cy * noiseFreq, Math.sin(angle) * r_anim * noiseFreq);
+
+        if (dens > 0.01) {
+          const T = temperatureScale * Math.pow(q, -0.25) * novikovThorneProfile(rc, 0);
+          const g = diskRedshift(rc, 0, companionLambda) * gCam * doppler;
+          const shade = shadeDisk({ p: [cx, cy, cz], r: rc, dens, temp: 1.0 / (rc - 1.0 + 0.1), g, T, a: 0 }, ctx);
+
+          const alpha = 1.0 - Math.exp(-shade.dens * dt * 2.0 / q);
+          recordEmitter(probe, 'disk', alpha);
+
+          cr += transmit * shade.emit[0] * alpha;
+          cg += transmit * shade.emit[1] * alpha;
+          cb += transmit * shade.emit[2] * alpha;
+          transmit *= 1.0 - alpha;
+        }
+      }
+    }
+
+    // Relativistic jets
+    const cylindricalRadius = Math.sqrt(px * px + pz * pz);
+    const jetRadius = 0.5 + r * Math.tan(state.jetAngle);
+
+    if (state.showJets && r > rh && cylindricalRadius < jetRadius && Math.abs(py) > RS * 0.5) {
+      let jetDens = fbm(
+        px * noiseFreq * 2.0,
+        py * noiseFreq * 2.0 - Math.sign(py) * time * 15.0,
+        pz * noiseFreq * 2.0,
+      ) * 0.15;
+      jetDens *= smoothstep(jetRadius, 0.0, cylindricalRadius);
+      jetDens *= smoothstep(state.jetLength, RS, r);
+      jetDens *= state.jetPower;
+      const vl = Math.sqrt(ray.vx * ray.vx + ray.vy * ray.vy + ray.vz * ray.vz);
+      const jetDoppler = 1.0 / (state.jetLorentz * (1.0 + jetBeta * Math.sign(py) * ray.vy / vl));
+
+      const color = JET_COLORS[wavelength] ?? JET_COLORS[0];
+      const shade = shadeJet({ p: [px, py, pz], r, dens: jetDens, color, doppler: jetDoppler }, ctx);
+
+      const alpha = 1.0 - Math.exp(-shade.dens * dt);
+      recordEmitter(probe, 'jet', alpha);
+      cr += transmit * shade.emit[0] * alpha;
+      cg += transmit * shade.emit[1] * alpha;
+      cb += transmit * shade.emit[2] * alpha;
+      transmit *= 1.0 - alpha;
+    }
+
+    // Holographic Milky Way
+    if (state.showMilkyWay) {
+      const mw_y = py + 20.0;
+      const mw_dist = Math.abs(mw_y);
+      const mw_thickness = 2.0 + cylindricalRadius * 0.02;
+
+      if (mw_dist < mw_thickness && cylindricalRadius < 250.0) {
+        const angle = Math.atan2(pz, px);
+        const arm = Math.sin(angle * 4.0 - cylindricalRadius * 0.05 + time * 0.2);
+        let mw_dens = smoothstep(-0.2, 1.0, arm) * Math.exp(-cylindricalRadius * 0.015) * smoothstep(mw_thickness, 0.0, mw_dist);
+        mw_dens *= 0.5 + 0.5 * fbm(px * 0.1, py * 0.1, pz * 0.1);
+
+        if (mw_dens > 0.01) {
+          const t = smoothstep(0.0, 50.0, cylindricalRadius);
+          const grid = smoothstep(0.95, 1.0, fract(cylindricalRadius * 0.1)) + smoothstep(0.98, 1.0, fract((angle * 8.0) / 3.14159));
+          const mr = mix(1.0, 0.2, t);
+          const mg = mix(0.8, 0.5, t) + grid * 0.5;
+          const mb = mix(0.5, 1.0, t) + grid * 0.25;
+
+          const alpha = 1.0 - Math.exp(-mw_dens * dt * 0.5);
+          recordEmitter(probe, 'hologram', alpha);
+          const e = mw_dens * 1.5 * alpha * transmit;
+          cr += mr * e;
+          cg += mg * e;
+          cb += mb * e;
+          transmit *= 1.0 - alpha;
+        }
+      }
+    }
+
+    if (transmit < 0.01) {
+      if (probe) probe.end = 'absorbed';
+      break;
+    }
+  }
+
+  return { color: [cr, cg, cb], skyDir, skyWeight, starTint };
+}
+
+function rotateToSky(state: SimulationState, d: Vec3): Vec3 {
+  const [sx, sy, sz] = skyMatrix(state.skyYaw, state.skyPitch, state.skyRoll);
+  const dot = (a: Vec3) => a[0] * d[0] + a[1] * d[1] + a[2] * d[2];
+  return [dot(sx), dot(sy), dot(sz)];
+}
+
+// Catalog stars as Gaussians STAR_PSF pixels wide (see catalogStars).
+function catalogStars(d: Vec3, resolutionY: number, out: Vec3) {
+  const sigma = STAR_PSF * 2.0 / resolutionY;
+  const stars = starCatalogData();
+  for (let o = 0; o < stars.length; o += 8) {
+    const ex = d[0] - stars[o], ey = d[1] - stars[o + 1], ez = d[2] - stars[o + 2];
+    const q = (ex * ex + ey * ey + ez * ez) / (sigma * sigma);
+    if (q < 16.0) {
+      const e = stars[o + 3] * Math.exp(-0.5 * q);
+      out[0] += stars[o + 4] * e;
+      out[1] += stars[o + 5] * e;
+      out[2] += stars[o + 6] * e;
+    }
+  }
+}
+
+// Background radiance towards sky direction d (see skyRadiance).
+function skyRadiance(state: SimulationState, image: SkyImage | null, d: Vec3, ddx: Vec3, ddy: Vec3, resolutionY: number): Vec3 {
+  let col: Vec3;
+  if (image) {
+    col = sampleSky(image, d, ddx, ddy).map(c => c * SKY_EXPOSURE) as Vec3;
+  } else {
+    const star = Math.pow(noise(d[0] * 200, d[1] * 200, d[2] * 200), 25) * 2;
+    col = [star, star, star];
+  }
+  if (state.showStars) {
+    catalogStars(d, resolutionY, col);
+  }
+  return col;
+}
+
+// The background as the view mode shows it (see viewModeSky).
+function shadeSky(state: SimulationState, time: number, d: Vec3, radiance: Vec3): Vec3 {
+  const ctx: ShadeContext = { state, time, lut: spectrumLUT(), exposure: referenceEmission(state).exposure };
+  return viewModeCPU(state.viewMode, 'sky')(d, radiance, ctx);
+}
+
+function addSky(ray: TracedRay, sky: Vec3) {
+  for (let k = 0; k < 3; k++) {
+    ray.color[k] += sky[k] * ray.starTint[k] * ray.skyWeight;
+  }
+}
+
+export function renderReference(
+  state: SimulationState,
+  width: number,
+  height: number,
+  options: ReferenceOptions = {},
+): ReferenceImage {
+  const time = options.time ?? 0;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const image = activeSky(state.background, options.sky ?? null);
+
+  const rays: TracedRay[] = [];
+  const skyDirs: Vec3[] = [];
+  for (let y = 0; y < height; y++) {
+    // Matches vs_main: uv.y grows downwards after the flip.
+    const uvy = ((y + 0.5) / height - 0.5) * 2.0;
+    for (let x = 0; x < width; x++) {
+      const uvx = ((x + 0.5) / width - 0.5) * 2.0 * (width / height);
+      const ray = traceSceneRay(state, uvx, uvy, time);
+      rays.push(ray);
+      skyDirs.push(rotateToSky(state, ray.skyDir));
+    }
+  }
+
+  // Derivatives are differences within 2x2 pixel quads, as dpdx/dpdy are
+  const partner = (i: number, n: number) => (i ^ 1) < n ? i ^ 1 : Math.max(i - 1, 0);
+  const diff = (a: Vec3, b: Vec3, sign: number): Vec3 => [0, 1, 2].map(k => (a[k] - b[k]) * sign) as Vec3;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const ray = rays[y * width + x];
+      if (ray.skyWeight > 0) {
+        const d = skyDirs[y * width + x];
+        const px = partner(x, width), py = partner(y, height);
+        const ddx = diff(skyDirs[y * width + px], d, Math.sign(px - x));
+        const ddy = diff(skyDirs[py * width + x], d, Math.sign(py - y));
+        addSky(ray, shadeSky(state, time, d, skyRadiance(state, image, d, ddx, ddy, height)));
+      }
+      const [r, g, b] = ray.color;
+      const o = (y * width + x) * 4;
+      pixels[o] = Math.round(tonemap(r) * 255);
+      pixels[o + 1] = Math.round(tonemap(g) * 255);
+      pixels[o + 2] = Math.round(tonemap(b) * 255);
+      pixels[o + 3] = 255;
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+export function renderReferencePNG(
+  state: SimulationState,
+  width: number,
+  height: number,
+  options: ReferenceOptions & { deflate?: DeflateFn } = {},
+): Uint8Array {
+  const image = renderReference(state, width, height, options);
+  return encodePNG(image.pixels, width, height, {
+    deflate: options.deflate,
+    text: {
+      'ton618:state': JSON.stringify(state),
+      'ton618:time': String(options.time ?? 0),
+    },
+  });
+}
+
+export function diffImages(a: ReferenceImage, b: ReferenceImage, tolerance: number = 8): ImageDiff {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Image sizes differ: ${a.width}x${a.height} vs ${b.width}x${b.height}.`);
+  }
+
+  const pixels = new Uint8ClampedArray(a.pixels.length);
+  let maxDiff = 0;
+  let total = 0;
+  let mismatched = 0;
+
+  for (let i = 0; i < a.pixels.length; i += 4) {
+    let pixelMax = 0;
+    for (let c = 0; c < 3; c++) {
+      const d = Math.abs(a.pixels[i + c] - b.pixels[i + c]);
+      pixelMax = Math.max(pixelMax, d);
+      total += d;
+      pixels[i + c] = d * 4;
+    }
+    pixels[i + 3] = 255;
+    maxDiff = Math.max(maxDiff, pixelMax);
+    if (pixelMax > tolerance) mismatched++;
+  }
+
+  return {
+    maxDiff,
+    meanDiff: total / ((a.pixels.length / 4) * 3),
+    mismatched,
+    pixels,
+  };
+}
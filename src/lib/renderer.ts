@@ -1,42 +1,286 @@
-import { blackholeWGSL } from '../shaders/blackhole.wgsl';
+import { blackholeWGSL, blackholeUniforms } from '../shaders/blackhole.wgsl';
+import { accumulateWGSL } from '../shaders/accumulate.wgsl';
+import { packUniforms, UniformValues } from './uniforms';
+import { CameraMode, computeCameraFrame, Quat, Vec3 } from './camera';
+import { Integrator } from './geodesic';
+import { ObserverMode } from './observer';
+import { SkyBackground, SkyImage, activeSky, skyMatrix } from './skybox';
+import { starCatalogData } from './stars';
+import { iscoRadius } from './kerr';
+import { binaryOrbit } from './binary';
+import {
+  DEBRIS_CELL_PARTICLES, DEBRIS_GRID, DEBRIS_PARTICLES, starMarkerRadius, starRadius, tidalDisruption,
+} from './tde';
+import { debrisUniforms, debrisWGSL, DEBRIS_PARTICLE_SIZE, DEBRIS_WORKGROUP } from '../shaders/debris.wgsl';
+import { memoizedDiskEmission, DiskEmission, diskEdges } from './disk';
+import { DISK_OUTER_RS } from './units';
+import { spectrumLUT } from './spectrum';
+import { MAX_STEPS, QualityManager } from './quality';
+import { SimulationClock } from './clock';
+import { viewModeIndex } from './viewModes';
+import { accumulateImage, ExportedImage, ExportOptions, ExportTile, TileAccumulator } from './export';
 
 export interface SimulationState {
-  viewMode: number;
+  // Id of a mode in lib/viewModes
+  viewMode: string;
   wavelength: number;
   timeSpeed: number;
+  // Shader time (u.time) when the state was taken; the live clock runs on
+  // from here, see lib/clock
+  simulationTime: number;
   showMilkyWay: boolean;
   showJets: boolean;
   cameraDistance: number;
   cameraAngleX: number;
   cameraAngleY: number;
+  cameraMode: CameraMode;
+  // Free-fly camera pose (see lib/camera)
+  flyPosition: Vec3;
+  flyOrientation: Quat;
+  integrator: Integrator;
+  // Dimensionless Kerr spin a/M, 0 (Schwarzschild) to 0.998
+  spin: number;
+  // Catalog entry from lib/presets, or 'custom' once the mass is edited
+  presetId: string;
+  massSolar: number;
+  // Disk accretion rate as a fraction of the Eddington rate
+  accretionRate: number;
+  observer: ObserverMode;
+  // Observer proper time since release, in Rs/c
+  observerTime: number;
+  background: SkyBackground;
+  // Bright-star catalog as point sources
+  showStars: boolean;
+  // Orientation of the sky in the scene, in radians (see lib/skybox)
+  skyYaw: number;
+  skyPitch: number;
+  skyRoll: number;
+  // Disk and jets (see the Source panel); lengths in Rs, angles in radians.
+  // The inner edge is in ISCO radii so that it follows the spin.
+  diskInnerIsco: number;
+  diskOuter: number;
+  // Half-thickness inside 10 Rs; the disk flares beyond
+  diskThickness: number;
+  // Lean of the disk from the equatorial plane, and extra lean at its outer
+  // edge for a warped disk
+  diskTilt: number;
+  diskWarp: number;
+  // Turn rate of the tilt's line of nodes, radians per unit shader time
+  diskPrecession: number;
+  jetLength: number;
+  // Opening half-angle
+  jetAngle: number;
+  // Bulk Lorentz factor of the jet flow; 1 is at rest, unbeamed
+  jetLorentz: number;
+  // Jet density relative to the default
+  jetPower: number;
+  // Binary companion (see lib/binary): mass over the primary's, 0 for none
+  binaryMassRatio: number;
+  // Initial separation in Rs and orbital phase in radians
+  binarySeparation: number;
+  binaryPhase: number;
+  // Shrink the orbit by gravitational-wave emission until the holes merge
+  binaryDecay: boolean;
+  // Tidal disruption event (see lib/tde): a star of tdeStarMass solar
+  // masses and tdeStarRadius solar radii on a parabolic orbit, with its
+  // pericenter at the tidal radius over tdePenetration, inclined by
+  // tdeInclination radians and reached at shader time tdePericenterTime
+  showTde: boolean;
+  tdeStarMass: number;
+  tdeStarRadius: number;
+  tdePenetration: number;
+  tdeInclination: number;
+  tdePericenterTime: number;
 }
 
-export class BlackHoleRenderer {
+export type RendererBackend = 'webgpu' | 'webgl2';
+
+// Common surface of the WebGPU and WebGL2 renderers; the app only talks to
+// this, see lib/backends for how one is picked.
+export interface SimulationRenderer {
+  readonly backend: RendererBackend;
+  state: SimulationState;
+  // When set, frames are drawn at this shader time instead of advancing the
+  // clock, e.g. during timeline playback.
+  frameTime: number | null;
+  // Shader time of the frame on screen
+  readonly time: number;
+  // Drives `time` between frames, see lib/clock
+  readonly clock: SimulationClock;
+  // Panorama for the 'panorama' background; null shows the generated Milky Way.
+  skyImage: SkyImage | null;
+  // Live resolution and step budget, see lib/quality
+  readonly quality: QualityManager;
+  init(): Promise<void>;
+  // Renders a still of the current frame; the live view pauses meanwhile.
+  exportImage(options: ExportOptions): Promise<ExportedImage>;
+  destroy(): void;
+}
+
+export const DEFAULT_STATE: SimulationState = {
+  viewMode: 'classic',
+  wavelength: 0,
+  timeSpeed: 1.0,
+  simulationTime: 0,
+  showMilkyWay: false,
+  showJets: true,
+  cameraDistance: 10.0,
+  cameraAngleX: 0.2,
+  cameraAngleY: 0.0,
+  cameraMode: 'orbit',
+  flyPosition: [0, 0, 10],
+  flyOrientation: [0, 0, 0, 1],
+  integrator: 'fast',
+  spin: 0.0,
+  presetId: 'ton618',
+  massSolar: 6.6e10,
+  accretionRate: 1.0,
+  observer: 'static',
+  observerTime: 0,
+  background: 'procedural',
+  showStars: false,
+  skyYaw: 0,
+  skyPitch: 0,
+  skyRoll: 0,
+  diskInnerIsco: 1,
+  diskOuter: DISK_OUTER_RS,
+  diskThickness: 0.5,
+  diskTilt: 0,
+  diskWarp: 0,
+  diskPrecession: 0,
+  jetLength: 30,
+  jetAngle: Math.atan(0.05),
+  jetLorentz: 1,
+  jetPower: 1,
+  binaryMassRatio: 0,
+  binarySeparation: 30,
+  binaryPhase: 0,
+  binaryDecay: false,
+  showTde: false,
+  tdeStarMass: 1,
+  tdeStarRadius: 1,
+  tdePenetration: 1,
+  tdeInclination: 0,
+  tdePericenterTime: 0,
+};
+
+// Part of the image covered by one draw, and how it is traced. Live frames
+// draw the whole canvas in one tonemapped pass; image export draws jittered
+// HDR tiles at the full step budget.
+export interface TileView {
+  origin: [number, number];
+  size: [number, number];
+  jitter: [number, number];
+  tonemap: boolean;
+  steps: number;
+}
+
+export function fullView(width: number, height: number, steps = MAX_STEPS): TileView {
+  return { origin: [0, 0], size: [width, height], jitter: [0, 0], tonemap: true, steps };
+}
+
+// Values for the shader's Uniforms struct, shared by both backends.
+export function sceneUniforms(
+  state: SimulationState,
+  time: number,
+  width: number,
+  height: number,
+  emission: DiskEmission,
+  tile: TileView = fullView(width, height),
+): UniformValues<typeof blackholeUniforms.fields> {
+  const camera = computeCameraFrame(state);
+  const [skyX, skyY, skyZ] = skyMatrix(state.skyYaw, state.skyPitch, state.skyRoll);
+  const disk = diskEdges(state);
+  const orbit = binaryOrbit(state, time);
+  const tde = tidalDisruption(state, time);
+  const debris = tde?.disruption && tde.sincePericenter >= tde.disruption.time;
+  return {
+    resolution: [width, height],
+    cameraPos: camera.position,
+    cameraDir: camera.direction,
+    cameraUp: camera.up,
+    time,
+    viewMode: viewModeIndex(state.viewMode),
+    wavelength: state.wavelength,
+    showMilkyWay: state.showMilkyWay ? 1.0 : 0.0,
+    showJets: state.showJets ? 1.0 : 0.0,
+    integrator: state.integrator === 'accurate' ? 1.0 : 0.0,
+    spin: state.spin,
+    diskIsco: iscoRadius(state.spin),
+    diskTemperature: emission.temperatureScale,
+    exposure: emission.exposure,
+    tileOrigin: tile.origin,
+    jitter: tile.jitter,
+    tileSize: tile.size,
+    tonemap: tile.tonemap ? 1.0 : 0.0,
+    observerVelocity: camera.velocity,
+    skyPanorama: state.background === 'panorama' ? 1.0 : 0.0,
+    showStars: state.showStars ? 1.0 : 0.0,
+    skyX,
+    skyY,
+    skyZ,
+    maxSteps: tile.steps,
+    diskInner: disk.inner,
+    diskOuter: disk.outer,
+    diskThickness: state.diskThickness,
+    diskTilt: state.diskTilt,
+    diskWarp: state.diskWarp,
+    diskPrecession: state.diskPrecession,
+    jetLength: state.jetLength,
+    jetSlope: Math.tan(state.jetAngle),
+    jetLorentz: state.jetLorentz,
+    jetPower: state.jetPower,
+    companionPos: orbit?.position ?? [0, 0, 0],
+    companionRs: orbit ? state.binaryMassRatio : 0,
+    companionDiskOuter: orbit ? orbit.companionDiskEdge / state.binaryMassRatio : 0,
+    diskTidalEdge: orbit?.primaryDiskEdge ?? disk.outer,
+    starPos: tde?.starPosition ?? [0, 0, 0],
+    starRadius: tde?.starPosition ? starMarkerRadius(state.massSolar, tde.star) : 0,
+    debrisParticles: debris ? DEBRIS_PARTICLES : 0,
+    debrisExtent: tde?.debrisExtent ?? 1,
+    debrisDensity: 1 / DEBRIS_CELL_PARTICLES,
+    debrisTemperature: emission.peakTemperature,
+    tidalRadius: tde?.tidalRadius ?? 1,
+  };
+}
+
+export class BlackHoleRenderer implements SimulationRenderer {
+  public readonly backend = 'webgpu';
   private canvas: HTMLCanvasElement;
   private device!: GPUDevice;
   private context!: GPUCanvasContext;
+  private shaderModule!: GPUShaderModule;
   private pipeline!: GPURenderPipeline;
   private uniformBuffer!: GPUBuffer;
+  private uniformData = new ArrayBuffer(blackholeUniforms.size);
+  private spectrumBuffer!: GPUBuffer;
+  private starBuffer!: GPUBuffer;
+  private skyTexture!: GPUTexture;
+  private skySampler!: GPUSampler;
+  // What skyTexture holds; null for the placeholder
+  private uploadedSky: SkyImage | null = null;
+  private emission = memoizedDiskEmission();
   private bindGroup!: GPUBindGroup;
-  private time: number = 0;
+  private timer: WebGPUFrameTimer | null = null;
+  private debris!: WebGPUDebris;
   private animationFrameId: number = 0;
   private destroyed: boolean = false;
+  private exporting: boolean = false;
   
-  public state: SimulationState = {
-    viewMode: 0,
-    wavelength: 0,
-    timeSpeed: 1.0,
-    showMilkyWay: false,
-    showJets: true,
-    cameraDistance: 10.0,
-    cameraAngleX: 0.2,
-    cameraAngleY: 0.0,
-  };
+  public state: SimulationState = { ...DEFAULT_STATE };
+  public frameTime: number | null = null;
+  public skyImage: SkyImage | null = null;
+  public readonly quality = new QualityManager();
+  public readonly clock = new SimulationClock();
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
   }
 
+  get time(): number {
+    return this.clock.time;
+  }
+
   async init() {
     if (!navigator.gpu) {
       throw new Error('WebGPU not supported on this browser.');
@@ -50,7 +294,11 @@ export class BlackHoleRenderer {
       throw new Error('No appropriate GPUAdapter found.');
     }
 
-    this.device = await adapter.requestDevice();
+    // Timestamp queries time the live pass for the quality manager
+    const timestamps = adapter.features.has('timestamp-query');
+    this.device = await adapter.requestDevice({
+      requiredFeatures: timestamps ? ['timestamp-query'] : [],
+    });
     if (this.destroyed) {
       this.device.destroy();
       return;
@@ -65,9 +313,9 @@ export class BlackHoleRenderer {
       alphaMode: 'premultiplied',
     });
 
-    const shaderModule = this.device.createShaderModule({
+    const shaderModule = this.shaderModule = this.device.createShaderModule({
       label: 'Black Hole Shader',
-      code: blackholeWGSL,
+      code: blackholeWGSL(),
     });
 
     const compilationInfo = await shaderModule.getCompilationInfo();
@@ -102,82 +350,124 @@ export class BlackHoleRenderer {
       },
     });
 
-    // Uniforms struct size: 
-    // res(8) + pad(8) + camPos(12) + pad(4) + camDir(12) + pad(4) + camUp(12) + pad(4) 
-    // + time(4) + viewMode(4) + wavelength(4) + showMilkyWay(4) = 80 bytes
     this.uniformBuffer = this.device.createBuffer({
-      size: 96,
+      size: blackholeUniforms.size,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
 
-    this.bindGroup = this.device.createBindGroup({
-      layout: this.pipeline.getBindGroupLayout(0),
-      entries: [
-        {
-          binding: 0,
-          resource: { buffer: this.uniformBuffer },
-        },
-      ],
+    const lut = spectrumLUT();
+    this.spectrumBuffer = this.device.createBuffer({
+      size: lut.byteLength,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
     });
+    this.device.queue.writeBuffer(this.spectrumBuffer, 0, lut);
+
+    const stars = starCatalogData();
+    this.starBuffer = this.device.createBuffer({
+      size: stars.byteLength,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.device.queue.writeBuffer(this.starBuffer, 0, stars);
+
+    this.skySampler = this.device.createSampler({
+      addressModeU: 'repeat',
+      addressModeV: 'clamp-to-edge',
+      magFilter: 'linear',
+      minFilter: 'linear',
+      mipmapFilter: 'linear',
+    });
+    // Black until a panorama is shown
+    this.skyTexture = this.device.createTexture({
+      size: [1, 1],
+      format: 'rgba8unorm-srgb',
+      usage: GPUTextureUsage.TEXTURE_BINDING,
+    });
+    this.debris = new WebGPUDebris(this.device);
+    this.bindGroup = this.createSceneBindGroup(this.pipeline, this.uniformBuffer);
+    if (timestamps) {
+      this.timer = new WebGPUFrameTimer(this.device, ms => this.quality.gpuTime(ms));
+    }
 
-    this.resize();
-    window.addEventListener('resize', this.resize.bind(this));
-    
     this.render();
   }
 
+  // Bindings 1 and up are shared with the export pipeline.
+  private sceneResources(): GPUBindGroupEntry[] {
+    return [
+      { binding: 1, resource: { buffer: this.spectrumBuffer } },
+      { binding: 2, resource: { buffer: this.starBuffer } },
+      { binding: 3, resource: this.skyTexture.createView() },
+      { binding: 4, resource: this.skySampler },
+      { binding: 5, resource: { buffer: this.debris.grid } },
+    ];
+  }
+
+  private createSceneBindGroup(pipeline: GPURenderPipeline, uniformBuffer: GPUBuffer): GPUBindGroup {
+    return this.device.createBindGroup({
+      layout: pipeline.getBindGroupLayout(0),
+      entries: [{ binding: 0, resource: { buffer: uniformBuffer } }, ...this.sceneResources()],
+    });
+  }
+
+  // Uploads the panorama the state asks for, with its mip chain. A
+  // procedural background keeps whatever was last uploaded.
+  private syncSky(state: SimulationState) {
+    const sky = activeSky(state.background, this.skyImage);
+    if (!sky || sky === this.uploadedSky) return;
+    const { width, height } = sky.levels[0];
+    const texture = this.device.createTexture({
+      size: [width, height],
+      format: 'rgba8unorm-srgb',
+      mipLevelCount: sky.levels.length,
+      usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+    });
+    sky.levels.forEach((level, mipLevel) => {
+      this.device.queue.writeTexture(
+        { texture, mipLevel },
+        level.data,
+        { bytesPerRow: level.width * 4 },
+        [level.width, level.height],
+      );
+    });
+    this.skyTexture.destroy();
+    this.skyTexture = texture;
+    this.uploadedSky = sky;
+    this.bindGroup = this.createSceneBindGroup(this.pipeline, this.uniformBuffer);
+  }
+
+  // Follows the canvas's CSS size and the quality manager's render scale
   private resize() {
-    const dpr = window.devicePixelRatio || 1;
-    this.canvas.width = this.canvas.clientWidth * dpr;
-    this.canvas.height = this.canvas.clientHeight * dpr;
+    const [width, height] = this.quality.renderSize(this.canvas.clientWidth, this.canvas.clientHeight);
+    if (this.canvas.width !== width) this.canvas.width = width;
+    if (this.canvas.height !== height) this.canvas.height = height;
   }
 
   private updateUniforms() {
-    const uniforms = new Float32Array(24);
-    
-    // Resolution
-    uniforms[0] = this.canvas.width;
-    uniforms[1] = this.canvas.height;
-    
-    // Camera calculations
-    const dist = this.state.cameraDistance;
-    const cx = Math.cos(this.state.cameraAngleY) * Math.cos(this.state.cameraAngleX) * dist;
-    const cy = Math.sin(this.state.cameraAngleX) * dist;
-    const cz = Math.sin(this.state.cameraAngleY) * Math.cos(this.state.cameraAngleX) * dist;
-    
-    // Camera Pos (offset 4)
-    uniforms[4] = cx;
-    uniforms[5] = cy;
-    uniforms[6] = cz;
-    
-    // Camera Dir (offset 8)
-    const len = Math.sqrt(cx*cx + cy*cy + cz*cz);
-    uniforms[8] = -cx/len;
-    uniforms[9] = -cy/len;
-    uniforms[10] = -cz/len;
-    
-    // Camera Up (offset 12)
-    uniforms[12] = 0;
-    uniforms[13] = 1;
-    uniforms[14] = 0;
-    
-    // Scalars (offset 60 bytes = index 15)
-    uniforms[15] = this.time;
-    uniforms[16] = this.state.viewMode;
-    uniforms[17] = this.state.wavelength;
-    uniforms[18] = this.state.showMilkyWay ? 1.0 : 0.0;
-    uniforms[19] = this.state.showJets ? 1.0 : 0.0;
-
-    this.device.queue.writeBuffer(this.uniformBuffer, 0, uniforms.buffer);
+    const { width, height } = this.canvas;
+    const values = sceneUniforms(this.state, this.time, width, height, this.emission(this.state), fullView(width, height, this.quality.steps));
+    packUniforms(blackholeUniforms, values, this.uniformData);
+    this.device.queue.writeBuffer(this.uniformBuffer, 0, this.uniformData);
   }
 
   private render = () => {
     if (this.destroyed) return;
+    if (this.exporting) {
+      this.animationFrameId = requestAnimationFrame(this.render);
+      return;
+    }
     
-    this.time += 0.01 * this.state.timeSpeed;
+    if (this.frameTime !== null) {
+      this.clock.seek(this.frameTime);
+    } else {
+      this.clock.tick(this.state.timeSpeed);
+    }
+    this.quality.frame();
+    this.resize();
+    this.syncSky(this.state);
     this.updateUniforms();
 
     const commandEncoder = this.device.createCommandEncoder();
+    this.debris.update(commandEncoder, this.state, this.time);
     const textureView = this.context.getCurrentTexture().createView();
 
     const renderPass = commandEncoder.beginRenderPass({
@@ -189,21 +479,337 @@ export class BlackHoleRenderer {
           storeOp: 'store',
         },
       ],
+      timestampWrites: this.timer?.begin(),
     });
 
     renderPass.setPipeline(this.pipeline);
     renderPass.setBindGroup(0, this.bindGroup);
     renderPass.draw(6, 1, 0, 0);
     renderPass.end();
+    this.timer?.resolve(commandEncoder);
 
     this.device.queue.submit([commandEncoder.finish()]);
+    this.timer?.read();
     this.animationFrameId = requestAnimationFrame(this.render);
   }
 
+  public async exportImage(options: ExportOptions): Promise<ExportedImage> {
+    if (this.exporting) {
+      throw new Error('An export is already running.');
+    }
+    const state = { ...(options.state ?? this.state) };
+    const time = options.time ?? this.time;
+    const emission = this.emission(state);
+    const uniformData = new ArrayBuffer(blackholeUniforms.size);
+
+    this.exporting = true;
+    this.syncSky(state);
+    // Give the debris time to catch up with the exported frame
+    const encoder = this.device.createCommandEncoder();
+    this.debris.update(encoder, state, time, DEBRIS_EXPORT_PASSES);
+    this.device.queue.submit([encoder.finish()]);
+    const accumulator = new WebGPUTileAccumulator(this.device, this.shaderModule, this.sceneResources());
+    try {
+      const pixels = await accumulateImage(accumulator, options, (tile, jitter) => {
+        const values = sceneUniforms(state, time, options.width, options.height, emission, {
+          origin: [tile.x, tile.y],
+          size: [tile.width, tile.height],
+          jitter,
+          tonemap: false,
+          steps: MAX_STEPS,
+        });
+        return packUniforms(blackholeUniforms, values, uniformData);
+      });
+      return { width: options.width, height: options.height, pixels, state, time };
+    } finally {
+      accumulator.destroy();
+      this.exporting = false;
+    }
+  }
+
   public destroy() {
     this.destroyed = true;
     cancelAnimationFrame(this.animationFrameId);
-    window.removeEventListener('resize', this.resize.bind(this));
     this.device?.destroy();
   }
 }
+
+// Times the live pass with a pair of timestamp queries. Frames are only
+// timed while no readback is in flight, so a slow map skips frames rather
+// than queueing them.
+class WebGPUFrameTimer {
+  private querySet: GPUQuerySet;
+  private resolveBuffer: GPUBuffer;
+  private readBuffer: GPUBuffer;
+  private timing = false;
+  private reading = false;
+  private onTime: (ms: number) => void;
+
+  constructor(device: GPUDevice, onTime: (ms: number) => void) {
+    this.onTime = onTime;
+    this.querySet = device.createQuerySet({ type: 'timestamp', count: 2 });
+    this.resolveBuffer = device.createBuffer({
+      size: 16,
+      usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC,
+    });
+    this.readBuffer = device.createBuffer({
+      size: 16,
+      usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+    });
+  }
+
+  begin(): GPURenderPassTimestampWrites | undefined {
+    this.timing = !this.reading;
+    if (!this.timing) return undefined;
+    return { querySet: this.querySet, beginningOfPassWriteIndex: 0, endOfPassWriteIndex: 1 };
+  }
+
+  resolve(encoder: GPUCommandEncoder) {
+    if (!this.timing) return;
+    encoder.resolveQuerySet(this.querySet, 0, 2, this.resolveBuffer, 0);
+    encoder.copyBufferToBuffer(this.resolveBuffer, 0, this.readBuffer, 0, 16);
+  }
+
+  // After the frame is submitted
+  read() {
+    if (!this.timing) return;
+    this.timing = false;
+    this.reading = true;
+    this.readBuffer.mapAsync(GPUMapMode.READ).then(() => {
+      const [start, end] = new BigUint64Array(this.readBuffer.getMappedRange());
+      this.readBuffer.unmap();
+      // Timestamps may be quantized or, across power states, out of order
+      if (end > start) this.onTime(Number(end - start) / 1e6);
+      this.reading = false;
+    }, () => {
+      // The device was lost or destroyed
+    });
+  }
+}
+
+// Steps per particle in each pass, and passes run before an export
+const DEBRIS_STEPS = 256;
+const DEBRIS_EXPORT_PASSES = 16;
+
+// Tidal debris particles (see shaders/debris.wgsl.ts), stepped and counted
+// into `grid`, which fs_main reads, before a frame is drawn.
+class WebGPUDebris {
+  public readonly grid: GPUBuffer;
+  private device: GPUDevice;
+  private pipeline: GPUComputePipeline;
+  private uniformBuffer: GPUBuffer;
+  private uniformData = new ArrayBuffer(debrisUniforms.size);
+  private bindGroup: GPUBindGroup;
+  // Bumped whenever the event changes, so the particles start over
+  private epoch = 0;
+  private key = '';
+
+  constructor(device: GPUDevice) {
+    this.device = device;
+    const module = device.createShaderModule({ label: 'Debris Shader', code: debrisWGSL });
+    this.pipeline = device.createComputePipeline({
+      label: 'Debris Pipeline',
+      layout: 'auto',
+      compute: { module, entryPoint: 'cs_step' },
+    });
+    this.uniformBuffer = device.createBuffer({
+      size: debrisUniforms.size,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    const particles = device.createBuffer({
+      size: DEBRIS_PARTICLES * DEBRIS_PARTICLE_SIZE,
+      usage: GPUBufferUsage.STORAGE,
+    });
+    this.grid = device.createBuffer({
+      size: DEBRIS_GRID ** 3 * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    this.bindGroup = device.createBindGroup({
+      layout: this.pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: particles } },
+        { binding: 2, resource: { buffer: this.grid } },
+      ],
+    });
+  }
+
+  // Records `passes` rounds of stepping towards shader time `time`; nothing
+  // while there is no debris, which the scene shader then skips.
+  update(encoder: GPUCommandEncoder, state: SimulationState, time: number, passes = 1) {
+    const tde = tidalDisruption(state, time);
+    if (!tde?.disruption || tde.sincePericenter < tde.disruption.time) return;
+    const key = [
+      state.massSolar, state.tdeStarMass, state.tdeStarRadius, state.tdePenetration, state.tdeInclination, state.tdePericenterTime,
+    ].join(':');
+    if (key !== this.key) {
+      this.key = key;
+      this.epoch++;
+    }
+    packUniforms(debrisUniforms, {
+      disruptPos: tde.disruption.position,
+      disruptTime: tde.disruption.time,
+      disruptVel: tde.disruption.velocity,
+      starRadius: starRadius(state.massSolar, tde.star),
+      until: tde.sincePericenter,
+      particles: DEBRIS_PARTICLES,
+      epoch: this.epoch,
+      extent: tde.debrisExtent,
+      maxSteps: DEBRIS_STEPS,
+    }, this.uniformData);
+    this.device.queue.writeBuffer(this.uniformBuffer, 0, this.uniformData);
+    for (let i = 0; i < passes; i++) {
+      encoder.clearBuffer(this.grid);
+      const pass = encoder.beginComputePass();
+      pass.setPipeline(this.pipeline);
+      pass.setBindGroup(0, this.bindGroup);
+      pass.dispatchWorkgroups(Math.ceil(DEBRIS_PARTICLES / DEBRIS_WORKGROUP));
+      pass.end();
+    }
+  }
+}
+
+const EXPORT_FORMAT: GPUTextureFormat = 'rgba32float';
+
+// Renders HDR samples of fs_main into an rgba32float target and sums them
+// with the accumulate pass, ping-ponging between two sum textures.
+class WebGPUTileAccumulator implements TileAccumulator {
+  public readonly maxTileSize = 1024;
+  private device: GPUDevice;
+  private scenePipeline: GPURenderPipeline;
+  private accumulatePipeline: GPURenderPipeline;
+  private uniformBuffer: GPUBuffer;
+  private sceneBindGroup: GPUBindGroup;
+  private sampleTexture: GPUTexture;
+  private sums: [GPUTexture, GPUTexture];
+  // accumulateBindGroups[i] reads sums[i] and is used when rendering into the other
+  private accumulateBindGroups: [GPUBindGroup, GPUBindGroup];
+  private current = 0;
+  private tile: ExportTile = { x: 0, y: 0, width: 0, height: 0 };
+
+  // `sceneResources` are the scene shader's bindings other than the uniforms.
+  constructor(device: GPUDevice, sceneModule: GPUShaderModule, sceneResources: GPUBindGroupEntry[]) {
+    this.device = device;
+    this.scenePipeline = device.createRenderPipeline({
+      label: 'Black Hole Export Pipeline',
+      layout: 'auto',
+      vertex: { module: sceneModule, entryPoint: 'vs_main' },
+      fragment: { module: sceneModule, entryPoint: 'fs_main', targets: [{ format: EXPORT_FORMAT }] },
+      primitive: { topology: 'triangle-list' },
+    });
+
+    const accumulateModule = device.createShaderModule({ label: 'Accumulate Shader', code: accumulateWGSL });
+    this.accumulatePipeline = device.createRenderPipeline({
+      label: 'Accumulate Pipeline',
+      layout: 'auto',
+      vertex: { module: accumulateModule, entryPoint: 'vs_main' },
+      fragment: { module: accumulateModule, entryPoint: 'fs_main', targets: [{ format: EXPORT_FORMAT }] },
+      primitive: { topology: 'triangle-list' },
+    });
+
+    this.uniformBuffer = device.createBuffer({
+      size: blackholeUniforms.size,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.sceneBindGroup = device.createBindGroup({
+      layout: this.scenePipeline.getBindGroupLayout(0),
+      entries: [{ binding: 0, resource: { buffer: this.uniformBuffer } }, ...sceneResources],
+    });
+
+    const target = () => device.createTexture({
+      size: [this.maxTileSize, this.maxTileSize],
+      format: EXPORT_FORMAT,
+      usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_SRC,
+    });
+    this.sampleTexture = target();
+    this.sums = [target(), target()];
+    const accumulateGroup = (previous: GPUTexture) => device.createBindGroup({
+      layout: this.accumulatePipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: this.sampleTexture.createView() },
+        { binding: 1, resource: previous.createView() },
+      ],
+    });
+    this.accumulateBindGroups = [accumulateGroup(this.sums[0]), accumulateGroup(this.sums[1])];
+  }
+
+  begin(tile: ExportTile) {
+    this.tile = tile;
+    this.current = 0;
+    const encoder = this.device.createCommandEncoder();
+    encoder.beginRenderPass({
+      colorAttachments: [{
+        view: this.sums[0].createView(),
+        clearValue: { r: 0, g: 0, b: 0, a: 0 },
+        loadOp: 'clear',
+        storeOp: 'store',
+      }],
+    }).end();
+    this.device.queue.submit([encoder.finish()]);
+  }
+
+  async addSample(uniformData: ArrayBuffer) {
+    const { width, height } = this.tile;
+    this.device.queue.writeBuffer(this.uniformBuffer, 0, uniformData);
+    const encoder = this.device.createCommandEncoder();
+
+    const scenePass = encoder.beginRenderPass({
+      colorAttachments: [{ view: this.sampleTexture.createView(), loadOp: 'clear', storeOp: 'store' }],
+    });
+    scenePass.setViewport(0, 0, width, height, 0, 1);
+    scenePass.setPipeline(this.scenePipeline);
+    scenePass.setBindGroup(0, this.sceneBindGroup);
+    scenePass.draw(6, 1, 0, 0);
+    scenePass.end();
+
+    const next = 1 - this.current;
+    const accumulatePass = encoder.beginRenderPass({
+      colorAttachments: [{ view: this.sums[next].createView(), loadOp: 'clear', storeOp: 'store' }],
+    });
+    accumulatePass.setViewport(0, 0, width, height, 0, 1);
+    accumulatePass.setPipeline(this.accumulatePipeline);
+    accumulatePass.setBindGroup(0, this.accumulateBindGroups[this.current]);
+    accumulatePass.draw(3, 1, 0, 0);
+    accumulatePass.end();
+
+    this.device.queue.submit([encoder.finish()]);
+    this.current = next;
+    // One sample in flight at a time keeps the UI responsive and stays
+    // clear of GPU watchdog timeouts on slow integrators.
+    await this.device.queue.onSubmittedWorkDone();
+  }
+
+  async read(): Promise<Float32Array> {
+    const { width, height } = this.tile;
+    const bytesPerPixel = 16;
+    const bytesPerRow = Math.ceil((width * bytesPerPixel) / 256) * 256;
+    const readback = this.device.createBuffer({
+      size: bytesPerRow * height,
+      usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+    });
+
+    const encoder = this.device.createCommandEncoder();
+    encoder.copyTextureToBuffer(
+      { texture: this.sums[this.current] },
+      { buffer: readback, bytesPerRow },
+      [width, height],
+    );
+    this.device.queue.submit([encoder.finish()]);
+
+    await readback.mapAsync(GPUMapMode.READ);
+    const mapped = readback.getMappedRange();
+    const out = new Float32Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      out.set(new Float32Array(mapped, y * bytesPerRow, width * 4), y * width * 4);
+    }
+    readback.unmap();
+    readback.destroy();
+    return out;
+  }
+
+  destroy() {
+    this.uniformBuffer.destroy();
+    this.sampleTexture.destroy();
+    this.sums.forEach(texture => texture.destroy());
+  }
+}
@@ -0,0 +1,223 @@
+import { DEFAULT_STATE, SimulationState } from './renderer';
+import { CAMERA_LIMITS, CAMERA_MODE_LABELS, normalizeQuat, Vec3 } from './camera';
+import { MAX_SPIN } from './kerr';
+import { OBSERVER_LABELS } from './observer';
+import { CUSTOM_PRESET_ID, findPreset } from './presets';
+import { OBSERVING_BANDS } from './spectrum';
+import { SKY_BACKGROUND_LABELS } from './skybox';
+import { LEGACY_VIEW_MODES, VIEW_MODE_ID } from './viewModes';
+
+// Versioned snapshots of the full SimulationState, shared as a URL hash
+// (#scene=…) or saved as a JSON preset. Loading validates every field and
+// clamps it to what the controls can produce, so a hand-edited or stale
+// link can't put the renderer into a state the UI never would.
+//
+// SCENE_VERSION is bumped whenever a field is renamed or changes meaning;
+// MIGRATIONS[n] then upgrades a version n scene to n + 1. Fields added with a
+// sensible default need no migration: missing fields fall back to
+// DEFAULT_STATE.
+
+export const SCENE_VERSION = 2;
+
+export interface SceneFile {
+  version: number;
+  state: SimulationState;
+}
+
+// Ranges of the control panel sliders.
+export const STATE_LIMITS = {
+  maxTimeSpeed: 5,
+  minLogMass: 0,
+  maxLogMass: 11.5,
+  minLogAccretion: -3,
+  maxLogAccretion: 1,
+  // Source panel; lengths in Rs, angles in radians
+  maxDiskInnerIsco: 10,
+  minDiskOuter: 5,
+  maxDiskOuter: 100,
+  minDiskThickness: 0.05,
+  maxDiskThickness: 2,
+  maxDiskTilt: Math.PI / 2,
+  maxDiskWarp: Math.PI / 4,
+  maxDiskPrecession: 2,
+  minJetLength: 5,
+  maxJetLength: 200,
+  minJetAngle: 0.005,
+  maxJetAngle: Math.PI / 6,
+  maxJetLorentz: 20,
+  minLogJetPower: -1,
+  maxLogJetPower: 1,
+  // Companion; smaller mass ratios turn it off
+  minBinaryMassRatio: 0.05,
+  maxBinaryMassRatio: 1,
+  minBinarySeparation: 5,
+  maxBinarySeparation: 100,
+  // Tidal disruption: star mass in solar masses and radius in solar radii,
+  // both on log sliders, and the penetration factor β
+  minLogStarMass: -1,
+  maxLogStarMass: 1,
+  minLogStarRadius: -1,
+  maxLogStarRadius: 2,
+  maxTdePenetration: 5,
+};
+
+type SceneObject = Record<string, unknown>;
+
+const MIGRATIONS: Record<number, (scene: SceneObject) => SceneObject> = {
+  // Version 0 is a bare state object, as embedded in exported PNGs
+  0: state => ({ version: 1, state }),
+  // viewMode went from an index to a registered mode id
+  1: ({ state, ...scene }) => ({
+    ...scene,
+    version: 2,
+    state: isObject(state) && typeof state.viewMode === 'number'
+      ? { ...state, viewMode: LEGACY_VIEW_MODES[state.viewMode] ?? 'classic' }
+      : state,
+  }),
+};
+
+const HASH_KEY = 'scene';
+
+function fail(message: string): never {
+  throw new Error(`Invalid scene: ${message}`);
+}
+
+const isObject = (value: unknown): value is SceneObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function clamp(x: number, lo: number, hi: number): number {
+  return Math.min(Math.max(x, lo), hi);
+}
+
+// Brings a scene object of any known version up to SCENE_VERSION.
+function migrate(data: SceneObject): SceneObject {
+  let scene = typeof data.version === 'number' ? data : MIGRATIONS[0](data);
+  let version = scene.version as number;
+  while (version < SCENE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) fail(`unsupported version ${version}.`);
+    scene = step(scene);
+    version = scene.version as number;
+  }
+  if (version !== SCENE_VERSION) fail(`unsupported version ${version}.`);
+  return scene;
+}
+
+// Validates a migrated state: fields of the wrong type are rejected, numbers
+// are clamped to the control ranges, and missing fields take their defaults.
+export function validateState(data: unknown): SimulationState {
+  if (typeof data !== 'object' || data === null) fail('state must be an object.');
+  const input = data as Record<string, unknown>;
+  const state = { ...DEFAULT_STATE } as Record<string, unknown>;
+  for (const field of Object.keys(DEFAULT_STATE) as (keyof SimulationState)[]) {
+    const value = input[field];
+    if (value === undefined) continue;
+    const fallback = DEFAULT_STATE[field];
+    if (Array.isArray(fallback)) {
+      if (!Array.isArray(value) || value.length !== fallback.length || value.some(v => typeof v !== 'number' || !Number.isFinite(v))) {
+        fail(`field "${field}" must be ${fallback.length} finite numbers.`);
+      }
+      state[field] = [...value];
+      continue;
+    }
+    const expected = typeof fallback;
+    if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+      fail(`field "${field}" must be a ${expected === 'number' ? 'finite number' : expected}.`);
+    }
+    state[field] = value;
+  }
+
+  const s = state as unknown as SimulationState;
+  if (s.integrator !== 'fast' && s.integrator !== 'accurate') fail(`unknown integrator "${s.integrator}".`);
+  if (!Object.keys(OBSERVER_LABELS).includes(s.observer)) fail(`unknown observer "${s.observer}".`);
+  if (!Object.keys(SKY_BACKGROUND_LABELS).includes(s.background)) fail(`unknown background "${s.background}".`);
+  if (!Object.keys(CAMERA_MODE_LABELS).includes(s.cameraMode)) fail(`unknown camera mode "${s.cameraMode}".`);
+  // Modes from plugins that aren't loaded are kept, and drawn as classic
+  if (!VIEW_MODE_ID.test(s.viewMode)) fail(`bad view mode id "${s.viewMode}".`);
+
+  const flyDistance = Math.hypot(...s.flyPosition);
+  const flyScale = flyDistance > 0 ? clamp(flyDistance, CAMERA_LIMITS.minDistance, CAMERA_LIMITS.maxDistance) / flyDistance : 1;
+  const massSolar = clamp(s.massSolar, 10 ** STATE_LIMITS.minLogMass, 10 ** STATE_LIMITS.maxLogMass);
+  const preset = findPreset(s.presetId);
+  return {
+    ...s,
+    wavelength: clamp(Math.round(s.wavelength), 0, OBSERVING_BANDS.length - 1),
+    timeSpeed: clamp(s.timeSpeed, 0, STATE_LIMITS.maxTimeSpeed),
+    simulationTime: Math.max(0, s.simulationTime),
+    cameraDistance: clamp(s.cameraDistance, CAMERA_LIMITS.minDistance, CAMERA_LIMITS.maxDistance),
+    cameraAngleX: clamp(s.cameraAngleX, -CAMERA_LIMITS.maxPitch, CAMERA_LIMITS.maxPitch),
+    spin: clamp(s.spin, 0, MAX_SPIN),
+    // A preset id only stands if the mass still matches it
+    presetId: preset && preset.massSolar === massSolar ? preset.id : CUSTOM_PRESET_ID,
+    massSolar,
+    accretionRate: clamp(s.accretionRate, 10 ** STATE_LIMITS.minLogAccretion, 10 ** STATE_LIMITS.maxLogAccretion),
+    observerTime: Math.max(0, s.observerTime),
+    skyYaw: clamp(s.skyYaw, -Math.PI, Math.PI),
+    skyPitch: clamp(s.skyPitch, -Math.PI / 2, Math.PI / 2),
+    skyRoll: clamp(s.skyRoll, -Math.PI, Math.PI),
+    diskInnerIsco: clamp(s.diskInnerIsco, 1, STATE_LIMITS.maxDiskInnerIsco),
+    diskOuter: clamp(s.diskOuter, STATE_LIMITS.minDiskOuter, STATE_LIMITS.maxDiskOuter),
+    diskThickness: clamp(s.diskThickness, STATE_LIMITS.minDiskThickness, STATE_LIMITS.maxDiskThickness),
+    diskTilt: clamp(s.diskTilt, 0, STATE_LIMITS.maxDiskTilt),
+    diskWarp: clamp(s.diskWarp, -STATE_LIMITS.maxDiskWarp, STATE_LIMITS.maxDiskWarp),
+    diskPrecession: clamp(s.diskPrecession, -STATE_LIMITS.maxDiskPrecession, STATE_LIMITS.maxDiskPrecession),
+    jetLength: clamp(s.jetLength, STATE_LIMITS.minJetLength, STATE_LIMITS.maxJetLength),
+    jetAngle: clamp(s.jetAngle, STATE_LIMITS.minJetAngle, STATE_LIMITS.maxJetAngle),
+    jetLorentz: clamp(s.jetLorentz, 1, STATE_LIMITS.maxJetLorentz),
+    jetPower: clamp(s.jetPower, 10 ** STATE_LIMITS.minLogJetPower, 10 ** STATE_LIMITS.maxLogJetPower),
+    binaryMassRatio: s.binaryMassRatio < STATE_LIMITS.minBinaryMassRatio ? 0 : Math.min(s.binaryMassRatio, STATE_LIMITS.maxBinaryMassRatio),
+    binarySeparation: clamp(s.binarySeparation, STATE_LIMITS.minBinarySeparation, STATE_LIMITS.maxBinarySeparation),
+    binaryPhase: clamp(s.binaryPhase, -Math.PI, Math.PI),
+    tdeStarMass: clamp(s.tdeStarMass, 10 ** STATE_LIMITS.minLogStarMass, 10 ** STATE_LIMITS.maxLogStarMass),
+    tdeStarRadius: clamp(s.tdeStarRadius, 10 ** STATE_LIMITS.minLogStarRadius, 10 ** STATE_LIMITS.maxLogStarRadius),
+    tdePenetration: clamp(s.tdePenetration, 1, STATE_LIMITS.maxTdePenetration),
+    tdeInclination: clamp(s.tdeInclination, 0, Math.PI),
+    tdePericenterTime: Math.max(0, s.tdePericenterTime),
+    flyPosition: flyDistance > 0 ? s.flyPosition.map(x => x * flyScale) as Vec3 : [...DEFAULT_STATE.flyPosition],
+    flyOrientation: normalizeQuat(s.flyOrientation),
+  };
+}
+
+export function parseScene(json: string): SimulationState {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    fail('not JSON.');
+  }
+  if (!isObject(data)) fail('expected an object.');
+  return validateState(migrate(data).state);
+}
+
+export function serializeScene(state: SimulationState): string {
+  const scene: SceneFile = { version: SCENE_VERSION, state };
+  return JSON.stringify(scene, null, 2);
+}
+
+// base64url of the compact JSON, so links survive chat clients and e-mail.
+export function encodeSceneHash(state: SimulationState): string {
+  const bytes = new TextEncoder().encode(JSON.stringify({ version: SCENE_VERSION, state }));
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  const base64 = btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `#${HASH_KEY}=${base64}`;
+}
+
+// Returns null when the hash carries no scene; throws if it carries a bad one.
+export function decodeSceneHash(hash: string): SimulationState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  if (encoded === null) return null;
+  let json: string;
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    json = new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+  } catch {
+    fail('link is not valid base64.');
+  }
+  return parseScene(json);
+}
+
+export function sceneFileName(state: SimulationState): string {
+  return `${state.presetId}-scene.json`;
+}
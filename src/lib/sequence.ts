@@ -0,0 +1,70 @@
+import { SimulationRenderer, SimulationState } from './renderer';
+import { encodeExportPNG } from './export';
+import { serializeTimeline, Timeline, timelineFrames, keyframeState } from './timeline';
+import { storeZip, ZipEntry } from './zip';
+import { WebMEncoder } from './webm';
+
+// Offline rendering of a keyframe timeline. Every frame goes through the
+// still exporter, so it gets the same supersampling and tiling, at the
+// frame's own shader time.
+
+export type SequenceFormat = 'png' | 'webm';
+
+export const SEQUENCE_FORMAT_LABELS: Record<SequenceFormat, string> = {
+  png: 'PNG Sequence (.zip)',
+  webm: 'WebM Video',
+};
+
+export interface SequenceOptions {
+  format: SequenceFormat;
+  width: number;
+  height: number;
+  samples: number;
+  signal?: AbortSignal;
+  // Fraction of the whole sequence done, 0-1
+  onProgress?: (fraction: number, frame: number, frames: number) => void;
+}
+
+export async function exportSequence(
+  renderer: SimulationRenderer,
+  timeline: Timeline,
+  base: SimulationState,
+  options: SequenceOptions,
+): Promise<{ blob: Blob; fileName: string }> {
+  const { format, width, height, samples, signal, onProgress } = options;
+  const frames = timelineFrames(timeline, keyframeState(base));
+  const entries: ZipEntry[] = [];
+  const video = format === 'webm' ? await WebMEncoder.create(width, height, timeline.fps) : null;
+
+  try {
+    for (const frame of frames) {
+      const image = await renderer.exportImage({
+        width,
+        height,
+        samples,
+        state: { ...base, ...frame.state, cameraMode: 'orbit' },
+        time: frame.simulationTime,
+        signal,
+        onProgress: (done, total) => onProgress?.((frame.index + done / total) / frames.length, frame.index, frames.length),
+      });
+      if (video) {
+        await video.addFrame(image.pixels, frame.index);
+      } else {
+        const png = await encodeExportPNG(image);
+        entries.push({
+          name: `frame-${String(frame.index).padStart(5, '0')}.png`,
+          data: new Uint8Array(await png.arrayBuffer()),
+        });
+      }
+    }
+
+    const name = `${base.presetId}-${width}x${height}-${timeline.fps}fps`;
+    if (video) {
+      return { blob: await video.finish(), fileName: `${name}.webm` };
+    }
+    entries.push({ name: 'timeline.json', data: new TextEncoder().encode(serializeTimeline(timeline)) });
+    return { blob: storeZip(entries), fileName: `${name}.zip` };
+  } finally {
+    video?.close();
+  }
+}
@@ -0,0 +1,354 @@
+import type { Vec3 } from './camera';
+import { equatorialDirection } from './stars';
+
+// Equirectangular sky panoramas, sampled by the final direction of every ray
+// that escapes. Images are kept as sRGB RGBA8 with a full mip chain built
+// here (in linear light), so both backends and the CPU reference filter the
+// same texels; the shaders pick the level from the screen-space derivative
+// of the lensed direction, which blurs rather than aliases where lensing
+// stretches the sky, near the Einstein ring.
+//
+// Panoramas are in the sky frame of lib/stars: the centre column is RA 0h,
+// RA grows to the left as seen from inside, and the top row is the north
+// celestial pole. The sky frame is oriented in the scene by skyYaw,
+// skyPitch and skyRoll.
+
+export type SkyBackground = 'procedural' | 'panorama';
+
+export const SKY_BACKGROUND_LABELS: Record<SkyBackground, string> = {
+  procedural: 'Procedural',
+  panorama: 'Panorama',
+};
+
+// Radiance of a white panorama texel, before tonemapping
+export const SKY_EXPOSURE = 0.6;
+
+// Uploads are scaled down to this width; WebGPU guarantees 8192 and WebGL2
+// implementations 4096 or more.
+export const MAX_SKY_WIDTH = 4096;
+
+export interface SkyLevel {
+  width: number;
+  height: number;
+  // sRGB RGBA8, rows top to bottom
+  data: Uint8Array;
+}
+
+export interface SkyImage {
+  name: string;
+  // Mip chain down to 1x1, level 0 first
+  levels: SkyLevel[];
+}
+
+const SRGB_TO_LINEAR = new Float32Array(256).map((_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+// Encoding goes through a table over [0, 1] in linear steps of 1/4095
+const LINEAR_TO_SRGB = new Uint8Array(4096).map((_, i) => {
+  const c = i / 4095;
+  const s = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return Math.round(s * 255);
+});
+
+function linearToSRGB(c: number): number {
+  return LINEAR_TO_SRGB[Math.round(Math.min(Math.max(c, 0), 1) * 4095)];
+}
+
+// Box-filters each level into the next. Sizes halve (rounding down) like
+// GPU mip levels.
+export function createSkyImage(pixels: Uint8Array | Uint8ClampedArray, width: number, height: number, name: string): SkyImage {
+  if (pixels.length !== width * height * 4) {
+    throw new Error(`Sky image data is ${pixels.length} bytes; ${width}x${height} RGBA needs ${width * height * 4}.`);
+  }
+  const levels: SkyLevel[] = [{ width, height, data: new Uint8Array(pixels) }];
+  while (levels[levels.length - 1].width > 1 || levels[levels.length - 1].height > 1) {
+    const src = levels[levels.length - 1];
+    const w = Math.max(1, src.width >> 1);
+    const h = Math.max(1, src.height >> 1);
+    const data = new Uint8Array(w * h * 4);
+    for (let y = 0; y < h; y++) {
+      const y0 = Math.min(2 * y, src.height - 1) * src.width;
+      const y1 = Math.min(2 * y + 1, src.height - 1) * src.width;
+      for (let x = 0; x < w; x++) {
+        const x0 = Math.min(2 * x, src.width - 1);
+        const x1 = Math.min(2 * x + 1, src.width - 1);
+        const corners = [(y0 + x0) * 4, (y0 + x1) * 4, (y1 + x0) * 4, (y1 + x1) * 4];
+        const o = (y * w + x) * 4;
+        for (let k = 0; k < 3; k++) {
+          let sum = 0;
+          for (const c of corners) sum += SRGB_TO_LINEAR[src.data[c + k]];
+          data[o + k] = linearToSRGB(sum / 4);
+        }
+        data[o + 3] = (src.data[corners[0] + 3] + src.data[corners[1] + 3] + src.data[corners[2] + 3] + src.data[corners[3] + 3] + 2) >> 2;
+      }
+    }
+    levels.push({ width: w, height: h, data });
+  }
+  return { name, levels };
+}
+
+// Decodes an uploaded image in the browser.
+export async function loadSkyImage(file: File): Promise<SkyImage> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const aspect = bitmap.width / bitmap.height;
+    if (Math.abs(aspect - 2) > 0.1) {
+      throw new Error(`An equirectangular panorama is twice as wide as it is tall; ${file.name} is ${bitmap.width}x${bitmap.height}.`);
+    }
+    const width = Math.min(bitmap.width, MAX_SKY_WIDTH);
+    const height = Math.round(width / aspect);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return createSkyImage(ctx.getImageData(0, 0, width, height).data, width, height, file.name);
+  } finally {
+    bitmap.close();
+  }
+}
+
+type Mat3 = [Vec3, Vec3, Vec3];
+
+function multiply(a: Mat3, b: Mat3): Mat3 {
+  return a.map(row => [0, 1, 2].map(j => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j])) as Mat3;
+}
+
+function rotationY(angle: number): Mat3 {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  return [[c, 0, s], [0, 1, 0], [-s, 0, c]];
+}
+
+function rotationX(angle: number): Mat3 {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  return [[1, 0, 0], [0, c, -s], [0, s, c]];
+}
+
+// Rows of the rotation from scene to sky directions. The sky is turned by
+// roll about its own pole, tilted by pitch, then turned by yaw about the
+// scene's (and the spin's) y axis.
+export function skyMatrix(yaw: number, pitch: number, roll: number): Mat3 {
+  const toScene = multiply(rotationY(yaw), multiply(rotationX(pitch), rotationY(roll)));
+  // The inverse of a rotation is its transpose
+  return [0, 1, 2].map(i => [toScene[0][i], toScene[1][i], toScene[2][i]]) as Mat3;
+}
+
+// Panorama coordinates of a sky direction, as in the shaders' equirectUV.
+export function equirectUV(d: Vec3): [number, number] {
+  const u = 0.5 - Math.atan2(-d[2], d[0]) / (2 * Math.PI);
+  const v = 0.5 - Math.asin(Math.min(Math.max(d[1], -1), 1)) / Math.PI;
+  return [u - Math.floor(u), v];
+}
+
+// Change in (u, v) for a small change `dd` of the direction `d`. Unlike
+// differencing equirectUV it has no jump at the seam.
+export function equirectGradient(d: Vec3, dd: Vec3): [number, number] {
+  const rho2 = Math.max(d[0] * d[0] + d[2] * d[2], 1e-6);
+  return [
+    -(d[2] * dd[0] - d[0] * dd[2]) / (rho2 * 2 * Math.PI),
+    -dd[1] / (Math.sqrt(rho2) * Math.PI),
+  ];
+}
+
+function bilinear(level: SkyLevel, u: number, v: number, out: Vec3, weight: number) {
+  const x = u * level.width - 0.5;
+  const y = v * level.height - 0.5;
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const fx = x - x0, fy = y - y0;
+  // Repeat horizontally, clamp vertically
+  const xs = [((x0 % level.width) + level.width) % level.width, (((x0 + 1) % level.width) + level.width) % level.width];
+  const ys = [Math.min(Math.max(y0, 0), level.height - 1), Math.min(Math.max(y0 + 1, 0), level.height - 1)];
+  const weights = [(1 - fx) * (1 - fy), fx * (1 - fy), (1 - fx) * fy, fx * fy];
+  for (let i = 0; i < 4; i++) {
+    const o = (ys[i >> 1] * level.width + xs[i & 1]) * 4;
+    for (let k = 0; k < 3; k++) out[k] += SRGB_TO_LINEAR[level.data[o + k]] * weights[i] * weight;
+  }
+}
+
+// Trilinear sample in linear RGB, with the level of detail chosen from the
+// direction's screen-space derivatives like textureSampleGrad.
+export function sampleSky(image: SkyImage, d: Vec3, ddx: Vec3, ddy: Vec3): Vec3 {
+  const [u, v] = equirectUV(d);
+  const { width, height } = image.levels[0];
+  const [dux, dvx] = equirectGradient(d, ddx);
+  const [duy, dvy] = equirectGradient(d, ddy);
+  const rho = Math.max(Math.hypot(dux * width, dvx * height), Math.hypot(duy * width, dvy * height));
+  const lod = Math.min(Math.max(Math.log2(Math.max(rho, 1e-12)), 0), image.levels.length - 1);
+  const l0 = Math.floor(lod);
+  const t = lod - l0;
+  const out: Vec3 = [0, 0, 0];
+  bilinear(image.levels[l0], u, v, out, 1 - t);
+  if (t > 0) bilinear(image.levels[l0 + 1], u, v, out, t);
+  return out;
+}
+
+// Integer-lattice value noise for the generated panorama
+function hash3(x: number, y: number, z: number): number {
+  let h = Math.imul(x, 0x8da6b343) ^ Math.imul(y, 0xd8163841) ^ Math.imul(z, 0xcb1ab31f);
+  h = Math.imul(h ^ (h >>> 13), 0x5bd1e995);
+  return ((h ^ (h >>> 15)) >>> 0) / 4294967296;
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function valueNoise(x: number, y: number, z: number): number {
+  const ix = Math.floor(x), iy = Math.floor(y), iz = Math.floor(z);
+  const fx = x - ix, fy = y - iy, fz = z - iz;
+  const sx = fx * fx * (3 - 2 * fx), sy = fy * fy * (3 - 2 * fy), sz = fz * fz * (3 - 2 * fz);
+  const near = lerp(
+    lerp(hash3(ix, iy, iz), hash3(ix + 1, iy, iz), sx),
+    lerp(hash3(ix, iy + 1, iz), hash3(ix + 1, iy + 1, iz), sx),
+    sy,
+  );
+  const far = lerp(
+    lerp(hash3(ix, iy, iz + 1), hash3(ix + 1, iy, iz + 1), sx),
+    lerp(hash3(ix, iy + 1, iz + 1), hash3(ix + 1, iy + 1, iz + 1), sx),
+    sy,
+  );
+  return lerp(near, far, sz);
+}
+
+function fbm3(d: Vec3, frequency: number, octaves: number): number {
+  let sum = 0, amplitude = 0.5, total = 0;
+  for (let i = 0; i < octaves; i++) {
+    sum += valueNoise(d[0] * frequency + 17.1 * i, d[1] * frequency, d[2] * frequency) * amplitude;
+    total += amplitude;
+    frequency *= 2;
+    amplitude *= 0.5;
+  }
+  return sum / total;
+}
+
+// Galactic frame in sky coordinates: x to the galactic centre, z to the
+// north galactic pole.
+const GALACTIC_POLE = equatorialDirection(192.85948 / 15, 27.12825);
+const GALACTIC_CENTRE = (() => {
+  const c = equatorialDirection(266.40499 / 15, -28.93617);
+  const k = c[0] * GALACTIC_POLE[0] + c[1] * GALACTIC_POLE[1] + c[2] * GALACTIC_POLE[2];
+  const x: Vec3 = [c[0] - k * GALACTIC_POLE[0], c[1] - k * GALACTIC_POLE[1], c[2] - k * GALACTIC_POLE[2]];
+  const l = Math.hypot(...x);
+  return x.map(v => v / l) as Vec3;
+})();
+const GALACTIC_Y: Vec3 = [
+  GALACTIC_POLE[1] * GALACTIC_CENTRE[2] - GALACTIC_POLE[2] * GALACTIC_CENTRE[1],
+  GALACTIC_POLE[2] * GALACTIC_CENTRE[0] - GALACTIC_POLE[0] * GALACTIC_CENTRE[2],
+  GALACTIC_POLE[0] * GALACTIC_CENTRE[1] - GALACTIC_POLE[1] * GALACTIC_CENTRE[0],
+];
+
+// Galactic longitude and latitude in degrees, longitude in [-180, 180).
+export function galacticCoordinates(d: Vec3): [number, number] {
+  const dot = (a: Vec3) => a[0] * d[0] + a[1] * d[1] + a[2] * d[2];
+  const l = Math.atan2(dot(GALACTIC_Y), dot(GALACTIC_CENTRE));
+  const b = Math.asin(Math.min(Math.max(dot(GALACTIC_POLE), -1), 1));
+  return [(l * 180) / Math.PI, (b * 180) / Math.PI];
+}
+
+// Magellanic clouds: galactic (l, b), radius and brightness
+const SATELLITES = [
+  { l: -79.5, b: -32.9, radius: 2.8, brightness: 0.3 },
+  { l: -57.2, b: -44.3, radius: 1.4, brightness: 0.2 },
+];
+
+function angularDistance(l0: number, b0: number, l1: number, b1: number): number {
+  const r = Math.PI / 180;
+  const c = Math.sin(b0 * r) * Math.sin(b1 * r) + Math.cos(b0 * r) * Math.cos(b1 * r) * Math.cos((l0 - l1) * r);
+  return Math.acos(Math.min(Math.max(c, -1), 1)) / r;
+}
+
+// Smooth light of the Milky Way towards `d`: linear rgb and the density of
+// faint stars per texel.
+function milkyWayLight(d: Vec3, out: Float32Array, o: number) {
+  const warm: Vec3 = [1.0, 0.84, 0.64];
+  const cool: Vec3 = [0.75, 0.84, 1.0];
+  const [l, b] = galacticCoordinates(d);
+  let r = 0, g = 0, bl = 0, lanes = 0, clumps = 1;
+  // Beyond 40 degrees from the plane only the clouds and stars are left
+  if (Math.abs(b) < 40) {
+    const thickness = 4 + 3 * Math.exp(-((l / 50) ** 2));
+    const disk = (0.05 + 0.2 * Math.exp(-((l / 70) ** 2))) * Math.exp(-Math.abs(b) / thickness);
+    const bulge = 0.4 * Math.exp(-((l / 13) ** 2) - ((b / 9) ** 2));
+    clumps = 0.45 + 1.1 * fbm3(d, 10, 4);
+    lanes = Math.exp(-(((b - 0.5) / 3.5) ** 2)) * Math.min(Math.max((fbm3(d, 7, 4) - 0.32) / 0.2, 0), 1);
+    const dust = 1 - 0.85 * lanes;
+    const k = disk * clumps * dust, w = bulge * (0.6 + 0.4 * clumps) * dust;
+    r = cool[0] * k + warm[0] * w;
+    g = cool[1] * k + warm[1] * w;
+    bl = cool[2] * k + warm[2] * w;
+  }
+  for (const s of SATELLITES) {
+    const a = angularDistance(l, b, s.l, s.b) / s.radius;
+    if (a < 4) {
+      const k = s.brightness * Math.exp(-0.5 * a * a);
+      r += cool[0] * k;
+      g += cool[1] * k;
+      bl += cool[2] * k;
+    }
+  }
+  // Dust reddens what it doesn't block
+  out[o] = r;
+  out[o + 1] = g * (1 - 0.12 * lanes);
+  out[o + 2] = bl * (1 - 0.25 * lanes);
+  out[o + 3] = (0.015 + 0.08 * Math.exp(-Math.abs(b) / 10)) * (1 - 0.85 * lanes);
+}
+
+// A stylised Milky Way: exponential disk light and a bulge, broken up by
+// noise and dark dust lanes along the plane, the Magellanic clouds and a
+// field of faint stars that thickens towards the plane. It is generated in
+// equatorial coordinates, so it lines up with the star catalog. The smooth
+// light is evaluated on a grid `coarse` times smaller and interpolated;
+// only the stars are per texel.
+function generateMilkyWay(width: number, height: number, coarse = 4): SkyImage {
+  const gw = width / coarse + 1, gh = height / coarse + 1;
+  const grid = new Float32Array(gw * gh * 4);
+  for (let j = 0; j < gh; j++) {
+    const dec = Math.PI * (0.5 - Math.min(j * coarse + 0.5, height) / height);
+    for (let i = 0; i < gw; i++) {
+      const ra = 2 * Math.PI * (0.5 - (i * coarse + 0.5) / width);
+      milkyWayLight([Math.cos(dec) * Math.cos(ra), Math.sin(dec), -Math.cos(dec) * Math.sin(ra)], grid, (j * gw + i) * 4);
+    }
+  }
+
+  const pixels = new Uint8Array(width * height * 4);
+  const warm: Vec3 = [1.0, 0.84, 0.64];
+  const cool: Vec3 = [0.75, 0.84, 1.0];
+  const light = [0, 0, 0, 0];
+  for (let y = 0; y < height; y++) {
+    const j = Math.floor(y / coarse), fy = (y % coarse) / coarse;
+    for (let x = 0; x < width; x++) {
+      const i = Math.floor(x / coarse), fx = (x % coarse) / coarse;
+      const o00 = (j * gw + i) * 4, o10 = o00 + 4, o01 = o00 + gw * 4, o11 = o01 + 4;
+      for (let k = 0; k < 4; k++) {
+        light[k] = lerp(lerp(grid[o00 + k], grid[o10 + k], fx), lerp(grid[o01 + k], grid[o11 + k], fx), fy);
+      }
+      if (hash3(x, y, 7) < light[3]) {
+        const brightness = 0.04 + 1.5 * Math.pow(hash3(x, y, 11), 10);
+        const tint = hash3(x, y, 13) < 0.5 ? warm : cool;
+        for (let k = 0; k < 3; k++) light[k] += tint[k] * brightness;
+      }
+      const o = (y * width + x) * 4;
+      pixels[o] = linearToSRGB(light[0]);
+      pixels[o + 1] = linearToSRGB(light[1]);
+      pixels[o + 2] = linearToSRGB(light[2]);
+      pixels[o + 3] = 255;
+    }
+  }
+  return createSkyImage(pixels, width, height, 'Milky Way');
+}
+
+let cachedMilkyWay: SkyImage | null = null;
+
+// The default panorama, generated on first use.
+export function milkyWayPanorama(): SkyImage {
+  if (!cachedMilkyWay) cachedMilkyWay = generateMilkyWay(2048, 1024);
+  return cachedMilkyWay;
+}
+
+// The panorama a state shows: an uploaded image if there is one, else the
+// Milky Way. Null for the procedural background.
+export function activeSky(background: SkyBackground, custom: SkyImage | null): SkyImage | null {
+  return background === 'panorama' ? custom ?? milkyWayPanorama() : null;
+}
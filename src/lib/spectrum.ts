@@ -0,0 +1,154 @@
+// Blackbody spectra integrated over the observing bands offered in the UI.
+// The result is baked into a lookup table indexed by (band, log T) that the
+// shader samples at the observed temperature g·T: a redshifted blackbody is
+// again a blackbody, B_ν(ν/g, T) g³ = B_ν(ν, gT), so one table covers both
+// the emitted spectrum and every Doppler/gravitational shift.
+
+const H = 6.62607015e-34;
+const C = 299792458;
+const K_B = 1.380649e-23;
+
+export interface ObservingBand {
+  id: string;
+  label: string;
+  // Wavelength range in metres.
+  minWavelength: number;
+  maxWavelength: number;
+  // False colours for the long- and short-wavelength ends of non-visible
+  // bands, blended by spectral hardness.
+  soft?: [number, number, number];
+  hard?: [number, number, number];
+}
+
+// Index order matches SimulationState.wavelength.
+export const OBSERVING_BANDS: ObservingBand[] = [
+  { id: 'visible', label: 'Visible Light', minWavelength: 380e-9, maxWavelength: 780e-9 },
+  // 0.1 - 10 keV
+  { id: 'xray', label: 'X-Ray', minWavelength: 0.124e-9, maxWavelength: 12.4e-9, soft: [0.1, 0.5, 1.0], hard: [0.8, 0.9, 1.0] },
+  // 1 - 300 GHz
+  { id: 'radio', label: 'Radio', minWavelength: 1e-3, maxWavelength: 0.3, soft: [1.0, 0.1, 0.1], hard: [1.0, 0.5, 0.2] },
+  // 0.78 - 30 µm
+  { id: 'infrared', label: 'Infrared', minWavelength: 0.78e-6, maxWavelength: 30e-6, soft: [0.8, 0.2, 0.0], hard: [1.0, 0.6, 0.3] },
+];
+
+export const LUT_SIZE = 256;
+export const LUT_LOG_T_MIN = 2.5;
+export const LUT_LOG_T_MAX = 9.0;
+
+// Planck spectral radiance B_λ(T), W sr⁻¹ m⁻³.
+export function planck(wavelength: number, temperature: number): number {
+  const x = (H * C) / (wavelength * K_B * temperature);
+  if (x > 700) return 0;
+  return (2 * H * C * C) / (Math.pow(wavelength, 5) * Math.expm1(x));
+}
+
+function lobe(x: number, mu: number, sigma1: number, sigma2: number): number {
+  const t = (x - mu) / (x < mu ? sigma1 : sigma2);
+  return Math.exp(-0.5 * t * t);
+}
+
+// CIE 1931 2° colour matching functions, multi-lobe fit from Wyman, Sloan &
+// Shirley (2013). `nm` is the wavelength in nanometres.
+export function cieXYZ(nm: number): [number, number, number] {
+  return [
+    1.056 * lobe(nm, 599.8, 37.9, 31.0) + 0.362 * lobe(nm, 442.0, 16.0, 26.7) - 0.065 * lobe(nm, 501.1, 20.4, 26.2),
+    0.821 * lobe(nm, 568.8, 46.9, 40.5) + 0.286 * lobe(nm, 530.9, 16.3, 31.1),
+    1.217 * lobe(nm, 437.0, 11.8, 36.0) + 0.681 * lobe(nm, 459.0, 26.0, 13.8),
+  ];
+}
+
+// CIE XYZ to linear sRGB (D65).
+export function xyzToLinearSRGB(x: number, y: number, z: number): [number, number, number] {
+  return [
+    3.2406 * x - 1.5372 * y - 0.4986 * z,
+    -0.9689 * x + 1.8758 * y + 0.0415 * z,
+    0.0557 * x - 0.2040 * y + 1.0570 * z,
+  ];
+}
+
+// Integrates B_λ over [λ0, λ1] on a logarithmic grid, optionally weighted.
+function integrate(
+  temperature: number,
+  lambda0: number,
+  lambda1: number,
+  weight: (wavelength: number) => number = () => 1,
+  samples: number = 96,
+): number {
+  const l0 = Math.log(lambda0);
+  const dl = (Math.log(lambda1) - l0) / samples;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const wavelength = Math.exp(l0 + (i + 0.5) * dl);
+    // dλ = λ d(ln λ)
+    sum += planck(wavelength, temperature) * weight(wavelength) * wavelength * dl;
+  }
+  return sum;
+}
+
+// Linear RGB radiance of a blackbody observed through `band`. Visible light
+// is converted through the CIE observer; the other bands return the band
+// integral, tinted by how much of it falls in the short-wavelength half.
+export function bandColor(band: ObservingBand, temperature: number): [number, number, number] {
+  if (!band.soft || !band.hard) {
+    const x = integrate(temperature, band.minWavelength, band.maxWavelength, l => cieXYZ(l * 1e9)[0]);
+    const y = integrate(temperature, band.minWavelength, band.maxWavelength, l => cieXYZ(l * 1e9)[1]);
+    const z = integrate(temperature, band.minWavelength, band.maxWavelength, l => cieXYZ(l * 1e9)[2]);
+    const rgb = xyzToLinearSRGB(x, y, z);
+    return [Math.max(rgb[0], 0), Math.max(rgb[1], 0), Math.max(rgb[2], 0)];
+  }
+
+  const split = Math.sqrt(band.minWavelength * band.maxWavelength);
+  const hard = integrate(temperature, band.minWavelength, split);
+  const soft = integrate(temperature, split, band.maxWavelength);
+  const total = hard + soft;
+  const hardness = total > 0 ? hard / total : 0;
+  return [0, 1, 2].map(i => (band.soft![i] * (1 - hardness) + band.hard![i] * hardness) * total) as [number, number, number];
+}
+
+// Lookup table of vec4 entries, LUT_SIZE per band in OBSERVING_BANDS order:
+// rgb is the colour scaled to a maximum component of 1 and w is log10 of
+// that scale, so that the huge dynamic range of the Wien tail survives f32.
+export function buildSpectrumLUT(): Float32Array {
+  const lut = new Float32Array(OBSERVING_BANDS.length * LUT_SIZE * 4);
+  OBSERVING_BANDS.forEach((band, b) => {
+    for (let i = 0; i < LUT_SIZE; i++) {
+      const logT = LUT_LOG_T_MIN + ((LUT_LOG_T_MAX - LUT_LOG_T_MIN) * i) / (LUT_SIZE - 1);
+      const rgb = bandColor(band, Math.pow(10, logT));
+      const scale = Math.max(rgb[0], rgb[1], rgb[2]);
+      const o = (b * LUT_SIZE + i) * 4;
+      if (scale > 0) {
+        lut[o] = rgb[0] / scale;
+        lut[o + 1] = rgb[1] / scale;
+        lut[o + 2] = rgb[2] / scale;
+        lut[o + 3] = Math.log10(scale);
+      } else {
+        lut[o + 3] = -300;
+      }
+    }
+  });
+  return lut;
+}
+
+let cachedLUT: Float32Array | null = null;
+
+// The table only depends on the constants above; build it once.
+export function spectrumLUT(): Float32Array {
+  if (!cachedLUT) cachedLUT = buildSpectrumLUT();
+  return cachedLUT;
+}
+
+// Samples the table like the shader does: linear in log T, clamped.
+export function sampleSpectrumLUT(
+  lut: Float32Array,
+  band: number,
+  temperature: number,
+): { color: [number, number, number]; logScale: number } {
+  const t = (Math.log10(Math.max(temperature, 1)) - LUT_LOG_T_MIN) / (LUT_LOG_T_MAX - LUT_LOG_T_MIN) * (LUT_SIZE - 1);
+  const f = Math.min(Math.max(t, 0), LUT_SIZE - 1);
+  const i0 = Math.floor(Math.min(f, LUT_SIZE - 2));
+  const w = f - i0;
+  const o0 = (band * LUT_SIZE + i0) * 4;
+  const o1 = o0 + 4;
+  const mixAt = (k: number) => lut[o0 + k] * (1 - w) + lut[o1 + k] * w;
+  return { color: [mixAt(0), mixAt(1), mixAt(2)], logScale: mixAt(3) };
+}
@@ -0,0 +1,168 @@
+import type { Vec3 } from './camera';
+import { sampleSpectrumLUT, spectrumLUT } from './spectrum';
+
+// Bright-star catalog drawn as point sources on the lensed sky. Positions
+// are J2000 equatorial coordinates; colours come from B-V through a
+// blackbody temperature, so they match the disk's spectrum handling.
+//
+// The sky frame is equatorial with y towards the north celestial pole and
+// x towards RA 0h, Dec 0; see lib/skybox for how it is oriented in the scene.
+
+export interface CatalogStar {
+  name: string;
+  // Right ascension in hours and declination in degrees
+  ra: number;
+  dec: number;
+  // Apparent visual magnitude and B-V colour index
+  mag: number;
+  bv: number;
+}
+
+// Every star to about magnitude 2.5, plus a few fainter ones that complete
+// familiar asterisms (the Plough, Cassiopeia, the Pleiades, Crux).
+export const BRIGHT_STARS: CatalogStar[] = [
+  { name: 'Sirius', ra: 6.7525, dec: -16.716, mag: -1.46, bv: 0.0 },
+  { name: 'Canopus', ra: 6.3992, dec: -52.696, mag: -0.74, bv: 0.15 },
+  { name: 'Rigil Kentaurus', ra: 14.66, dec: -60.834, mag: -0.27, bv: 0.71 },
+  { name: 'Arcturus', ra: 14.261, dec: 19.182, mag: -0.05, bv: 1.23 },
+  { name: 'Vega', ra: 18.6156, dec: 38.784, mag: 0.03, bv: 0.0 },
+  { name: 'Capella', ra: 5.2782, dec: 45.998, mag: 0.08, bv: 0.8 },
+  { name: 'Rigel', ra: 5.2423, dec: -8.202, mag: 0.13, bv: -0.03 },
+  { name: 'Procyon', ra: 7.655, dec: 5.225, mag: 0.34, bv: 0.42 },
+  { name: 'Achernar', ra: 1.6286, dec: -57.237, mag: 0.46, bv: -0.16 },
+  { name: 'Betelgeuse', ra: 5.9195, dec: 7.407, mag: 0.5, bv: 1.85 },
+  { name: 'Hadar', ra: 14.0637, dec: -60.373, mag: 0.61, bv: -0.23 },
+  { name: 'Altair', ra: 19.8464, dec: 8.868, mag: 0.76, bv: 0.22 },
+  { name: 'Acrux', ra: 12.4433, dec: -63.099, mag: 0.76, bv: -0.24 },
+  { name: 'Aldebaran', ra: 4.5987, dec: 16.509, mag: 0.86, bv: 1.54 },
+  { name: 'Antares', ra: 16.4901, dec: -26.432, mag: 0.96, bv: 1.83 },
+  { name: 'Spica', ra: 13.4199, dec: -11.161, mag: 0.97, bv: -0.23 },
+  { name: 'Pollux', ra: 7.7553, dec: 28.026, mag: 1.14, bv: 1.0 },
+  { name: 'Fomalhaut', ra: 22.9608, dec: -29.622, mag: 1.16, bv: 0.09 },
+  { name: 'Deneb', ra: 20.6905, dec: 45.28, mag: 1.25, bv: 0.09 },
+  { name: 'Mimosa', ra: 12.7954, dec: -59.689, mag: 1.25, bv: -0.23 },
+  { name: 'Regulus', ra: 10.1395, dec: 11.967, mag: 1.4, bv: -0.11 },
+  { name: 'Adhara', ra: 6.9771, dec: -28.972, mag: 1.5, bv: -0.21 },
+  { name: 'Castor', ra: 7.5767, dec: 31.888, mag: 1.58, bv: 0.03 },
+  { name: 'Shaula', ra: 17.5601, dec: -37.104, mag: 1.62, bv: -0.22 },
+  { name: 'Gacrux', ra: 12.5194, dec: -57.113, mag: 1.63, bv: 1.59 },
+  { name: 'Bellatrix', ra: 5.4189, dec: 6.35, mag: 1.64, bv: -0.22 },
+  { name: 'Elnath', ra: 5.4382, dec: 28.608, mag: 1.65, bv: -0.13 },
+  { name: 'Miaplacidus', ra: 9.22, dec: -69.717, mag: 1.69, bv: 0.07 },
+  { name: 'Alnilam', ra: 5.6036, dec: -1.202, mag: 1.69, bv: -0.18 },
+  { name: 'Regor', ra: 8.1589, dec: -47.337, mag: 1.72, bv: -0.22 },
+  { name: 'Alnair', ra: 22.1372, dec: -46.961, mag: 1.74, bv: -0.07 },
+  { name: 'Alnitak', ra: 5.6793, dec: -1.943, mag: 1.77, bv: -0.21 },
+  { name: 'Alioth', ra: 12.9005, dec: 55.96, mag: 1.77, bv: -0.02 },
+  { name: 'Dubhe', ra: 11.0621, dec: 61.751, mag: 1.79, bv: 1.07 },
+  { name: 'Mirfak', ra: 3.4054, dec: 49.861, mag: 1.79, bv: 0.48 },
+  { name: 'Wezen', ra: 7.1399, dec: -26.393, mag: 1.84, bv: 0.68 },
+  { name: 'Kaus Australis', ra: 18.4029, dec: -34.385, mag: 1.85, bv: -0.03 },
+  { name: 'Sargas', ra: 17.622, dec: -42.998, mag: 1.86, bv: 0.4 },
+  { name: 'Avior', ra: 8.3752, dec: -59.51, mag: 1.86, bv: 1.28 },
+  { name: 'Alkaid', ra: 13.7923, dec: 49.313, mag: 1.86, bv: -0.19 },
+  { name: 'Menkalinan', ra: 5.9921, dec: 44.948, mag: 1.9, bv: 0.03 },
+  { name: 'Atria', ra: 16.8111, dec: -69.028, mag: 1.91, bv: 1.44 },
+  { name: 'Alhena', ra: 6.6285, dec: 16.399, mag: 1.93, bv: 0.0 },
+  { name: 'Peacock', ra: 20.4275, dec: -56.735, mag: 1.94, bv: -0.2 },
+  { name: 'Alsephina', ra: 8.7451, dec: -54.709, mag: 1.96, bv: 0.04 },
+  { name: 'Mirzam', ra: 6.3783, dec: -17.956, mag: 1.98, bv: -0.23 },
+  { name: 'Alphard', ra: 9.4598, dec: -8.659, mag: 1.98, bv: 1.44 },
+  { name: 'Polaris', ra: 2.5303, dec: 89.264, mag: 1.98, bv: 0.6 },
+  { name: 'Hamal', ra: 2.1195, dec: 23.463, mag: 2.0, bv: 1.15 },
+  { name: 'Algieba', ra: 10.3329, dec: 19.842, mag: 2.01, bv: 1.13 },
+  { name: 'Diphda', ra: 0.7265, dec: -17.987, mag: 2.02, bv: 1.02 },
+  { name: 'Nunki', ra: 18.9211, dec: -26.297, mag: 2.05, bv: -0.13 },
+  { name: 'Mirach', ra: 1.1622, dec: 35.621, mag: 2.05, bv: 1.58 },
+  { name: 'Menkent', ra: 14.1114, dec: -36.37, mag: 2.06, bv: 1.01 },
+  { name: 'Alpheratz', ra: 0.1398, dec: 29.09, mag: 2.06, bv: -0.11 },
+  { name: 'Tiaki', ra: 22.7111, dec: -46.885, mag: 2.07, bv: 1.6 },
+  { name: 'Rasalhague', ra: 17.5822, dec: 12.56, mag: 2.07, bv: 0.15 },
+  { name: 'Kochab', ra: 14.8451, dec: 74.156, mag: 2.08, bv: 1.47 },
+  { name: 'Saiph', ra: 5.7959, dec: -9.67, mag: 2.09, bv: -0.17 },
+  { name: 'Algol', ra: 3.1361, dec: 40.956, mag: 2.12, bv: -0.05 },
+  { name: 'Denebola', ra: 11.8177, dec: 14.572, mag: 2.14, bv: 0.09 },
+  { name: 'Muhlifain', ra: 12.6919, dec: -48.96, mag: 2.17, bv: -0.01 },
+  { name: 'Aspidiske', ra: 9.2848, dec: -59.275, mag: 2.21, bv: 0.18 },
+  { name: 'Suhail', ra: 9.1333, dec: -43.433, mag: 2.21, bv: 1.66 },
+  { name: 'Alphecca', ra: 15.5781, dec: 26.715, mag: 2.22, bv: -0.02 },
+  { name: 'Mintaka', ra: 5.5334, dec: -0.299, mag: 2.23, bv: -0.22 },
+  { name: 'Mizar', ra: 13.3988, dec: 54.925, mag: 2.23, bv: 0.02 },
+  { name: 'Sadr', ra: 20.3705, dec: 40.257, mag: 2.23, bv: 0.67 },
+  { name: 'Eltanin', ra: 17.9434, dec: 51.489, mag: 2.24, bv: 1.52 },
+  { name: 'Schedar', ra: 0.6751, dec: 56.537, mag: 2.24, bv: 1.17 },
+  { name: 'Naos', ra: 8.0597, dec: -40.003, mag: 2.25, bv: -0.27 },
+  { name: 'Almach', ra: 2.065, dec: 42.33, mag: 2.26, bv: 1.37 },
+  { name: 'Caph', ra: 0.153, dec: 59.15, mag: 2.28, bv: 0.34 },
+  { name: 'Larawag', ra: 16.8361, dec: -34.293, mag: 2.29, bv: 1.15 },
+  { name: 'Epsilon Centauri', ra: 13.6648, dec: -53.466, mag: 2.3, bv: -0.22 },
+  { name: 'Alpha Lupi', ra: 14.6988, dec: -47.388, mag: 2.3, bv: -0.15 },
+  { name: 'Dschubba', ra: 16.0056, dec: -22.622, mag: 2.32, bv: -0.12 },
+  { name: 'Eta Centauri', ra: 14.5918, dec: -42.158, mag: 2.35, bv: -0.19 },
+  { name: 'Merak', ra: 11.0307, dec: 56.382, mag: 2.37, bv: -0.02 },
+  { name: 'Izar', ra: 14.7498, dec: 27.074, mag: 2.37, bv: 0.97 },
+  { name: 'Enif', ra: 21.7364, dec: 9.875, mag: 2.38, bv: 1.52 },
+  { name: 'Ankaa', ra: 0.4381, dec: -42.306, mag: 2.4, bv: 1.09 },
+  { name: 'Girtab', ra: 17.7081, dec: -39.03, mag: 2.41, bv: -0.17 },
+  { name: 'Scheat', ra: 23.0629, dec: 28.083, mag: 2.42, bv: 1.67 },
+  { name: 'Sabik', ra: 17.173, dec: -15.725, mag: 2.43, bv: 0.06 },
+  { name: 'Phecda', ra: 11.8972, dec: 53.695, mag: 2.44, bv: 0.0 },
+  { name: 'Alderamin', ra: 21.3097, dec: 62.586, mag: 2.45, bv: 0.22 },
+  { name: 'Aludra', ra: 7.4016, dec: -29.303, mag: 2.45, bv: -0.08 },
+  { name: 'Navi', ra: 0.9452, dec: 60.717, mag: 2.47, bv: -0.15 },
+  { name: 'Markeb', ra: 9.3686, dec: -55.011, mag: 2.47, bv: -0.18 },
+  { name: 'Aljanah', ra: 20.7702, dec: 33.97, mag: 2.48, bv: 1.03 },
+  { name: 'Markab', ra: 23.0793, dec: 15.205, mag: 2.48, bv: 0.0 },
+  { name: 'Menkar', ra: 3.038, dec: 4.09, mag: 2.54, bv: 1.64 },
+  { name: 'Zeta Ophiuchi', ra: 16.6193, dec: -10.567, mag: 2.54, bv: 0.02 },
+  { name: 'Zosma', ra: 11.2352, dec: 20.524, mag: 2.56, bv: 0.12 },
+  { name: 'Arneb', ra: 5.5455, dec: -17.822, mag: 2.58, bv: 0.21 },
+  { name: 'Gienah', ra: 12.2634, dec: -17.542, mag: 2.59, bv: -0.11 },
+  { name: 'Ascella', ra: 19.0435, dec: -29.88, mag: 2.6, bv: 0.08 },
+  { name: 'Zubeneschamali', ra: 15.2835, dec: -9.383, mag: 2.61, bv: -0.07 },
+  { name: 'Acrab', ra: 16.0906, dec: -19.805, mag: 2.62, bv: -0.07 },
+  { name: 'Unukalhai', ra: 15.7378, dec: 6.426, mag: 2.63, bv: 1.17 },
+  { name: 'Ruchbah', ra: 1.4303, dec: 60.235, mag: 2.68, bv: 0.13 },
+  { name: 'Alpha Muscae', ra: 12.6197, dec: -69.136, mag: 2.69, bv: -0.2 },
+  { name: 'Tarazed', ra: 19.771, dec: 10.613, mag: 2.72, bv: 1.52 },
+  { name: 'Imai', ra: 12.2524, dec: -58.749, mag: 2.79, bv: -0.23 },
+  { name: 'Alcyone', ra: 3.7914, dec: 24.105, mag: 2.87, bv: -0.09 },
+  { name: 'Albireo', ra: 19.512, dec: 27.96, mag: 3.05, bv: 1.13 },
+  { name: 'Megrez', ra: 12.2571, dec: 57.033, mag: 3.31, bv: 0.08 },
+  { name: 'Segin', ra: 1.9066, dec: 63.67, mag: 3.38, bv: -0.15 },
+];
+
+// Gaussian point-spread width in pixels, and the peak radiance of a
+// magnitude 0 star (tonemapped to near white).
+export const STAR_PSF = 1.0;
+export const STAR_GAIN = 3.0;
+
+// Unit vector towards (ra, dec) in the sky frame.
+export function equatorialDirection(raHours: number, decDeg: number): Vec3 {
+  const ra = (raHours / 12) * Math.PI;
+  const dec = (decDeg / 180) * Math.PI;
+  return [Math.cos(dec) * Math.cos(ra), Math.sin(dec), -Math.cos(dec) * Math.sin(ra)];
+}
+
+// Ballesteros (2012) effective temperature from B-V.
+export function colorTemperature(bv: number): number {
+  return 4600 * (1 / (0.92 * bv + 1.7) + 1 / (0.92 * bv + 0.62));
+}
+
+let cachedCatalog: Float32Array | null = null;
+
+// Two vec4 per star, as the shaders read them: (direction, peak radiance)
+// and (visible colour scaled to a maximum of 1, unused).
+export function starCatalogData(): Float32Array {
+  if (cachedCatalog) return cachedCatalog;
+  const lut = spectrumLUT();
+  const data = new Float32Array(BRIGHT_STARS.length * 8);
+  BRIGHT_STARS.forEach((star, i) => {
+    const o = i * 8;
+    data.set(equatorialDirection(star.ra, star.dec), o);
+    data[o + 3] = STAR_GAIN * Math.pow(10, -0.4 * star.mag);
+    data.set(sampleSpectrumLUT(lut, 0, colorTemperature(star.bv)).color, o + 4);
+  });
+  cachedCatalog = data;
+  return data;
+}
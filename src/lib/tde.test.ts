@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  fallbackRate,
+  fallbackTime,
+  parabolaAnomaly,
+  parabolaTime,
+  peakFallbackRate,
+  Star,
+  swallowedWhole,
+  tidalDisruption,
+  tidalRadius,
+} from './tde';
+import { DEFAULT_STATE } from './renderer';
+import { schwarzschildRadius } from './units';
+
+const SUN: Star = { mass: 1, radius: 1 };
+
+function assertClose(actual: number, expected: number, relative: number, message: string) {
+  assert.ok(Math.abs(actual - expected) <= relative * Math.abs(expected), `${message}: ${actual} vs ${expected}`);
+}
+
+// Hole mass at which the star is first swallowed whole, by bisection in log M
+function hillsMass(star: Star): number {
+  let lo = 4, hi = 11;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (swallowedWhole(10 ** mid, star)) hi = mid;
+    else lo = mid;
+  }
+  return 10 ** hi;
+}
+
+test('tidal radius grows as M^(1/3) in metres and shrinks as M^(-2/3) in Rs', () => {
+  const metres = (m: number) => tidalRadius(m, SUN) * schwarzschildRadius(m);
+  assertClose(metres(8e6) / metres(1e6), 2, 1e-12, 'physical');
+  assertClose(tidalRadius(8e6, SUN) / tidalRadius(1e6, SUN), 0.25, 1e-12, 'in Rs');
+  // R* (M / m*)^(1/3) for the Sun and a 10⁶ M☉ hole, ~24 Rs
+  assertClose(metres(1e6), 6.957e8 * 100, 1e-12, 'sun at 1e6');
+});
+
+test('stars are swallowed whole above the Hills mass', () => {
+  const hills = hillsMass(SUN);
+  // r_t = 4M, i.e. 2 Rs, for the Sun at about 4 × 10⁷ M☉
+  assert.ok(hills > 3e7 && hills < 5e7, `Hills mass ${hills}`);
+  assertClose(tidalRadius(hills, SUN), 2, 1e-9, 'r_t at the cutoff');
+  assert.equal(swallowedWhole(0.9 * hills, SUN), false);
+  assert.equal(swallowedWhole(1.1 * hills, SUN), true);
+  // A giant ten times the Sun's radius survives to 10^1.5 times the mass
+  assertClose(hillsMass({ mass: 1, radius: 10 }) / hills, 10 ** 1.5, 1e-6, 'giant');
+
+  const state = { ...DEFAULT_STATE, showTde: true, tdeStarMass: 1, tdeStarRadius: 1 };
+  assert.equal(tidalDisruption({ ...state, massSolar: 1.1 * hills }, 0)!.disruption, null);
+  assert.notEqual(tidalDisruption({ ...state, massSolar: 0.9 * hills }, 0)!.disruption, null);
+});
+
+test('no debris falls back before t_min', () => {
+  const tMin = fallbackTime(1e6, SUN);
+  assert.equal(fallbackRate(0, 1e6, SUN), 0);
+  assert.equal(fallbackRate(0.999 * tMin, 1e6, SUN), 0);
+  assertClose(fallbackRate(tMin, 1e6, SUN), peakFallbackRate(1e6, SUN), 1e-12, 'peak at t_min');
+  // About a month for the Sun around 10⁶ M☉
+  assert.ok(tMin > 20 * 86400 && tMin < 60 * 86400, `t_min ${tMin / 86400} days`);
+});
+
+test('fallback decays as t^(-5/3) after t_min', () => {
+  const tMin = fallbackTime(1e6, SUN);
+  for (const t of [1.5 * tMin, 10 * tMin, 100 * tMin]) {
+    const slope = Math.log(fallbackRate(2 * t, 1e6, SUN) / fallbackRate(t, 1e6, SUN)) / Math.log(2);
+    assertClose(slope, -5 / 3, 1e-9, `slope at ${t / tMin} t_min`);
+  }
+});
+
+test('parabolaAnomaly inverts parabolaTime', () => {
+  for (const rp of [0.5, 5, 80]) {
+    for (const d of [-20, -3, -1, -0.1, 0, 0.1, 1, 3, 20]) {
+      const back = parabolaAnomaly(rp, parabolaTime(rp, d));
+      assert.ok(Math.abs(back - d) <= 1e-9 * Math.max(1, Math.abs(d)), `rp ${rp}, D ${d}: ${back}`);
+    }
+  }
+});
@@ -0,0 +1,180 @@
+import type { SimulationState } from './renderer';
+import type { Vec3 } from './camera';
+import { G, SOLAR_MASS, SOLAR_RADIUS, YEAR, schwarzschildRadius } from './units';
+
+// Tidal disruption events: a star on a parabolic orbit is torn apart where
+// the hole's tide overcomes its self-gravity, at the tidal radius
+// r_t = R* (M / m*)^(1/3). In the frozen-in approximation every piece of
+// the star keeps the star's velocity at r_t, so their orbital energies
+// spread by Δε = G M R* / r_t². About half the debris is bound, and it falls
+// back at a rate that peaks after the return time of the most bound debris
+// and then decays as t^(-5/3) (Rees 1988, Phinney 1989).
+//
+// The debris itself is integrated on the GPU (shaders/debris.wgsl.ts); this
+// module places the star and the moment it comes apart. Lengths are in Rs,
+// so the hole's mass is 0.5, and orbital time is in Rs/c.
+
+const MASS = 0.5;
+
+// Rs/c of orbital time per unit of shader time
+export const TDE_TIME_SCALE = 20;
+export const DEBRIS_PARTICLES = 16384;
+// Debris is gathered on a DEBRIS_GRID³ grid this many tidal radii across,
+// within limits
+export const DEBRIS_EXTENT_TIDAL = 4;
+export const DEBRIS_EXTENT_LIMITS = { min: 30, max: 200 };
+export const DEBRIS_GRID = 128;
+// Particles in a grid cell for unit density
+export const DEBRIS_CELL_PARTICLES = 512;
+// Smallest radius the star is drawn with, Rs; a real star is far smaller
+// than the hole it falls into
+export const STAR_MARKER_RADIUS = 0.25;
+// The star falls in from this many tidal radii, or at least this far, Rs
+const START_TIDAL_RADII = 3;
+const START_MIN_RADIUS = 30;
+// A parabolic orbit reaching inside the marginally bound radius, 4M, plunges
+const MARGINALLY_BOUND_RADIUS = 2;
+
+export interface Star {
+  // Solar masses and radii
+  mass: number;
+  radius: number;
+}
+
+// Tidal radius in Rs
+export function tidalRadius(massSolar: number, star: Star): number {
+  return (star.radius * SOLAR_RADIUS * Math.cbrt(massSolar / star.mass)) / schwarzschildRadius(massSolar);
+}
+
+// Whether the hole is above the star's Hills mass: the tide only wins
+// inside the radius from which a parabolic orbit plunges, so the star falls
+// in whole.
+export function swallowedWhole(massSolar: number, star: Star): boolean {
+  return tidalRadius(massSolar, star) <= MARGINALLY_BOUND_RADIUS;
+}
+
+// Return time of the most bound debris after pericenter, seconds:
+// t_min = 2π G M / (2 Δε)^(3/2).
+export function fallbackTime(massSolar: number, star: Star): number {
+  const gm = G * massSolar * SOLAR_MASS;
+  const rt = tidalRadius(massSolar, star) * schwarzschildRadius(massSolar);
+  const spread = (gm * star.radius * SOLAR_RADIUS) / (rt * rt);
+  return (2 * Math.PI * gm) / Math.pow(2 * spread, 1.5);
+}
+
+// Peak fallback rate, solar masses per year. With debris spread evenly in
+// energy, m*/(3 t_min) returns the bound half of the star in all.
+export function peakFallbackRate(massSolar: number, star: Star): number {
+  return (star.mass / (3 * fallbackTime(massSolar, star))) * YEAR;
+}
+
+// Fallback rate `t` seconds after pericenter, solar masses per year: none
+// before t_min, then the peak rate falling off as (t / t_min)^(-5/3).
+export function fallbackRate(t: number, massSolar: number, star: Star): number {
+  const tMin = fallbackTime(massSolar, star);
+  if (t < tMin) return 0;
+  return peakFallbackRate(massSolar, star) * Math.pow(t / tMin, -5 / 3);
+}
+
+// Time from pericenter to D = tan(ν/2) on a parabola with pericenter rp
+// (Barker's equation), Rs/c
+export function parabolaTime(rp: number, d: number): number {
+  return Math.sqrt((2 * rp * rp * rp) / MASS) * (d + (d * d * d) / 3);
+}
+
+// Barker's equation solved for D
+export function parabolaAnomaly(rp: number, t: number): number {
+  const w = t / Math.sqrt((2 * rp * rp * rp) / MASS);
+  return 2 * Math.sinh(Math.asinh(1.5 * w) / 3);
+}
+
+// D at radius r on the way in
+const inbound = (rp: number, r: number) => -Math.sqrt(Math.max(r / rp - 1, 0));
+
+// Position and velocity on the parabola at D. The orbit's pericenter is on
+// +x and it is inclined by `inclination` from the equatorial plane; at zero
+// the star goes round the way the disk does.
+function parabolaState(rp: number, d: number, inclination: number): { position: Vec3; velocity: Vec3 } {
+  const nu = 2 * Math.atan(d);
+  const r = rp * (1 + d * d);
+  const speed = MASS / Math.sqrt(2 * MASS * rp);
+  // In-plane axes: towards pericenter, and along the motion there
+  const q: Vec3 = [0, Math.sin(inclination), -Math.cos(inclination)];
+  const x = r * Math.cos(nu), y = r * Math.sin(nu);
+  const vx = -speed * Math.sin(nu), vy = speed * (1 + Math.cos(nu));
+  return {
+    position: [x, y * q[1], y * q[2]],
+    velocity: [vx, vy * q[1], vy * q[2]],
+  };
+}
+
+export interface TidalDisruption {
+  star: Star;
+  tidalRadius: number;
+  pericenter: number;
+  swallowed: boolean;
+  // Orbital time since pericenter, Rs/c; negative on the way in
+  sincePericenter: number;
+  // Star centre while it is whole and outside the horizon, Rs
+  starPosition: Vec3 | null;
+  // Where and when (since pericenter) the star comes apart; the debris
+  // starts from here. Null if it is swallowed whole.
+  disruption: { time: number; position: Vec3; velocity: Vec3 } | null;
+  // Half-width of the debris grid, Rs
+  debrisExtent: number;
+}
+
+export function tdeStar(state: SimulationState): Star {
+  return { mass: state.tdeStarMass, radius: state.tdeStarRadius };
+}
+
+// The event at shader time `time`, or null when none is shown.
+export function tidalDisruption(state: SimulationState, time: number): TidalDisruption | null {
+  if (!state.showTde) return null;
+  const star = tdeStar(state);
+  const rt = tidalRadius(state.massSolar, star);
+  const rp = rt / state.tdePenetration;
+  const swallowed = rt <= MARGINALLY_BOUND_RADIUS;
+  const sincePericenter = (time - state.tdePericenterTime) * TDE_TIME_SCALE;
+
+  let disruption: TidalDisruption['disruption'] = null;
+  // The star is gone once it comes apart or, swallowed, reaches the horizon
+  // or plunges from pericenter
+  let end = parabolaTime(rp, inbound(rp, Math.max(rp, 1)));
+  if (!swallowed) {
+    const d = inbound(rp, rt);
+    end = parabolaTime(rp, d);
+    disruption = { time: end, ...parabolaState(rp, d, state.tdeInclination) };
+  }
+  return {
+    star,
+    tidalRadius: rt,
+    pericenter: rp,
+    swallowed,
+    sincePericenter,
+    starPosition: sincePericenter < end
+      ? parabolaState(rp, parabolaAnomaly(rp, sincePericenter), state.tdeInclination).position
+      : null,
+    disruption,
+    debrisExtent: Math.min(Math.max(DEBRIS_EXTENT_TIDAL * rt, DEBRIS_EXTENT_LIMITS.min), DEBRIS_EXTENT_LIMITS.max),
+  };
+}
+
+// Shader time to wait after launching before pericenter, so the star starts
+// from well outside the tidal radius.
+export function launchLead(state: SimulationState): number {
+  const rt = tidalRadius(state.massSolar, tdeStar(state));
+  const rp = rt / state.tdePenetration;
+  const start = Math.max(START_TIDAL_RADII * rt, START_MIN_RADIUS);
+  return -parabolaTime(rp, inbound(rp, start)) / TDE_TIME_SCALE;
+}
+
+// Radius of the star in Rs
+export function starRadius(massSolar: number, star: Star): number {
+  return (star.radius * SOLAR_RADIUS) / schwarzschildRadius(massSolar);
+}
+
+// Radius of the star in Rs, as drawn
+export function starMarkerRadius(massSolar: number, star: Star): number {
+  return Math.max(starRadius(massSolar, star), STAR_MARKER_RADIUS);
+}
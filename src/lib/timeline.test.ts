@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CAMERA_LIMITS } from './camera';
+import { createTimeline, keyframeState, parseTimeline, sampleTimeline, serializeTimeline, setKeyframe } from './timeline';
+import { DEFAULT_STATE } from './renderer';
+
+const base = keyframeState(DEFAULT_STATE);
+
+function track(keyframes: { time: number; state?: Record<string, unknown> }[]): string {
+  return JSON.stringify({
+    version: 1,
+    fps: 30,
+    duration: 10,
+    keyframes: keyframes.map(k => ({ time: k.time, easing: 'linear', state: { ...base, ...k.state } })),
+  });
+}
+
+test('round-trips a serialized track', () => {
+  let timeline = createTimeline();
+  timeline = setKeyframe(timeline, { time: 0, easing: 'easeInOut', state: base });
+  timeline = setKeyframe(timeline, { time: 5, easing: 'linear', state: { ...base, cameraDistance: 40 } });
+  assert.deepEqual(parseTimeline(serializeTimeline(timeline)), timeline);
+});
+
+test('clamps camera distances so sampling never yields NaN', () => {
+  const timeline = parseTimeline(track([
+    { time: 0, state: { cameraDistance: 1e6 } },
+    { time: 4, state: { cameraDistance: 0.5, cameraAngleX: 3 } },
+  ]));
+  assert.equal(timeline.keyframes[0].state.cameraDistance, CAMERA_LIMITS.maxDistance);
+  assert.equal(timeline.keyframes[1].state.cameraDistance, CAMERA_LIMITS.minDistance);
+  assert.equal(timeline.keyframes[1].state.cameraAngleX, CAMERA_LIMITS.maxPitch);
+  for (const t of [0, 1, 2, 3, 4]) {
+    const state = sampleTimeline(timeline, t)!;
+    assert.ok(Number.isFinite(state.cameraDistance), `distance at ${t} s`);
+    assert.ok(Number.isFinite(state.cameraAngleX), `pitch at ${t} s`);
+  }
+});
+
+test('rejects non-positive camera distances', () => {
+  assert.throws(() => parseTimeline(track([{ time: 0, state: { cameraDistance: -5 } }])), /camera distance must be positive/);
+  assert.throws(() => parseTimeline(track([{ time: 0, state: { cameraDistance: 0 } }])), /camera distance must be positive/);
+});
+
+test('rejects keyframes outside the track', () => {
+  assert.throws(() => parseTimeline(track([{ time: -1 }])), /outside 0-10 s/);
+  assert.throws(() => parseTimeline(track([{ time: 11 }])), /outside 0-10 s/);
+});
+
+test('rejects duplicate keyframe times', () => {
+  assert.throws(() => parseTimeline(track([{ time: 2 }, { time: 2 }])), /two keyframes at 2 s/);
+  assert.throws(() => parseTimeline(track([{ time: 2 }, { time: 2.001 }])), /two keyframes/);
+});
+
+test('checks view modes and wavelength bands', () => {
+  assert.throws(() => parseTimeline(track([{ time: 0, state: { viewMode: 'nope' } }])), /unknown view mode "nope"/);
+  assert.throws(() => parseTimeline(track([{ time: 0, state: { wavelength: 99 } }])), /unknown wavelength band 99/);
+  assert.throws(() => parseTimeline(track([{ time: 0, state: { wavelength: 0.5 } }])), /unknown wavelength band/);
+  // Legacy index
+  assert.equal(parseTimeline(track([{ time: 0, state: { viewMode: 1 } }])).keyframes[0].state.viewMode, 'gravity');
+});
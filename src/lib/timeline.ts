@@ -0,0 +1,248 @@
+import { DEFAULT_STATE, SimulationState } from './renderer';
+import { CAMERA_LIMITS, changeCameraMode } from './camera';
+import { findViewMode, LEGACY_VIEW_MODES } from './viewModes';
+import { TIME_RATE } from './clock';
+import { OBSERVING_BANDS } from './spectrum';
+import { validateState } from './scene';
+
+// Camera keyframe timeline. Keyframes hold the animatable subset of the
+// simulation state; everything else (mass, spin, backend...) comes from the
+// live state at playback time. The camera moves along a Hermite spline in
+// orbit coordinates (pitch, yaw, log distance), so the path stays on smooth
+// spherical arcs around the hole instead of cutting through it. Playback and
+// export step in whole frames of 1/fps, so the same track always yields the
+// same frames. Keyframes are orbit poses: a free-fly view is keyed as the
+// orbit camera at the same place, and playback returns to the orbit camera.
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - (1 - t) ** 3,
+  easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+};
+
+export const EASING_LABELS: Record<Easing, string> = {
+  linear: 'Linear',
+  easeIn: 'Ease In',
+  easeOut: 'Ease Out',
+  easeInOut: 'Ease In-Out',
+};
+
+export const KEYFRAME_FIELDS = [
+  'cameraDistance',
+  'cameraAngleX',
+  'cameraAngleY',
+  'viewMode',
+  'wavelength',
+  'timeSpeed',
+  'showJets',
+  'showMilkyWay',
+] as const;
+
+export type KeyframeState = Pick<SimulationState, typeof KEYFRAME_FIELDS[number]>;
+
+export interface Keyframe {
+  // Seconds from the start of the track
+  time: number;
+  state: KeyframeState;
+  // Easing of the segment that starts at this keyframe
+  easing: Easing;
+}
+
+export interface Timeline {
+  version: 1;
+  fps: number;
+  duration: number;
+  // Sorted by time
+  keyframes: Keyframe[];
+}
+
+export interface TimelineFrame {
+  index: number;
+  // Track time in seconds
+  time: number;
+  state: KeyframeState;
+  // Shader time for the frame; see timelineFrames
+  simulationTime: number;
+}
+
+export const TIMELINE_VERSION = 1;
+export const MAX_TIMELINE_FPS = 120;
+export const MAX_TIMELINE_DURATION = 600;
+
+export function createTimeline(): Timeline {
+  return { version: TIMELINE_VERSION, fps: 30, duration: 10, keyframes: [] };
+}
+
+export function keyframeState(state: SimulationState): KeyframeState {
+  const orbit = changeCameraMode(state, 'orbit');
+  const out = {} as Record<string, unknown>;
+  for (const field of KEYFRAME_FIELDS) out[field] = orbit[field];
+  return out as unknown as KeyframeState;
+}
+
+// Inserts a keyframe, replacing any other within half a frame of it.
+export function setKeyframe(timeline: Timeline, keyframe: Keyframe): Timeline {
+  const tolerance = 0.5 / timeline.fps;
+  const keyframes = timeline.keyframes
+    .filter(k => Math.abs(k.time - keyframe.time) > tolerance)
+    .concat(keyframe)
+    .sort((a, b) => a.time - b.time);
+  return { ...timeline, keyframes };
+}
+
+export function frameCount(timeline: Timeline): number {
+  return Math.max(1, Math.round(timeline.duration * timeline.fps) + 1);
+}
+
+// Camera coordinates that are splined. Yaw is unwrapped so that each segment
+// takes the short way round.
+function cameraPoints(keyframes: Keyframe[]): [number, number, number][] {
+  const points: [number, number, number][] = [];
+  keyframes.forEach((k, i) => {
+    let yaw = k.state.cameraAngleY;
+    if (i > 0) {
+      const previous = points[i - 1][1];
+      yaw = previous + Math.atan2(Math.sin(yaw - previous), Math.cos(yaw - previous));
+    }
+    points.push([k.state.cameraAngleX, yaw, Math.log(k.state.cameraDistance)]);
+  });
+  return points;
+}
+
+// Finite-difference (Catmull-Rom style) tangent at keyframe i, per second.
+function tangent(points: [number, number, number][], times: number[], i: number, axis: number): number {
+  const a = Math.max(0, i - 1);
+  const b = Math.min(points.length - 1, i + 1);
+  if (a === b || times[b] === times[a]) return 0;
+  return (points[b][axis] - points[a][axis]) / (times[b] - times[a]);
+}
+
+function hermite(p0: number, m0: number, p1: number, m1: number, dt: number, s: number): number {
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return (2 * s3 - 3 * s2 + 1) * p0 + (s3 - 2 * s2 + s) * dt * m0 + (-2 * s3 + 3 * s2) * p1 + (s3 - s2) * dt * m1;
+}
+
+// State at track time `t`. Before the first and after the last keyframe the
+// nearest one holds; discrete fields switch when their keyframe is reached.
+export function sampleTimeline(timeline: Timeline, t: number): KeyframeState | null {
+  const keyframes = timeline.keyframes;
+  if (keyframes.length === 0) return null;
+  if (t <= keyframes[0].time) return { ...keyframes[0].state };
+  const last = keyframes[keyframes.length - 1];
+  if (t >= last.time) return { ...last.state };
+
+  let i = 0;
+  while (keyframes[i + 1].time <= t) i++;
+  const from = keyframes[i];
+  const to = keyframes[i + 1];
+  const dt = to.time - from.time;
+  const s = EASINGS[from.easing]((t - from.time) / dt);
+
+  const times = keyframes.map(k => k.time);
+  const points = cameraPoints(keyframes);
+  const camera = [0, 1, 2].map(axis =>
+    hermite(points[i][axis], tangent(points, times, i, axis), points[i + 1][axis], tangent(points, times, i + 1, axis), dt, s),
+  );
+
+  return {
+    ...from.state,
+    cameraAngleX: Math.max(-CAMERA_LIMITS.maxPitch, Math.min(CAMERA_LIMITS.maxPitch, camera[0])),
+    cameraAngleY: camera[1],
+    cameraDistance: Math.max(CAMERA_LIMITS.minDistance, Math.min(CAMERA_LIMITS.maxDistance, Math.exp(camera[2]))),
+    timeSpeed: from.state.timeSpeed + (to.state.timeSpeed - from.state.timeSpeed) * s,
+  };
+}
+
+// Every frame of the track. The shader clock advances TIME_RATE per second
+// at timeSpeed 1, as in the live view, integrated frame by frame from
+// `startTime` so that time speed keyframes play back exactly.
+export function timelineFrames(timeline: Timeline, fallback: KeyframeState, startTime: number = 0): TimelineFrame[] {
+  const frames: TimelineFrame[] = [];
+  let simulationTime = startTime;
+  for (let index = 0; index < frameCount(timeline); index++) {
+    const time = index / timeline.fps;
+    const state = sampleTimeline(timeline, time) ?? fallback;
+    frames.push({ index, time, state, simulationTime });
+    simulationTime += TIME_RATE * state.timeSpeed / timeline.fps;
+  }
+  return frames;
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid timeline: ${message}`);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEasing = (value: unknown): value is Easing => Object.keys(EASINGS).includes(value as string);
+
+// Parses and checks a saved track, so a hand-edited or foreign file fails
+// with a message instead of producing NaN cameras.
+export function parseTimeline(json: string): Timeline {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    fail('not JSON.');
+  }
+  if (!isObject(data)) fail('expected an object.');
+  if (data.version !== TIMELINE_VERSION) fail(`unsupported version ${data.version}.`);
+
+  const fps = data.fps;
+  if (typeof fps !== 'number' || !Number.isInteger(fps) || fps < 1 || fps > MAX_TIMELINE_FPS) fail(`fps must be 1-${MAX_TIMELINE_FPS}.`);
+  const duration = data.duration;
+  if (typeof duration !== 'number' || !(duration > 0) || duration > MAX_TIMELINE_DURATION) {
+    fail(`duration must be 0-${MAX_TIMELINE_DURATION} s.`);
+  }
+  if (!Array.isArray(data.keyframes)) fail('keyframes must be an array.');
+
+  const keyframes: Keyframe[] = data.keyframes.map((raw: unknown, i: number) => {
+    const k = isObject(raw) ? raw : {};
+    const { time, easing } = k;
+    if (typeof time !== 'number' || !Number.isFinite(time)) fail(`keyframe ${i} has no time.`);
+    if (time < 0 || time > duration) fail(`keyframe ${i} time ${time} is outside 0-${duration} s.`);
+    if (!isEasing(easing)) fail(`keyframe ${i} has unknown easing "${easing}".`);
+    const saved = isObject(k.state) ? k.state : {};
+    const state = {} as Record<string, unknown>;
+    for (const field of KEYFRAME_FIELDS) {
+      let value = saved[field];
+      // Tracks from before lib/viewModes saved the mode's index
+      if (field === 'viewMode' && typeof value === 'number') value = LEGACY_VIEW_MODES[value] ?? 'classic';
+      const expected = typeof DEFAULT_STATE[field];
+      if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+        fail(`keyframe ${i} field "${field}" must be a ${expected}.`);
+      }
+      state[field] = value;
+    }
+    if (!findViewMode(state.viewMode as string)) fail(`keyframe ${i} has unknown view mode "${state.viewMode}".`);
+    const band = state.wavelength as number;
+    if (!Number.isInteger(band) || band < 0 || band >= OBSERVING_BANDS.length) {
+      fail(`keyframe ${i} has unknown wavelength band ${band}.`);
+    }
+    if (!((state.cameraDistance as number) > 0)) fail(`keyframe ${i} camera distance must be positive.`);
+    // Clamps the camera and time speed to what the controls can produce
+    const valid = validateState(state);
+    const out = {} as Record<string, unknown>;
+    for (const field of KEYFRAME_FIELDS) out[field] = valid[field];
+    return { time, easing, state: out as unknown as KeyframeState };
+  });
+
+  keyframes.sort((a, b) => a.time - b.time);
+  // Keyframes closer than half a frame would be merged by setKeyframe
+  const tolerance = 0.5 / fps;
+  for (let i = 1; i < keyframes.length; i++) {
+    if (keyframes[i].time - keyframes[i - 1].time <= tolerance) fail(`two keyframes at ${keyframes[i].time} s.`);
+  }
+
+  return { version: TIMELINE_VERSION, fps, duration, keyframes };
+}
+
+export function serializeTimeline(timeline: Timeline): string {
+  return JSON.stringify(timeline, null, 2);
+}
+
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BUILT_IN_TOURS, conditionProgress, validateTour, watchRotation } from './tour';
+import { DEFAULT_STATE } from './renderer';
+
+function tour(waitFor: unknown) {
+  return {
+    version: 1,
+    id: 'test',
+    title: 'Test',
+    description: '',
+    steps: [{ id: 'a', title: 'A', content: 'Wait.', waitFor }],
+  };
+}
+
+test('built-in tours validate', () => {
+  assert.ok(BUILT_IN_TOURS.length > 0);
+});
+
+test('accepts conditions that match the field type', () => {
+  const condition = validateTour(tour({ type: 'state', field: 'viewMode', equals: 'gravity' })).steps[0].waitFor!;
+  const rotation = watchRotation(DEFAULT_STATE);
+  assert.equal(conditionProgress(condition, { ...DEFAULT_STATE, viewMode: 'gravity' }, rotation), 1);
+  assert.equal(conditionProgress(condition, DEFAULT_STATE, rotation), 0);
+  assert.ok(validateTour(tour({ type: 'state', field: 'spin', min: 0.5, max: 0.9 })));
+  assert.ok(validateTour(tour({ type: 'state', field: 'showJets', equals: false })));
+});
+
+test('rejects equals values of the wrong type', () => {
+  assert.throws(() => validateTour(tour({ type: 'state', field: 'viewMode', equals: 2 })), /equals for "viewMode" must be a string/);
+  assert.throws(() => validateTour(tour({ type: 'state', field: 'spin', equals: 'fast' })), /equals for "spin" must be a number/);
+  assert.throws(() => validateTour(tour({ type: 'state', field: 'showJets', equals: 1 })), /must be a boolean/);
+});
+
+test('rejects ranges on fields that are not numbers', () => {
+  assert.throws(() => validateTour(tour({ type: 'state', field: 'showJets', min: 0 })), /min does not apply to "showJets"/);
+  assert.throws(() => validateTour(tour({ type: 'state', field: 'viewMode', max: 1 })), /max does not apply to "viewMode"/);
+});
+
+test('rejects malformed conditions', () => {
+  assert.throws(() => validateTour(tour('rotate')), /waitFor must be an object/);
+  assert.throws(() => validateTour(tour({ type: 'state', field: 'massSolar', equals: 1 })), /unknown field "massSolar"/);
+  assert.throws(() => validateTour(tour({ type: 'state', field: 'spin' })), /without a value or range/);
+  assert.throws(() => validateTour(tour({ type: 'rotate', degrees: 0 })), /0-3600 degrees/);
+});
@@ -0,0 +1,371 @@
+import { DEFAULT_STATE, SimulationState } from './renderer';
+import { changeCameraMode, computeCameraFrame, Vec3 } from './camera';
+import { validateState } from './scene';
+import { Easing, EASINGS } from './timeline';
+import introTour from '../tours/intro.json';
+import spinTour from '../tours/spin.json';
+
+// Guided tours. A tour is a JSON document of steps; each step can move the
+// camera and parameters to new values over a few seconds, point at the
+// control it talks about, wait until the user has done something, and offer
+// choices that jump to other steps. Documents are checked when they load:
+// the built-in tours when this module loads, so a broken one fails at once
+// rather than halfway through, and opened files through parseTour. Progress
+// through each tour is kept in localStorage.
+
+export const TOUR_VERSION = 1;
+
+// State fields a step may set. The camera ones move the orbit camera.
+export const TOUR_FIELDS = [
+  'cameraDistance',
+  'cameraAngleX',
+  'cameraAngleY',
+  'viewMode',
+  'wavelength',
+  'timeSpeed',
+  'showJets',
+  'showMilkyWay',
+  'spin',
+  'accretionRate',
+  'integrator',
+  'observer',
+  'background',
+  'showStars',
+] as const;
+
+export type TourField = typeof TOUR_FIELDS[number];
+export type TourChanges = Partial<Pick<SimulationState, TourField>>;
+
+// Fields that animate over the step's duration; the others switch at once.
+// Distance and accretion rate move in log space, like the sliders.
+const TWEENED: Partial<Record<TourField, 'linear' | 'log' | 'angle'>> = {
+  cameraDistance: 'log',
+  cameraAngleX: 'linear',
+  cameraAngleY: 'angle',
+  timeSpeed: 'linear',
+  spin: 'linear',
+  accretionRate: 'log',
+};
+
+const CAMERA_FIELDS: TourField[] = ['cameraDistance', 'cameraAngleX', 'cameraAngleY'];
+
+// Controls a step can highlight; App marks them with data-tour attributes.
+export const TOUR_TARGETS = [
+  'telemetry',
+  'view-mode',
+  'wavelength',
+  'time-speed',
+  'mass',
+  'accretion',
+  'spin',
+  'geodesics',
+  'camera',
+  'observer',
+  'jets',
+  'milky-way',
+] as const;
+
+export type TourTarget = typeof TOUR_TARGETS[number];
+
+// What a step waits for before Next is enabled: the camera turning through
+// an angle, or a state field reaching a value or range.
+export type TourCondition =
+  | { type: 'rotate'; degrees: number }
+  | { type: 'state'; field: TourField; equals?: number | boolean | string; min?: number; max?: number };
+
+export interface TourChoice {
+  label: string;
+  next: string;
+}
+
+export interface TourStep {
+  id: string;
+  title: string;
+  content: string;
+  set?: TourChanges;
+  // Seconds the changes take; 0 applies them at once
+  duration?: number;
+  easing?: Easing;
+  highlight?: TourTarget;
+  waitFor?: TourCondition;
+  // Shown instead of Next
+  choices?: TourChoice[];
+  // Step after this one; by default the next in the list, and after the
+  // last the tour ends
+  next?: string;
+}
+
+export interface Tour {
+  version: number;
+  id: string;
+  title: string;
+  description: string;
+  steps: TourStep[];
+}
+
+export const DEFAULT_TOUR_DURATION = 1.5;
+const MAX_DURATION = 30;
+
+function fail(tour: string, message: string): never {
+  throw new Error(`Invalid tour${tour ? ` "${tour}"` : ''}: ${message}`);
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks a tour document and returns it typed. Step changes are validated
+// like a loaded scene and clamped to the control ranges.
+export function validateTour(data: unknown): Tour {
+  if (!isObject(data)) fail('', 'expected an object.');
+  const input = data;
+  const id = isText(input.id) ? input.id : fail('', 'id must be a non-empty string.');
+  if (input.version !== TOUR_VERSION) fail(id, `unsupported version ${input.version}.`);
+  const title = isText(input.title) ? input.title : fail(id, 'title must be a non-empty string.');
+  const description = typeof input.description === 'string' ? input.description : fail(id, 'description must be a string.');
+  const rawSteps: unknown[] = Array.isArray(input.steps) && input.steps.length > 0 ? input.steps : fail(id, 'steps must be a non-empty array.');
+
+  const ids = new Set<string>();
+  const steps: TourStep[] = rawSteps.map((raw, i) => {
+    const s = isObject(raw) ? raw : {};
+    const stepId = isText(s.id) ? s.id : fail(id, `step ${i} has no id.`);
+    const at = `step "${stepId}"`;
+    if (ids.has(stepId)) fail(id, `${at} is defined twice.`);
+    ids.add(stepId);
+    if (!isText(s.title) || !isText(s.content)) fail(id, `${at} needs a title and content.`);
+
+    const step: TourStep = { id: stepId, title: s.title, content: s.content };
+    if (s.set !== undefined) step.set = validateChanges(id, at, s.set);
+    if (s.duration !== undefined) {
+      if (typeof s.duration !== 'number' || !(s.duration >= 0) || s.duration > MAX_DURATION) {
+        fail(id, `${at} duration must be 0-${MAX_DURATION} s.`);
+      }
+      step.duration = s.duration;
+    }
+    if (s.easing !== undefined) {
+      if (!isOneOf(Object.keys(EASINGS) as Easing[], s.easing)) fail(id, `${at} has unknown easing "${s.easing}".`);
+      step.easing = s.easing;
+    }
+    if (s.highlight !== undefined) {
+      if (!isOneOf(TOUR_TARGETS, s.highlight)) fail(id, `${at} highlights unknown control "${s.highlight}".`);
+      step.highlight = s.highlight;
+    }
+    if (s.waitFor !== undefined) step.waitFor = validateCondition(id, at, s.waitFor);
+    if (s.choices !== undefined) {
+      if (!Array.isArray(s.choices) || s.choices.length === 0) fail(id, `${at} choices must be a non-empty array.`);
+      step.choices = s.choices.map((c: unknown) => {
+        if (!isObject(c) || !isText(c.label) || !isText(c.next)) fail(id, `${at} choices need a label and a next step.`);
+        return { label: c.label, next: c.next };
+      });
+    }
+    if (s.next !== undefined) {
+      if (!isText(s.next)) fail(id, `${at} next must be a step id.`);
+      step.next = s.next;
+    }
+    return step;
+  });
+
+  // Jumps are checked once every id is known
+  for (const step of steps) {
+    for (const target of [step.next, ...(step.choices ?? []).map(c => c.next)]) {
+      if (target !== undefined && !ids.has(target)) fail(id, `step "${step.id}" leads to unknown step "${target}".`);
+    }
+  }
+
+  return { version: TOUR_VERSION, id, title, description, steps };
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return (values as readonly unknown[]).includes(value);
+}
+
+function validateChanges(tour: string, at: string, data: unknown): TourChanges {
+  if (!isObject(data)) fail(tour, `${at} set must be an object.`);
+  const input = data;
+  for (const field of Object.keys(input)) {
+    if (!isOneOf(TOUR_FIELDS, field)) fail(tour, `${at} cannot set "${field}".`);
+  }
+  let state: SimulationState;
+  try {
+    state = validateState(input);
+  } catch (e) {
+    fail(tour, `${at}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const changes: Record<string, unknown> = {};
+  for (const field of Object.keys(input) as TourField[]) changes[field] = state[field];
+  return changes as TourChanges;
+}
+
+// Values and bounds must suit the field's type, or the condition could
+// never be met: `equals` has the type of the field's default, and only
+// numeric fields take a range.
+function validateCondition(tour: string, at: string, data: unknown): TourCondition {
+  if (!isObject(data)) fail(tour, `${at} waitFor must be an object.`);
+  if (data.type === 'rotate') {
+    if (typeof data.degrees !== 'number' || !(data.degrees > 0) || data.degrees > 3600) {
+      fail(tour, `${at} must wait for 0-3600 degrees of rotation.`);
+    }
+    return { type: 'rotate', degrees: data.degrees };
+  }
+  if (data.type === 'state') {
+    const field = data.field;
+    if (!isOneOf(TOUR_FIELDS, field)) fail(tour, `${at} waits on unknown field "${field}".`);
+    const expected = typeof DEFAULT_STATE[field];
+    const condition: TourCondition = { type: 'state', field };
+    if (data.equals !== undefined) {
+      const equals = data.equals;
+      if (typeof equals !== expected || (typeof equals === 'number' && !Number.isFinite(equals))) {
+        fail(tour, `${at} equals for "${field}" must be a ${expected}.`);
+      }
+      condition.equals = equals as number | boolean | string;
+    }
+    for (const bound of ['min', 'max'] as const) {
+      const value = data[bound];
+      if (value === undefined) continue;
+      if (expected !== 'number') fail(tour, `${at} ${bound} does not apply to "${field}".`);
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(tour, `${at} ${bound} must be a number.`);
+      condition[bound] = value;
+    }
+    if (condition.equals === undefined && condition.min === undefined && condition.max === undefined) {
+      fail(tour, `${at} waits on "${field}" without a value or range.`);
+    }
+    return condition;
+  }
+  fail(tour, `${at} has unknown condition "${data.type}".`);
+}
+
+export function parseTour(json: string): Tour {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    fail('', 'not JSON.');
+  }
+  return validateTour(data);
+}
+
+export const BUILT_IN_TOURS: Tour[] = [introTour, spinTour].map(validateTour);
+
+export function findStep(tour: Tour, id: string): TourStep | undefined {
+  return tour.steps.find(s => s.id === id);
+}
+
+// Where Next leads from `step`; null ends the tour.
+export function nextStepId(tour: Tour, step: TourStep): string | null {
+  if (step.next) return step.next;
+  const index = tour.steps.indexOf(step);
+  return tour.steps[index + 1]?.id ?? null;
+}
+
+export interface TourTween {
+  // Written when the step starts: the switched fields, and for camera moves
+  // the orbit camera they start from
+  start: Partial<SimulationState>;
+  from: SimulationState;
+  to: SimulationState;
+  // Fields that animate between them
+  fields: TourField[];
+}
+
+// The motion of a step that starts from `state`. Camera moves, like guide
+// suggestions, put the camera back in orbit mode and restart the observer.
+export function startTween(state: SimulationState, changes: TourChanges): TourTween {
+  const moves = CAMERA_FIELDS.some(f => f in changes);
+  const from = moves ? changeCameraMode(state, 'orbit') : state;
+  const camera = moves
+    ? { cameraMode: from.cameraMode, cameraDistance: from.cameraDistance, cameraAngleX: from.cameraAngleX, cameraAngleY: from.cameraAngleY, observerTime: 0 }
+    : {};
+  const to = { ...from, ...camera, ...changes };
+  const fields = (Object.keys(changes) as TourField[]).filter(f => TWEENED[f]);
+  return { start: { ...camera, ...changes }, from, to, fields };
+}
+
+// Tweened field values at eased progress s.
+export function sampleTween(tween: TourTween, s: number): TourChanges {
+  const out: Record<string, number> = {};
+  for (const field of tween.fields) {
+    const a = tween.from[field] as number;
+    const b = tween.to[field] as number;
+    switch (TWEENED[field]) {
+      case 'log':
+        out[field] = Math.exp(Math.log(a) + (Math.log(b) - Math.log(a)) * s);
+        break;
+      case 'angle':
+        // The short way round
+        out[field] = a + Math.atan2(Math.sin(b - a), Math.cos(b - a)) * s;
+        break;
+      default:
+        out[field] = a + (b - a) * s;
+    }
+  }
+  return out as TourChanges;
+}
+
+export function easeTween(step: TourStep, elapsed: number): number {
+  const duration = step.duration ?? DEFAULT_TOUR_DURATION;
+  return duration > 0 ? EASINGS[step.easing ?? 'easeInOut'](Math.min(1, elapsed / duration)) : 1;
+}
+
+// Camera turning accumulated since a step started waiting.
+export interface RotationWatch {
+  direction: Vec3;
+  turned: number;
+}
+
+export function watchRotation(state: SimulationState): RotationWatch {
+  return { direction: computeCameraFrame(state).direction, turned: 0 };
+}
+
+export function updateRotation(watch: RotationWatch, state: SimulationState): RotationWatch {
+  const direction = computeCameraFrame(state).direction;
+  const [a, b] = [watch.direction, direction];
+  const cos = Math.max(-1, Math.min(1, a[0] * b[0] + a[1] * b[1] + a[2] * b[2]));
+  return { direction, turned: watch.turned + Math.acos(cos) };
+}
+
+// How far along a condition is, 0 to 1; 1 means met.
+export function conditionProgress(condition: TourCondition, state: SimulationState, rotation: RotationWatch): number {
+  if (condition.type === 'rotate') {
+    return Math.min(1, rotation.turned / (condition.degrees * Math.PI / 180));
+  }
+  const value = state[condition.field];
+  if (condition.equals !== undefined && value !== condition.equals) return 0;
+  if (condition.min !== undefined && !(typeof value === 'number' && value >= condition.min)) return 0;
+  if (condition.max !== undefined && !(typeof value === 'number' && value <= condition.max)) return 0;
+  return 1;
+}
+
+export interface TourProgress {
+  // Current step, and the steps that led to it for Back
+  step: string;
+  history: string[];
+  completed: boolean;
+}
+
+const STORAGE_KEY = 'ton618:tours';
+
+export function loadTourProgress(): Record<string, TourProgress> {
+  try {
+    const data = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return typeof data === 'object' && data !== null ? data : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveTourProgress(tourId: string, progress: TourProgress) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadTourProgress(), [tourId]: progress }));
+  } catch {
+    // Storage is full or disabled; the tour still runs, it just won't resume
+  }
+}
+
+// Saved progress for `tour`, as long as it still names steps of the tour.
+export function resumeTour(tour: Tour, progress: TourProgress | undefined): TourProgress {
+  const start = { step: tour.steps[0].id, history: [], completed: false };
+  if (!progress || progress.completed || !findStep(tour, progress.step) || !Array.isArray(progress.history)) {
+    return { ...start, completed: progress?.completed === true };
+  }
+  return { step: progress.step, history: progress.history.filter(id => findStep(tour, id)), completed: false };
+}
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { defineUniforms, packUniforms, wgslStruct, UniformValues } from './uniforms';
+import { blackholeUniforms } from '../shaders/blackhole.wgsl';
+
+const layout = defineUniforms([
+  { name: 'a', type: 'f32' },
+  { name: 'pos', type: 'vec3f' },
+  { name: 'b', type: 'f32' },
+  { name: 'uv', type: 'vec2f' },
+  { name: 'flags', type: 'u32' },
+  { name: 'color', type: 'vec4f' },
+  { name: 'n', type: 'i32' },
+]);
+
+const values: UniformValues<typeof layout.fields> = {
+  a: 1.5,
+  pos: [1, 2, 3],
+  b: -2,
+  uv: [0.25, 0.75],
+  flags: 7,
+  color: [0.1, 0.2, 0.3, 0.4],
+  n: -3,
+};
+
+test('offsets follow WGSL/std140 alignment', () => {
+  const offsets = Object.fromEntries(layout.slots.map(s => [s.name, s.offset]));
+  // vec3 aligns to 16 and the following f32 packs into its fourth lane.
+  assert.deepEqual(offsets, { a: 0, pos: 16, b: 28, uv: 32, flags: 40, color: 48, n: 64 });
+});
+
+test('struct size is rounded up to 16 bytes', () => {
+  assert.equal(layout.size, 80);
+  assert.equal(defineUniforms([{ name: 'x', type: 'f32' }]).size, 16);
+  assert.equal(defineUniforms([{ name: 'v', type: 'vec3f' }]).size, 16);
+});
+
+test('vec3 followed by a vec3 is padded to the next 16-byte slot', () => {
+  const l = defineUniforms([
+    { name: 'p', type: 'vec3f' },
+    { name: 'q', type: 'vec3f' },
+  ]);
+  assert.deepEqual(l.slots.map(s => s.offset), [0, 16]);
+  assert.equal(l.size, 32);
+});
+
+test('every slot of the shader layout is aligned and non-overlapping', () => {
+  let end = 0;
+  for (const slot of blackholeUniforms.slots) {
+    assert.equal(slot.offset % slot.align, 0, `${slot.name} is misaligned`);
+    assert.ok(slot.offset >= end, `${slot.name} overlaps the previous field`);
+    end = slot.offset + slot.size;
+  }
+  assert.ok(blackholeUniforms.size >= end);
+  assert.equal(blackholeUniforms.size % 16, 0);
+});
+
+test('generated WGSL struct lists every field in order', () => {
+  const text = wgslStruct('U', layout);
+  assert.match(text, /^struct U \{\n {4}a: f32,\n {4}pos: vec3<f32>,/);
+  assert.equal(text.split('\n').length, layout.slots.length + 2);
+});
+
+test('packs values at their offsets', () => {
+  const view = new DataView(packUniforms(layout, values));
+  assert.equal(view.getFloat32(0, true), 1.5);
+  assert.equal(view.getFloat32(16, true), 1);
+  assert.equal(view.getFloat32(24, true), 3);
+  assert.equal(view.getFloat32(28, true), -2);
+  assert.equal(view.getFloat32(36, true), 0.75);
+  assert.equal(view.getUint32(40, true), 7);
+  assert.equal(view.getFloat32(60, true), Math.fround(0.4));
+  assert.equal(view.getInt32(64, true), -3);
+});
+
+test('rejects invalid schemas', () => {
+  assert.throws(() => defineUniforms([{ name: '1x', type: 'f32' }]), /Invalid uniform name/);
+  assert.throws(() => defineUniforms([
+    { name: 'x', type: 'f32' },
+    { name: 'x', type: 'f32' },
+  ]), /Duplicate uniform "x"/);
+  assert.throws(() => defineUniforms([{ name: 'x', type: 'mat4' as 'f32' }]), /unsupported type/);
+});
+
+test('rejects missing fields', () => {
+  const { pos: _, ...rest } = values;
+  assert.throws(() => packUniforms(layout, rest as typeof values), /Missing uniform "pos"/);
+});
+
+test('rejects unknown fields', () => {
+  assert.throws(() => packUniforms(layout, { ...values, extra: 1 } as typeof values), /Unknown uniform "extra"/);
+});
+
+test('rejects values with the wrong number of components', () => {
+  const bad = { ...values, pos: [1, 2] } as unknown as typeof values;
+  assert.throws(() => packUniforms(layout, bad), /"pos" expects 3 components, got 2/);
+  const scalar = { ...values, a: [1, 2] } as unknown as typeof values;
+  assert.throws(() => packUniforms(layout, scalar), /"a" expects 1 components, got 2/);
+});
+
+test('rejects a buffer smaller than the layout', () => {
+  assert.throws(() => packUniforms(layout, values, new ArrayBuffer(64)), /needs 80/);
+});
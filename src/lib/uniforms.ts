@@ -0,0 +1,140 @@
+// Declarative uniform buffer layouts. A schema lists the fields once; from it
+// we derive the WGSL struct text, offsets and padding following WGSL's
+// host-shareable layout rules, and a packer that writes a plain JS object
+// into an ArrayBuffer. Adding a uniform is then a one-line change. For the
+// scalar and vector types supported here GLSL's std140 rules give the same
+// offsets, so the WebGL2 backend shares the layout as a uniform block.
+
+export type UniformType = 'f32' | 'i32' | 'u32' | 'vec2f' | 'vec3f' | 'vec4f';
+
+export interface UniformField {
+  readonly name: string;
+  readonly type: UniformType;
+  // Emitted as a trailing comment in the generated struct.
+  readonly comment?: string;
+}
+
+export interface UniformSlot extends UniformField {
+  offset: number;
+  size: number;
+  align: number;
+}
+
+export interface UniformLayout<F extends readonly UniformField[] = readonly UniformField[]> {
+  fields: F;
+  slots: UniformSlot[];
+  // Size of the struct including trailing padding, in bytes.
+  size: number;
+}
+
+type ValueOf<T extends UniformType> =
+  T extends 'vec2f' ? readonly [number, number] :
+  T extends 'vec3f' ? readonly [number, number, number] :
+  T extends 'vec4f' ? readonly [number, number, number, number] :
+  number;
+
+export type UniformValues<F extends readonly UniformField[]> = {
+  [K in F[number] as K['name']]: ValueOf<K['type']>;
+};
+
+// Alignment, size, component count and WGSL/GLSL spelling of each type.
+const TYPES: Record<UniformType, { align: number; size: number; components: number; wgsl: string; glsl: string }> = {
+  f32: { align: 4, size: 4, components: 1, wgsl: 'f32', glsl: 'float' },
+  i32: { align: 4, size: 4, components: 1, wgsl: 'i32', glsl: 'int' },
+  u32: { align: 4, size: 4, components: 1, wgsl: 'u32', glsl: 'uint' },
+  vec2f: { align: 8, size: 8, components: 2, wgsl: 'vec2<f32>', glsl: 'vec2' },
+  vec3f: { align: 16, size: 12, components: 3, wgsl: 'vec3<f32>', glsl: 'vec3' },
+  vec4f: { align: 16, size: 16, components: 4, wgsl: 'vec4<f32>', glsl: 'vec4' },
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function roundUp(align: number, n: number): number {
+  return Math.ceil(n / align) * align;
+}
+
+// Lays the fields out in order. Throws on invalid or duplicate names and
+// unknown types, so a bad schema fails when the module loads.
+export function defineUniforms<const F extends readonly UniformField[]>(fields: F): UniformLayout<F> {
+  const slots: UniformSlot[] = [];
+  const seen = new Set<string>();
+  let offset = 0;
+  let structAlign = 4;
+
+  for (const field of fields) {
+    if (!IDENTIFIER.test(field.name)) {
+      throw new Error(`Invalid uniform name "${field.name}".`);
+    }
+    if (seen.has(field.name)) {
+      throw new Error(`Duplicate uniform "${field.name}".`);
+    }
+    const type = TYPES[field.type];
+    if (!type) {
+      throw new Error(`Uniform "${field.name}" has unsupported type "${field.type}".`);
+    }
+    seen.add(field.name);
+    offset = roundUp(type.align, offset);
+    slots.push({ ...field, offset, size: type.size, align: type.align });
+    offset += type.size;
+    structAlign = Math.max(structAlign, type.align);
+  }
+
+  // Uniform buffer structs are rounded to 16 bytes as well.
+  return { fields, slots, size: roundUp(Math.max(structAlign, 16), offset) };
+}
+
+export function wgslStruct(name: string, layout: UniformLayout): string {
+  const lines = layout.slots.map(slot => {
+    const decl = `    ${slot.name}: ${TYPES[slot.type].wgsl},`;
+    return slot.comment ? `${decl} // ${slot.comment}` : decl;
+  });
+  return `struct ${name} {\n${lines.join('\n')}\n};`;
+}
+
+// std140 uniform block; members are accessed as `${instance}.field`, which
+// keeps GLSL ports of WGSL code using `u.field` unchanged.
+export function glslUniformBlock(name: string, instance: string, layout: UniformLayout): string {
+  const lines = layout.slots.map(slot => {
+    const decl = `    ${TYPES[slot.type].glsl} ${slot.name};`;
+    return slot.comment ? `${decl} // ${slot.comment}` : decl;
+  });
+  return `layout(std140) uniform ${name} {\n${lines.join('\n')}\n} ${instance};`;
+}
+
+// Writes `values` into `target` (allocated if omitted). Every field must be
+// present with the right number of components, and unknown keys are
+// rejected, so a schema change that the caller missed fails loudly.
+export function packUniforms<F extends readonly UniformField[]>(
+  layout: UniformLayout<F>,
+  values: UniformValues<F>,
+  target: ArrayBuffer = new ArrayBuffer(layout.size),
+): ArrayBuffer {
+  if (target.byteLength < layout.size) {
+    throw new Error(`Uniform buffer is ${target.byteLength} bytes; the layout needs ${layout.size}.`);
+  }
+  const record = values as Record<string, number | readonly number[]>;
+  for (const key of Object.keys(record)) {
+    if (!layout.slots.some(slot => slot.name === key)) {
+      throw new Error(`Unknown uniform "${key}".`);
+    }
+  }
+
+  const view = new DataView(target);
+  for (const slot of layout.slots) {
+    const value = record[slot.name];
+    if (value === undefined) {
+      throw new Error(`Missing uniform "${slot.name}".`);
+    }
+    const components = typeof value === 'number' ? [value] : value;
+    if (components.length !== TYPES[slot.type].components) {
+      throw new Error(`Uniform "${slot.name}" expects ${TYPES[slot.type].components} components, got ${components.length}.`);
+    }
+    components.forEach((c, i) => {
+      const at = slot.offset + i * 4;
+      if (slot.type === 'i32') view.setInt32(at, c, true);
+      else if (slot.type === 'u32') view.setUint32(at, c, true);
+      else view.setFloat32(at, c, true);
+    });
+  }
+  return target;
+}
@@ -0,0 +1,123 @@
+import { iscoRadius, photonOrbitRadius, horizonRadius, MASS } from './kerr';
+
+// Physical constants (SI)
+export const G = 6.6743e-11;
+export const C = 299792458;
+export const SOLAR_MASS = 1.98847e30;
+export const SOLAR_RADIUS = 6.957e8;
+export const AU = 1.495978707e11;
+export const LIGHT_YEAR = 9.4607304725808e15;
+export const LIGHT_DAY = C * 86400;
+export const PARSEC = 3.0856775814913673e16;
+export const YEAR = 365.25 * 86400;
+
+// Outer edge of the accretion disk in the shader, in Rs.
+export const DISK_OUTER_RS = 25.0;
+
+// The Milky Way hologram is drawn with a 250 Rs radius; the real stellar
+// disk is ~50,000 ly in radius.
+export const HOLOGRAM_RADIUS_RS = 250.0;
+export const MILKY_WAY_RADIUS = 50000 * LIGHT_YEAR;
+
+export function schwarzschildRadius(massSolar: number): number {
+  return (2 * G * massSolar * SOLAR_MASS) / (C * C);
+}
+
+export interface BlackHoleScales {
+  // Everything below is in SI units (metres / seconds).
+  rs: number;
+  horizon: number;
+  photonSphere: number;
+  isco: number;
+  // Period of a prograde circular orbit at the ISCO, as seen from infinity.
+  iscoPeriod: number;
+  // Time for light to cross the accretion disk's outer radius.
+  diskLightCrossing: number;
+  // Real Milky Way radius divided by the hologram radius at this mass.
+  hologramScale: number;
+}
+
+// Derives physical scales from the mass; radii are spin dependent (Kerr).
+export function deriveScales(massSolar: number, spin: number): BlackHoleScales {
+  const rs = schwarzschildRadius(massSolar);
+  const gm = rs / 2; // GM/c² in metres
+  const chi = Math.min(Math.max(spin, 0), 0.998);
+  // Kerr Keplerian angular velocity, Ω = c / (GM/c²) / (x^(3/2) + χ), x = r/M.
+  const x = iscoRadius(spin) / MASS;
+
+  return {
+    rs,
+    horizon: horizonRadius(spin) * rs,
+    photonSphere: photonOrbitRadius(spin) * rs,
+    isco: iscoRadius(spin) * rs,
+    iscoPeriod: (2 * Math.PI * gm * (Math.pow(x, 1.5) + chi)) / C,
+    diskLightCrossing: (DISK_OUTER_RS * rs) / C,
+    hologramScale: MILKY_WAY_RADIUS / (HOLOGRAM_RADIUS_RS * rs),
+  };
+}
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '-': '⁻', '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+};
+
+// 6.6e10 -> "6.6×10¹⁰"
+export function formatScientific(value: number, digits: number = 1): string {
+  if (value === 0) return '0';
+  const exponent = Math.floor(Math.log10(Math.abs(value)));
+  if (exponent >= -2 && exponent < 4) {
+    return value.toLocaleString(undefined, { maximumFractionDigits: digits });
+  }
+  const mantissa = value / Math.pow(10, exponent);
+  const sup = String(exponent).split('').map(ch => SUPERSCRIPTS[ch]).join('');
+  return `${mantissa.toFixed(digits)}×10${sup}`;
+}
+
+export function formatMass(massSolar: number): string {
+  return `${formatScientific(massSolar)} M☉`;
+}
+
+// Picks AU for solar-system-sized lengths and light-years beyond that.
+export function formatLength(metres: number): string {
+  const au = metres / AU;
+  if (au < 0.01) {
+    return `${(metres / 1000).toLocaleString(undefined, { maximumFractionDigits: 0 })} km`;
+  }
+  if (au < 1e5) {
+    return `${au.toLocaleString(undefined, { maximumFractionDigits: au < 10 ? 2 : 0 })} AU`;
+  }
+  return `${formatScientific(metres / LIGHT_YEAR, 2)} ly`;
+}
+
+export function formatDuration(seconds: number): string {
+  const units: [number, string][] = [
+    [YEAR, 'yr'],
+    [86400, 'd'],
+    [3600, 'h'],
+    [60, 'min'],
+    [1, 's'],
+    [1e-3, 'ms'],
+  ];
+  for (const [size, label] of units) {
+    if (seconds >= size) {
+      const value = seconds / size;
+      return `${value.toLocaleString(undefined, { maximumFractionDigits: value < 10 ? 2 : 0 })} ${label}`;
+    }
+  }
+  return `${(seconds * 1e6).toFixed(1)} µs`;
+}
+
+// 2.4e6 -> "1 : 2.4 Million"
+export function formatRatio(ratio: number): string {
+  const names: [number, string][] = [[1e12, 'Trillion'], [1e9, 'Billion'], [1e6, 'Million']];
+  for (const [size, label] of names) {
+    if (ratio >= size) return `1 : ${(ratio / size).toFixed(1)} ${label}`;
+  }
+  return `1 : ${ratio.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+export function massClass(massSolar: number): string {
+  if (massSolar < 100) return 'Stellar-Mass';
+  if (massSolar < 1e5) return 'Intermediate-Mass';
+  if (massSolar < 1e10) return 'Supermassive';
+  return 'Ultramassive';
+}
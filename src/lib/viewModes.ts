@@ -0,0 +1,347 @@
+import { Eye, Grid3x3, Hourglass, Layers, LucideIcon } from 'lucide-react';
+import { SimulationState, RendererBackend } from './renderer';
+import { Vec3 } from './camera';
+import { sampleSpectrumLUT } from './spectrum';
+import { lapse } from './kerr';
+
+// View modes decide how the disk, the jets and the sky are shaded; the ray
+// march itself is shared. Each mode supplies the bodies of up to three
+// functions, per backend, and the shaders are assembled from whatever is
+// registered when a renderer starts (see viewModeWGSL/viewModeGLSL). Modes
+// outside the core register themselves from src/plugins.
+//
+// Hooks, in WGSL (GLSL is the same with its own spelling):
+//   disk: fn(s: DiskSample) -> Shade
+//   jet:  fn(s: JetSample) -> Shade
+//   sky:  fn(dir: vec3<f32>, radiance: vec3<f32>) -> vec3<f32>
+// DiskSample is { p, r, dens, temp, g, T, a }: position, radius, density,
+// the 1/(r - rh) heat factor, the disk's redshift factor, its rest-frame
+// temperature in kelvin and the spin a; p is in the disk's own frame, which
+// tilts with it. JetSample is { p, r, dens, color, doppler } with the band's
+// jet colour and the Doppler factor of the flow towards the camera. Shade is
+// { emit, dens }: the colour emitted per unit opacity and the density the
+// opacity is computed from. The sky hook gets the sky-frame direction and
+// the background's radiance. The uniforms are in scope as `u`. A hook a mode
+// leaves out is the classic one.
+//
+// The cpu hooks are the same functions for lib/reference; without them the
+// reference renders the mode as classic.
+
+export interface ViewModeSnippets {
+  disk?: string;
+  jet?: string;
+  sky?: string;
+}
+
+export interface DiskSample {
+  p: Vec3;
+  r: number;
+  dens: number;
+  temp: number;
+  g: number;
+  T: number;
+  a: number;
+}
+
+export interface JetSample {
+  p: Vec3;
+  r: number;
+  dens: number;
+  color: Vec3;
+  doppler: number;
+}
+
+export interface Shade {
+  emit: Vec3;
+  dens: number;
+}
+
+// What the reference tracer hands the cpu hooks besides the sample.
+export interface ShadeContext {
+  state: SimulationState;
+  time: number;
+  lut: Float32Array;
+  // As the `exposure` uniform
+  exposure: number;
+}
+
+export interface ViewModeCPU {
+  disk?: (s: DiskSample, ctx: ShadeContext) => Shade;
+  jet?: (s: JetSample, ctx: ShadeContext) => Shade;
+  sky?: (dir: Vec3, radiance: Vec3, ctx: ShadeContext) => Vec3;
+}
+
+export interface ViewMode {
+  // Lower-case, saved in scenes
+  id: string;
+  label: string;
+  description: string;
+  icon: LucideIcon;
+  wgsl: ViewModeSnippets;
+  // Without it, or with a hook missing that wgsl has, the mode is WebGPU only
+  glsl?: ViewModeSnippets;
+  cpu?: ViewModeCPU;
+}
+
+type Hook = keyof ViewModeSnippets;
+const HOOKS: Hook[] = ['disk', 'jet', 'sky'];
+
+export const VIEW_MODE_ID = /^[a-z][a-z0-9-]*$/;
+
+const registry: ViewMode[] = [];
+
+export function registerViewMode(mode: ViewMode) {
+  if (!VIEW_MODE_ID.test(mode.id)) {
+    throw new Error(`View mode id "${mode.id}" must be lower-case letters, digits and dashes`);
+  }
+  if (registry.some(m => m.id === mode.id)) {
+    throw new Error(`View mode "${mode.id}" is already registered`);
+  }
+  registry.push(mode);
+}
+
+// Registered modes in shader order; the first is the fallback for unknown ids.
+export function viewModes(): readonly ViewMode[] {
+  return registry;
+}
+
+export function findViewMode(id: string): ViewMode | undefined {
+  return registry.find(m => m.id === id);
+}
+
+// The `viewMode` uniform for a mode id.
+export function viewModeIndex(id: string): number {
+  return Math.max(0, registry.findIndex(m => m.id === id));
+}
+
+export function viewModeSupported(mode: ViewMode, backend: RendererBackend): boolean {
+  return backend === 'webgpu' || HOOKS.every(h => mode.wgsl[h] === undefined || mode.glsl?.[h] !== undefined);
+}
+
+// Scenes from before the registry stored the mode as its index in this list.
+export const LEGACY_VIEW_MODES = ['classic', 'gravity', 'density', 'time'];
+
+const fract = (x: number) => x - Math.floor(x);
+const smoothstep = (e0: number, e1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - e0) / (e1 - e0)));
+  return t * t * (3 - 2 * t);
+};
+const mix = (a: number, b: number, t: number) => a * (1 - t) + b * t;
+
+const JET_ALPHA = 10.0;
+
+registerViewMode({
+  id: 'classic',
+  label: 'Classic (Visible)',
+  description: 'Blackbody disk seen through the selected band, with Doppler beaming and gravitational redshift',
+  icon: Eye,
+  wgsl: {
+    // Novikov-Thorne blackbody observed at g * T, which carries both
+    // Doppler beaming and gravitational redshift
+    disk: `
+    var spec = spectrumSample(u.wavelength, s.g * s.T);
+    return Shade(spec.rgb * exp2(min(spec.w + u.exposure, 6.0) * 3.3219281) * s.dens, s.dens);`,
+    // Optically thin blobs brighten as D^(3 + alpha); a flat spectrum
+    // (alpha = 0) is assumed
+    jet: `
+    return Shade(s.color * s.dens * ${JET_ALPHA.toFixed(1)} * pow(s.doppler, 3.0), s.dens);`,
+    sky: `
+    return radiance;`,
+  },
+  glsl: {
+    disk: `
+    vec4 spec = spectrumSample(u.wavelength, s.g * s.T);
+    return Shade(spec.rgb * exp2(min(spec.w + u.exposure, 6.0) * 3.3219281) * s.dens, s.dens);`,
+    jet: `
+    return Shade(s.color * s.dens * ${JET_ALPHA.toFixed(1)} * pow(s.doppler, 3.0), s.dens);`,
+    sky: `
+    return radiance;`,
+  },
+  cpu: {
+    disk: (s, ctx) => {
+      const spec = sampleSpectrumLUT(ctx.lut, ctx.state.wavelength, s.g * s.T);
+      const e = Math.pow(10, Math.min(spec.logScale + ctx.exposure, 6.0)) * s.dens;
+      return { emit: [spec.color[0] * e, spec.color[1] * e, spec.color[2] * e], dens: s.dens };
+    },
+    jet: s => {
+      const e = s.dens * JET_ALPHA * Math.pow(s.doppler, 3.0);
+      return { emit: [s.color[0] * e, s.color[1] * e, s.color[2] * e], dens: s.dens };
+    },
+    sky: (_dir, radiance) => radiance,
+  },
+});
+
+registerViewMode({
+  id: 'gravity',
+  label: 'Gravity / Spacetime',
+  description: 'A co-rotating grid on the disk plane shows how light bends; jets are hidden',
+  icon: Grid3x3,
+  wgsl: {
+    disk: `
+    var grid = smoothstep(0.0, 0.1, fract(s.r - u.time)) *
+               smoothstep(0.0, 0.1, fract(atan2(s.p.z, s.p.x) * 4.0));
+    var dens = grid * 0.2;
+    return Shade(vec3<f32>(0.0, 1.0, 0.5) * dens * s.temp * 20.0, dens);`,
+    jet: `
+    return Shade(vec3<f32>(0.0), 0.0);`,
+  },
+  glsl: {
+    disk: `
+    float grid = smoothstep(0.0, 0.1, fract(s.r - u.time)) *
+                 smoothstep(0.0, 0.1, fract(atan(s.p.z, s.p.x) * 4.0));
+    float dens = grid * 0.2;
+    return Shade(vec3(0.0, 1.0, 0.5) * dens * s.temp * 20.0, dens);`,
+    jet: `
+    return Shade(vec3(0.0), 0.0);`,
+  },
+  cpu: {
+    disk: (s, ctx) => {
+      const grid = smoothstep(0.0, 0.1, fract(s.r - ctx.time)) *
+                   smoothstep(0.0, 0.1, fract(Math.atan2(s.p[2], s.p[0]) * 4.0));
+      const dens = grid * 0.2;
+      const e = dens * s.temp * 20.0;
+      return { emit: [0.0, e, 0.5 * e], dens };
+    },
+    jet: () => ({ emit: [0, 0, 0], dens: 0 }),
+  },
+});
+
+registerViewMode({
+  id: 'density',
+  label: 'Matter Density',
+  description: 'False colour by gas density, blue where thin and red where thick',
+  icon: Layers,
+  wgsl: {
+    disk: `
+    return Shade(vec3<f32>(s.dens, s.dens * 0.5, 1.0 - s.dens) * s.dens * s.temp * 20.0, s.dens);`,
+    jet: `
+    return Shade(vec3<f32>(1.0, 0.0, 0.0) * s.dens * ${JET_ALPHA.toFixed(1)}, s.dens);`,
+  },
+  glsl: {
+    disk: `
+    return Shade(vec3(s.dens, s.dens * 0.5, 1.0 - s.dens) * s.dens * s.temp * 20.0, s.dens);`,
+    jet: `
+    return Shade(vec3(1.0, 0.0, 0.0) * s.dens * ${JET_ALPHA.toFixed(1)}, s.dens);`,
+  },
+  cpu: {
+    disk: s => {
+      const e = s.dens * s.temp * 20.0;
+      return { emit: [s.dens * e, s.dens * 0.5 * e, (1.0 - s.dens) * e], dens: s.dens };
+    },
+    jet: s => ({ emit: [s.dens * JET_ALPHA, 0, 0], dens: s.dens }),
+  },
+});
+
+registerViewMode({
+  id: 'time',
+  label: 'Time / Energy',
+  description: 'Gravitational time dilation on the disk: red where clocks run slow, blue where they keep pace',
+  icon: Hourglass,
+  wgsl: {
+    disk: `
+    var timeDilation = max(0.0316, kerrLapse(s.r, s.a));
+    return Shade(mix(vec3<f32>(1.0, 0.0, 0.0), vec3<f32>(0.0, 0.5, 1.0), timeDilation) * s.dens * s.temp * 20.0, s.dens);`,
+  },
+  glsl: {
+    disk: `
+    float timeDilation = max(0.0316, kerrLapse(s.r, s.a));
+    return Shade(mix(vec3(1.0, 0.0, 0.0), vec3(0.0, 0.5, 1.0), timeDilation) * s.dens * s.temp * 20.0, s.dens);`,
+  },
+  cpu: {
+    disk: s => {
+      const timeDilation = Math.max(0.0316, lapse(s.r, s.a));
+      const e = s.dens * s.temp * 20.0;
+      return { emit: [mix(1.0, 0.0, timeDilation) * e, mix(0.0, 0.5, timeDilation) * e, mix(0.0, 1.0, timeDilation) * e], dens: s.dens };
+    },
+  },
+});
+
+// Hook bodies for the shaders: the mode's own or, if it has none, classic's.
+function hookBody(modes: readonly ViewMode[], i: number, hook: Hook, glsl: boolean): string | undefined {
+  const snippets = glsl ? modes[i].glsl : modes[i].wgsl;
+  return i === 0 ? snippets?.[hook] ?? '' : snippets?.[hook];
+}
+
+const WGSL_SIGNATURES: Record<Hook, [string, string, string]> = {
+  disk: ['s: DiskSample', 'Shade', 's'],
+  jet: ['s: JetSample', 'Shade', 's'],
+  sky: ['dir: vec3<f32>, radiance: vec3<f32>', 'vec3<f32>', 'dir, radiance'],
+};
+
+const GLSL_SIGNATURES: Record<Hook, [string, string, string]> = {
+  disk: ['DiskSample s', 'Shade', 's'],
+  jet: ['JetSample s', 'Shade', 's'],
+  sky: ['vec3 dir, vec3 radiance', 'vec3', 'dir, radiance'],
+};
+
+const capitalize = (hook: Hook) => hook[0].toUpperCase() + hook.slice(1);
+
+// Structs, per-mode hooks and the viewModeDisk/Jet/Sky dispatchers on
+// `u.viewMode`, for blackhole.wgsl.ts.
+export function viewModeWGSL(modes: readonly ViewMode[]): string {
+  let code = `
+struct DiskSample { p: vec3<f32>, r: f32, dens: f32, temp: f32, g: f32, T: f32, a: f32 };
+struct JetSample { p: vec3<f32>, r: f32, dens: f32, color: vec3<f32>, doppler: f32 };
+struct Shade { emit: vec3<f32>, dens: f32 };
+`;
+  for (const hook of HOOKS) {
+    const [params, result, args] = WGSL_SIGNATURES[hook];
+    const name = `viewMode${capitalize(hook)}`;
+    let cases = '';
+    modes.forEach((mode, i) => {
+      const body = hookBody(modes, i, hook, false);
+      if (body === undefined) return;
+      code += `
+// ${mode.id}
+fn ${name}${i}(${params}) -> ${result} {${body}
+}
+`;
+      if (i > 0) cases += `        case ${i}: { return ${name}${i}(${args}); }\n`;
+    });
+    code += `
+fn ${name}(${params}) -> ${result} {
+    switch (i32(u.viewMode)) {
+${cases}        default: { return ${name}0(${args}); }
+    }
+}
+`;
+  }
+  return code;
+}
+
+// The GLSL counterpart of viewModeWGSL, for blackhole.glsl.ts. It has to come
+// after the helpers the hooks call.
+export function viewModeGLSL(modes: readonly ViewMode[]): string {
+  let code = `
+struct DiskSample { vec3 p; float r; float dens; float temp; float g; float T; float a; };
+struct JetSample { vec3 p; float r; float dens; vec3 color; float doppler; };
+struct Shade { vec3 emit; float dens; };
+`;
+  for (const hook of HOOKS) {
+    const [params, result, args] = GLSL_SIGNATURES[hook];
+    const name = `viewMode${capitalize(hook)}`;
+    let cases = '';
+    modes.forEach((mode, i) => {
+      const body = hookBody(modes, i, hook, true);
+      if (body === undefined) return;
+      code += `
+// ${mode.id}
+${result} ${name}${i}(${params}) {${body}
+}
+`;
+      if (i > 0) cases += `    if (mode == ${i}) { return ${name}${i}(${args}); }\n`;
+    });
+    code += `
+${result} ${name}(${params}) {
+    int mode = int(u.viewMode);
+${cases}    return ${name}0(${args});
+}
+`;
+  }
+  return code;
+}
+
+// The cpu hook the reference uses for a mode id.
+export function viewModeCPU<H extends keyof ViewModeCPU>(id: string, hook: H): NonNullable<ViewModeCPU[H]> {
+  return (findViewMode(id)?.cpu?.[hook] ?? registry[0].cpu![hook])!;
+}
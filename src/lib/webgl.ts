@@ -0,0 +1,430 @@
+import { blackholeVertexGLSL, blackholeFragmentGLSL } from '../shaders/blackhole.glsl';
+import { accumulateVertexGLSL, accumulateFragmentGLSL } from '../shaders/accumulate.glsl';
+import { blackholeUniforms } from '../shaders/blackhole.wgsl';
+import { packUniforms } from './uniforms';
+import { memoizedDiskEmission } from './disk';
+import { spectrumLUT, LUT_SIZE, OBSERVING_BANDS } from './spectrum';
+import { starCatalogData } from './stars';
+import { activeSky, SkyImage } from './skybox';
+import { DEFAULT_STATE, fullView, sceneUniforms, SimulationRenderer, SimulationState } from './renderer';
+import { MAX_STEPS, QualityManager } from './quality';
+import { SimulationClock } from './clock';
+import { accumulateImage, ExportedImage, ExportOptions, ExportTile, TileAccumulator } from './export';
+
+// WebGL2 fallback for browsers without WebGPU. Draws the GLSL port of
+// fs_main on a fullscreen triangle; uniforms are packed with the same schema
+// as the WebGPU path and uploaded as a std140 uniform block.
+export class WebGLBlackHoleRenderer implements SimulationRenderer {
+  public readonly backend = 'webgl2';
+  private canvas: HTMLCanvasElement;
+  private gl!: WebGL2RenderingContext;
+  private program!: WebGLProgram;
+  private vertexArray!: WebGLVertexArrayObject;
+  private uniformBuffer!: WebGLBuffer;
+  private uniformData = new ArrayBuffer(blackholeUniforms.size);
+  private spectrumTexture!: WebGLTexture;
+  private starTexture!: WebGLTexture;
+  private skyTexture!: WebGLTexture;
+  private uploadedSky: SkyImage | null = null;
+  private timer: WebGLFrameTimer | null = null;
+  private emission = memoizedDiskEmission();
+  private animationFrameId: number = 0;
+  private destroyed: boolean = false;
+  private exporting: boolean = false;
+
+  public state: SimulationState = { ...DEFAULT_STATE };
+  public frameTime: number | null = null;
+  public skyImage: SkyImage | null = null;
+  public readonly quality = new QualityManager();
+  public readonly clock = new SimulationClock();
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+  }
+
+  get time(): number {
+    return this.clock.time;
+  }
+
+  async init() {
+    const gl = this.canvas.getContext('webgl2', { antialias: false, depth: false });
+    if (!gl) {
+      throw new Error('WebGL2 not supported on this browser.');
+    }
+    this.gl = gl;
+
+    this.program = createProgram(gl, blackholeVertexGLSL, blackholeFragmentGLSL());
+    gl.useProgram(this.program);
+
+    // No attributes; the vertex shader builds the triangle from gl_VertexID
+    this.vertexArray = gl.createVertexArray()!;
+
+    const blockIndex = gl.getUniformBlockIndex(this.program, 'Uniforms');
+    const blockSize = gl.getActiveUniformBlockParameter(this.program, blockIndex, gl.UNIFORM_BLOCK_DATA_SIZE);
+    if (blockSize > blackholeUniforms.size) {
+      throw new Error(`Uniform block is ${blockSize} bytes; the schema packs ${blackholeUniforms.size}.`);
+    }
+    gl.uniformBlockBinding(this.program, blockIndex, 0);
+    this.uniformBuffer = gl.createBuffer()!;
+    gl.bindBuffer(gl.UNIFORM_BUFFER, this.uniformBuffer);
+    gl.bufferData(gl.UNIFORM_BUFFER, blackholeUniforms.size, gl.DYNAMIC_DRAW);
+    gl.bindBufferBase(gl.UNIFORM_BUFFER, 0, this.uniformBuffer);
+
+    // Spectrum table as a LUT_SIZE x bands float texture, read with texelFetch
+    this.spectrumTexture = gl.createTexture()!;
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.spectrumTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, LUT_SIZE, OBSERVING_BANDS.length, 0, gl.RGBA, gl.FLOAT, spectrumLUT());
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.uniform1i(gl.getUniformLocation(this.program, 'spectrumLUT'), 0);
+
+    // Star catalog as a 2 x stars float texture, one star per row
+    const stars = starCatalogData();
+    this.starTexture = gl.createTexture()!;
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, this.starTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, 2, stars.length / 8, 0, gl.RGBA, gl.FLOAT, stars);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.uniform1i(gl.getUniformLocation(this.program, 'starCatalog'), 4);
+
+    // Black until a panorama is shown. Units 1 and 2 belong to the export.
+    this.skyTexture = gl.createTexture()!;
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, this.skyTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.SRGB8_ALPHA8, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.uniform1i(gl.getUniformLocation(this.program, 'skyTexture'), 3);
+    gl.activeTexture(gl.TEXTURE0);
+
+    const timerQuery = gl.getExtension('EXT_disjoint_timer_query_webgl2');
+    if (timerQuery) {
+      this.timer = new WebGLFrameTimer(gl, timerQuery);
+    }
+
+    this.render();
+  }
+
+  // Follows the canvas's CSS size and the quality manager's render scale
+  private resize() {
+    const [width, height] = this.quality.renderSize(this.canvas.clientWidth, this.canvas.clientHeight);
+    if (this.canvas.width !== width) this.canvas.width = width;
+    if (this.canvas.height !== height) this.canvas.height = height;
+  }
+
+  private updateUniforms() {
+    const { width, height } = this.canvas;
+    const values = sceneUniforms(this.state, this.time, width, height, this.emission(this.state), fullView(width, height, this.quality.steps));
+    packUniforms(blackholeUniforms, values, this.uniformData);
+    this.uploadUniforms(this.uniformData);
+  }
+
+  // Uploads the panorama the state asks for, with its mip chain. A
+  // procedural background keeps whatever was last uploaded.
+  private syncSky(state: SimulationState) {
+    const sky = activeSky(state.background, this.skyImage);
+    if (!sky || sky === this.uploadedSky) return;
+    const gl = this.gl;
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, this.skyTexture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    sky.levels.forEach((level, i) => {
+      gl.texImage2D(gl.TEXTURE_2D, i, gl.SRGB8_ALPHA8, level.width, level.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, level.data);
+    });
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAX_LEVEL, sky.levels.length - 1);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR_MIPMAP_LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.REPEAT);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.activeTexture(gl.TEXTURE0);
+    this.uploadedSky = sky;
+  }
+
+  private uploadUniforms(data: ArrayBuffer) {
+    this.gl.bindBuffer(this.gl.UNIFORM_BUFFER, this.uniformBuffer);
+    this.gl.bufferSubData(this.gl.UNIFORM_BUFFER, 0, data);
+  }
+
+  private render = () => {
+    if (this.destroyed) return;
+    if (this.exporting) {
+      this.animationFrameId = requestAnimationFrame(this.render);
+      return;
+    }
+
+    if (this.frameTime !== null) {
+      this.clock.seek(this.frameTime);
+    } else {
+      this.clock.tick(this.state.timeSpeed);
+    }
+    this.quality.frame();
+    this.resize();
+    this.syncSky(this.state);
+    this.updateUniforms();
+
+    const gl = this.gl;
+    const gpuMs = this.timer?.poll();
+    if (gpuMs != null) this.quality.gpuTime(gpuMs);
+    this.timer?.begin();
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.useProgram(this.program);
+    gl.bindVertexArray(this.vertexArray);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    this.timer?.end();
+
+    this.animationFrameId = requestAnimationFrame(this.render);
+  }
+
+  // The export reuses the live program and uniform buffer, which is why the
+  // render loop stands still until it finishes.
+  public async exportImage(options: ExportOptions): Promise<ExportedImage> {
+    if (this.exporting) {
+      throw new Error('An export is already running.');
+    }
+    const state = { ...(options.state ?? this.state) };
+    const time = options.time ?? this.time;
+    const emission = this.emission(state);
+    const uniformData = new ArrayBuffer(blackholeUniforms.size);
+
+    this.exporting = true;
+    this.syncSky(state);
+    let accumulator: WebGLTileAccumulator | undefined;
+    try {
+      accumulator = new WebGLTileAccumulator(this.gl, this.program, this.vertexArray, data => this.uploadUniforms(data));
+      const pixels = await accumulateImage(accumulator, options, (tile, jitter) => {
+        const values = sceneUniforms(state, time, options.width, options.height, emission, {
+          origin: [tile.x, tile.y],
+          size: [tile.width, tile.height],
+          jitter,
+          tonemap: false,
+          steps: MAX_STEPS,
+        });
+        return packUniforms(blackholeUniforms, values, uniformData);
+      });
+      return { width: options.width, height: options.height, pixels, state, time };
+    } finally {
+      accumulator?.destroy();
+      this.exporting = false;
+    }
+  }
+
+  public destroy() {
+    this.destroyed = true;
+    cancelAnimationFrame(this.animationFrameId);
+    const gl = this.gl;
+    if (!gl) return;
+    this.timer?.destroy();
+    gl.deleteProgram(this.program);
+    gl.deleteVertexArray(this.vertexArray);
+    gl.deleteBuffer(this.uniformBuffer);
+    gl.deleteTexture(this.spectrumTexture);
+    gl.deleteTexture(this.starTexture);
+    gl.deleteTexture(this.skyTexture);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+}
+
+// The parts of EXT_disjoint_timer_query_webgl2 used here; lib.dom lacks it
+interface TimerQueryExtension {
+  TIME_ELAPSED_EXT: GLenum;
+  GPU_DISJOINT_EXT: GLenum;
+}
+
+// Times the live draw with a TIME_ELAPSED query. One query is in flight at
+// a time; results are dropped when the GPU reports a disjoint event, such as
+// a change of clock frequency.
+class WebGLFrameTimer {
+  private gl: WebGL2RenderingContext;
+  private ext: TimerQueryExtension;
+  private query: WebGLQuery | null = null;
+  private timing = false;
+
+  constructor(gl: WebGL2RenderingContext, ext: TimerQueryExtension) {
+    this.gl = gl;
+    this.ext = ext;
+  }
+
+  begin() {
+    if (this.query) return;
+    this.query = this.gl.createQuery();
+    this.gl.beginQuery(this.ext.TIME_ELAPSED_EXT, this.query);
+    this.timing = true;
+  }
+
+  end() {
+    if (!this.timing) return;
+    this.gl.endQuery(this.ext.TIME_ELAPSED_EXT);
+    this.timing = false;
+  }
+
+  // GPU time of the last timed draw in ms, once it is available
+  poll(): number | null {
+    const gl = this.gl;
+    if (!this.query || !gl.getQueryParameter(this.query, gl.QUERY_RESULT_AVAILABLE)) return null;
+    const disjoint = gl.getParameter(this.ext.GPU_DISJOINT_EXT);
+    const ns: number = gl.getQueryParameter(this.query, gl.QUERY_RESULT);
+    gl.deleteQuery(this.query);
+    this.query = null;
+    return disjoint ? null : ns / 1e6;
+  }
+
+  destroy() {
+    if (this.query) this.gl.deleteQuery(this.query);
+  }
+}
+
+function createProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error('Shader compilation failed:\n' + gl.getShaderInfoLog(shader));
+    }
+    return shader;
+  };
+
+  const program = gl.createProgram()!;
+  const vertex = compile(gl.VERTEX_SHADER, vertexSource);
+  const fragment = compile(gl.FRAGMENT_SHADER, fragmentSource);
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error('Shader linking failed:\n' + gl.getProgramInfoLog(program));
+  }
+  return program;
+}
+
+// Resolves once the GPU has finished all commands issued so far.
+function waitForGPU(gl: WebGL2RenderingContext): Promise<void> {
+  const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0)!;
+  gl.flush();
+  return new Promise(resolve => {
+    const poll = () => {
+      if (gl.getSyncParameter(sync, gl.SYNC_STATUS) === gl.SIGNALED) {
+        gl.deleteSync(sync);
+        resolve();
+      } else {
+        setTimeout(poll, 1);
+      }
+    };
+    poll();
+  });
+}
+
+// Float render targets need EXT_color_buffer_float. Samples are drawn into
+// one RGBA32F target and summed into two others used in turn.
+class WebGLTileAccumulator implements TileAccumulator {
+  public readonly maxTileSize = 1024;
+  private gl: WebGL2RenderingContext;
+  private sceneProgram: WebGLProgram;
+  private vertexArray: WebGLVertexArrayObject;
+  private uploadUniforms: (data: ArrayBuffer) => void;
+  private accumulateProgram: WebGLProgram;
+  private textures: WebGLTexture[] = [];
+  private framebuffers: WebGLFramebuffer[] = [];
+  private current = 0;
+  private tile: ExportTile = { x: 0, y: 0, width: 0, height: 0 };
+
+  constructor(
+    gl: WebGL2RenderingContext,
+    sceneProgram: WebGLProgram,
+    vertexArray: WebGLVertexArrayObject,
+    uploadUniforms: (data: ArrayBuffer) => void,
+  ) {
+    if (!gl.getExtension('EXT_color_buffer_float')) {
+      throw new Error('Image export needs float render targets (EXT_color_buffer_float), which this browser lacks.');
+    }
+    this.gl = gl;
+    this.sceneProgram = sceneProgram;
+    this.vertexArray = vertexArray;
+    this.uploadUniforms = uploadUniforms;
+
+    this.accumulateProgram = createProgram(gl, accumulateVertexGLSL, accumulateFragmentGLSL);
+    gl.useProgram(this.accumulateProgram);
+    gl.uniform1i(gl.getUniformLocation(this.accumulateProgram, 'sampleTex'), 1);
+    gl.uniform1i(gl.getUniformLocation(this.accumulateProgram, 'previous'), 2);
+
+    // 0 holds the current sample, 1 and 2 the running sums
+    for (let i = 0; i < 3; i++) {
+      const texture = gl.createTexture()!;
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA32F, this.maxTileSize, this.maxTileSize);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      const framebuffer = gl.createFramebuffer()!;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+      this.textures.push(texture);
+      this.framebuffers.push(framebuffer);
+    }
+    const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    if (status !== gl.FRAMEBUFFER_COMPLETE) {
+      this.destroy();
+      throw new Error(`Float render target is incomplete (0x${status.toString(16)}).`);
+    }
+  }
+
+  begin(tile: ExportTile) {
+    const gl = this.gl;
+    this.tile = tile;
+    this.current = 1;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers[1]);
+    gl.clearBufferfv(gl.COLOR, 0, [0, 0, 0, 0]);
+  }
+
+  async addSample(uniformData: ArrayBuffer) {
+    const gl = this.gl;
+    this.uploadUniforms(uniformData);
+    gl.viewport(0, 0, this.tile.width, this.tile.height);
+    gl.bindVertexArray(this.vertexArray);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers[0]);
+    gl.useProgram(this.sceneProgram);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+    const next = 3 - this.current;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers[next]);
+    gl.useProgram(this.accumulateProgram);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.textures[0]);
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, this.textures[this.current]);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.activeTexture(gl.TEXTURE0);
+    this.current = next;
+
+    await waitForGPU(gl);
+  }
+
+  async read(): Promise<Float32Array> {
+    const gl = this.gl;
+    const { width, height } = this.tile;
+    const rows = new Float32Array(width * height * 4);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers[this.current]);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.FLOAT, rows);
+
+    // readPixels returns rows bottom-up
+    const out = new Float32Array(rows.length);
+    const stride = width * 4;
+    for (let y = 0; y < height; y++) {
+      out.set(rows.subarray((height - 1 - y) * stride, (height - y) * stride), y * stride);
+    }
+    return out;
+  }
+
+  destroy() {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.useProgram(this.sceneProgram);
+    gl.deleteProgram(this.accumulateProgram);
+    this.framebuffers.forEach(framebuffer => gl.deleteFramebuffer(framebuffer));
+    this.textures.forEach(texture => gl.deleteTexture(texture));
+  }
+}
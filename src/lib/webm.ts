@@ -0,0 +1,215 @@
+// Minimal WebM writer for a single VP9/VP8 video track, fed by the WebCodecs
+// VideoEncoder. Like lib/png it avoids a dependency: the file is assembled in
+// memory from EBML elements, with one cluster per keyframe and no cues, which
+// every player we target handles.
+
+export interface EncodedFrame {
+  data: Uint8Array;
+  // Milliseconds from the start
+  timestamp: number;
+  keyframe: boolean;
+}
+
+function vint(size: number): Uint8Array {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const out = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  out[0] |= 1 << (8 - length);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let o = 0;
+  for (const p of parts) {
+    out.set(p, o);
+    o += p.length;
+  }
+  return out;
+}
+
+function element(id: number, ...children: Uint8Array[]): Uint8Array {
+  const idBytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) idBytes.unshift(v % 256);
+  const body = concat(children);
+  return concat([new Uint8Array(idBytes), vint(body.length), body]);
+}
+
+function uint(id: number, value: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+  return element(id, new Uint8Array(bytes));
+}
+
+function float(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function string(id: number, value: string): Uint8Array {
+  return element(id, new TextEncoder().encode(value));
+}
+
+function simpleBlock(frame: EncodedFrame, clusterTime: number): Uint8Array {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // track 1
+  new DataView(header.buffer).setInt16(1, frame.timestamp - clusterTime);
+  header[3] = frame.keyframe ? 0x80 : 0;
+  return element(0xa3, header, frame.data);
+}
+
+export function muxWebM(options: {
+  width: number;
+  height: number;
+  codecId: string;
+  frameDuration: number;
+  frames: EncodedFrame[];
+}): Uint8Array {
+  const { width, height, codecId, frameDuration, frames } = options;
+
+  const clusters: Uint8Array[] = [];
+  let clusterTime = 0;
+  let blocks: Uint8Array[] = [];
+  const flush = () => {
+    if (blocks.length > 0) clusters.push(element(0x1f43b675, uint(0xe7, clusterTime), ...blocks));
+    blocks = [];
+  };
+  for (const frame of frames) {
+    // Block timestamps are signed 16-bit offsets from the cluster time
+    if (blocks.length === 0 || frame.keyframe || frame.timestamp - clusterTime > 30000) {
+      flush();
+      clusterTime = frame.timestamp;
+    }
+    blocks.push(simpleBlock(frame, clusterTime));
+  }
+  flush();
+
+  const duration = frames.length > 0 ? frames[frames.length - 1].timestamp + frameDuration : 0;
+  return concat([
+    element(0x1a45dfa3,
+      uint(0x4286, 1), // EBMLVersion
+      uint(0x42f7, 1), // EBMLReadVersion
+      uint(0x42f2, 4), // EBMLMaxIDLength
+      uint(0x42f3, 8), // EBMLMaxSizeLength
+      string(0x4282, 'webm'),
+      uint(0x4287, 4), // DocTypeVersion
+      uint(0x4285, 2), // DocTypeReadVersion
+    ),
+    element(0x18538067,
+      element(0x1549a966,
+        uint(0x2ad7b1, 1000000), // TimecodeScale: 1 ms
+        string(0x4d80, 'ton618'),
+        string(0x5741, 'ton618'),
+        float(0x4489, duration),
+      ),
+      element(0x1654ae6b,
+        element(0xae,
+          uint(0xd7, 1), // TrackNumber
+          uint(0x73c5, 1), // TrackUID
+          uint(0x83, 1), // TrackType: video
+          string(0x86, codecId),
+          uint(0x23e383, Math.round(frameDuration * 1e6)), // DefaultDuration, ns
+          element(0xe0, uint(0xb0, width), uint(0xba, height)),
+        ),
+      ),
+      ...clusters,
+    ),
+  ]);
+}
+
+const CODECS = [
+  { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+  { codec: 'vp8', codecId: 'V_VP8' },
+];
+
+// Encodes RGBA frames at a fixed frame rate. Timestamps come from the frame
+// index, not the wall clock, so slow offline rendering plays back at speed.
+export class WebMEncoder {
+  private encoder: VideoEncoder;
+  private width: number;
+  private height: number;
+  private fps: number;
+  private codecId: string;
+  private frames: EncodedFrame[] = [];
+  private error: Error | null = null;
+
+  private constructor(width: number, height: number, fps: number, codecId: string, config: VideoEncoderConfig) {
+    this.width = width;
+    this.height = height;
+    this.fps = fps;
+    this.codecId = codecId;
+    this.encoder = new VideoEncoder({
+      output: chunk => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        this.frames.push({ data, timestamp: Math.round(chunk.timestamp / 1000), keyframe: chunk.type === 'key' });
+      },
+      error: e => {
+        this.error = e;
+      },
+    });
+    this.encoder.configure(config);
+  }
+
+  static async create(width: number, height: number, fps: number): Promise<WebMEncoder> {
+    if (typeof VideoEncoder === 'undefined') {
+      throw new Error('WebM export needs the WebCodecs API, which this browser lacks.');
+    }
+    if (width % 2 !== 0 || height % 2 !== 0) {
+      throw new Error(`WebM export needs an even width and height, got ${width}x${height}.`);
+    }
+    for (const { codec, codecId } of CODECS) {
+      const config: VideoEncoderConfig = {
+        codec,
+        width,
+        height,
+        framerate: fps,
+        bitrate: Math.round(width * height * fps * 0.15),
+      };
+      const support = await VideoEncoder.isConfigSupported(config);
+      if (support.supported) return new WebMEncoder(width, height, fps, codecId, config);
+    }
+    throw new Error(`No VP9 or VP8 encoder is available for ${width}x${height}.`);
+  }
+
+  async addFrame(pixels: Uint8ClampedArray, index: number) {
+    if (this.error) throw this.error;
+    const frame = new VideoFrame(pixels, {
+      format: 'RGBA',
+      codedWidth: this.width,
+      codedHeight: this.height,
+      timestamp: Math.round((index * 1e6) / this.fps),
+      duration: Math.round(1e6 / this.fps),
+    });
+    // A keyframe per second keeps clusters short and seeking usable
+    this.encoder.encode(frame, { keyFrame: index % this.fps === 0 });
+    frame.close();
+    while (this.encoder.encodeQueueSize > 2) {
+      await new Promise(resolve => this.encoder.addEventListener('dequeue', resolve, { once: true }));
+    }
+  }
+
+  async finish(): Promise<Blob> {
+    await this.encoder.flush();
+    if (this.error) throw this.error;
+    this.encoder.close();
+    const webm = muxWebM({
+      width: this.width,
+      height: this.height,
+      codecId: this.codecId,
+      frameDuration: 1000 / this.fps,
+      frames: this.frames,
+    });
+    return new Blob([webm], { type: 'video/webm' });
+  }
+
+  close() {
+    if (this.encoder.state !== 'closed') this.encoder.close();
+  }
+}
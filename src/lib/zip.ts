@@ -0,0 +1,76 @@
+import { crc32 } from './png';
+
+// Uncompressed (stored) ZIP archive, used to hand a PNG frame sequence to the
+// browser as a single download. The PNGs are already deflated, so storing
+// them costs nothing; there is no ZIP64, so the archive must stay below 4 GiB.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const MAX_ZIP_SIZE = 0xffffffff;
+
+export function storeZip(entries: ZipEntry[]): Blob {
+  if (entries.length > 0xffff) {
+    throw new Error(`A ZIP holds at most 65535 files, got ${entries.length}.`);
+  }
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = (crc32(entry.data) ^ 0xffffffff) >>> 0;
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const l = new DataView(local.buffer);
+    l.setUint32(0, 0x04034b50, true);
+    l.setUint16(4, 20, true); // version needed
+    l.setUint16(6, 0x0800, true); // UTF-8 names
+    l.setUint16(8, 0, true); // stored
+    l.setUint16(10, 0, true); // time
+    l.setUint16(12, 0x21, true); // date: 1980-01-01
+    l.setUint32(14, crc, true);
+    l.setUint32(18, size, true);
+    l.setUint32(22, size, true);
+    l.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const c = new DataView(record.buffer);
+    c.setUint32(0, 0x02014b50, true);
+    c.setUint16(4, 20, true); // version made by
+    c.setUint16(6, 20, true);
+    c.setUint16(8, 0x0800, true);
+    c.setUint16(10, 0, true);
+    c.setUint16(12, 0, true);
+    c.setUint16(14, 0x21, true);
+    c.setUint32(16, crc, true);
+    c.setUint32(20, size, true);
+    c.setUint32(24, size, true);
+    c.setUint16(28, name.length, true);
+    c.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    parts.push(local, entry.data);
+    central.push(record);
+    offset += local.length + size;
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error('Frame sequence is larger than 4 GiB; lower the resolution or frame count.');
+    }
+  }
+
+  const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+  const end = new Uint8Array(22);
+  const e = new DataView(end.buffer);
+  e.setUint32(0, 0x06054b50, true);
+  e.setUint16(8, entries.length, true);
+  e.setUint16(10, entries.length, true);
+  e.setUint32(12, centralSize, true);
+  e.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+}
@@ -1,5 +1,7 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
+// Before anything reads the view mode registry
+import './plugins';
 import App from './App.tsx';
 import './index.css';
 
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+// Loads every module next to this one. Each registers its view modes (see
+// lib/viewModes) as a side effect, so adding a mode means dropping a file in
+// here; main.tsx imports this ahead of the app.
+import.meta.glob('./*.ts', { eager: true });
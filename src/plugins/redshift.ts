@@ -0,0 +1,37 @@
+import { Waves } from 'lucide-react';
+import { registerViewMode } from '../lib/viewModes';
+
+// Colours the disk by the redshift factor g of its light: red where it
+// arrives redshifted, white at g = 1, blue where Doppler beaming wins.
+// Saturates at a factor of two either way.
+
+const RED = [1.0, 0.15, 0.05] as const;
+const BLUE = [0.1, 0.4, 1.0] as const;
+const literal = (c: readonly number[]) => c.map(x => x.toFixed(2)).join(', ');
+
+registerViewMode({
+  id: 'redshift',
+  label: 'Redshift Map',
+  description: 'Disk coloured by the frequency shift of its light, red below g = 1 and blue above',
+  icon: Waves,
+  wgsl: {
+    disk: `
+    var x = clamp(log2(s.g), -1.0, 1.0);
+    var tint = select(vec3<f32>(${literal(RED)}), vec3<f32>(${literal(BLUE)}), x > 0.0);
+    return Shade(mix(vec3<f32>(1.0), tint, abs(x)) * s.dens * s.temp * 20.0, s.dens);`,
+  },
+  glsl: {
+    disk: `
+    float x = clamp(log2(s.g), -1.0, 1.0);
+    vec3 tint = x > 0.0 ? vec3(${literal(BLUE)}) : vec3(${literal(RED)});
+    return Shade(mix(vec3(1.0), tint, abs(x)) * s.dens * s.temp * 20.0, s.dens);`,
+  },
+  cpu: {
+    disk: s => {
+      const x = Math.min(1, Math.max(-1, Math.log2(s.g)));
+      const tint = x > 0 ? BLUE : RED;
+      const e = s.dens * s.temp * 20.0;
+      return { emit: [0, 1, 2].map(k => (1 - Math.abs(x) + tint[k] * Math.abs(x)) * e) as [number, number, number], dens: s.dens };
+    },
+  },
+});
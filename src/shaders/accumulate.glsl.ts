@@ -0,0 +1,22 @@
+// GLSL ES 3.00 port of accumulate.wgsl.ts for the WebGL2 backend.
+
+export const accumulateVertexGLSL = `#version 300 es
+void main() {
+    vec2 pos = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2)) * 2.0 - 1.0;
+    gl_Position = vec4(pos, 0.0, 1.0);
+}
+`;
+
+export const accumulateFragmentGLSL = `#version 300 es
+precision highp float;
+
+uniform highp sampler2D sampleTex;
+uniform highp sampler2D previous;
+
+out vec4 fragColor;
+
+void main() {
+    ivec2 p = ivec2(gl_FragCoord.xy);
+    fragColor = texelFetch(sampleTex, p, 0) + texelFetch(previous, p, 0);
+}
+`;
@@ -0,0 +1,19 @@
+// Adds one HDR sample to the running sum for image export. The sum lives in
+// two rgba32float targets used in turn, since a pass can't read the texture
+// it renders to and 32-bit float blending is an optional feature.
+export const accumulateWGSL = `
+@group(0) @binding(0) var sampleTex: texture_2d<f32>;
+@group(0) @binding(1) var previous: texture_2d<f32>;
+
+@vertex
+fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> @builtin(position) vec4<f32> {
+    var pos = array<vec2<f32>, 3>(vec2<f32>(-1.0, -1.0), vec2<f32>(3.0, -1.0), vec2<f32>(-1.0, 3.0));
+    return vec4<f32>(pos[vertexIndex], 0.0, 1.0);
+}
+
+@fragment
+fn fs_main(@builtin(position) position: vec4<f32>) -> @location(0) vec4<f32> {
+    let p = vec2<i32>(position.xy);
+    return textureLoad(sampleTex, p, 0) + textureLoad(previous, p, 0);
+}
+`;
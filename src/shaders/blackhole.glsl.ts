@@ -0,0 +1,584 @@
+import { LUT_SIZE, LUT_LOG_T_MIN, LUT_LOG_T_MAX } from '../lib/spectrum';
+import { glslUniformBlock } from '../lib/uniforms';
+import { blackholeUniforms } from './blackhole.wgsl';
+import { SKY_EXPOSURE } from '../lib/skybox';
+import { STAR_PSF } from '../lib/stars';
+import { ViewMode, viewModeGLSL, viewModes } from '../lib/viewModes';
+
+// GLSL ES 3.00 port of blackhole.wgsl.ts for the WebGL2 backend. It mirrors
+// the WGSL line by line (and so lib/reference.ts); any change to the ray loop
+// must be made in all three. The uniform block is generated from the same
+// schema, so the packed buffer is shared between backends. The one
+// exception is tidal debris, which needs compute shaders and so is drawn by
+// WebGPU alone; the star before disruption is drawn here too.
+
+export const blackholeVertexGLSL = `#version 300 es
+out vec2 vUv;
+
+// Fullscreen triangle
+void main() {
+    vec2 pos = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2)) * 2.0 - 1.0;
+    gl_Position = vec4(pos, 0.0, 1.0);
+    vUv = pos * 0.5 + vec2(0.5);
+    vUv.y = 1.0 - vUv.y;
+}
+`;
+
+export const blackholeFragmentGLSL = (modes: readonly ViewMode[] = viewModes()) => `#version 300 es
+precision highp float;
+precision highp int;
+
+${glslUniformBlock('Uniforms', 'u', blackholeUniforms)}
+
+// Blackbody band radiance: x = log T index, y = band; rgb colour, w = log10 scale
+uniform highp sampler2D spectrumLUT;
+// Two texels per star (x = 0, 1; y = star): sky direction and peak radiance, then colour
+uniform highp sampler2D starCatalog;
+// Equirectangular panorama (sRGB, mipmapped) in the sky frame
+uniform highp sampler2D skyTexture;
+
+in vec2 vUv;
+out vec4 fragColor;
+
+// Hash and Noise functions
+vec3 hash33(vec3 p3_in) {
+    vec3 p3 = fract(p3_in * vec3(0.1031, 0.1030, 0.0973));
+    float d = dot(p3, p3.yxz + vec3(33.33, 33.33, 33.33));
+    p3 += vec3(d, d, d);
+    return fract((p3.xxy + p3.yxx) * p3.zyx);
+}
+
+float noise(vec3 p) {
+    vec3 i = floor(p);
+    vec3 f = fract(p);
+    f = f * f * (vec3(3.0, 3.0, 3.0) - 2.0 * f);
+    return mix(
+        mix(mix(hash33(i + vec3(0.0,0.0,0.0)).x, hash33(i + vec3(1.0,0.0,0.0)).x, f.x),
+            mix(hash33(i + vec3(0.0,1.0,0.0)).x, hash33(i + vec3(1.0,1.0,0.0)).x, f.x), f.y),
+        mix(mix(hash33(i + vec3(0.0,0.0,1.0)).x, hash33(i + vec3(1.0,0.0,1.0)).x, f.x),
+            mix(hash33(i + vec3(0.0,1.0,1.0)).x, hash33(i + vec3(1.0,1.0,1.0)).x, f.x), f.y), f.z
+    );
+}
+
+float fbm(vec3 p) {
+    float f = 0.0;
+    float scale = 1.0;
+    vec3 pos = p;
+    for (int i = 0; i < 4; i++) {
+        f += noise(pos) * scale;
+        pos *= 2.0;
+        scale *= 0.5;
+    }
+    return f;
+}
+
+// Null geodesic acceleration, d2p/dl2 = -3/2 h^2 p / r^5 (Rs = 1)
+vec3 geodesicAccel(vec3 p, float h2) {
+    float r2 = dot(p, p);
+    return -1.5 * h2 * p / (r2 * r2 * sqrt(r2));
+}
+
+// The companion's pull, added to the primary's; see blackhole.wgsl.ts
+vec3 companionAccel(vec3 p, vec3 v) {
+    vec3 d = p - u.companionPos;
+    vec3 h = cross(d, v);
+    float r2 = dot(d, d);
+    return -1.5 * u.companionRs * dot(h, h) * d / (r2 * r2 * sqrt(r2));
+}
+
+// Kerr photon in Boyer-Lindquist coordinates; see blackhole.wgsl.ts
+struct KerrRay {
+    vec3 x;
+    vec2 p;  // (p_r, p_theta)
+    float L; // conserved p_phi
+};
+
+struct KerrDeriv {
+    vec3 dx;
+    vec2 dp;
+};
+
+vec3 kerrToCartesian(vec3 x, float a) {
+    float R = sqrt(x.x * x.x + a * a);
+    float s = sin(x.y);
+    return vec3(R * s * cos(x.z), x.x * cos(x.y), R * s * sin(x.z));
+}
+
+KerrRay kerrInit(vec3 pos, vec3 dir, float a) {
+    const float M = 0.5;
+    float w = dot(pos, pos) - a * a;
+    float r = sqrt(0.5 * (w + sqrt(w * w + 4.0 * a * a * pos.y * pos.y)));
+    float th = acos(clamp(pos.y / r, -1.0, 1.0));
+    float ph = atan(pos.z, pos.x);
+
+    float R = sqrt(r * r + a * a);
+    float s = max(sin(th), 1e-4);
+    float c = cos(th);
+    float sig = r * r + a * a * c * c;
+    float delta = r * r - 2.0 * M * r + a * a;
+
+    // Invert the Jacobian of kerrToCartesian for the coordinate velocities
+    float dRho = dir.x * cos(ph) + dir.z * sin(ph);
+    float dPhi = -dir.x * sin(ph) + dir.z * cos(ph);
+    float rdot = R * (r * s * dRho + R * c * dir.y) / sig;
+    float thdot = (R * c * dRho - r * s * dir.y) / sig;
+    float phdot = dPhi / (R * s);
+
+    float gtt = -(1.0 - 2.0 * M * r / sig);
+    float gtph = -2.0 * M * a * r * s * s / sig;
+    float gphph = (r * r + a * a + 2.0 * M * a * a * r * s * s / sig) * s * s;
+    float grr = sig / delta;
+
+    // Null, future-directed tangent
+    float S = grr * rdot * rdot + sig * thdot * thdot + gphph * phdot * phdot;
+    float B = 2.0 * gtph * phdot;
+    float tdot = (-B - sqrt(max(B * B - 4.0 * gtt * S, 0.0))) / (2.0 * gtt);
+    float E = -(gtt * tdot + gtph * phdot);
+
+    return KerrRay(vec3(r, th, ph), vec2(grr * rdot, sig * thdot) / E, (gtph * tdot + gphph * phdot) / E);
+}
+
+// Hamilton's equations for H = 1/2 g^uv p_u p_v (on-shell form)
+KerrDeriv kerrDerivs(vec3 x, vec2 p, float L, float a) {
+    const float M = 0.5;
+    float r = x.x;
+    float s = sin(x.y);
+    float c = cos(x.y);
+    float s2 = max(s * s, 1e-8);
+    float sig = r * r + a * a * c * c;
+    float delta = r * r - 2.0 * M * r + a * a;
+    float P = r * r + a * a - a * L;
+    float dDelta = 2.0 * r - 2.0 * M;
+
+    KerrDeriv outD;
+    outD.dx = vec3(
+        delta * p.x / sig,
+        p.y / sig,
+        (2.0 * M * a * r + (sig - 2.0 * M * r) * L / s2) / (sig * delta)
+    );
+    outD.dp = vec2(
+        -(dDelta * p.x * p.x - 4.0 * r * P / delta + P * P * dDelta / (delta * delta)) / (2.0 * sig),
+        s * c * (L * L / (s2 * s2) - a * a) / sig
+    );
+    return outD;
+}
+
+// RK4 step with the same step control as the WGSL kerrStep
+KerrRay kerrStep(KerrRay ray, float a, float rh) {
+    KerrDeriv d1 = kerrDerivs(ray.x, ray.p, ray.L, a);
+    float h = min(2.0, 0.05 * (1.0 + max(0.0, ray.x.x - 1.0) * 0.3));
+    h *= clamp(abs(sin(ray.x.y)) * 10.0, 0.02, 1.0);
+    h = min(h, 0.1 * (ray.x.x - rh) / max(abs(d1.dx.x), 1e-6));
+    KerrDeriv d2 = kerrDerivs(ray.x + d1.dx * h * 0.5, ray.p + d1.dp * h * 0.5, ray.L, a);
+    KerrDeriv d3 = kerrDerivs(ray.x + d2.dx * h * 0.5, ray.p + d2.dp * h * 0.5, ray.L, a);
+    KerrDeriv d4 = kerrDerivs(ray.x + d3.dx * h, ray.p + d3.dp * h, ray.L, a);
+
+    KerrRay outR = ray;
+    outR.x += (d1.dx + 2.0 * d2.dx + 2.0 * d3.dx + d4.dx) * (h / 6.0);
+    outR.p += (d1.dp + 2.0 * d2.dp + 2.0 * d3.dp + d4.dp) * (h / 6.0);
+    return outR;
+}
+
+// Kerr helpers for the equatorial disk (M = 0.5)
+
+// Page & Thorne (1974) flux profile as P(x)^(1/4); x = sqrt(r/M)
+float novikovThorneProfile(float r, float spin, float rIsco) {
+    float chi = clamp(spin, 1e-4, 0.998);
+    float x = sqrt(r * 2.0);
+    float x0 = sqrt(rIsco * 2.0);
+    if (x <= x0) { return 0.0; }
+
+    float t = acos(chi);
+    float x1 = 2.0 * cos((t - 3.14159265) / 3.0);
+    float x2 = 2.0 * cos((t + 3.14159265) / 3.0);
+    float x3 = -2.0 * cos(t / 3.0);
+    float bracket = x - x0 - 1.5 * chi * log(x / x0)
+        - 3.0 * (x1 - chi) * (x1 - chi) / (x1 * (x1 - x2) * (x1 - x3)) * log((x - x1) / (x0 - x1))
+        - 3.0 * (x2 - chi) * (x2 - chi) / (x2 * (x2 - x1) * (x2 - x3)) * log((x - x2) / (x0 - x2))
+        - 3.0 * (x3 - chi) * (x3 - chi) / (x3 * (x3 - x1) * (x3 - x2)) * log((x - x3) / (x0 - x3));
+    float P = bracket / (x * x * x * x * (x * x * x - 3.0 * x + 2.0 * chi));
+    return pow(max(P, 0.0), 0.25);
+}
+
+// g = 1 / (u^t (1 - Omega lambda)) for gas on a prograde circular orbit
+float diskRedshift(float r, float a, float lambda) {
+    const float sqrtM = 0.70710678;
+    float r32 = pow(r, 1.5);
+    float omega = sqrtM / (r32 + a * sqrtM);
+    float denom = r32 - 1.5 * sqrt(r) + 2.0 * a * sqrtM;
+    if (denom <= 0.0) { return 0.0; }
+    float ut = (r32 + a * sqrtM) / (pow(r, 0.75) * sqrt(denom));
+    return 1.0 / (ut * (1.0 - omega * lambda));
+}
+
+// Band radiance at the given (observed) temperature, linear in log T.
+// Float textures are not filterable in WebGL2, so interpolate by hand.
+vec4 spectrumSample(float band, float temperature) {
+    const int N = ${LUT_SIZE};
+    float logT = log2(max(temperature, 1.0)) * 0.30103;
+    float t = clamp((logT - ${LUT_LOG_T_MIN.toFixed(1)}) / (${LUT_LOG_T_MAX.toFixed(1)} - ${LUT_LOG_T_MIN.toFixed(1)}), 0.0, 1.0) * float(N - 1);
+    int i0 = min(int(t), N - 2);
+    int b = int(band);
+    return mix(texelFetch(spectrumLUT, ivec2(i0, b), 0), texelFetch(spectrumLUT, ivec2(i0 + 1, b), 0), t - float(i0));
+}
+
+// Starlight is treated as a 6000 K blackbody, which an observer with Doppler
+// factor D sees at D * 6000 K. Returned relative to D = 1.
+vec3 starDoppler(float D) {
+    vec4 rest = spectrumSample(u.wavelength, 6000.0);
+    vec4 seen = spectrumSample(u.wavelength, 6000.0 * D);
+    return seen.rgb / max(rest.rgb, vec3(0.05)) * exp2(clamp(seen.w - rest.w, -6.0, 3.0) * 3.3219281);
+}
+
+// Panorama coordinates of a sky direction: RA 0h in the middle, growing to
+// the left, north at the top
+vec2 equirectUV(vec3 d) {
+    return vec2(0.5 - atan(-d.z, d.x) / 6.2831853, 0.5 - asin(clamp(d.y, -1.0, 1.0)) / 3.1415927);
+}
+
+// Change of equirectUV for a change dd of d, continuous across the seam
+vec2 equirectGrad(vec3 d, vec3 dd) {
+    float rho2 = max(d.x * d.x + d.z * d.z, 1e-6);
+    return vec2(-(d.z * dd.x - d.x * dd.z) / (rho2 * 6.2831853), -dd.y / (sqrt(rho2) * 3.1415927));
+}
+
+// Catalog stars as Gaussians STAR_PSF pixels wide on the sky; lensing
+// magnifies them like anything else
+vec3 catalogStars(vec3 d) {
+    float sigma = ${STAR_PSF.toFixed(1)} * 2.0 / u.resolution.y;
+    vec3 col = vec3(0.0);
+    int count = textureSize(starCatalog, 0).y;
+    for (int i = 0; i < count; i++) {
+        vec4 star = texelFetch(starCatalog, ivec2(0, i), 0);
+        vec3 e = d - star.xyz;
+        float q = dot(e, e) / (sigma * sigma);
+        if (q < 16.0) {
+            col += texelFetch(starCatalog, ivec2(1, i), 0).rgb * star.w * exp(-0.5 * q);
+        }
+    }
+    return col;
+}
+
+// Background radiance towards sky direction d, with its screen derivatives
+vec3 skyRadiance(vec3 d, vec3 ddx, vec3 ddy) {
+    vec3 col = vec3(0.0);
+    if (u.skyPanorama > 0.5) {
+        col = textureGrad(skyTexture, equirectUV(d), equirectGrad(d, ddx), equirectGrad(d, ddy)).rgb * ${SKY_EXPOSURE.toFixed(2)};
+    } else {
+        col = vec3(pow(noise(d * 200.0), 25.0) * 2.0);
+    }
+    if (u.showStars > 0.5) {
+        col += catalogStars(d);
+    }
+    return col;
+}
+
+float kerrFrameDragging(float r, float a) {
+    const float M = 0.5;
+    float delta = r * r - 2.0 * M * r + a * a;
+    float r2a2 = r * r + a * a;
+    return 2.0 * M * a * r / (r2a2 * r2a2 - a * a * delta);
+}
+
+float kerrLapse(float r, float a) {
+    const float M = 0.5;
+    float delta = r * r - 2.0 * M * r + a * a;
+    float r2a2 = r * r + a * a;
+    return sqrt(max(0.0, delta * r * r / (r2a2 * r2a2 - a * a * delta)));
+}
+
+// Orientation of the disk at radius r: columns are its in-plane x axis, its
+// normal and its in-plane z axis (see diskFrame in the WGSL)
+mat3 diskFrame(float r) {
+    float tilt = u.diskTilt + u.diskWarp * clamp((r - u.diskInner) / max(u.diskOuter - u.diskInner, 1e-3), 0.0, 1.0);
+    float node = u.diskPrecession * u.time;
+    float mx = cos(node);
+    float mz = sin(node);
+    float c = cos(tilt);
+    float s = sin(tilt);
+    return mat3(
+        vec3(c + mx * mx * (1.0 - c), mz * s, mx * mz * (1.0 - c)),
+        vec3(-mz * s, c, mx * s),
+        vec3(mx * mz * (1.0 - c), -mx * s, c + mz * mz * (1.0 - c))
+    );
+}
+${viewModeGLSL(modes)}
+void main() {
+    vec2 pixel = vUv * u.tileSize + u.tileOrigin + u.jitter;
+    vec2 uv = (pixel / u.resolution - vec2(0.5)) * 2.0;
+    uv.x *= u.resolution.x / u.resolution.y;
+
+    vec3 ro = u.cameraPos;
+    vec3 ww = normalize(u.cameraDir);
+    vec3 uu = normalize(cross(ww, u.cameraUp));
+    vec3 vv = normalize(cross(uu, ww));
+    vec3 rd = normalize(uv.x * uu + uv.y * vv + 1.0 * ww); // 1.0 FOV
+
+    // A moving observer's view ray is aberrated into the static frame, and
+    // everything it sees is shifted by the Doppler factor D = 1/(gamma (1 - beta.n))
+    float doppler = 1.0;
+    vec3 starTint = vec3(1.0);
+    vec3 beta = u.observerVelocity;
+    float b2 = dot(beta, beta);
+    if (b2 > 0.0) {
+        float gamma = 1.0 / sqrt(1.0 - b2);
+        float bd = dot(beta, rd);
+        doppler = 1.0 / (gamma * (1.0 - bd));
+        rd = normalize(rd + ((gamma - 1.0) * bd / b2 - gamma) * beta);
+        starTint = starDoppler(doppler);
+    }
+
+    vec3 p = ro;
+    vec3 v = rd;
+    vec3 h0 = cross(ro, rd);
+    float h2_0 = dot(h0, h0); // Conserved along the exact geodesic
+
+    // Dynamic step size based on scale
+    float base_dt = 0.05;
+    float max_dist = 600.0;
+    int max_steps = int(u.maxSteps);
+    float noiseFreq = 2.0;
+
+    vec3 col = vec3(0.0);
+    float transmit = 1.0;
+    const float RS = 1.0;
+    // Where escaping light came from, and how much of it gets through
+    vec3 skyDir = rd;
+    float skyWeight = 0.0;
+
+    // Spinning holes are traced in the Kerr metric, unless a companion's
+    // pull has to be added to the Cartesian equation
+    bool binary = u.companionRs > 0.0;
+    bool isKerr = u.spin > 0.0 && !binary;
+    float a = min(u.spin, 0.998) * 0.5;
+    float rh = 0.5 + sqrt(0.25 - a * a);
+    float horizon = RS;
+    KerrRay kr = KerrRay(vec3(0.0), vec2(0.0), 0.0);
+    if (isKerr) {
+        kr = kerrInit(ro, rd, a);
+        horizon = rh + 0.005;
+    }
+
+    // Camera blueshift and the photon's L/E about the spin axis
+    float gCam = 1.0 / sqrt(max(1.0 - RS / length(ro), 0.01));
+    float lambda = -cross(ro, rd).y * gCam;
+    if (isKerr) { lambda = kr.L; }
+    // A tilted disk needs L/E about its own normal; exact without spin
+    vec3 camL = -cross(ro, rd) * gCam;
+    bool tilted = u.diskTilt != 0.0 || u.diskWarp != 0.0;
+    // Jet plasma streams out along the axis at jetBeta (units of c)
+    float jetBeta = sqrt(1.0 - 1.0 / (u.jetLorentz * u.jetLorentz));
+    // L/E about the companion's axis, in its units
+    float companionLambda = 0.0;
+    if (binary) { companionLambda = -cross(ro - u.companionPos, rd).y * gCam / u.companionRs; }
+
+    for (int i = 0; i < max_steps; i++) {
+        float r2 = dot(p, p);
+        float r = sqrt(r2);
+        if (isKerr) { r = kr.x.x; }
+
+        if (r < horizon) {
+            // Event horizon
+            break;
+        }
+
+        bool hit_bg = (r > max_dist) || (i == max_steps - 1 && r > 3.0);
+
+        if (hit_bg) {
+            skyDir = normalize(v);
+            skyWeight = transmit;
+            break;
+        }
+
+        // Adaptive step size: smaller near the black hole for accurate lensing, larger further away
+        float dt = base_dt;
+        float r_dist = max(0.0, r - RS);
+        dt = min(2.0, base_dt * (1.0 + r_dist * 0.3));
+        if (binary) {
+            // The same near the companion, scaled to its size
+            float rc = length(p - u.companionPos);
+            if (rc < u.companionRs) { break; }
+            dt = min(dt, base_dt * (u.companionRs + max(0.0, rc - u.companionRs) * 0.3));
+        }
+
+        vec3 start = p;
+        if (isKerr) {
+            vec3 prev = p;
+            kr = kerrStep(kr, a, rh);
+            p = kerrToCartesian(kr.x, a);
+            dt = length(p - prev);
+            v = (p - prev) / max(dt, 1e-6);
+        } else if (u.integrator > 0.5) {
+            // RK4 on the exact equation, refined around the photon sphere
+            dt *= clamp(abs(r - 1.5 * RS) * 2.0, 0.2, 1.0);
+            // The companion's pull stops h^2 being conserved, so it is taken afresh
+            float h2 = h2_0;
+            if (binary) {
+                vec3 hp = cross(p, v);
+                h2 = dot(hp, hp);
+            }
+            vec3 k1v = geodesicAccel(p, h2);
+            if (binary) { k1v += companionAccel(p, v); }
+            vec3 v2 = v + k1v * dt * 0.5;
+            vec3 k2v = geodesicAccel(p + v * dt * 0.5, h2);
+            if (binary) { k2v += companionAccel(p + v * dt * 0.5, v2); }
+            vec3 v3 = v + k2v * dt * 0.5;
+            vec3 k3v = geodesicAccel(p + v2 * dt * 0.5, h2);
+            if (binary) { k3v += companionAccel(p + v2 * dt * 0.5, v3); }
+            vec3 v4 = v + k3v * dt;
+            vec3 k4v = geodesicAccel(p + v3 * dt, h2);
+            if (binary) { k4v += companionAccel(p + v3 * dt, v4); }
+            p += (v + 2.0 * v2 + 2.0 * v3 + v4) * (dt / 6.0);
+            v += (k1v + 2.0 * k2v + 2.0 * k3v + k4v) * (dt / 6.0);
+            // |v| is not conserved here; march volumes by the distance travelled
+            dt *= length(v);
+        } else {
+            // Gravity bending (approximated null geodesic)
+            vec3 h = cross(p, v);
+            float h2 = dot(h, h);
+            vec3 accel = -1.5 * h2 * p / (r2 * r2 * r);
+            if (binary) { accel += companionAccel(p, v); }
+            v = normalize(v + accel * dt);
+            p += v * dt;
+        }
+
+        // A star on its way to disruption, as an opaque sphere, hit if this
+        // step passes through it
+        if (u.starRadius > 0.0) {
+            vec3 seg = p - start;
+            vec3 toStar = u.starPos - start;
+            float along = clamp(dot(toStar, seg) / max(dot(seg, seg), 1e-12), 0.0, 1.0);
+            if (length(toStar - seg * along) < u.starRadius) {
+                col += transmit * vec3(1.0, 0.85, 0.6) * 1.5;
+                transmit = 0.0;
+                break;
+            }
+        }
+
+        // Accretion Disk rendering, at q in the disk's frame (y along its normal)
+        mat3 frame = diskFrame(r);
+        vec3 q = p * frame;
+        float distToDisk = abs(q.y);
+        float diskThickness = u.diskThickness * max(1.0, r * 0.1);
+
+        if (distToDisk < diskThickness && r > u.diskInner && r < min(u.diskOuter, u.diskTidalEdge)) {
+            float dens = smoothstep(diskThickness, 0.0, distToDisk);
+
+            // Swirl inwards and around (Keplerian-ish), plus a visibly
+            // exaggerated frame-dragging swirl for spinning holes
+            float angle = atan(q.z, q.x) - u.time * (1.5 / sqrt(r) + 4.0 * kerrFrameDragging(r, a));
+            float r_anim = r + u.time * 2.0; // move noise inwards
+            vec3 rotP = vec3(cos(angle)*r_anim, q.y, sin(angle)*r_anim);
+
+            dens *= fbm(rotP * noiseFreq);
+
+            if (dens > 0.01) {
+                // The view mode shades the disk; the blackbody inputs are
+                // worked out for all of them
+                float T = u.diskTemperature * novikovThorneProfile(r, u.spin, u.diskIsco);
+                float diskLambda = lambda;
+                if (tilted) { diskLambda = dot(camL, frame[1]); }
+                float g = diskRedshift(r, a, diskLambda) * gCam * doppler;
+                Shade shade = viewModeDisk(DiskSample(q, r, dens, 1.0 / (r - rh + 0.1), g, T, a));
+                float alpha = 1.0 - exp(-shade.dens * dt * 2.0);
+
+                col += transmit * shade.emit * alpha;
+                transmit *= (1.0 - alpha);
+            }
+        }
+
+        // The companion's mini disk, in the orbital plane and in its units;
+        // Schwarzschild, with its ISCO at 3 of its Rs
+        if (binary) {
+            vec3 c = (p - u.companionPos) / u.companionRs;
+            float cr = length(c);
+            float cThickness = u.diskThickness * max(1.0, cr * 0.1);
+            if (abs(c.y) < cThickness && cr > 3.0 && cr < u.companionDiskOuter) {
+                float dens = smoothstep(cThickness, 0.0, abs(c.y));
+                float angle = atan(c.z, c.x) - u.time * 1.5 / sqrt(cr);
+                float r_anim = cr + u.time * 2.0;
+                dens *= fbm(vec3(cos(angle) * r_anim, c.y, sin(angle) * r_anim) * noiseFreq);
+
+                if (dens > 0.01) {
+                    // A lighter hole's disk runs hotter, T0 ~ M^(-1/4)
+                    float T = u.diskTemperature * pow(u.companionRs, -0.25) * novikovThorneProfile(cr, 0.0, 3.0);
+                    float g = diskRedshift(cr, 0.0, companionLambda) * gCam * doppler;
+                    Shade shade = viewModeDisk(DiskSample(c, cr, dens, 1.0 / (cr - 1.0 + 0.1), g, T, 0.0));
+                    float alpha = 1.0 - exp(-shade.dens * dt * 2.0 / u.companionRs);
+
+                    col += transmit * shade.emit * alpha;
+                    transmit *= (1.0 - alpha);
+                }
+            }
+        }
+
+        // Relativistic Jets
+        float cylindricalRadius = length(vec2(p.x, p.z));
+        float jetRadius = 0.5 + r * u.jetSlope; // Highly collimated by default
+
+        if (u.showJets > 0.5 && r > rh && cylindricalRadius < jetRadius && abs(p.y) > RS * 0.5) {
+            float jetDens = fbm(p * noiseFreq * 2.0 - vec3(0.0, sign(p.y)*u.time*15.0, 0.0)) * 0.15;
+            jetDens *= smoothstep(jetRadius, 0.0, cylindricalRadius);
+            jetDens *= smoothstep(u.jetLength, RS, r);
+            jetDens *= u.jetPower;
+            // Doppler factor of the flow towards the camera, which looks back along v
+            float jetDoppler = 1.0 / (u.jetLorentz * (1.0 + jetBeta * sign(p.y) * normalize(v).y));
+
+            vec3 jetColor = vec3(0.2, 0.5, 1.0);
+            if (u.wavelength == 1.0) { jetColor = vec3(0.8, 0.9, 1.0); }
+            else if (u.wavelength == 2.0) { jetColor = vec3(0.1, 0.1, 0.8); }
+            else if (u.wavelength == 3.0) { jetColor = vec3(0.3, 0.1, 0.1); }
+
+            Shade shade = viewModeJet(JetSample(p, r, jetDens, jetColor, jetDoppler));
+            float alpha = 1.0 - exp(-shade.dens * dt);
+            col += transmit * shade.emit * alpha;
+            transmit *= (1.0 - alpha);
+        }
+
+        // Holographic Milky Way Asset
+        if (u.showMilkyWay > 0.5) {
+            float mw_y = p.y + 20.0; // 20 units below the black hole
+            float mw_dist = abs(mw_y);
+            float mw_thickness = 2.0 + cylindricalRadius * 0.02; // Gets thicker at the edges
+
+            if (mw_dist < mw_thickness && cylindricalRadius < 250.0) {
+                float angle = atan(p.z, p.x);
+                float arm = sin(angle * 4.0 - cylindricalRadius * 0.05 + u.time * 0.2);
+                float mw_dens = smoothstep(-0.2, 1.0, arm) * exp(-cylindricalRadius * 0.015) * smoothstep(mw_thickness, 0.0, mw_dist);
+                mw_dens *= (0.5 + 0.5 * fbm(p * 0.1));
+
+                if (mw_dens > 0.01) {
+                    vec3 mw_color = mix(vec3(1.0, 0.8, 0.5), vec3(0.2, 0.5, 1.0), smoothstep(0.0, 50.0, cylindricalRadius));
+
+                    // Add a grid line effect to make it look like a holographic projection
+                    float grid = smoothstep(0.95, 1.0, fract(cylindricalRadius * 0.1)) + smoothstep(0.98, 1.0, fract(angle * 8.0 / 3.14159));
+                    mw_color += vec3(0.0, 1.0, 0.5) * grid * 0.5;
+
+                    vec3 emit = mw_color * mw_dens * 1.5;
+                    float alpha = 1.0 - exp(-mw_dens * dt * 0.5);
+                    col += transmit * emit * alpha;
+                    transmit *= (1.0 - alpha);
+                }
+            }
+        }
+
+        if (transmit < 0.01) { break; }
+    }
+
+    // Background, in the sky's frame
+    vec3 sky = vec3(dot(u.skyX, skyDir), dot(u.skyY, skyDir), dot(u.skyZ, skyDir));
+    vec3 skyDx = dFdx(sky);
+    vec3 skyDy = dFdy(sky);
+    if (skyWeight > 0.0) {
+        col += viewModeSky(sky, skyRadiance(sky, skyDx, skyDy)) * starTint * skyWeight;
+    }
+
+    // Tonemapping (ACES-like)
+    if (u.tonemap > 0.5) {
+        col = (col * (2.51 * col + vec3(0.03))) / (col * (2.43 * col + vec3(0.59)) + vec3(0.14));
+        col = clamp(col, vec3(0.0), vec3(1.0));
+    }
+
+    fragColor = vec4(col, 1.0);
+}
+`;
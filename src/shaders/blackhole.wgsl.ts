@@ -1,20 +1,83 @@
-export const blackholeWGSL = `
-struct Uniforms {
-    resolution: vec2<f32>,
-    cameraPos: vec3<f32>,
-    cameraDir: vec3<f32>,
-    cameraUp: vec3<f32>,
-    time: f32,
-    viewMode: f32,
-    wavelength: f32,
-    showMilkyWay: f32,
-    showJets: f32,
-    pad1: f32,
-    pad2: f32,
-    pad3: f32,
-};
+import { LUT_SIZE, LUT_LOG_T_MIN, LUT_LOG_T_MAX } from '../lib/spectrum';
+import { defineUniforms, wgslStruct } from '../lib/uniforms';
+import { SKY_EXPOSURE } from '../lib/skybox';
+import { STAR_PSF } from '../lib/stars';
+import { ViewMode, viewModeWGSL, viewModes } from '../lib/viewModes';
+import { DEBRIS_GRID } from '../lib/tde';
+
+export const blackholeUniforms = defineUniforms([
+  { name: 'resolution', type: 'vec2f' },
+  { name: 'cameraPos', type: 'vec3f' },
+  { name: 'cameraDir', type: 'vec3f' },
+  { name: 'cameraUp', type: 'vec3f' },
+  { name: 'time', type: 'f32' },
+  { name: 'viewMode', type: 'f32', comment: 'Index in lib/viewModes' },
+  { name: 'wavelength', type: 'f32' },
+  { name: 'showMilkyWay', type: 'f32' },
+  { name: 'showJets', type: 'f32' },
+  { name: 'integrator', type: 'f32', comment: '0 fast, 1 accurate (RK4)' },
+  { name: 'spin', type: 'f32' },
+  { name: 'diskIsco', type: 'f32', comment: 'Zero-torque edge of the Novikov-Thorne profile' },
+  { name: 'diskTemperature', type: 'f32', comment: 'Novikov-Thorne scale T0 in kelvin' },
+  { name: 'exposure', type: 'f32', comment: '-log10 of the band radiance at the peak disk temperature' },
+  // The image is `resolution` pixels; each draw covers the tile at
+  // tileOrigin (top-left, pixels) of size tileSize, offset by jitter
+  { name: 'tileOrigin', type: 'vec2f' },
+  { name: 'jitter', type: 'vec2f' },
+  { name: 'tileSize', type: 'vec2f' },
+  { name: 'tonemap', type: 'f32', comment: '0 writes linear HDR for accumulation' },
+  { name: 'observerVelocity', type: 'vec3f', comment: 'Relative to the static frame, in units of c' },
+  { name: 'skyPanorama', type: 'f32', comment: '1 samples skyTexture, 0 draws procedural stars' },
+  { name: 'showStars', type: 'f32' },
+  // Rows of the rotation from scene to sky directions
+  { name: 'skyX', type: 'vec3f' },
+  { name: 'skyY', type: 'vec3f' },
+  { name: 'skyZ', type: 'vec3f' },
+  { name: 'maxSteps', type: 'f32', comment: 'Ray-march step budget, lowered by lib/quality' },
+  // Disk and jet geometry (see the Source panel); lengths in Rs, angles in radians
+  { name: 'diskInner', type: 'f32' },
+  { name: 'diskOuter', type: 'f32' },
+  { name: 'diskThickness', type: 'f32', comment: 'Half-thickness inside 10 Rs, flaring beyond' },
+  { name: 'diskTilt', type: 'f32' },
+  { name: 'diskWarp', type: 'f32', comment: 'Extra tilt at the outer edge' },
+  { name: 'diskPrecession', type: 'f32', comment: 'Turn rate of the line of nodes, radians per unit time' },
+  { name: 'jetLength', type: 'f32' },
+  { name: 'jetSlope', type: 'f32', comment: 'tan of the opening half-angle' },
+  { name: 'jetLorentz', type: 'f32', comment: 'Bulk Lorentz factor' },
+  { name: 'jetPower', type: 'f32', comment: 'Density scale' },
+  // Binary companion (see lib/binary), held still for the frame
+  { name: 'companionPos', type: 'vec3f' },
+  { name: 'companionRs', type: 'f32', comment: 'Schwarzschild radius in Rs, 0 without a companion' },
+  { name: 'companionDiskOuter', type: 'f32', comment: "In the companion's Rs" },
+  { name: 'diskTidalEdge', type: 'f32', comment: 'Where the companion truncates the disk' },
+  // Tidal disruption (see lib/tde), in Rs
+  { name: 'starPos', type: 'vec3f' },
+  { name: 'starRadius', type: 'f32', comment: '0 once the star is gone' },
+  { name: 'debrisParticles', type: 'f32', comment: '0 without debris, which only WebGPU draws' },
+  { name: 'debrisExtent', type: 'f32', comment: 'Half-width of the debris grid' },
+  { name: 'debrisDensity', type: 'f32', comment: 'Density per particle in a grid cell' },
+  { name: 'debrisTemperature', type: 'f32', comment: 'At the tidal radius, in kelvin' },
+  { name: 'tidalRadius', type: 'f32' },
+]);
+
+// Built from the view modes registered when the renderer starts.
+export const blackholeWGSL = (modes: readonly ViewMode[] = viewModes()) => `
+// The sky's mip level comes from derivatives taken after the ray loop, where
+// every invocation of a quad has arrived but the loop's exits were not uniform
+diagnostic(off, derivative_uniformity);
+
+${wgslStruct('Uniforms', blackholeUniforms)}
 
 @group(0) @binding(0) var<uniform> u: Uniforms;
+// Blackbody band radiance by (band, log T): rgb colour, w = log10 scale
+@group(0) @binding(1) var<storage, read> spectrumLUT: array<vec4<f32>>;
+// Two per star: sky direction and peak radiance, then colour
+@group(0) @binding(2) var<storage, read> starCatalog: array<vec4<f32>>;
+// Equirectangular panorama (sRGB, mipmapped) in the sky frame
+@group(0) @binding(3) var skyTexture: texture_2d<f32>;
+@group(0) @binding(4) var skySampler: sampler;
+// Tidal debris particles per cell of a DEBRIS_GRID³ grid, from shaders/debris.wgsl.ts
+@group(0) @binding(5) var<storage, read> debrisGrid: array<u32>;
 
 struct VertexOutput {
     @builtin(position) position: vec4<f32>,
@@ -66,9 +129,270 @@ fn fbm(p: vec3<f32>) -> f32 {
     return f;
 }
 
+// Null geodesic acceleration, d²p/dλ² = -3/2 h² p / r⁵ (Rs = 1)
+fn geodesicAccel(p: vec3<f32>, h2: f32) -> vec3<f32> {
+    var r2 = dot(p, p);
+    return -1.5 * h2 * p / (r2 * r2 * sqrt(r2));
+}
+
+// The companion's pull, added to the primary's (superposed potentials), with
+// p and h taken about it
+fn companionAccel(p: vec3<f32>, v: vec3<f32>) -> vec3<f32> {
+    var d = p - u.companionPos;
+    var h = cross(d, v);
+    var r2 = dot(d, d);
+    return -1.5 * u.companionRs * dot(h, h) * d / (r2 * r2 * sqrt(r2));
+}
+
+// Kerr photon in Boyer-Lindquist coordinates (r, theta, phi) with the polar
+// axis along +y, normalised to E = 1. (x, z, y) is left-handed, so a hole
+// spinning about +y has a < 0 here, and tracing backwards from the camera
+// flips the sign again: rays are integrated with a = +spin * M.
+struct KerrRay {
+    x: vec3<f32>,
+    p: vec2<f32>, // (p_r, p_theta)
+    L: f32,       // conserved p_phi
+};
+
+struct KerrDeriv {
+    dx: vec3<f32>,
+    dp: vec2<f32>,
+};
+
+fn kerrToCartesian(x: vec3<f32>, a: f32) -> vec3<f32> {
+    var R = sqrt(x.x * x.x + a * a);
+    var s = sin(x.y);
+    return vec3<f32>(R * s * cos(x.z), x.x * cos(x.y), R * s * sin(x.z));
+}
+
+fn kerrInit(pos: vec3<f32>, dir: vec3<f32>, a: f32) -> KerrRay {
+    let M = 0.5;
+    var w = dot(pos, pos) - a * a;
+    var r = sqrt(0.5 * (w + sqrt(w * w + 4.0 * a * a * pos.y * pos.y)));
+    var th = acos(clamp(pos.y / r, -1.0, 1.0));
+    var ph = atan2(pos.z, pos.x);
+
+    var R = sqrt(r * r + a * a);
+    var s = max(sin(th), 1e-4);
+    var c = cos(th);
+    var sig = r * r + a * a * c * c;
+    var delta = r * r - 2.0 * M * r + a * a;
+
+    // Invert the Jacobian of kerrToCartesian for the coordinate velocities
+    var dRho = dir.x * cos(ph) + dir.z * sin(ph);
+    var dPhi = -dir.x * sin(ph) + dir.z * cos(ph);
+    var rdot = R * (r * s * dRho + R * c * dir.y) / sig;
+    var thdot = (R * c * dRho - r * s * dir.y) / sig;
+    var phdot = dPhi / (R * s);
+
+    var gtt = -(1.0 - 2.0 * M * r / sig);
+    var gtph = -2.0 * M * a * r * s * s / sig;
+    var gphph = (r * r + a * a + 2.0 * M * a * a * r * s * s / sig) * s * s;
+    var grr = sig / delta;
+
+    // Null, future-directed tangent
+    var S = grr * rdot * rdot + sig * thdot * thdot + gphph * phdot * phdot;
+    var B = 2.0 * gtph * phdot;
+    var tdot = (-B - sqrt(max(B * B - 4.0 * gtt * S, 0.0))) / (2.0 * gtt);
+    var E = -(gtt * tdot + gtph * phdot);
+
+    return KerrRay(vec3<f32>(r, th, ph), vec2<f32>(grr * rdot, sig * thdot) / E, (gtph * tdot + gphph * phdot) / E);
+}
+
+// Hamilton's equations for H = 1/2 g^uv p_u p_v (on-shell form)
+fn kerrDerivs(x: vec3<f32>, p: vec2<f32>, L: f32, a: f32) -> KerrDeriv {
+    let M = 0.5;
+    var r = x.x;
+    var s = sin(x.y);
+    var c = cos(x.y);
+    var s2 = max(s * s, 1e-8);
+    var sig = r * r + a * a * c * c;
+    var delta = r * r - 2.0 * M * r + a * a;
+    var P = r * r + a * a - a * L;
+    var dDelta = 2.0 * r - 2.0 * M;
+
+    var out: KerrDeriv;
+    out.dx = vec3<f32>(
+        delta * p.x / sig,
+        p.y / sig,
+        (2.0 * M * a * r + (sig - 2.0 * M * r) * L / s2) / (sig * delta)
+    );
+    out.dp = vec2<f32>(
+        -(dDelta * p.x * p.x - 4.0 * r * P / delta + P * P * dDelta / (delta * delta)) / (2.0 * sig),
+        s * c * (L * L / (s2 * s2) - a * a) / sig
+    );
+    return out;
+}
+
+// RK4 step; near the horizon p_r grows like 1/delta, so the affine step is
+// also capped to a fraction of the remaining radial distance, and it shrinks
+// near the poles where the L^2/sin^4 term is stiff.
+fn kerrStep(ray: KerrRay, a: f32, rh: f32) -> KerrRay {
+    var d1 = kerrDerivs(ray.x, ray.p, ray.L, a);
+    var h = min(2.0, 0.05 * (1.0 + max(0.0, ray.x.x - 1.0) * 0.3));
+    h *= clamp(abs(sin(ray.x.y)) * 10.0, 0.02, 1.0);
+    h = min(h, 0.1 * (ray.x.x - rh) / max(abs(d1.dx.x), 1e-6));
+    var d2 = kerrDerivs(ray.x + d1.dx * h * 0.5, ray.p + d1.dp * h * 0.5, ray.L, a);
+    var d3 = kerrDerivs(ray.x + d2.dx * h * 0.5, ray.p + d2.dp * h * 0.5, ray.L, a);
+    var d4 = kerrDerivs(ray.x + d3.dx * h, ray.p + d3.dp * h, ray.L, a);
+
+    var out = ray;
+    out.x += (d1.dx + 2.0 * d2.dx + 2.0 * d3.dx + d4.dx) * (h / 6.0);
+    out.p += (d1.dp + 2.0 * d2.dp + 2.0 * d3.dp + d4.dp) * (h / 6.0);
+    return out;
+}
+
+// Kerr helpers for the equatorial disk (M = 0.5)
+
+// Page & Thorne (1974) flux profile, returned as P(x)^(1/4) so that it scales
+// u.diskTemperature to the local effective temperature; x = sqrt(r/M).
+fn novikovThorneProfile(r: f32, spin: f32, rIsco: f32) -> f32 {
+    var chi = clamp(spin, 1e-4, 0.998);
+    var x = sqrt(r * 2.0);
+    var x0 = sqrt(rIsco * 2.0);
+    if (x <= x0) { return 0.0; }
+
+    var t = acos(chi);
+    var x1 = 2.0 * cos((t - 3.14159265) / 3.0);
+    var x2 = 2.0 * cos((t + 3.14159265) / 3.0);
+    var x3 = -2.0 * cos(t / 3.0);
+    var bracket = x - x0 - 1.5 * chi * log(x / x0)
+        - 3.0 * (x1 - chi) * (x1 - chi) / (x1 * (x1 - x2) * (x1 - x3)) * log((x - x1) / (x0 - x1))
+        - 3.0 * (x2 - chi) * (x2 - chi) / (x2 * (x2 - x1) * (x2 - x3)) * log((x - x2) / (x0 - x2))
+        - 3.0 * (x3 - chi) * (x3 - chi) / (x3 * (x3 - x1) * (x3 - x2)) * log((x - x3) / (x0 - x3));
+    var P = bracket / (x * x * x * x * (x * x * x - 3.0 * x + 2.0 * chi));
+    return pow(max(P, 0.0), 0.25);
+}
+
+// g = 1 / (u^t (1 - Omega lambda)) for gas on a prograde circular orbit, seen
+// from infinity along a photon with angular momentum lambda = L/E about +y
+fn diskRedshift(r: f32, a: f32, lambda: f32) -> f32 {
+    let sqrtM = 0.70710678;
+    var r32 = pow(r, 1.5);
+    var omega = sqrtM / (r32 + a * sqrtM);
+    var denom = r32 - 1.5 * sqrt(r) + 2.0 * a * sqrtM;
+    if (denom <= 0.0) { return 0.0; }
+    var ut = (r32 + a * sqrtM) / (pow(r, 0.75) * sqrt(denom));
+    return 1.0 / (ut * (1.0 - omega * lambda));
+}
+
+// Band radiance of a blackbody at the given (observed) temperature,
+// interpolated linearly in log T
+fn spectrumSample(band: f32, temperature: f32) -> vec4<f32> {
+    let N = ${LUT_SIZE}u;
+    var logT = log2(max(temperature, 1.0)) * 0.30103;
+    var t = clamp((logT - ${LUT_LOG_T_MIN.toFixed(1)}) / (${LUT_LOG_T_MAX.toFixed(1)} - ${LUT_LOG_T_MIN.toFixed(1)}), 0.0, 1.0) * f32(N - 1u);
+    var i0 = min(u32(t), N - 2u);
+    var base = u32(band) * N + i0;
+    return mix(spectrumLUT[base], spectrumLUT[base + 1u], t - f32(i0));
+}
+
+// Starlight is treated as a 6000 K blackbody, which an observer with Doppler
+// factor D sees at D * 6000 K. Returned relative to D = 1.
+fn starDoppler(D: f32) -> vec3<f32> {
+    var rest = spectrumSample(u.wavelength, 6000.0);
+    var seen = spectrumSample(u.wavelength, 6000.0 * D);
+    return seen.rgb / max(rest.rgb, vec3<f32>(0.05)) * exp2(clamp(seen.w - rest.w, -6.0, 3.0) * 3.3219281);
+}
+
+// Panorama coordinates of a sky direction: RA 0h in the middle, growing to
+// the left, north at the top
+fn equirectUV(d: vec3<f32>) -> vec2<f32> {
+    return vec2<f32>(0.5 - atan2(-d.z, d.x) / 6.2831853, 0.5 - asin(clamp(d.y, -1.0, 1.0)) / 3.1415927);
+}
+
+// Change of equirectUV for a change dd of d, continuous across the seam
+fn equirectGrad(d: vec3<f32>, dd: vec3<f32>) -> vec2<f32> {
+    var rho2 = max(d.x * d.x + d.z * d.z, 1e-6);
+    return vec2<f32>(-(d.z * dd.x - d.x * dd.z) / (rho2 * 6.2831853), -dd.y / (sqrt(rho2) * 3.1415927));
+}
+
+// Catalog stars as Gaussians STAR_PSF pixels wide on the sky; lensing
+// magnifies them like anything else
+fn catalogStars(d: vec3<f32>) -> vec3<f32> {
+    var sigma = ${STAR_PSF.toFixed(1)} * 2.0 / u.resolution.y;
+    var col = vec3<f32>(0.0);
+    let count = arrayLength(&starCatalog) / 2u;
+    for (var i = 0u; i < count; i++) {
+        var star = starCatalog[2u * i];
+        var e = d - star.xyz;
+        var q = dot(e, e) / (sigma * sigma);
+        if (q < 16.0) {
+            col += starCatalog[2u * i + 1u].rgb * star.w * exp(-0.5 * q);
+        }
+    }
+    return col;
+}
+
+// Background radiance towards sky direction d, with its screen derivatives
+fn skyRadiance(d: vec3<f32>, ddx: vec3<f32>, ddy: vec3<f32>) -> vec3<f32> {
+    var col = vec3<f32>(0.0);
+    if (u.skyPanorama > 0.5) {
+        col = textureSampleGrad(skyTexture, skySampler, equirectUV(d), equirectGrad(d, ddx), equirectGrad(d, ddy)).rgb * ${SKY_EXPOSURE.toFixed(2)};
+    } else {
+        col = vec3<f32>(pow(noise(d * 200.0), 25.0) * 2.0);
+    }
+    if (u.showStars > 0.5) {
+        col += catalogStars(d);
+    }
+    return col;
+}
+
+fn kerrFrameDragging(r: f32, a: f32) -> f32 {
+    let M = 0.5;
+    var delta = r * r - 2.0 * M * r + a * a;
+    var r2a2 = r * r + a * a;
+    return 2.0 * M * a * r / (r2a2 * r2a2 - a * a * delta);
+}
+
+fn kerrLapse(r: f32, a: f32) -> f32 {
+    let M = 0.5;
+    var delta = r * r - 2.0 * M * r + a * a;
+    var r2a2 = r * r + a * a;
+    return sqrt(max(0.0, delta * r * r / (r2a2 * r2a2 - a * a * delta)));
+}
+
+// Orientation of the disk at radius r: columns are its in-plane x axis, its
+// normal and its in-plane z axis. It leans by diskTilt, plus up to diskWarp
+// more at the outer edge, about a line of nodes that turns at
+// diskPrecession; untilted, this is exactly the identity.
+fn diskFrame(r: f32) -> mat3x3<f32> {
+    var tilt = u.diskTilt + u.diskWarp * clamp((r - u.diskInner) / max(u.diskOuter - u.diskInner, 1e-3), 0.0, 1.0);
+    var node = u.diskPrecession * u.time;
+    var mx = cos(node);
+    var mz = sin(node);
+    var c = cos(tilt);
+    var s = sin(tilt);
+    return mat3x3<f32>(
+        vec3<f32>(c + mx * mx * (1.0 - c), mz * s, mx * mz * (1.0 - c)),
+        vec3<f32>(-mz * s, c, mx * s),
+        vec3<f32>(mx * mz * (1.0 - c), -mx * s, c + mz * mz * (1.0 - c)),
+    );
+}
+
+const DEBRIS_GRID = ${DEBRIS_GRID}u;
+
+// Debris density at p, interpolated between cell centres; zero outside the grid
+fn debrisDensity(p: vec3<f32>) -> f32 {
+    var g = (p / u.debrisExtent * 0.5 + 0.5) * f32(DEBRIS_GRID) - 0.5;
+    if (any(g < vec3<f32>(0.0)) || any(g > vec3<f32>(f32(DEBRIS_GRID - 1u)))) { return 0.0; }
+    var i = vec3<u32>(g);
+    var f = fract(g);
+    var sum = 0.0;
+    for (var k = 0u; k < 8u; k++) {
+        var o = vec3<u32>(k & 1u, (k >> 1u) & 1u, k >> 2u);
+        var c = min(i + o, vec3<u32>(DEBRIS_GRID - 1u));
+        var w = mix(1.0 - f, f, vec3<f32>(o));
+        sum += f32(debrisGrid[(c.z * DEBRIS_GRID + c.y) * DEBRIS_GRID + c.x]) * w.x * w.y * w.z;
+    }
+    return min(sum * u.debrisDensity, 2.0);
+}
+
+${viewModeWGSL(modes)}
 @fragment
 fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
-    var uv = (in.uv - vec2<f32>(0.5)) * 2.0;
+    var pixel = in.uv * u.tileSize + u.tileOrigin + u.jitter;
+    var uv = (pixel / u.resolution - vec2<f32>(0.5)) * 2.0;
     uv.x *= u.resolution.x / u.resolution.y;
 
     var ro = u.cameraPos;
@@ -77,26 +401,75 @@ fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
     var vv = normalize(cross(uu, ww));
     var rd = normalize(uv.x * uu + uv.y * vv + 1.0 * ww); // 1.0 FOV
 
+    // A moving observer's view ray is aberrated into the static frame, and
+    // everything it sees is shifted by the Doppler factor D = 1/(gamma (1 - beta.n))
+    var doppler = 1.0;
+    var starTint = vec3<f32>(1.0);
+    var beta = u.observerVelocity;
+    var b2 = dot(beta, beta);
+    if (b2 > 0.0) {
+        var gamma = 1.0 / sqrt(1.0 - b2);
+        var bd = dot(beta, rd);
+        doppler = 1.0 / (gamma * (1.0 - bd));
+        rd = normalize(rd + ((gamma - 1.0) * bd / b2 - gamma) * beta);
+        starTint = starDoppler(doppler);
+    }
+
     var p = ro;
     var v = rd;
+    var h0 = cross(ro, rd);
+    var h2_0 = dot(h0, h0); // Conserved along the exact geodesic
     
     // Dynamic step size based on scale
     var base_dt = 0.05;
     var max_dist = 600.0;
-    var diskOuter = 25.0;
-    var max_steps = 500;
+    var max_steps = i32(u.maxSteps);
     var noiseFreq = 2.0;
-    var jetOuter = 30.0;
 
     var col = vec3<f32>(0.0);
     var transmit = 1.0;
     let RS = 1.0;
+    // Where escaping light came from, and how much of it gets through
+    var skyDir = rd;
+    var skyWeight = 0.0;
+
+    // Spinning holes are traced in the Kerr metric, unless a companion's
+    // pull has to be added to the Cartesian equation
+    var binary = u.companionRs > 0.0;
+    var isKerr = u.spin > 0.0 && !binary;
+    var a = min(u.spin, 0.998) * 0.5;
+    var rh = 0.5 + sqrt(0.25 - a * a);
+    var horizon = RS;
+    var kr: KerrRay;
+    if (isKerr) {
+        kr = kerrInit(ro, rd, a);
+        horizon = rh + 0.005;
+    }
 
-    for(var i=0; i<500; i++) {
+    // Frequency shift from infinity to the (static) camera, and the photon's
+    // conserved L/E about the spin axis. The physical photon runs opposite to
+    // the traced ray, which flips the Cartesian angular momentum; in Kerr the
+    // left-handed BL phi flips it back.
+    var gCam = 1.0 / sqrt(max(1.0 - RS / length(ro), 0.01));
+    var lambda = -cross(ro, rd).y * gCam;
+    if (isKerr) { lambda = kr.L; }
+    // A tilted disk needs L/E about its own normal. Without spin the angular
+    // momentum vector is conserved and this is exact; with spin it is the
+    // estimate from the camera.
+    var camL = -cross(ro, rd) * gCam;
+    var tilted = u.diskTilt != 0.0 || u.diskWarp != 0.0;
+    // Jet plasma streams out along the axis at jetBeta (units of c)
+    var jetBeta = sqrt(1.0 - 1.0 / (u.jetLorentz * u.jetLorentz));
+    // L/E about the companion's axis, in its units
+    var companionLambda = 0.0;
+    if (binary) { companionLambda = -cross(ro - u.companionPos, rd).y * gCam / u.companionRs; }
+
+    for(var i=0; i<max_steps; i++) {
         var r2 = dot(p, p);
         var r = sqrt(r2);
+        if (isKerr) { r = kr.x.x; }
 
-        if (r < RS) {
+        if (r < horizon) {
             // Event horizon
             break;
         }
@@ -104,9 +477,8 @@ fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
         var hit_bg = (r > max_dist) || (i == max_steps - 1 && r > 3.0);
         
         if (hit_bg) {
-            // Background stars
-            var star = pow(noise(v * 200.0), 25.0) * 2.0;
-            col += vec3<f32>(star) * transmit;
+            skyDir = normalize(v);
+            skyWeight = transmit;
             break;
         }
 
@@ -114,88 +486,158 @@ fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
         var dt = base_dt;
         var r_dist = max(0.0, r - RS);
         dt = min(2.0, base_dt * (1.0 + r_dist * 0.3));
+        if (binary) {
+            // The same near the companion, scaled to its size
+            var rc = length(p - u.companionPos);
+            if (rc < u.companionRs) { break; }
+            dt = min(dt, base_dt * (u.companionRs + max(0.0, rc - u.companionRs) * 0.3));
+        }
+
+        var start = p;
+        if (isKerr) {
+            var prev = p;
+            kr = kerrStep(kr, a, rh);
+            p = kerrToCartesian(kr.x, a);
+            dt = length(p - prev);
+            v = (p - prev) / max(dt, 1e-6);
+        } else if (u.integrator > 0.5) {
+            // RK4 on the exact equation, refined around the photon sphere
+            dt *= clamp(abs(r - 1.5 * RS) * 2.0, 0.2, 1.0);
+            // The companion's pull stops h² being conserved, so it is taken afresh
+            var h2 = h2_0;
+            if (binary) {
+                var hp = cross(p, v);
+                h2 = dot(hp, hp);
+            }
+            var k1v = geodesicAccel(p, h2);
+            if (binary) { k1v += companionAccel(p, v); }
+            var v2 = v + k1v * dt * 0.5;
+            var k2v = geodesicAccel(p + v * dt * 0.5, h2);
+            if (binary) { k2v += companionAccel(p + v * dt * 0.5, v2); }
+            var v3 = v + k2v * dt * 0.5;
+            var k3v = geodesicAccel(p + v2 * dt * 0.5, h2);
+            if (binary) { k3v += companionAccel(p + v2 * dt * 0.5, v3); }
+            var v4 = v + k3v * dt;
+            var k4v = geodesicAccel(p + v3 * dt, h2);
+            if (binary) { k4v += companionAccel(p + v3 * dt, v4); }
+            p += (v + 2.0 * v2 + 2.0 * v3 + v4) * (dt / 6.0);
+            v += (k1v + 2.0 * k2v + 2.0 * k3v + k4v) * (dt / 6.0);
+            // |v| is not conserved here; march volumes by the distance travelled
+            dt *= length(v);
+        } else {
+            // Gravity bending (approximated null geodesic)
+            var h = cross(p, v);
+            var h2 = dot(h, h);
+            var accel = -1.5 * h2 * p / (r2 * r2 * r);
+            if (binary) { accel += companionAccel(p, v); }
+            v = normalize(v + accel * dt);
+            p += v * dt;
+        }
 
-        // Gravity bending (approximated null geodesic)
-        var h = cross(p, v);
-        var h2 = dot(h, h);
-        var accel = -1.5 * h2 * p / (r2 * r2 * r);
-        v = normalize(v + accel * dt);
-        p += v * dt;
+        // A star on its way to disruption, as an opaque sphere, hit if this
+        // step passes through it
+        if (u.starRadius > 0.0) {
+            var seg = p - start;
+            var toStar = u.starPos - start;
+            var along = clamp(dot(toStar, seg) / max(dot(seg, seg), 1e-12), 0.0, 1.0);
+            if (length(toStar - seg * along) < u.starRadius) {
+                col += transmit * vec3<f32>(1.0, 0.85, 0.6) * 1.5;
+                transmit = 0.0;
+                break;
+            }
+        }
 
-        // Accretion Disk rendering
-        var distToDisk = abs(p.y);
-        var diskThickness = 0.5 * max(1.0, r * 0.1);
+        // Accretion Disk rendering, at q in the disk's frame (y along its normal)
+        var frame = diskFrame(r);
+        var q = p * frame;
+        var distToDisk = abs(q.y);
+        var diskThickness = u.diskThickness * max(1.0, r * 0.1);
 
-        if (distToDisk < diskThickness && r > RS * 1.5 && r < diskOuter) {
+        if (distToDisk < diskThickness && r > u.diskInner && r < min(u.diskOuter, u.diskTidalEdge)) {
             var dens = smoothstep(diskThickness, 0.0, distToDisk);
             
-            // Swirl inwards and around (Keplerian-ish)
-            var angle = atan2(p.z, p.x) - u.time * 1.5 / sqrt(r);
+            // Swirl inwards and around (Keplerian-ish), plus a visibly
+            // exaggerated frame-dragging swirl for spinning holes
+            var angle = atan2(q.z, q.x) - u.time * (1.5 / sqrt(r) + 4.0 * kerrFrameDragging(r, a));
             var r_anim = r + u.time * 2.0; // move noise inwards
-            var rotP = vec3<f32>(cos(angle)*r_anim, p.y, sin(angle)*r_anim);
+            var rotP = vec3<f32>(cos(angle)*r_anim, q.y, sin(angle)*r_anim);
 
             dens *= fbm(rotP * noiseFreq);
 
             if (dens > 0.01) {
-                // Doppler beaming
-                var velDir = normalize(cross(vec3<f32>(0.0, 1.0, 0.0), p));
-                var velMag = sqrt(RS / (2.0 * r));
-                var doppler = 1.0 + dot(v, velDir) * velMag * 2.5;
-                doppler = max(0.1, doppler);
-
-                var temp = 1.0 / (r - RS + 0.1);
-                var emitColor = vec3<f32>(1.0, 0.6, 0.2); // Visible default
-
-                if (u.wavelength == 1.0) { // X-Ray
-                    emitColor = vec3<f32>(0.1, 0.5, 1.0);
-                } else if (u.wavelength == 2.0) { // Radio
-                    emitColor = vec3<f32>(1.0, 0.1, 0.1);
-                } else if (u.wavelength == 3.0) { // IR
-                    emitColor = vec3<f32>(0.8, 0.2, 0.0);
-                }
+                // The view mode shades the disk; the blackbody inputs are
+                // worked out for all of them
+                var T = u.diskTemperature * novikovThorneProfile(r, u.spin, u.diskIsco);
+                var diskLambda = lambda;
+                if (tilted) { diskLambda = dot(camL, frame[1]); }
+                var g = diskRedshift(r, a, diskLambda) * gCam * doppler;
+                var shade = viewModeDisk(DiskSample(q, r, dens, 1.0 / (r - rh + 0.1), g, T, a));
+                var alpha = 1.0 - exp(-shade.dens * dt * 2.0);
 
-                if (u.viewMode == 1.0) { // Gravity Grid
-                    emitColor = vec3<f32>(0.0, 1.0, 0.5);
-                    var grid = smoothstep(0.0, 0.1, fract(r - u.time)) * 
-                               smoothstep(0.0, 0.1, fract(atan2(p.z, p.x) * 4.0));
-                    dens = grid * 0.2;
-                    doppler = 1.0;
-                } else if (u.viewMode == 2.0) { // Matter Density
-                    emitColor = vec3<f32>(dens, dens*0.5, 1.0-dens);
-                    doppler = 1.0;
-                } else if (u.viewMode == 3.0) { // Time/Energy
-                    var timeDilation = sqrt(max(0.001, 1.0 - RS/r));
-                    emitColor = mix(vec3<f32>(1.0,0.0,0.0), vec3<f32>(0.0,0.5,1.0), timeDilation);
-                    doppler = 1.0;
-                }
+                col += transmit * shade.emit * alpha;
+                transmit *= (1.0 - alpha);
+            }
+        }
 
-                var emit = emitColor * dens * pow(doppler, 3.0) * temp * 20.0;
-                var alpha = 1.0 - exp(-dens * dt * 2.0);
+        // The companion's mini disk, in the orbital plane and in its units;
+        // Schwarzschild, with its ISCO at 3 of its Rs
+        if (binary) {
+            var c = (p - u.companionPos) / u.companionRs;
+            var cr = length(c);
+            var cThickness = u.diskThickness * max(1.0, cr * 0.1);
+            if (abs(c.y) < cThickness && cr > 3.0 && cr < u.companionDiskOuter) {
+                var dens = smoothstep(cThickness, 0.0, abs(c.y));
+                var angle = atan2(c.z, c.x) - u.time * 1.5 / sqrt(cr);
+                var r_anim = cr + u.time * 2.0;
+                dens *= fbm(vec3<f32>(cos(angle) * r_anim, c.y, sin(angle) * r_anim) * noiseFreq);
 
-                col += transmit * emit * alpha;
+                if (dens > 0.01) {
+                    // A lighter hole's disk runs hotter, T0 ∝ M^(-1/4)
+                    var T = u.diskTemperature * pow(u.companionRs, -0.25) * novikovThorneProfile(cr, 0.0, 3.0);
+                    var g = diskRedshift(cr, 0.0, companionLambda) * gCam * doppler;
+                    var shade = viewModeDisk(DiskSample(c, cr, dens, 1.0 / (cr - 1.0 + 0.1), g, T, 0.0));
+                    var alpha = 1.0 - exp(-shade.dens * dt * 2.0 / u.companionRs);
+
+                    col += transmit * shade.emit * alpha;
+                    transmit *= (1.0 - alpha);
+                }
+            }
+        }
+
+        // Tidal debris, gathered on a grid by shaders/debris.wgsl.ts and shaded
+        // as disk gas. It glows at the disk's peak temperature at the tidal
+        // radius, cooling as r^(-3/4) further out.
+        if (u.debrisParticles > 0.0) {
+            var dens = debrisDensity(p);
+            if (dens > 0.01) {
+                var T = u.debrisTemperature * pow(u.tidalRadius / max(r, u.tidalRadius), 0.75);
+                var shade = viewModeDisk(DiskSample(p, r, dens, 1.0 / (r - rh + 0.1), gCam * doppler, T, a));
+                var alpha = 1.0 - exp(-shade.dens * dt * 2.0);
+                col += transmit * shade.emit * alpha;
                 transmit *= (1.0 - alpha);
             }
         }
 
         // Relativistic Jets
         var cylindricalRadius = length(vec2<f32>(p.x, p.z));
-        var jetRadius = 0.5 + r * 0.05; // Highly collimated
+        var jetRadius = 0.5 + r * u.jetSlope; // Highly collimated by default
         
-        if (u.showJets > 0.5 && r > RS && cylindricalRadius < jetRadius && abs(p.y) > RS * 0.5) {
+        if (u.showJets > 0.5 && r > rh && cylindricalRadius < jetRadius && abs(p.y) > RS * 0.5) {
             var jetDens = fbm(p * noiseFreq * 2.0 - vec3<f32>(0.0, sign(p.y)*u.time*15.0, 0.0)) * 0.15;
             jetDens *= smoothstep(jetRadius, 0.0, cylindricalRadius);
-            jetDens *= smoothstep(jetOuter, RS, r);
+            jetDens *= smoothstep(u.jetLength, RS, r);
+            jetDens *= u.jetPower;
+            // Doppler factor of the flow towards the camera, which looks back along v
+            var jetDoppler = 1.0 / (u.jetLorentz * (1.0 + jetBeta * sign(p.y) * normalize(v).y));
             
             var jetColor = vec3<f32>(0.2, 0.5, 1.0);
             if (u.wavelength == 1.0) { jetColor = vec3<f32>(0.8, 0.9, 1.0); }
             else if (u.wavelength == 2.0) { jetColor = vec3<f32>(0.1, 0.1, 0.8); }
             else if (u.wavelength == 3.0) { jetColor = vec3<f32>(0.3, 0.1, 0.1); }
 
-            if (u.viewMode == 1.0) { jetDens = 0.0; } // Hide in gravity mode
-            if (u.viewMode == 2.0) { jetColor = vec3<f32>(1.0, 0.0, 0.0); }
-
-            var alpha = 1.0 - exp(-jetDens * dt);
-            col += transmit * jetColor * jetDens * 10.0 * alpha;
+            var shade = viewModeJet(JetSample(p, r, jetDens, jetColor, jetDoppler));
+            var alpha = 1.0 - exp(-shade.dens * dt);
+            col += transmit * shade.emit * alpha;
             transmit *= (1.0 - alpha);
         }
 
@@ -229,9 +671,19 @@ fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
         if (transmit < 0.01) { break; }
     }
 
+    // Background, in the sky's frame
+    var sky = vec3<f32>(dot(u.skyX, skyDir), dot(u.skyY, skyDir), dot(u.skyZ, skyDir));
+    var skyDx = dpdx(sky);
+    var skyDy = dpdy(sky);
+    if (skyWeight > 0.0) {
+        col += viewModeSky(sky, skyRadiance(sky, skyDx, skyDy)) * starTint * skyWeight;
+    }
+
     // Tonemapping (ACES-like)
-    col = (col * (2.51 * col + vec3<f32>(0.03))) / (col * (2.43 * col + vec3<f32>(0.59)) + vec3<f32>(0.14));
-    col = clamp(col, vec3<f32>(0.0), vec3<f32>(1.0));
+    if (u.tonemap > 0.5) {
+        col = (col * (2.51 * col + vec3<f32>(0.03))) / (col * (2.43 * col + vec3<f32>(0.59)) + vec3<f32>(0.14));
+        col = clamp(col, vec3<f32>(0.0), vec3<f32>(1.0));
+    }
 
     return vec4<f32>(col, 1.0);
 }
@@ -0,0 +1,120 @@
+import { defineUniforms, wgslStruct } from '../lib/uniforms';
+import { DEBRIS_GRID } from '../lib/tde';
+
+// Tidal debris for the WebGPU backend (see lib/tde). Each invocation carries
+// one particle along a timelike geodesic up to the frame's orbital time,
+// then counts it into the grid cell it ends in; fs_main reads the counts
+// back as a density. Particles keep their own clock, so a frame only
+// integrates the time since the last one. Going back in time, or changing
+// the event, starts them over from the star at the moment of disruption;
+// they then catch up maxSteps steps per frame.
+
+export const debrisUniforms = defineUniforms([
+  // Where, when (orbital time since pericenter, Rs/c) and how fast the star
+  // comes apart
+  { name: 'disruptPos', type: 'vec3f' },
+  { name: 'disruptTime', type: 'f32' },
+  { name: 'disruptVel', type: 'vec3f' },
+  { name: 'starRadius', type: 'f32', comment: 'Rs' },
+  { name: 'until', type: 'f32', comment: 'Orbital time of the frame, Rs/c since pericenter' },
+  { name: 'particles', type: 'f32' },
+  { name: 'epoch', type: 'f32', comment: 'Changes whenever the event does' },
+  { name: 'extent', type: 'f32', comment: 'Half-width of the grid, Rs' },
+  { name: 'maxSteps', type: 'f32', comment: 'Per particle and dispatch' },
+]);
+
+export const DEBRIS_WORKGROUP = 64;
+
+// 32 bytes per particle
+export const DEBRIS_PARTICLE_SIZE = 32;
+
+export const debrisWGSL = `
+${wgslStruct('DebrisUniforms', debrisUniforms)}
+
+// epoch is -epoch - 1 for a particle that fell through the horizon
+struct Particle {
+    pos: vec3<f32>,
+    time: f32,
+    vel: vec3<f32>,
+    epoch: f32,
+};
+
+const GRID = ${DEBRIS_GRID}u;
+
+@group(0) @binding(0) var<uniform> u: DebrisUniforms;
+@group(0) @binding(1) var<storage, read_write> particles: array<Particle>;
+@group(0) @binding(2) var<storage, read_write> grid: array<atomic<u32>>;
+
+// PCG hash, for a fixed spread of particles through the star
+fn pcg(v: u32) -> u32 {
+    var state = v * 747796405u + 2891336453u;
+    var word = ((state >> ((state >> 28u) + 4u)) ^ state) * 277803737u;
+    return (word >> 22u) ^ word;
+}
+
+fn unit(v: u32) -> f32 {
+    return f32(pcg(v)) / 4294967296.0;
+}
+
+// Frozen-in start: spread evenly through the star, all moving with it
+fn birth(i: u32) -> Particle {
+    var z = 2.0 * unit(3u * i) - 1.0;
+    var phi = 6.2831853 * unit(3u * i + 1u);
+    var radius = u.starRadius * pow(unit(3u * i + 2u), 1.0 / 3.0);
+    var s = sqrt(max(0.0, 1.0 - z * z));
+    var offset = radius * vec3<f32>(s * cos(phi), z, s * sin(phi));
+    return Particle(u.disruptPos + offset, u.disruptTime, u.disruptVel, u.epoch);
+}
+
+// Timelike geodesic in the same form as the photons' (Rs = 1, M = 1/2):
+// d²p/dτ² = -M p / r³ - 3/2 h² p / r⁵, h = p × dp/dτ
+fn accel(p: vec3<f32>, v: vec3<f32>) -> vec3<f32> {
+    var h = cross(p, v);
+    var r2 = dot(p, p);
+    return -(0.5 + 1.5 * dot(h, h) / r2) * p / (r2 * sqrt(r2));
+}
+
+@compute @workgroup_size(${DEBRIS_WORKGROUP})
+fn cs_step(@builtin(global_invocation_id) id: vec3<u32>) {
+    var i = id.x;
+    if (i >= u32(u.particles)) { return; }
+
+    var q = particles[i];
+    var absorbed = q.epoch == -u.epoch - 1.0;
+    if ((q.epoch != u.epoch && !absorbed) || u.until < q.time) {
+        q = birth(i);
+        absorbed = false;
+    }
+
+    // RK4 in steps of a small fraction of the local orbital time
+    for (var s = 0; s < i32(u.maxSteps) && !absorbed && q.time < u.until; s++) {
+        var r = length(q.pos);
+        if (r < 1.0) {
+            q.epoch = -u.epoch - 1.0;
+            absorbed = true;
+            break;
+        }
+        var dt = min(0.02 * sqrt(r * r * r / 0.5), u.until - q.time);
+        var k1v = accel(q.pos, q.vel);
+        var v2 = q.vel + k1v * dt * 0.5;
+        var k2v = accel(q.pos + q.vel * dt * 0.5, v2);
+        var v3 = q.vel + k2v * dt * 0.5;
+        var k3v = accel(q.pos + v2 * dt * 0.5, v3);
+        var v4 = q.vel + k3v * dt;
+        var k4v = accel(q.pos + v3 * dt, v4);
+        q.pos += (q.vel + 2.0 * v2 + 2.0 * v3 + v4) * (dt / 6.0);
+        q.vel += (k1v + 2.0 * k2v + 2.0 * k3v + k4v) * (dt / 6.0);
+        // Clamped so that rounding can't put it past the target, which
+        // would start it over on the next frame
+        q.time = min(q.time + dt, u.until);
+    }
+    particles[i] = q;
+
+    // Not yet torn off, or gone
+    if (absorbed || q.time > u.until) { return; }
+    var cell = (q.pos / u.extent * 0.5 + 0.5) * f32(GRID);
+    if (any(cell < vec3<f32>(0.0)) || any(cell >= vec3<f32>(f32(GRID)))) { return; }
+    var c = vec3<u32>(cell);
+    atomicAdd(&grid[(c.z * GRID + c.y) * GRID + c.x], 1u);
+}
+`;